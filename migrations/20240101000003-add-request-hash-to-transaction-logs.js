@@ -0,0 +1,15 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Nullable: rows written before fingerprinting have no stored hash
+    await queryInterface.addColumn('transaction_logs', 'requestHash', {
+      type: Sequelize.STRING(64),
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('transaction_logs', 'requestHash');
+  },
+};
@@ -0,0 +1,14 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('transaction_logs', 'fencingToken', {
+      type: Sequelize.BIGINT,
+      allowNull: true,
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeColumn('transaction_logs', 'fencingToken');
+  },
+};
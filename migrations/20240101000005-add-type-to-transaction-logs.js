@@ -0,0 +1,72 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('transaction_logs', 'type', {
+      type: Sequelize.ENUM('TRANSFER', 'DEPOSIT', 'WITHDRAWAL'),
+      allowNull: false,
+      defaultValue: 'TRANSFER',
+    });
+
+    await queryInterface.addColumn('transaction_logs', 'externalReference', {
+      type: Sequelize.STRING,
+      allowNull: true,
+    });
+
+    // One side of a deposit/withdrawal is external, so both become nullable
+    await queryInterface.changeColumn('transaction_logs', 'fromWalletId', {
+      type: Sequelize.UUID,
+      allowNull: true,
+    });
+
+    await queryInterface.changeColumn('transaction_logs', 'toWalletId', {
+      type: Sequelize.UUID,
+      allowNull: true,
+    });
+
+    // Each type has exactly the wallet sides it moves money between
+    await queryInterface.sequelize.query(`
+      ALTER TABLE transaction_logs
+      ADD CONSTRAINT transaction_logs_wallets_match_type CHECK (
+        ("type" = 'TRANSFER' AND "fromWalletId" IS NOT NULL AND "toWalletId" IS NOT NULL)
+        OR ("type" = 'DEPOSIT' AND "fromWalletId" IS NULL AND "toWalletId" IS NOT NULL)
+        OR ("type" = 'WITHDRAWAL' AND "fromWalletId" IS NOT NULL AND "toWalletId" IS NULL)
+      )
+    `);
+
+    await queryInterface.addIndex('transaction_logs', ['type'], {
+      name: 'transaction_logs_type_idx',
+    });
+
+    // One external payment can only be applied once per operation type
+    await queryInterface.addIndex('transaction_logs', ['type', 'externalReference'], {
+      unique: true,
+      name: 'transaction_logs_type_externalReference_unique',
+    });
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_type_externalReference_unique'
+    );
+    await queryInterface.removeIndex('transaction_logs', 'transaction_logs_type_idx');
+    await queryInterface.sequelize.query(
+      'ALTER TABLE transaction_logs DROP CONSTRAINT transaction_logs_wallets_match_type'
+    );
+
+    await queryInterface.changeColumn('transaction_logs', 'toWalletId', {
+      type: Sequelize.UUID,
+      allowNull: false,
+    });
+
+    await queryInterface.changeColumn('transaction_logs', 'fromWalletId', {
+      type: Sequelize.UUID,
+      allowNull: false,
+    });
+
+    await queryInterface.removeColumn('transaction_logs', 'externalReference');
+    await queryInterface.removeColumn('transaction_logs', 'type');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_transaction_logs_type"');
+  },
+};
@@ -0,0 +1,83 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('ledger_entries', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      transactionId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+      },
+      walletId: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: 'wallets',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      account: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      entryType: {
+        type: Sequelize.ENUM('DEBIT', 'CREDIT'),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: false,
+      },
+      balanceAfter: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('ledger_entries', ['transactionId'], {
+      name: 'ledger_entries_transactionId_idx',
+    });
+
+    await queryInterface.addIndex('ledger_entries', ['walletId', 'createdAt'], {
+      name: 'ledger_entries_walletId_createdAt_idx',
+    });
+
+    await queryInterface.addIndex('ledger_entries', ['account'], {
+      name: 'ledger_entries_account_idx',
+    });
+
+    // Existing wallets enter the ledger with their current balance as an
+    // opening posting against equity (history before this point is not replayed)
+    await queryInterface.sequelize.query(`
+      WITH openings AS (
+        SELECT id AS "walletId", balance, gen_random_uuid() AS "transactionId"
+        FROM wallets
+        WHERE balance <> 0
+      )
+      INSERT INTO ledger_entries
+        (id, "transactionId", "walletId", account, "entryType", amount, "balanceAfter", "createdAt")
+      SELECT gen_random_uuid(), "transactionId", "walletId", 'wallet:' || "walletId",
+             'CREDIT', balance, balance, NOW()
+      FROM openings
+      UNION ALL
+      SELECT gen_random_uuid(), "transactionId", NULL, 'equity:opening-balances',
+             'DEBIT', -balance, NULL, NOW()
+      FROM openings
+    `);
+  },
+
+  async down(queryInterface, Sequelize) {
+    await queryInterface.dropTable('ledger_entries');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_ledger_entries_entryType"');
+  },
+};
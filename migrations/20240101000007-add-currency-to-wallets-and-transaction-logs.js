@@ -0,0 +1,31 @@
+'use strict';
+
+require('dotenv').config();
+
+// Existing wallets and logs predate currencies; they are in the base currency
+const BASE_CURRENCY = (process.env.BASE_CURRENCY || 'USD').toUpperCase();
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    if (!/^[A-Z]{3}$/.test(BASE_CURRENCY)) {
+      throw new Error(`BASE_CURRENCY must be a 3-letter ISO 4217 code, got "${BASE_CURRENCY}"`);
+    }
+
+    await queryInterface.addColumn('wallets', 'currency', {
+      type: Sequelize.STRING(3),
+      allowNull: false,
+      defaultValue: BASE_CURRENCY,
+    });
+
+    await queryInterface.addColumn('transaction_logs', 'currency', {
+      type: Sequelize.STRING(3),
+      allowNull: false,
+      defaultValue: BASE_CURRENCY,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('transaction_logs', 'currency');
+    await queryInterface.removeColumn('wallets', 'currency');
+  },
+};
@@ -0,0 +1,98 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('fx_quotes', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      fromCurrency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      toCurrency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: false,
+      },
+      convertedAmount: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: false,
+      },
+      midRate: {
+        type: Sequelize.DECIMAL(20, 10),
+        allowNull: false,
+      },
+      rate: {
+        type: Sequelize.DECIMAL(20, 10),
+        allowNull: false,
+      },
+      spreadBps: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      provider: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      expiresAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      usedAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      transactionId: {
+        type: Sequelize.UUID,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('fx_quotes', ['expiresAt'], {
+      name: 'fx_quotes_expiresAt_idx',
+    });
+
+    // Cross-currency transfers credit a different amount than they debit
+    await queryInterface.addColumn('transaction_logs', 'toAmount', {
+      type: Sequelize.DECIMAL(19, 4),
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('transaction_logs', 'toCurrency', {
+      type: Sequelize.STRING(3),
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('transaction_logs', 'fxQuoteId', {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: 'fx_quotes',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('transaction_logs', 'fxQuoteId');
+    await queryInterface.removeColumn('transaction_logs', 'toCurrency');
+    await queryInterface.removeColumn('transaction_logs', 'toAmount');
+    await queryInterface.dropTable('fx_quotes');
+  },
+};
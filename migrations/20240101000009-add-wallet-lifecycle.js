@@ -0,0 +1,85 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.addColumn('wallets', 'status', {
+      type: Sequelize.ENUM('ACTIVE', 'FROZEN', 'CLOSED'),
+      allowNull: false,
+      defaultValue: 'ACTIVE',
+    });
+
+    // Creation idempotency for POST /api/wallets (null for seeded wallets)
+    await queryInterface.addColumn('wallets', 'idempotencyKey', {
+      type: Sequelize.STRING,
+      allowNull: true,
+    });
+
+    await queryInterface.addColumn('wallets', 'requestHash', {
+      type: Sequelize.STRING(64),
+      allowNull: true,
+    });
+
+    await queryInterface.addIndex('wallets', ['idempotencyKey'], {
+      unique: true,
+      name: 'wallets_idempotencyKey_unique',
+    });
+
+    await queryInterface.createTable('wallet_status_changes', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      walletId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'wallets',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      fromStatus: {
+        type: Sequelize.ENUM('ACTIVE', 'FROZEN', 'CLOSED'),
+        allowNull: false,
+      },
+      toStatus: {
+        type: Sequelize.ENUM('ACTIVE', 'FROZEN', 'CLOSED'),
+        allowNull: false,
+      },
+      reason: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      actor: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('wallet_status_changes', ['walletId', 'createdAt'], {
+      name: 'wallet_status_changes_walletId_createdAt_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('wallet_status_changes');
+    await queryInterface.sequelize.query(
+      'DROP TYPE IF EXISTS "enum_wallet_status_changes_fromStatus"'
+    );
+    await queryInterface.sequelize.query(
+      'DROP TYPE IF EXISTS "enum_wallet_status_changes_toStatus"'
+    );
+
+    await queryInterface.removeIndex('wallets', 'wallets_idempotencyKey_unique');
+    await queryInterface.removeColumn('wallets', 'requestHash');
+    await queryInterface.removeColumn('wallets', 'idempotencyKey');
+    await queryInterface.removeColumn('wallets', 'status');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_wallets_status"');
+  },
+};
@@ -0,0 +1,98 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('wallet_limits', {
+      walletId: {
+        type: Sequelize.UUID,
+        primaryKey: true,
+        references: {
+          model: 'wallets',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE',
+      },
+      maxSingleTransfer: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: true,
+      },
+      dailyOutgoingTotal: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: true,
+      },
+      hourlyTransferCount: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+      },
+      minRetainedBalance: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.createTable('wallet_limit_changes', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      walletId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'wallets',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      previousLimits: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+      },
+      newLimits: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+      },
+      reason: {
+        type: Sequelize.TEXT,
+        allowNull: false,
+      },
+      actor: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('wallet_limit_changes', ['walletId', 'createdAt'], {
+      name: 'wallet_limit_changes_walletId_createdAt_idx',
+    });
+
+    // Daily totals and hourly counts scan a wallet's recent debits
+    await queryInterface.addIndex('transaction_logs', ['fromWalletId', 'createdAt'], {
+      name: 'transaction_logs_fromWalletId_createdAt_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_fromWalletId_createdAt_idx'
+    );
+    await queryInterface.dropTable('wallet_limit_changes');
+    await queryInterface.dropTable('wallet_limits');
+  },
+};
@@ -0,0 +1,75 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('transfer_batches', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      idempotencyKey: {
+        type: Sequelize.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      requestHash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      mode: {
+        type: Sequelize.ENUM('atomic', 'best-effort'),
+        allowNull: false,
+      },
+      status: {
+        type: Sequelize.ENUM('PENDING', 'COMPLETED', 'PARTIAL', 'FAILED'),
+        allowNull: false,
+        defaultValue: 'PENDING',
+      },
+      legCount: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      results: {
+        type: Sequelize.JSONB,
+        allowNull: true,
+      },
+      fencingToken: {
+        type: Sequelize.BIGINT,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    // Legs are ordinary TransactionLogs, linked to their batch
+    await queryInterface.addColumn('transaction_logs', 'batchId', {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: 'transfer_batches',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT',
+    });
+
+    await queryInterface.addIndex('transaction_logs', ['batchId'], {
+      name: 'transaction_logs_batchId_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex('transaction_logs', 'transaction_logs_batchId_idx');
+    await queryInterface.removeColumn('transaction_logs', 'batchId');
+    await queryInterface.dropTable('transfer_batches');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_transfer_batches_mode"');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_transfer_batches_status"');
+  },
+};
@@ -0,0 +1,72 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.sequelize.query(
+      `ALTER TYPE "enum_transaction_logs_type" ADD VALUE IF NOT EXISTS 'REVERSAL'`
+    );
+
+    // A reversal moves money between the original transfer's two wallets
+    await queryInterface.sequelize.query(
+      'ALTER TABLE transaction_logs DROP CONSTRAINT transaction_logs_wallets_match_type'
+    );
+    await queryInterface.sequelize.query(`
+      ALTER TABLE transaction_logs
+      ADD CONSTRAINT transaction_logs_wallets_match_type CHECK (
+        ("type" IN ('TRANSFER', 'REVERSAL') AND "fromWalletId" IS NOT NULL AND "toWalletId" IS NOT NULL)
+        OR ("type" = 'DEPOSIT' AND "fromWalletId" IS NULL AND "toWalletId" IS NOT NULL)
+        OR ("type" = 'WITHDRAWAL' AND "fromWalletId" IS NOT NULL AND "toWalletId" IS NULL)
+      )
+    `);
+
+    await queryInterface.addColumn('transaction_logs', 'reversalOfId', {
+      type: Sequelize.UUID,
+      allowNull: true,
+      references: {
+        model: 'transaction_logs',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'RESTRICT',
+    });
+
+    await queryInterface.addColumn('transaction_logs', 'reversedAmount', {
+      type: Sequelize.DECIMAL(19, 4),
+      allowNull: false,
+      defaultValue: '0.0000',
+    });
+
+    await queryInterface.addIndex('transaction_logs', ['reversalOfId'], {
+      name: 'transaction_logs_reversalOfId_idx',
+    });
+
+    // Backstop for the service-level cap
+    await queryInterface.sequelize.query(`
+      ALTER TABLE transaction_logs
+      ADD CONSTRAINT transaction_logs_reversed_within_amount
+      CHECK ("reversedAmount" >= 0 AND "reversedAmount" <= amount)
+    `);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(
+      'ALTER TABLE transaction_logs DROP CONSTRAINT transaction_logs_reversed_within_amount'
+    );
+    await queryInterface.removeIndex('transaction_logs', 'transaction_logs_reversalOfId_idx');
+    await queryInterface.removeColumn('transaction_logs', 'reversedAmount');
+    await queryInterface.removeColumn('transaction_logs', 'reversalOfId');
+
+    // Postgres cannot drop an enum value; REVERSAL rows must be gone first
+    await queryInterface.sequelize.query(
+      'ALTER TABLE transaction_logs DROP CONSTRAINT transaction_logs_wallets_match_type'
+    );
+    await queryInterface.sequelize.query(`
+      ALTER TABLE transaction_logs
+      ADD CONSTRAINT transaction_logs_wallets_match_type CHECK (
+        ("type" = 'TRANSFER' AND "fromWalletId" IS NOT NULL AND "toWalletId" IS NOT NULL)
+        OR ("type" = 'DEPOSIT' AND "fromWalletId" IS NULL AND "toWalletId" IS NOT NULL)
+        OR ("type" = 'WITHDRAWAL' AND "fromWalletId" IS NOT NULL AND "toWalletId" IS NULL)
+      )
+    `);
+  },
+};
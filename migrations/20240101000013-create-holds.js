@@ -0,0 +1,111 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Funds reserved by ACTIVE holds; available = balance - heldAmount
+    await queryInterface.addColumn('wallets', 'heldAmount', {
+      type: Sequelize.DECIMAL(19, 4),
+      allowNull: false,
+      defaultValue: '0.0000',
+    });
+
+    await queryInterface.sequelize.query(`
+      ALTER TABLE wallets
+      ADD CONSTRAINT wallets_heldAmount_non_negative CHECK ("heldAmount" >= 0)
+    `);
+
+    await queryInterface.createTable('holds', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      walletId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'wallets',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      toWalletId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'wallets',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      amount: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: false,
+      },
+      capturedAmount: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: true,
+      },
+      status: {
+        type: Sequelize.ENUM('ACTIVE', 'CAPTURED', 'VOIDED', 'EXPIRED'),
+        allowNull: false,
+        defaultValue: 'ACTIVE',
+      },
+      expiresAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      captureTransactionId: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: 'transaction_logs',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      idempotencyKey: {
+        type: Sequelize.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      requestHash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    // The expiry sweeper scans ACTIVE holds by expiresAt
+    await queryInterface.addIndex('holds', ['status', 'expiresAt'], {
+      name: 'holds_status_expiresAt_idx',
+    });
+
+    await queryInterface.addIndex('holds', ['walletId'], {
+      name: 'holds_walletId_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('holds');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_holds_status"');
+    await queryInterface.sequelize.query(
+      'ALTER TABLE wallets DROP CONSTRAINT wallets_heldAmount_non_negative'
+    );
+    await queryInterface.removeColumn('wallets', 'heldAmount');
+  },
+};
@@ -0,0 +1,142 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('scheduled_transfers', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      fromWalletId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'wallets',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      toWalletId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'wallets',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      amount: {
+        type: Sequelize.DECIMAL(19, 4),
+        allowNull: false,
+      },
+      currency: {
+        type: Sequelize.STRING(3),
+        allowNull: false,
+      },
+      runAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      cron: {
+        type: Sequelize.STRING(100),
+        allowNull: true,
+      },
+      status: {
+        type: Sequelize.ENUM('ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED'),
+        allowNull: false,
+        defaultValue: 'ACTIVE',
+      },
+      nextRunAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      attempt: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      retryAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      failureCount: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      maxFailures: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+      },
+      lastRunAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      lastTransactionId: {
+        type: Sequelize.UUID,
+        allowNull: true,
+        references: {
+          model: 'transaction_logs',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      lastErrorCode: {
+        type: Sequelize.STRING(64),
+        allowNull: true,
+      },
+      lastError: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      idempotencyKey: {
+        type: Sequelize.STRING,
+        allowNull: false,
+        unique: true,
+      },
+      requestHash: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    // A schedule is either one-off (runAt) or recurring (cron), never both
+    await queryInterface.sequelize.query(`
+      ALTER TABLE scheduled_transfers
+      ADD CONSTRAINT scheduled_transfers_one_schedule CHECK (("runAt" IS NULL) <> (cron IS NULL))
+    `);
+
+    await queryInterface.sequelize.query(`
+      ALTER TABLE scheduled_transfers
+      ADD CONSTRAINT scheduled_transfers_amount_positive CHECK (amount > 0)
+    `);
+
+    // The scheduler scans ACTIVE schedules by nextRunAt
+    await queryInterface.addIndex('scheduled_transfers', ['status', 'nextRunAt'], {
+      name: 'scheduled_transfers_status_nextRunAt_idx',
+    });
+
+    await queryInterface.addIndex('scheduled_transfers', ['fromWalletId'], {
+      name: 'scheduled_transfers_fromWalletId_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('scheduled_transfers');
+    await queryInterface.sequelize.query(
+      'DROP TYPE IF EXISTS "enum_scheduled_transfers_status"'
+    );
+  },
+};
@@ -0,0 +1,166 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // Transactional outbox: written in the DB transaction that resolves a transfer
+    await queryInterface.createTable('outbox', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      eventType: {
+        type: Sequelize.STRING(64),
+        allowNull: false,
+      },
+      transactionId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'transaction_logs',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      payload: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+      },
+      dispatchedAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    // The dispatcher scans undispatched events oldest first
+    await queryInterface.addIndex('outbox', ['dispatchedAt', 'createdAt'], {
+      name: 'outbox_dispatchedAt_createdAt_idx',
+    });
+
+    await queryInterface.addIndex('outbox', ['transactionId'], {
+      name: 'outbox_transactionId_idx',
+    });
+
+    await queryInterface.createTable('webhook_endpoints', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      url: {
+        type: Sequelize.STRING(2048),
+        allowNull: false,
+      },
+      secret: {
+        type: Sequelize.STRING(128),
+        allowNull: false,
+      },
+      eventTypes: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.createTable('webhook_deliveries', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      eventId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'outbox',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      endpointId: {
+        type: Sequelize.UUID,
+        allowNull: false,
+        references: {
+          model: 'webhook_endpoints',
+          key: 'id',
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'RESTRICT',
+      },
+      status: {
+        type: Sequelize.ENUM('PENDING', 'SUCCEEDED', 'DEAD'),
+        allowNull: false,
+        defaultValue: 'PENDING',
+      },
+      attempts: {
+        type: Sequelize.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      nextAttemptAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      lastStatusCode: {
+        type: Sequelize.INTEGER,
+        allowNull: true,
+      },
+      lastError: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      deliveredAt: {
+        type: Sequelize.DATE,
+        allowNull: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    await queryInterface.addIndex('webhook_deliveries', ['eventId', 'endpointId'], {
+      unique: true,
+      name: 'webhook_deliveries_eventId_endpointId_unique',
+    });
+
+    await queryInterface.addIndex('webhook_deliveries', ['status', 'nextAttemptAt'], {
+      name: 'webhook_deliveries_status_nextAttemptAt_idx',
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('webhook_deliveries');
+    await queryInterface.sequelize.query(
+      'DROP TYPE IF EXISTS "enum_webhook_deliveries_status"'
+    );
+    await queryInterface.dropTable('webhook_endpoints');
+    await queryInterface.dropTable('outbox');
+  },
+};
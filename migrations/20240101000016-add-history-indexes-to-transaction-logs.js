@@ -0,0 +1,46 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface) {
+    // History pages walk these newest first from a (createdAt, id) cursor,
+    // one index per side of the transfer. Built CONCURRENTLY so transfers
+    // keep writing to transaction_logs meanwhile.
+    await queryInterface.addIndex('transaction_logs', ['fromWalletId', 'createdAt', 'id'], {
+      name: 'transaction_logs_fromWalletId_createdAt_id_idx',
+      concurrently: true,
+    });
+
+    await queryInterface.addIndex('transaction_logs', ['toWalletId', 'createdAt', 'id'], {
+      name: 'transaction_logs_toWalletId_createdAt_id_idx',
+      concurrently: true,
+    });
+
+    // Prefixes of the indexes above (spending limits use the fromWalletId one)
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_fromWalletId_createdAt_idx'
+    );
+    await queryInterface.removeIndex('transaction_logs', 'transaction_logs_fromWalletId_idx');
+    await queryInterface.removeIndex('transaction_logs', 'transaction_logs_toWalletId_idx');
+  },
+
+  async down(queryInterface) {
+    await queryInterface.addIndex('transaction_logs', ['fromWalletId'], {
+      name: 'transaction_logs_fromWalletId_idx',
+    });
+    await queryInterface.addIndex('transaction_logs', ['toWalletId'], {
+      name: 'transaction_logs_toWalletId_idx',
+    });
+    await queryInterface.addIndex('transaction_logs', ['fromWalletId', 'createdAt'], {
+      name: 'transaction_logs_fromWalletId_createdAt_idx',
+    });
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_toWalletId_createdAt_id_idx'
+    );
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_fromWalletId_createdAt_id_idx'
+    );
+  },
+};
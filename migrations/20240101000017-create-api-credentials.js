@@ -0,0 +1,74 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    await queryInterface.createTable('api_credentials', {
+      id: {
+        type: Sequelize.UUID,
+        defaultValue: Sequelize.UUIDV4,
+        primaryKey: true,
+      },
+      principalId: {
+        type: Sequelize.STRING,
+        allowNull: false,
+      },
+      type: {
+        type: Sequelize.ENUM('API_KEY', 'HMAC'),
+        allowNull: false,
+      },
+      keyHash: {
+        type: Sequelize.STRING(64),
+        allowNull: true,
+      },
+      secret: {
+        type: Sequelize.STRING(128),
+        allowNull: true,
+      },
+      scopes: {
+        type: Sequelize.JSONB,
+        allowNull: false,
+      },
+      description: {
+        type: Sequelize.TEXT,
+        allowNull: true,
+      },
+      active: {
+        type: Sequelize.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      createdAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+      updatedAt: {
+        type: Sequelize.DATE,
+        allowNull: false,
+      },
+    });
+
+    // API keys are looked up by hash on every request
+    await queryInterface.addIndex('api_credentials', ['keyHash'], {
+      unique: true,
+      name: 'api_credentials_keyHash_unique',
+    });
+
+    await queryInterface.addIndex('api_credentials', ['principalId'], {
+      name: 'api_credentials_principalId_idx',
+    });
+
+    // Each type carries exactly its own key material
+    await queryInterface.sequelize.query(`
+      ALTER TABLE api_credentials
+      ADD CONSTRAINT api_credentials_key_matches_type CHECK (
+        ("type" = 'API_KEY' AND "keyHash" IS NOT NULL AND secret IS NULL)
+        OR ("type" = 'HMAC' AND secret IS NOT NULL AND "keyHash" IS NULL)
+      )
+    `);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('api_credentials');
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_api_credentials_type"');
+  },
+};
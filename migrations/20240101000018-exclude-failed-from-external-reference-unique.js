@@ -0,0 +1,32 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // A failed deposit/withdrawal moved no money, so the processor may
+    // retry the same external payment: only logs that did not fail (or may
+    // still succeed) claim the reference
+    await queryInterface.addIndex('transaction_logs', ['type', 'externalReference'], {
+      unique: true,
+      name: 'transaction_logs_type_externalReference_not_failed_unique',
+      where: { status: { [Sequelize.Op.ne]: 'FAILED' } },
+    });
+
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_type_externalReference_unique'
+    );
+  },
+
+  async down(queryInterface) {
+    // Fails if a reference has since been reused after a failure
+    await queryInterface.addIndex('transaction_logs', ['type', 'externalReference'], {
+      unique: true,
+      name: 'transaction_logs_type_externalReference_unique',
+    });
+
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_type_externalReference_not_failed_unique'
+    );
+  },
+};
@@ -0,0 +1,47 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface, Sequelize) {
+    // When the balances moved, stamped under the wallet row locks
+    // (createdAt is set before they are taken)
+    await queryInterface.addColumn('transaction_logs', 'appliedAt', {
+      type: Sequelize.DATE,
+      allowNull: true,
+    });
+
+    // Past logs: their ledger entries were written in the same DB
+    // transaction as the balance update; logs older than the ledger fall
+    // back to their creation time
+    await queryInterface.sequelize.query(`
+      UPDATE transaction_logs t
+      SET "appliedAt" = COALESCE(
+        (SELECT MIN(e."createdAt") FROM ledger_entries e WHERE e."transactionId" = t.id),
+        t."createdAt"
+      )
+      WHERE t.status = 'SUCCESS'
+    `);
+
+    // Point-in-time balances and statements walk these, one per side
+    await queryInterface.addIndex('transaction_logs', ['fromWalletId', 'appliedAt', 'id'], {
+      name: 'transaction_logs_fromWalletId_appliedAt_id_idx',
+      concurrently: true,
+    });
+
+    await queryInterface.addIndex('transaction_logs', ['toWalletId', 'appliedAt', 'id'], {
+      name: 'transaction_logs_toWalletId_appliedAt_id_idx',
+      concurrently: true,
+    });
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_toWalletId_appliedAt_id_idx'
+    );
+    await queryInterface.removeIndex(
+      'transaction_logs',
+      'transaction_logs_fromWalletId_appliedAt_id_idx'
+    );
+    await queryInterface.removeColumn('transaction_logs', 'appliedAt');
+  },
+};
@@ -0,0 +1,17 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface) {
+    // appliedAt is compared against JS Dates, which hold milliseconds;
+    // stamps written with microseconds never match their own log
+    await queryInterface.sequelize.query(`
+      UPDATE transaction_logs
+      SET "appliedAt" = date_trunc('milliseconds', "appliedAt")
+      WHERE "appliedAt" <> date_trunc('milliseconds', "appliedAt")
+    `);
+  },
+
+  async down() {
+    // The dropped microseconds cannot be restored
+  },
+};
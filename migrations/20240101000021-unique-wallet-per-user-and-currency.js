@@ -0,0 +1,28 @@
+'use strict';
+
+module.exports = {
+  async up(queryInterface) {
+    // One wallet per user and currency, so a user can hold balances in
+    // several currencies and convert between them
+    await queryInterface.addIndex('wallets', ['userId', 'currency'], {
+      unique: true,
+      name: 'wallets_userId_currency_unique',
+    });
+
+    // userId was unique twice over: the column constraint and an index
+    await queryInterface.sequelize.query(
+      'ALTER TABLE wallets DROP CONSTRAINT IF EXISTS "wallets_userId_key"'
+    );
+    await queryInterface.sequelize.query('DROP INDEX IF EXISTS "wallets_userId_unique"');
+  },
+
+  async down(queryInterface) {
+    // Fails once a user has wallets in more than one currency
+    await queryInterface.addIndex('wallets', ['userId'], {
+      unique: true,
+      name: 'wallets_userId_unique',
+    });
+
+    await queryInterface.removeIndex('wallets', 'wallets_userId_currency_unique');
+  },
+};
@@ -1,12 +1,28 @@
 import sequelize from './src/config/database';
-import { Wallet } from './src/models';
+import {
+  Wallet,
+  LedgerEntry,
+  WalletStatusChange,
+  WalletLimit,
+  WalletLimitChange,
+  Hold,
+  ScheduledTransfer,
+} from './src/models';
+// Registers the hooks that post opening balances to the ledger
+import './src/services/LedgerService';
 
 async function seedFreshWallets() {
   try {
     await sequelize.authenticate();
     console.log('✓ Database connected');
 
-    // Clear existing wallets first
+    // Clear existing wallets first (ledger entries, holds, schedules, status and limit rows reference them)
+    await LedgerEntry.destroy({ where: {}, force: true });
+    await Hold.destroy({ where: {}, force: true });
+    await ScheduledTransfer.destroy({ where: {}, force: true });
+    await WalletStatusChange.destroy({ where: {}, force: true });
+    await WalletLimitChange.destroy({ where: {}, force: true });
+    await WalletLimit.destroy({ where: {}, force: true });
     await Wallet.destroy({ where: {}, force: true });
     console.log('✓ Cleared existing wallets');
 
@@ -1,5 +1,7 @@
 import sequelize from './src/config/database';
 import { Wallet } from './src/models';
+// Registers the hooks that post opening balances to the ledger
+import './src/services/LedgerService';
 
 async function seedTestWallets() {
   try {
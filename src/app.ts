@@ -1,18 +1,46 @@
 import express, { Application } from 'express';
 import dotenv from 'dotenv';
 import sequelize from './config/database';
+import logger from './config/logger';
+import tracer from './config/tracing';
 import RedisService from './services/RedisService';
 import transferRoutes from './routes/transfer.routes';
+import adminRoutes from './routes/admin.routes';
+import fxRoutes from './routes/fx.routes';
+import walletRoutes from './routes/wallet.routes';
+import holdRoutes from './routes/hold.routes';
+import scheduledTransferRoutes from './routes/scheduledTransfer.routes';
 import { errorHandler } from './middleware/errorHandler';
+import { requestContext } from './middleware/requestContext';
+import { httpTracing } from './middleware/tracing';
+import { authenticate, captureRawBody } from './middleware/auth';
+import { httpMetrics, metricsHandler } from './middleware/metrics';
+import { startPendingRecovery } from './jobs/pendingRecovery';
+import { startHoldExpiry } from './jobs/expireHolds';
+import { startScheduler } from './jobs/runScheduledTransfers';
+import { startWebhookDispatcher } from './jobs/dispatchWebhooks';
 
 dotenv.config();
 
 const app: Application = express();
 const PORT = process.env.PORT || 3000;
 
+// Behind a load balancer, client IPs (rate limits) come from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 // Middleware
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+app.use(httpMetrics);
+// Raw body kept for HMAC request signatures
+app.use(express.json({ verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
+// X-Request-Id, and the log context every later handler runs in (after the
+// body parsers, whose stream callbacks would run outside it)
+app.use(requestContext);
+// Request span, when tracing is on (OTEL_TRACES_EXPORTER)
+app.use(httpTracing);
 
 // Health check endpoint (includes Redis status)
 app.get('/health', async (_req, res) => {
@@ -25,57 +53,107 @@ app.get('/health', async (_req, res) => {
       database: 'connected',
       redis: redisHealthy ? 'connected' : 'disconnected',
     },
+    redisFailurePolicy: RedisService.failurePolicy,
   });
 });
 
-// Routes
+// Routes (every /api route needs a credential; /health stays public)
+app.use('/api', authenticate);
 app.use('/api', transferRoutes);
+app.use('/api/wallets', walletRoutes);
+app.use('/api/holds', holdRoutes);
+app.use('/api/scheduled-transfers', scheduledTransferRoutes);
+app.use('/api/fx', fxRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Error handling middleware (must be last)
 app.use(errorHandler);
 
+// Prometheus scrape endpoint, on its own listener so it is never served on
+// the public port; bind METRICS_HOST to the monitoring network only
+export const metricsApp: Application = express();
+const METRICS_PORT = process.env.METRICS_PORT || 9464;
+const METRICS_HOST = process.env.METRICS_HOST || '127.0.0.1';
+
+metricsApp.get('/metrics', metricsHandler);
+
 // Database and Redis connection, then server startup
 async function startServer() {
   try {
     // Test PostgreSQL connection
     await sequelize.authenticate();
-    console.log('✓ PostgreSQL connection established successfully');
+    logger.info('PostgreSQL connection established');
 
     // Test Redis connection
     const redisHealthy = await RedisService.healthCheck();
     if (redisHealthy) {
-      console.log('✓ Redis connection established successfully');
+      logger.info('Redis connection established');
     } else {
-      console.warn('⚠ Redis unavailable - running in degraded mode (database only)');
+      logger.warn('Redis unavailable', { failurePolicy: RedisService.failurePolicy });
     }
 
     // Sync models (use migrations in production)
     if (process.env.NODE_ENV !== 'production') {
       await sequelize.sync({ alter: false });
-      console.log('✓ Database models synchronized');
+      logger.info('Database models synchronized');
+    }
+
+    // Background recovery of PENDING logs left by crashed instances
+    const recoveryInterval = parseInt(process.env.PENDING_RECOVERY_INTERVAL_MS || '0');
+    if (recoveryInterval > 0) {
+      startPendingRecovery(recoveryInterval);
+      logger.info('PENDING recovery sweeper started', { intervalMs: recoveryInterval });
+    }
+
+    // Release holds past their expiry
+    const holdExpiryInterval = parseInt(process.env.HOLD_EXPIRY_INTERVAL_MS || '0');
+    if (holdExpiryInterval > 0) {
+      startHoldExpiry(holdExpiryInterval);
+      logger.info('Hold expiry sweeper started', { intervalMs: holdExpiryInterval });
+    }
+
+    // Pay scheduled transfers as they fall due
+    const schedulerInterval = parseInt(process.env.SCHEDULER_INTERVAL_MS || '0');
+    if (schedulerInterval > 0) {
+      startScheduler(schedulerInterval);
+      logger.info('Transfer scheduler started', { intervalMs: schedulerInterval });
+    }
+
+    // Deliver outbox events to webhook endpoints
+    const webhookInterval = parseInt(process.env.WEBHOOK_DISPATCH_INTERVAL_MS || '0');
+    if (webhookInterval > 0) {
+      startWebhookDispatcher(webhookInterval);
+      logger.info('Webhook dispatcher started', { intervalMs: webhookInterval });
     }
 
     // Start server
     app.listen(PORT, () => {
-      console.log(`✓ Server running on port ${PORT}`);
-      console.log(`✓ Environment: ${process.env.NODE_ENV || 'development'}`);
+      logger.info('Server running', {
+        port: PORT,
+        environment: process.env.NODE_ENV || 'development',
+      });
+    });
+    metricsApp.listen(Number(METRICS_PORT), METRICS_HOST, () => {
+      logger.info('Metrics listener running', { host: METRICS_HOST, port: METRICS_PORT });
     });
   } catch (error) {
-    console.error('✗ Unable to start server:', error);
+    logger.error('Unable to start server', { error });
     process.exit(1);
   }
 }
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
-  console.log('SIGTERM received, shutting down gracefully...');
+  logger.info('Shutting down gracefully', { signal: 'SIGTERM' });
+  await tracer.flush();
   await RedisService.disconnect();
   await sequelize.close();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
-  console.log('SIGINT received, shutting down gracefully...');
+  logger.info('Shutting down gracefully', { signal: 'SIGINT' });
+  await tracer.flush();
   await RedisService.disconnect();
   await sequelize.close();
   process.exit(0);
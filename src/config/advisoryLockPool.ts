@@ -0,0 +1,39 @@
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import logger from './logger';
+
+dotenv.config();
+
+/**
+ * Connections for postgres-fallback advisory locks (REDIS_FAILURE_POLICY)
+ *
+ * Kept apart from the Sequelize pool: a lock holder keeps its connection
+ * until it releases the lock, and still needs a pooled connection for the
+ * transfer itself. Sharing one pool would let lock holders take every
+ * connection and wait on each other forever.
+ *
+ * No socket is opened until a lock is first requested.
+ */
+const advisoryLockPool = new Pool({
+  host: process.env.DB_HOST || 'localhost',
+  port: parseInt(process.env.DB_PORT || '5432'),
+  database: process.env.DB_NAME || 'wallet_db',
+  user: process.env.DB_USER || 'postgres',
+  password: process.env.DB_PASSWORD || 'postgres',
+
+  // At most this many keys locked at once per instance
+  max: parseInt(process.env.ADVISORY_LOCK_POOL_MAX || '10'),
+
+  // Bounds the wait for a free connection and for the lock query
+  connectionTimeoutMillis: parseInt(process.env.ADVISORY_LOCK_TIMEOUT_MS || '5000'),
+  query_timeout: parseInt(process.env.ADVISORY_LOCK_TIMEOUT_MS || '5000'),
+
+  idleTimeoutMillis: parseInt(process.env.DB_POOL_IDLE || '10000'),
+});
+
+// An idle connection dropping must not crash the process
+advisoryLockPool.on('error', (error) => {
+  logger.error('Advisory lock connection error', { error });
+});
+
+export default advisoryLockPool;
@@ -0,0 +1,61 @@
+import dotenv from 'dotenv';
+import { TransferError } from '../types';
+
+dotenv.config();
+
+/**
+ * Supported ISO 4217 currencies and their decimal scale (minor-unit digits)
+ *
+ * Balances are stored as DECIMAL(19,4) for every currency; the scale here
+ * caps how many of those 4 fractional digits an amount may use
+ * (e.g. JPY amounts must be whole yen).
+ */
+export const CURRENCY_SCALES: Readonly<Record<string, number>> = {
+  USD: 2,
+  EUR: 2,
+  GBP: 2,
+  CHF: 2,
+  CAD: 2,
+  AUD: 2,
+  JPY: 0,
+  KRW: 0,
+  KWD: 3,
+  BHD: 3,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCY_SCALES);
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Uppercase and validate a currency code
+ * Throws INVALID_CURRENCY for malformed codes, UNSUPPORTED_CURRENCY otherwise
+ */
+export function normalizeCurrency(code: string): string {
+  const normalized = typeof code === 'string' ? code.trim().toUpperCase() : '';
+
+  if (!CURRENCY_CODE_PATTERN.test(normalized)) {
+    throw new TransferError(
+      'Currency must be a 3-letter ISO 4217 code',
+      400,
+      'INVALID_CURRENCY'
+    );
+  }
+
+  if (!(normalized in CURRENCY_SCALES)) {
+    throw new TransferError(
+      `Currency ${normalized} is not supported`,
+      400,
+      'UNSUPPORTED_CURRENCY'
+    );
+  }
+
+  return normalized;
+}
+
+export function getCurrencyScale(code: string): number {
+  return CURRENCY_SCALES[normalizeCurrency(code)];
+}
+
+// Currency of wallets created without one, and of rows that predate currencies
+export const BASE_CURRENCY = normalizeCurrency(process.env.BASE_CURRENCY || 'USD');
@@ -1,5 +1,6 @@
 import { Sequelize } from 'sequelize';
 import dotenv from 'dotenv';
+import { instrumentSequelize } from './tracing';
 
 dotenv.config();
 
@@ -32,4 +33,7 @@ const sequelize = new Sequelize({
   },
 });
 
+// Query spans when tracing is on (see ./tracing.ts)
+instrumentSequelize(sequelize);
+
 export default sequelize;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import dotenv from 'dotenv';
+import { Logger, LogLevel, parseRedactConfig } from '../utils/logger';
+
+dotenv.config();
+
+/**
+ * Application logger (structured JSON, see src/utils/logger.ts)
+ *
+ * LOG_LEVEL   debug | info | warn | error | silent
+ *             (default info; silent under NODE_ENV=test)
+ * LOG_REDACT  comma-separated fields masked wherever they appear;
+ *             "amounts" and "userIds" name the built-in groups, "none"
+ *             turns redaction off (default amounts,userIds)
+ */
+const logger = new Logger({
+  level: (process.env.LOG_LEVEL ||
+    (process.env.NODE_ENV === 'test' ? 'silent' : 'info')) as LogLevel | 'silent',
+  redact: parseRedactConfig(process.env.LOG_REDACT ?? 'amounts,userIds'),
+});
+
+export default logger;
@@ -1,5 +1,7 @@
 import Redis from 'ioredis';
 import dotenv from 'dotenv';
+import logger from './logger';
+import { instrumentRedis } from './tracing';
 
 dotenv.config();
 
@@ -38,19 +40,22 @@ const redisClient = new Redis({
 
 // Event handlers for monitoring
 redisClient.on('connect', () => {
-  console.log('✓ Redis connection established');
+  logger.info('Redis connection established');
 });
 
 redisClient.on('error', (error) => {
-  console.error('✗ Redis connection error:', error.message);
+  logger.error('Redis connection error', { error });
 });
 
 redisClient.on('close', () => {
-  console.warn('⚠ Redis connection closed');
+  logger.warn('Redis connection closed');
 });
 
-redisClient.on('reconnecting', () => {
-  console.log('↻ Redis reconnecting...');
+redisClient.on('reconnecting', (delayMs: number) => {
+  logger.info('Redis reconnecting', { delayMs });
 });
 
+// Command spans when tracing is on (see ./tracing.ts)
+instrumentRedis(redisClient);
+
 export default redisClient;
\ No newline at end of file
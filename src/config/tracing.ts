@@ -0,0 +1,144 @@
+import dotenv from 'dotenv';
+import type { Command, Redis } from 'ioredis';
+import type { Sequelize } from 'sequelize';
+import logger from './logger';
+import {
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  OtlpHttpSpanExporter,
+  SpanExporter,
+  Tracer,
+} from '../utils/tracing';
+
+dotenv.config();
+
+/**
+ * Application tracer (see src/utils/tracing.ts); off unless configured
+ *
+ * OTEL_TRACES_EXPORTER          none | console | memory | otlp (default none)
+ * OTEL_SERVICE_NAME             service.name of exported spans
+ * OTEL_EXPORTER_OTLP_ENDPOINT   collector base URL; spans go to /v1/traces
+ * OTEL_EXPORTER_OTLP_HEADERS    extra headers, key=value,key=value
+ * OTEL_TRACES_SAMPLER_ARG       share of new traces recorded (default 1)
+ */
+const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || 'idempotent-wallet';
+
+function parseHeaders(value: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of value.split(',')) {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      headers[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  }
+  return headers;
+}
+
+function createExporter(): SpanExporter | null {
+  const exporter = (process.env.OTEL_TRACES_EXPORTER || 'none').trim().toLowerCase();
+
+  switch (exporter) {
+    case 'none':
+      return null;
+    case 'console':
+      return new ConsoleSpanExporter();
+    case 'memory':
+      return new InMemorySpanExporter();
+    case 'otlp': {
+      const endpoint = (process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318')
+        .replace(/\/+$/, '');
+      return new OtlpHttpSpanExporter({
+        url: `${endpoint}/v1/traces`,
+        serviceName: SERVICE_NAME,
+        headers: parseHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS || ''),
+        onError: (error) => logger.warn('Span export failed', { error }),
+      });
+    }
+    default:
+      throw new Error(
+        `Invalid OTEL_TRACES_EXPORTER "${exporter}". Expected none, console, memory or otlp.`
+      );
+  }
+}
+
+const tracer = new Tracer({
+  exporter: createExporter(),
+  sampleRatio: parseFloat(process.env.OTEL_TRACES_SAMPLER_ARG || '1'),
+});
+
+/**
+ * Client span per Redis command issued within a trace
+ * (commands outside one, such as lock heartbeats, are not traced)
+ */
+export function instrumentRedis(client: Redis): void {
+  const sendCommand = client.sendCommand.bind(client);
+
+  client.sendCommand = (command: Command, stream?: Parameters<Redis['sendCommand']>[1]) => {
+    if (!tracer.getActiveSpan()?.isRecording()) {
+      return sendCommand(command, stream);
+    }
+
+    const span = tracer.startSpan(`redis ${command.name}`, {
+      kind: 'client',
+      attributes: { 'db.system': 'redis', 'db.operation': command.name },
+    });
+    command.promise.then(
+      () => span?.end(),
+      (error) => {
+        span?.recordException(error);
+        span?.end();
+      }
+    );
+
+    return sendCommand(command, stream);
+  };
+}
+
+type QueryArgs = Parameters<Sequelize['query']>;
+
+// Where a query's table comes from: model queries carry the model,
+// instance saves only the instance
+interface TableSource {
+  model?: { tableName?: string };
+  instance?: { constructor: { tableName?: string } };
+}
+
+/**
+ * Client span per SQL query issued within a trace
+ * The statement itself is not recorded: Sequelize inlines values, so it
+ * would carry amounts and user IDs
+ */
+export function instrumentSequelize(sequelize: Sequelize): void {
+  const query: (...args: QueryArgs) => Promise<unknown> = sequelize.query.bind(sequelize);
+
+  const tracedQuery = (...args: QueryArgs): Promise<unknown> => {
+    if (!tracer.getActiveSpan()?.isRecording()) {
+      return query(...args);
+    }
+
+    const [sql, options] = args;
+    const statement = typeof sql === 'string' ? sql : sql.query;
+    const operation = (/^\s*([a-z]+)/i.exec(statement)?.[1] || 'QUERY').toUpperCase();
+    const { model, instance } = (options || {}) as TableSource;
+    const table = (model || instance?.constructor)?.tableName;
+
+    return tracer.startActiveSpan(
+      table ? `${operation} ${table}` : operation,
+      {
+        kind: 'client',
+        attributes: {
+          'db.system': 'postgresql',
+          'db.name': sequelize.getDatabaseName(),
+          'db.operation': operation,
+          'db.sql.table': table,
+        },
+      },
+      () => query(...args)
+    );
+  };
+
+  // Same arguments and results as Sequelize's own query, overloads included
+  sequelize.query = tracedQuery as Sequelize['query'];
+}
+
+export default tracer;
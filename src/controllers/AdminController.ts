@@ -0,0 +1,212 @@
+import { Request, Response, NextFunction } from 'express';
+import ReconciliationService from '../services/ReconciliationService';
+import WalletLimitService from '../services/WalletLimitService';
+import ReversalService from '../services/ReversalService';
+import WebhookService from '../services/WebhookService';
+import AuthService from '../services/AuthService';
+import { WebhookDeliveryStatus } from '../types';
+import { principalOf } from '../middleware/auth';
+
+/**
+ * AdminController handles HTTP layer for operational/back-office endpoints
+ */
+class AdminController {
+  /**
+   * GET /admin/reconciliation?format=json|csv
+   * Recompute every wallet's balance and report drift
+   */
+  async getReconciliation(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await ReconciliationService.run();
+
+      if (req.query.format === 'csv') {
+        res
+          .status(200)
+          .type('text/csv')
+          .attachment(`reconciliation-${report.generatedAt}.csv`)
+          .send(ReconciliationService.toCsv(report));
+        return;
+      }
+
+      res.status(200).json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/wallets/:walletId/limits
+   * Current spending limits and their change history
+   */
+  async getWalletLimits(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await WalletLimitService.getLimits(req.params.walletId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /admin/wallets/:walletId/limits
+   * Update spending limits (omitted fields kept, null removes a limit)
+   */
+  async updateWalletLimits(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { reason, ...limits } = req.body;
+
+      const result = await WalletLimitService.updateLimits({
+        walletId: req.params.walletId,
+        limits: {
+          maxSingleTransfer: limits.maxSingleTransfer,
+          dailyOutgoingTotal: limits.dailyOutgoingTotal,
+          hourlyTransferCount: limits.hourlyTransferCount,
+          minRetainedBalance: limits.minRetainedBalance,
+        },
+        reason,
+        actor: principalOf(req).id,
+      });
+
+      res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/transactions/:transactionId/reverse
+   * Reversal with the admin override: allowNegativeBalance lets the
+   * recipient's balance go negative (the admin principal is recorded on the log)
+   */
+  async reverseTransaction(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await ReversalService.reverse({
+        transactionId: req.params.transactionId,
+        amount: req.body.amount?.toString(),
+        reason: req.body.reason,
+        idempotencyKey: req.body.idempotencyKey,
+        allowNegativeBalance: req.body.allowNegativeBalance === true,
+        actor: principalOf(req).id,
+      });
+
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/webhooks
+   * Register an endpoint for transfer events (201, includes the signing secret)
+   */
+  async registerWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const endpoint = await WebhookService.registerEndpoint({
+        url: req.body.url,
+        eventTypes: req.body.eventTypes,
+        description: req.body.description,
+      });
+
+      res.status(201).json(endpoint);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/webhooks
+   */
+  async listWebhooks(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const endpoints = await WebhookService.listEndpoints();
+      res.status(200).json({ count: endpoints.length, endpoints });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /admin/webhooks/:endpointId
+   * Deactivate the endpoint (pending deliveries are dead-lettered when next due)
+   */
+  async deactivateWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await WebhookService.deactivateEndpoint(req.params.endpointId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/webhooks/deliveries?status=DEAD|PENDING|SUCCEEDED&limit=
+   * Dead-lettered deliveries unless another status is asked for
+   */
+  async listWebhookDeliveries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const status = (req.query.status as WebhookDeliveryStatus) || WebhookDeliveryStatus.DEAD;
+      const limit = req.query.limit ? Number(req.query.limit) : undefined;
+
+      const deliveries = await WebhookService.listDeliveries(status, limit);
+      res.status(200).json({ status, count: deliveries.length, deliveries });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/webhooks/deliveries/:deliveryId/replay
+   * Queue a dead-lettered delivery again
+   */
+  async replayWebhookDelivery(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await WebhookService.replayDelivery(req.params.deliveryId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/credentials
+   * Issue an API key (or HMAC secret) for a principal
+   */
+  async createCredential(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const credential = await AuthService.createCredential({
+        principalId: req.body.principalId,
+        type: req.body.type,
+        scopes: req.body.scopes,
+        description: req.body.description,
+      });
+
+      res.status(201).json(credential);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/credentials?principalId=
+   */
+  async listCredentials(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const principalId = req.query.principalId as string | undefined;
+      const credentials = await AuthService.listCredentials(principalId);
+      res.status(200).json({ count: credentials.length, credentials });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /admin/credentials/:credentialId
+   * Revoke the credential (takes effect on the next request)
+   */
+  async revokeCredential(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await AuthService.revokeCredential(req.params.credentialId));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new AdminController();
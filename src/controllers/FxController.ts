@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import FxQuoteService from '../services/FxQuoteService';
+
+/**
+ * FxController handles HTTP layer for FX quotes
+ */
+class FxController {
+  /**
+   * POST /fx/quote
+   * Price and lock a conversion for use by one cross-currency transfer
+   */
+  async quote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const quote = await FxQuoteService.createQuote({
+        fromCurrency: req.body.fromCurrency,
+        toCurrency: req.body.toCurrency,
+        amount: req.body.amount?.toString(), // Ensure string
+      });
+
+      res.status(201).json(quote);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new FxController();
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import HoldService from '../services/HoldService';
+
+/**
+ * HoldController handles HTTP layer for two-phase holds
+ */
+class HoldController {
+  /**
+   * POST /holds
+   * Place a hold (201), or return the one placed by this idempotency key (200)
+   */
+  async place(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { hold, created } = await HoldService.placeHold({
+        walletId: req.body.walletId,
+        toWalletId: req.body.toWalletId,
+        amount: req.body.amount?.toString(),
+        currency: req.body.currency,
+        ttlSeconds: req.body.ttlSeconds,
+        idempotencyKey: req.body.idempotencyKey,
+      });
+
+      res.status(created ? 201 : 200).json(hold);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /holds/:holdId
+   */
+  async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await HoldService.getHold(req.params.holdId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /holds/:holdId/capture
+   * Transfer all (no amount) or part of the hold; the rest is released
+   */
+  async capture(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await HoldService.capture({
+        holdId: req.params.holdId,
+        amount: req.body.amount?.toString(),
+        idempotencyKey: req.body.idempotencyKey,
+      });
+
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /holds/:holdId/void
+   * Release the hold without moving money
+   */
+  async void(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await HoldService.voidHold(req.params.holdId));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new HoldController();
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import ReversalService from '../services/ReversalService';
+
+/**
+ * ReversalController handles HTTP layer for refunds of transfers
+ */
+class ReversalController {
+  /**
+   * POST /transactions/:transactionId/reverse
+   * Full (no amount) or partial refund of a SUCCESS transfer
+   * The negative balance override is only offered on the admin route
+   */
+  async reverse(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await ReversalService.reverse({
+        transactionId: req.params.transactionId,
+        amount: req.body.amount?.toString(),
+        reason: req.body.reason,
+        idempotencyKey: req.body.idempotencyKey,
+      });
+
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ReversalController();
@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction } from 'express';
+import ScheduledTransferService from '../services/ScheduledTransferService';
+
+/**
+ * ScheduledTransferController handles HTTP layer for scheduled transfers
+ */
+class ScheduledTransferController {
+  /**
+   * POST /scheduled-transfers
+   * Create a schedule (201), or return the one created by this idempotency key (200)
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { schedule, created } = await ScheduledTransferService.create({
+        fromWalletId: req.body.fromWalletId,
+        toWalletId: req.body.toWalletId,
+        amount: req.body.amount?.toString(),
+        currency: req.body.currency,
+        runAt: req.body.runAt,
+        cron: req.body.cron,
+        maxFailures: req.body.maxFailures,
+        idempotencyKey: req.body.idempotencyKey,
+      });
+
+      res.status(created ? 201 : 200).json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /scheduled-transfers?walletId=
+   * Schedules paying out of the wallet
+   */
+  async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const walletId = String(req.query.walletId || '');
+      const schedules = await ScheduledTransferService.listForWallet(walletId);
+
+      res.status(200).json({ walletId, count: schedules.length, schedules });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /scheduled-transfers/:scheduleId
+   */
+  async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await ScheduledTransferService.get(req.params.scheduleId));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /scheduled-transfers/:scheduleId
+   * Edit amount, timing or maxFailures; pause/resume via status
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const schedule = await ScheduledTransferService.update({
+        scheduleId: req.params.scheduleId,
+        amount: req.body.amount?.toString(),
+        runAt: req.body.runAt,
+        cron: req.body.cron,
+        maxFailures: req.body.maxFailures,
+        status: req.body.status,
+      });
+
+      res.status(200).json(schedule);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /scheduled-transfers/:scheduleId
+   * Cancel; the row is kept for its history
+   */
+  async cancel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await ScheduledTransferService.cancel(req.params.scheduleId));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export default new ScheduledTransferController();
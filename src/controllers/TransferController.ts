@@ -1,6 +1,24 @@
+import { once } from 'events';
 import { Request, Response, NextFunction } from 'express';
 import TransferService from '../services/TransferService';
-import { TransferRequest } from '../types';
+import BatchTransferService from '../services/BatchTransferService';
+import TransactionHistoryService from '../services/TransactionHistoryService';
+import StatementService from '../services/StatementService';
+import {
+  BatchStatus,
+  BatchTransferRequest,
+  StatementFormat,
+  TransactionDirection,
+  TransactionStatus,
+  TransferError,
+  TransferRequest,
+} from '../types';
+
+const STATEMENT_CONTENT_TYPES: Record<StatementFormat, string> = {
+  [StatementFormat.CSV]: 'text/csv',
+  [StatementFormat.JSON]: 'application/json',
+  [StatementFormat.TXT]: 'text/plain',
+};
 
 /**
  * TransferController handles HTTP layer for transfer operations
@@ -17,6 +35,8 @@ class TransferController {
         fromWalletId: req.body.fromWalletId,
         toWalletId: req.body.toWalletId,
         amount: req.body.amount?.toString(), // Ensure string
+        currency: req.body.currency,
+        quoteId: req.body.quoteId,
         idempotencyKey: req.body.idempotencyKey,
       };
 
@@ -31,18 +51,51 @@ class TransferController {
   }
 
   /**
-   * GET /wallet/:walletId/balance
-   * Get current wallet balance
+   * POST /transfers/batch
+   * Execute many transfers under one batch idempotency key
+   * 200 all legs succeeded, 207 some did (best-effort), 400 none did
+   */
+  async batchTransfer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const batchRequest: BatchTransferRequest = {
+        idempotencyKey: req.body.idempotencyKey,
+        mode: req.body.mode,
+        fromWalletId: req.body.fromWalletId,
+        legs: req.body.legs,
+      };
+
+      const result = await BatchTransferService.executeBatch(batchRequest);
+
+      const statusCode =
+        result.status === BatchStatus.COMPLETED
+          ? 200
+          : result.status === BatchStatus.PARTIAL
+          ? 207
+          : 400;
+      res.status(statusCode).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /wallet/:walletId/balance?asOf=
+   * Get current wallet balance, or its balance at a past instant
    */
   async getBalance(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { walletId } = req.params;
+
+      if (req.query.asOf !== undefined) {
+        res
+          .status(200)
+          .json(await TransactionHistoryService.getBalanceAsOf(walletId, req.query.asOf as string));
+        return;
+      }
+
       const balance = await TransferService.getWalletBalance(walletId);
       
-      res.status(200).json({
-        walletId,
-        balance,
-      });
+      res.status(200).json(balance);
     } catch (error) {
       next(error);
     }
@@ -50,21 +103,98 @@ class TransferController {
 
   /**
    * GET /wallet/:walletId/transactions
-   * Get transaction history for a wallet
+   * One page of a wallet's transaction history, newest first
+   * ?cursor&limit&direction=sent|received&status=SUCCESS,FAILED&from&to&minAmount&maxAmount
    */
   async getTransactions(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
-      const { walletId } = req.params;
-      const transactions = await TransferService.getTransactionHistory(walletId);
-      
-      res.status(200).json({
-        walletId,
-        transactions,
+      const query = (name: string) => this.singleQueryValue(req, name);
+      const limit = query('limit');
+      const statuses = this.listQueryValue(req, 'status');
+
+      const page = await TransactionHistoryService.getHistory({
+        walletId: req.params.walletId,
+        cursor: query('cursor'),
+        limit: limit !== undefined ? Number(limit) : undefined,
+        direction: query('direction') as TransactionDirection | undefined,
+        statuses: statuses as TransactionStatus[] | undefined,
+        from: query('from'),
+        to: query('to'),
+        minAmount: query('minAmount'),
+        maxAmount: query('maxAmount'),
       });
+
+      res.status(200).json(page);
     } catch (error) {
       next(error);
     }
   }
+
+  /**
+   * GET /wallet/:walletId/statement?from&to&format=csv|json|txt
+   * Statement for a period, streamed as it is read
+   */
+  async getStatement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { header, format } = await StatementService.open({
+        walletId: req.params.walletId,
+        from: req.query.from as string,
+        to: req.query.to as string,
+        format: req.query.format as StatementFormat | undefined,
+      });
+
+      res
+        .status(200)
+        .type(STATEMENT_CONTENT_TYPES[format])
+        .attachment(`statement-${header.walletId}-${header.from.slice(0, 10)}.${format}`);
+
+      await StatementService.stream(header, format, async (chunk) => {
+        if (res.destroyed) {
+          throw new Error('Client disconnected during statement export');
+        }
+        // Respect backpressure from slow clients
+        if (!res.write(chunk)) {
+          await Promise.race([once(res, 'drain'), once(res, 'close')]);
+        }
+      });
+
+      res.end();
+    } catch (error) {
+      // Mid-stream the status is already sent: cut the download short
+      if (res.headersSent) {
+        res.destroy(error as Error);
+        return;
+      }
+      next(error);
+    }
+  }
+
+  // ?name=value given once; a repeated key (an array) is refused
+  private singleQueryValue(req: Request, name: string): string | undefined {
+    const value = req.query[name];
+
+    if (value === undefined || typeof value === 'string') {
+      return value;
+    }
+
+    throw new TransferError(`${name} must be given once`, 400, 'INVALID_REQUEST');
+  }
+
+  // ?name=a,b and ?name=a&name=b alike
+  private listQueryValue(req: Request, name: string): string[] | undefined {
+    const value = req.query[name];
+
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    if (!values.every((item): item is string => typeof item === 'string')) {
+      throw new TransferError(`${name} must be a comma-separated list`, 400, 'INVALID_REQUEST');
+    }
+
+    return values.flatMap((item) => item.split(',')).map((item) => item.trim());
+  }
 }
 
 export default new TransferController();
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import WalletService from '../services/WalletService';
+import { WalletStatusChangeRequest } from '../types';
+import { principalOf } from '../middleware/auth';
+
+/**
+ * WalletController handles HTTP layer for the wallet lifecycle
+ */
+class WalletController {
+  /**
+   * POST /wallets
+   * Create a wallet (201), or return the one created by this idempotency key (200)
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { wallet, created } = await WalletService.createWallet({
+        userId: req.body.userId,
+        currency: req.body.currency,
+        idempotencyKey: req.body.idempotencyKey,
+      });
+
+      res.status(created ? 201 : 200).json(wallet);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /wallets/:walletId
+   * Wallet details with status history
+   */
+  async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const wallet = await WalletService.getWallet(req.params.walletId);
+
+      res.status(200).json(wallet);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /wallets/:walletId/freeze
+   */
+  async freeze(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await WalletService.freeze(this.buildStatusChange(req)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /wallets/:walletId/unfreeze
+   */
+  async unfreeze(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await WalletService.unfreeze(this.buildStatusChange(req)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /wallets/:walletId/close
+   * Only allowed at zero balance
+   */
+  async close(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.status(200).json(await WalletService.close(this.buildStatusChange(req)));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private buildStatusChange(req: Request): WalletStatusChangeRequest {
+    return {
+      walletId: req.params.walletId,
+      reason: req.body.reason,
+      actor: principalOf(req).id,
+    };
+  }
+}
+
+export default new WalletController();
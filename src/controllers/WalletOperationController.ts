@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from 'express';
+import WalletOperationService from '../services/WalletOperationService';
+import { WalletOperationRequest } from '../types';
+
+/**
+ * WalletOperationController handles HTTP layer for deposits and withdrawals
+ */
+class WalletOperationController {
+  /**
+   * POST /wallet/:walletId/deposit
+   * Credit a wallet from an external source
+   */
+  async deposit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await WalletOperationService.deposit(this.buildRequest(req));
+
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /wallet/:walletId/withdraw
+   * Debit a wallet to an external destination
+   */
+  async withdraw(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await WalletOperationService.withdraw(this.buildRequest(req));
+
+      res.status(result.success ? 200 : 400).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private buildRequest(req: Request): WalletOperationRequest {
+    return {
+      walletId: req.params.walletId,
+      amount: req.body.amount?.toString(), // Ensure string
+      currency: req.body.currency,
+      externalReference: req.body.externalReference,
+      idempotencyKey: req.body.idempotencyKey,
+    };
+  }
+}
+
+export default new WalletOperationController();
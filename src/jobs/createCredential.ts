@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import sequelize from '../config/database';
+import AuthService from '../services/AuthService';
+import { ApiCredentialType, AuthScope } from '../types';
+
+dotenv.config();
+
+/**
+ * Issue an API credential (the way to bootstrap the first admin key)
+ *
+ * npm run credentials:create -- --principal=alice --scopes=wallets:read,transfers:write
+ * npm run credentials:create -- --principal=ops --scopes=admin:read,admin:write --type=HMAC
+ *
+ * Prints the credential, including its key or secret, which is not shown again
+ */
+function arg(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find((value) => value.startsWith(prefix))?.slice(prefix.length);
+}
+
+async function createCredential() {
+  try {
+    await sequelize.authenticate();
+
+    const credential = await AuthService.createCredential({
+      principalId: arg('principal') as string,
+      type: arg('type') as ApiCredentialType | undefined,
+      scopes: (arg('scopes') || '').split(',').filter(Boolean) as AuthScope[],
+      description: arg('description'),
+    });
+
+    process.stdout.write(JSON.stringify(credential, null, 2) + '\n');
+
+    await sequelize.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('✗ Credential creation failed:', error);
+    process.exit(1);
+  }
+}
+
+createCredential();
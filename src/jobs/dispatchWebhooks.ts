@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import RedisService from '../services/RedisService';
+import WebhookService from '../services/WebhookService';
+
+dotenv.config();
+
+/**
+ * Webhook dispatcher: delivers transfer events from the outbox
+ *
+ * In-process: startWebhookDispatcher(intervalMs) from app startup
+ * Standalone: npm run dispatch:webhooks (single sweep, then exit)
+ */
+export function startWebhookDispatcher(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Never overlap sweeps if one runs longer than the interval
+    if (running) return;
+    running = true;
+
+    try {
+      const report = await WebhookService.dispatch();
+      if (report.fannedOut + report.delivered + report.retried + report.deadLettered > 0) {
+        logger.info('Webhook dispatch sweep complete', { ...report });
+      }
+    } catch (error) {
+      logger.error('Webhook dispatch sweep failed', { error });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+async function runOnce() {
+  try {
+    await sequelize.authenticate();
+    const report = await WebhookService.dispatch();
+    console.log('✓ Webhook dispatch complete:', report);
+
+    await RedisService.disconnect();
+    await sequelize.close();
+  } catch (error) {
+    console.error('✗ Webhook dispatch failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runOnce();
+}
@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import RedisService from '../services/RedisService';
+import HoldService from '../services/HoldService';
+
+dotenv.config();
+
+/**
+ * Hold expiry: releases ACTIVE holds past their expiresAt
+ *
+ * In-process: startHoldExpiry(intervalMs) from app startup
+ * Standalone: npm run expire:holds (single sweep, then exit)
+ */
+export function startHoldExpiry(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Never overlap sweeps if one runs longer than the interval
+    if (running) return;
+    running = true;
+
+    try {
+      const report = await HoldService.expireHolds();
+      if (report.scanned > 0) {
+        logger.info('Hold expiry sweep complete', { ...report });
+      }
+    } catch (error) {
+      logger.error('Hold expiry sweep failed', { error });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+async function runOnce() {
+  try {
+    await sequelize.authenticate();
+    const report = await HoldService.expireHolds();
+    console.log('✓ Hold expiry complete:', report);
+
+    await RedisService.disconnect();
+    await sequelize.close();
+  } catch (error) {
+    console.error('✗ Hold expiry failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runOnce();
+}
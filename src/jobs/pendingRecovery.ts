@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import RedisService from '../services/RedisService';
+import PendingRecoveryService from '../services/PendingRecoveryService';
+
+dotenv.config();
+
+/**
+ * Stale PENDING transaction recovery
+ * 
+ * In-process: startPendingRecovery(intervalMs) from app startup
+ * Standalone: npm run recover:pending (single sweep, then exit)
+ */
+export function startPendingRecovery(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Never overlap sweeps if one runs longer than the interval
+    if (running) return;
+    running = true;
+
+    try {
+      const report = await PendingRecoveryService.recoverStalePending();
+      if (report.scanned > 0) {
+        logger.info('PENDING recovery sweep complete', { ...report });
+      }
+    } catch (error) {
+      logger.error('PENDING recovery sweep failed', { error });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+async function runOnce() {
+  try {
+    await sequelize.authenticate();
+    const report = await PendingRecoveryService.recoverStalePending();
+    console.log('✓ PENDING recovery complete:', report);
+
+    await RedisService.disconnect();
+    await sequelize.close();
+  } catch (error) {
+    console.error('✗ PENDING recovery failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runOnce();
+}
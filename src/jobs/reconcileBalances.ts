@@ -0,0 +1,36 @@
+import dotenv from 'dotenv';
+import sequelize from '../config/database';
+import ReconciliationService from '../services/ReconciliationService';
+
+dotenv.config();
+
+/**
+ * Balance reconciliation command
+ * 
+ * npm run reconcile                  JSON report on stdout
+ * npm run reconcile -- --format=csv  CSV report on stdout
+ * 
+ * Exits with code 2 when drift is found, so it can gate cron alerts
+ */
+async function reconcile() {
+  const format = process.argv.includes('--format=csv') ? 'csv' : 'json';
+
+  try {
+    await sequelize.authenticate();
+    const report = await ReconciliationService.run();
+
+    process.stdout.write(
+      format === 'csv'
+        ? ReconciliationService.toCsv(report)
+        : JSON.stringify(report, null, 2) + '\n'
+    );
+
+    await sequelize.close();
+    process.exit(report.driftCount > 0 ? 2 : 0);
+  } catch (error) {
+    console.error('✗ Reconciliation failed:', error);
+    process.exit(1);
+  }
+}
+
+reconcile();
@@ -0,0 +1,60 @@
+import dotenv from 'dotenv';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import RedisService from '../services/RedisService';
+import ScheduledTransferService from '../services/ScheduledTransferService';
+
+dotenv.config();
+
+/**
+ * Scheduler: pays scheduled transfers whose occurrence is due
+ *
+ * In-process: startScheduler(intervalMs) from app startup
+ * Standalone: npm run run:scheduled (single sweep, then exit)
+ *
+ * Several instances may run at once: each occurrence is paid under a
+ * deterministic idempotency key, and a schedule row being run is skipped by
+ * the others.
+ */
+export function startScheduler(intervalMs: number): () => void {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    // Never overlap sweeps if one runs longer than the interval
+    if (running) return;
+    running = true;
+
+    try {
+      const report = await ScheduledTransferService.runDue();
+      if (report.scanned > 0) {
+        logger.info('Scheduler sweep complete', { ...report });
+      }
+    } catch (error) {
+      logger.error('Scheduler sweep failed', { error });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+async function runOnce() {
+  try {
+    await sequelize.authenticate();
+    const report = await ScheduledTransferService.runDue();
+    console.log('✓ Scheduled transfers run complete:', report);
+
+    await RedisService.disconnect();
+    await sequelize.close();
+  } catch (error) {
+    console.error('✗ Scheduled transfers run failed:', error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  runOnce();
+}
@@ -0,0 +1,183 @@
+import { Request, Response, NextFunction } from 'express';
+import { Hold, ScheduledTransfer, TransactionLog } from '../models';
+import AuthService from '../services/AuthService';
+import { AuthPrincipal, AuthScope, TransferError } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal?: AuthPrincipal;
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * Wallet IDs a request acts on; null when there is nothing to check
+ */
+export type WalletResolver = (
+  req: Request
+) => string | string[] | null | undefined | Promise<string | string[] | null | undefined>;
+
+/**
+ * Keep the exact bytes of request bodies for signature verification
+ * (pass as `verify` to every body parser: a parsed body without them
+ * would be checked as empty)
+ */
+export function captureRawBody(req: Request, _res: Response, buf: Buffer): void {
+  req.rawBody = buf;
+}
+
+/**
+ * Resolve the caller from X-Api-Key or an HMAC-signed request
+ */
+export async function authenticate(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const apiKey = req.header('X-Api-Key');
+
+    if (apiKey) {
+      req.principal = await AuthService.authenticateApiKey(apiKey);
+    } else if (req.header('X-Signature') || req.header('X-Key-Id')) {
+      req.principal = await AuthService.authenticateSignature({
+        keyId: req.header('X-Key-Id'),
+        timestamp: req.header('X-Timestamp'),
+        nonce: req.header('X-Nonce'),
+        signature: req.header('X-Signature'),
+        method: req.method,
+        path: req.originalUrl,
+        body: req.rawBody || Buffer.alloc(0),
+      });
+    } else {
+      throw new TransferError(
+        'Authentication required: send X-Api-Key or a signed request',
+        401,
+        'UNAUTHENTICATED'
+      );
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * 403 unless the caller holds every listed scope
+ */
+export function requireScope(...scopes: AuthScope[]) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    try {
+      AuthService.assertScopes(principalOf(req), scopes);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Admin routes: admin:read for GET, admin:write for anything else
+ */
+export function requireAdmin(req: Request, _res: Response, next: NextFunction): void {
+  try {
+    AuthService.assertScopes(principalOf(req), [
+      req.method === 'GET' ? AuthScope.ADMIN_READ : AuthScope.ADMIN_WRITE,
+    ]);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * 403 unless the caller owns the wallet(s) the request acts on
+ */
+export function requireWalletOwner(resolve: WalletResolver) {
+  return async (req: Request, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const walletIds = await resolve(req);
+
+      if (walletIds) {
+        await AuthService.assertOwnsWallets(
+          principalOf(req),
+          Array.isArray(walletIds) ? walletIds : [walletIds]
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * 403 unless body.userId is the caller (creating a wallet for someone else)
+ */
+export function requireSelf(req: Request, _res: Response, next: NextFunction): void {
+  const principal = principalOf(req);
+
+  if (req.body?.userId !== undefined && req.body.userId !== principal.id) {
+    next(
+      new TransferError(
+        'userId must be the authenticated principal',
+        403,
+        'FORBIDDEN'
+      )
+    );
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Resolvers for routes addressed by another resource's ID
+ * Malformed IDs resolve to nothing and are rejected by the handler
+ */
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The wallet the hold reserves funds on
+export async function holdWallet(req: Request): Promise<string | null> {
+  const { holdId } = req.params;
+  if (!uuidRegex.test(holdId)) {
+    return null;
+  }
+  const hold = await Hold.findByPk(holdId, { attributes: ['walletId'] });
+  return hold?.walletId ?? null;
+}
+
+// The wallet the schedule pays from
+export async function scheduleWallet(req: Request): Promise<string | null> {
+  const { scheduleId } = req.params;
+  if (!uuidRegex.test(scheduleId)) {
+    return null;
+  }
+  const schedule = await ScheduledTransfer.findByPk(scheduleId, { attributes: ['fromWalletId'] });
+  return schedule?.fromWalletId ?? null;
+}
+
+// A refund is paid by the recipient of the original transfer
+export async function reversedTransferWallet(req: Request): Promise<string | null> {
+  const { transactionId } = req.params;
+  if (!uuidRegex.test(transactionId)) {
+    return null;
+  }
+  const log = await TransactionLog.findByPk(transactionId, { attributes: ['toWalletId'] });
+  return log?.toWalletId ?? null;
+}
+
+/**
+ * The authenticated principal (401 without one); also the actor recorded
+ * by audited admin changes
+ */
+export function principalOf(req: Request): AuthPrincipal {
+  if (!req.principal) {
+    throw new TransferError('Authentication required', 401, 'UNAUTHENTICATED');
+  }
+  return req.principal;
+}
@@ -1,9 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
 import { TransferError } from '../types';
+import logger from '../config/logger';
+import tracer from '../config/tracing';
+
+// Same codes for every auth failure, whichever layer raised it
+const DEFAULT_CODES: Record<number, string> = {
+  401: 'UNAUTHENTICATED',
+  403: 'FORBIDDEN',
+};
 
 /**
  * Global error handler middleware
  * Formats errors consistently and prevents leaking stack traces in production
+ * Every error body carries the request ID, to match it with the logs
  */
 export function errorHandler(
   err: Error | TransferError,
@@ -11,21 +20,38 @@ export function errorHandler(
   res: Response,
   _next: NextFunction
 ): void {
-  // Log error for debugging
-  console.error('Error occurred:', {
-    message: err.message,
-    stack: process.env.NODE_ENV === 'development' ? err.stack : undefined,
-    path: req.path,
-    method: req.method,
-  });
+  const requestId = req.requestId;
+
+  // Client errors are expected traffic; everything else needs a look
+  const status =
+    err instanceof TransferError
+      ? err.statusCode
+      : err.name === 'SequelizeValidationError'
+        ? 400
+        : err.name === 'SequelizeUniqueConstraintError'
+          ? 409
+          : 500;
+  const fields = { method: req.method, path: req.path, status, error: err };
+  if (status >= 500) {
+    logger.error('Request failed', fields);
+    tracer.getActiveSpan()?.recordException(err);
+  } else {
+    logger.warn('Request rejected', fields);
+  }
 
   // Handle custom TransferError
   if (err instanceof TransferError) {
+    if (err.statusCode === 401) {
+      res.setHeader('WWW-Authenticate', 'ApiKey header="X-Api-Key", HMAC-SHA256');
+    }
+
     res.status(err.statusCode).json({
       success: false,
       error: {
-        code: err.code || 'TRANSFER_ERROR',
+        code: err.code || DEFAULT_CODES[err.statusCode] || 'TRANSFER_ERROR',
         message: err.message,
+        ...(err.details && { details: err.details }),
+        ...(requestId && { requestId }),
       },
     });
     return;
@@ -39,6 +65,7 @@ export function errorHandler(
         code: 'VALIDATION_ERROR',
         message: 'Invalid request data',
         details: (err as any).errors?.map((e: any) => e.message),
+        ...(requestId && { requestId }),
       },
     });
     return;
@@ -50,6 +77,7 @@ export function errorHandler(
       error: {
         code: 'DUPLICATE_ENTRY',
         message: 'Resource already exists',
+        ...(requestId && { requestId }),
       },
     });
     return;
@@ -64,6 +92,7 @@ export function errorHandler(
         process.env.NODE_ENV === 'production'
           ? 'An unexpected error occurred'
           : err.message,
+      ...(requestId && { requestId }),
     },
   });
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import sequelize from '../config/database';
+import MetricsService from '../services/MetricsService';
+import PendingRecoveryService from '../services/PendingRecoveryService';
+
+/**
+ * Count and time every HTTP request
+ * Labelled by route pattern (/api/wallet/:walletId/balance), never the raw
+ * path, so IDs do not become label values; unmatched paths share one label.
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const start = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+    MetricsService.httpRequest(req.method, route, res.statusCode, seconds);
+  });
+
+  next();
+}
+
+/**
+ * The sequelize-pool counters read below; Sequelize's typings do not
+ * expose the connection manager's pool
+ */
+interface ConnectionPoolCounters {
+  using: number;
+  available: number;
+  waiting: number;
+  maxSize: number;
+}
+
+// Sampled on scrape: Sequelize pool usage
+MetricsService.addCollector(() => {
+  const { pool } = sequelize.connectionManager as unknown as {
+    pool?: Partial<ConnectionPoolCounters>;
+  };
+  if (!pool) {
+    return;
+  }
+
+  MetricsService.setDbPool({
+    inUse: pool.using ?? 0,
+    idle: pool.available ?? 0,
+    waiting: pool.waiting ?? 0,
+    max: pool.maxSize ?? 0,
+  });
+});
+
+// Sampled on scrape: PENDING logs and the age of the oldest one
+MetricsService.addCollector(async () => {
+  const { count, oldestCreatedAt } = await PendingRecoveryService.getPendingStats();
+  const age = oldestCreatedAt ? (Date.now() - oldestCreatedAt.getTime()) / 1000 : 0;
+
+  MetricsService.setPendingLogs(count, Math.max(0, age));
+});
+
+/**
+ * GET /metrics in the Prometheus text format
+ */
+export async function metricsHandler(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.status(200).type(MetricsService.contentType).send(await MetricsService.render());
+  } catch (error) {
+    next(error);
+  }
+}
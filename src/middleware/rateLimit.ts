@@ -0,0 +1,85 @@
+import { Request, Response, NextFunction } from 'express';
+import RateLimitService from '../services/RateLimitService';
+import RedisService from '../services/RedisService';
+import { RateLimitPolicy, TransferError } from '../types';
+import { WalletResolver } from './auth';
+
+export interface RateLimitOptions {
+  // Source wallet(s) of the request, each with its own budget
+  wallet?: WalletResolver;
+  // Idempotency cache key; a request whose result is cached is a replay
+  // and is served without being counted
+  replayKey?: (req: Request) => string | undefined;
+}
+
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Count the request against the policy's budgets (see RateLimitService)
+ *
+ * Sets RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset (seconds)
+ * for the most constrained budget; a throttled request gets 429
+ * RATE_LIMITED with Retry-After. Runs after requireScope and the ownership
+ * checks, so the replay lookup and wallet resolution only happen for
+ * callers allowed to act on those wallets, and refused requests cost no
+ * budget.
+ */
+export function rateLimit(policy: RateLimitPolicy, options: RateLimitOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const replayKey = options.replayKey?.(req);
+      if (
+        typeof replayKey === 'string' &&
+        replayKey.length > 0 &&
+        (await RedisService.getCachedResult(replayKey))
+      ) {
+        next();
+        return;
+      }
+
+      const wallets = options.wallet ? await options.wallet(req) : null;
+      const walletIds = (Array.isArray(wallets) ? wallets : [wallets]).filter(
+        (id): id is string => typeof id === 'string' && uuidRegex.test(id)
+      );
+
+      const result = await RateLimitService.consume(policy, {
+        principalId: req.principal?.id,
+        walletIds,
+        ip: req.ip,
+      });
+
+      if (!result) {
+        next();
+        return;
+      }
+
+      const { bucket } = result;
+      const resetSeconds = Math.max(1, Math.ceil(bucket.resetMs / 1000));
+
+      res.setHeader('RateLimit-Limit', bucket.limit);
+      res.setHeader('RateLimit-Remaining', Math.max(0, bucket.limit - bucket.count));
+      res.setHeader('RateLimit-Reset', resetSeconds);
+
+      if (!result.allowed) {
+        res.setHeader('Retry-After', resetSeconds);
+        throw new TransferError(
+          `Rate limit exceeded for this ${result.dimension}, retry in ${resetSeconds}s`,
+          429,
+          'RATE_LIMITED',
+          { policy, dimension: result.dimension, retryAfter: resetSeconds }
+        );
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Replay key of routes whose idempotency key is cached as-is
+ */
+export function idempotencyKeyOf(req: Request): string | undefined {
+  return req.body?.idempotencyKey;
+}
@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runWithLogContext } from '../utils/logger';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Correlates logs, TransactionLog.metadata and error responses
+      requestId?: string;
+    }
+  }
+}
+
+/**
+ * Caller-supplied IDs are kept if they are short and plain, so they can be
+ * logged and stored as-is; anything else is replaced
+ */
+const REQUEST_ID_FORMAT = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Assign the request its ID (X-Request-Id, propagated or generated), echo
+ * it on the response, and run the rest of the request in a log context
+ * carrying it, along with the idempotency key and wallet IDs of the body
+ *
+ * Transfers open a context of their own that adds the transaction ID (see
+ * TransferService.executeTransfer).
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.get('X-Request-Id');
+  const requestId =
+    incoming && REQUEST_ID_FORMAT.test(incoming) ? incoming : crypto.randomUUID();
+
+  req.requestId = requestId;
+  res.setHeader('X-Request-Id', requestId);
+
+  const body = req.body && typeof req.body === 'object' ? req.body : {};
+  const walletIds = [body.fromWalletId, body.toWalletId, body.walletId].filter(
+    (id): id is string => typeof id === 'string'
+  );
+
+  runWithLogContext(
+    {
+      requestId,
+      ...(typeof body.idempotencyKey === 'string' && { idempotencyKey: body.idempotencyKey }),
+      ...(walletIds.length > 0 && { walletIds }),
+    },
+    () => next()
+  );
+}
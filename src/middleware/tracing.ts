@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import tracer from '../config/tracing';
+import { addLogContext } from '../utils/logger';
+import { parseTraceparent } from '../utils/tracing';
+
+/**
+ * Server span per request, continuing the caller's trace when it sends a
+ * W3C traceparent; the rest of the request runs with it as the active span
+ *
+ * Named by route pattern (POST /api/transfer) once the route is known, like
+ * the HTTP metrics. Runs after requestContext, so the trace ID joins the
+ * log context.
+ */
+export function httpTracing(req: Request, res: Response, next: NextFunction): void {
+  const span = tracer.startSpan(req.method, {
+    kind: 'server',
+    parent: parseTraceparent(req.get('traceparent')),
+    attributes: {
+      'http.method': req.method,
+      'http.target': req.originalUrl,
+      'http.request_id': req.requestId,
+    },
+  });
+
+  if (!span) {
+    next();
+    return;
+  }
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : undefined;
+    if (route) {
+      span.name = `${req.method} ${route}`;
+    }
+
+    span.setAttributes({ 'http.route': route, 'http.status_code': res.statusCode });
+    if (res.statusCode >= 500) {
+      span.setStatus('error');
+    }
+    span.end();
+  });
+
+  addLogContext({ traceId: span.context.traceId });
+  tracer.withSpan(span, () => next());
+}
@@ -0,0 +1,103 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { ApiCredentialType, AuthScope } from '../types';
+
+interface ApiCredentialAttributes {
+  id: string;
+  principalId: string;
+  type: ApiCredentialType;
+  keyHash?: string | null;
+  secret?: string | null;
+  scopes: AuthScope[];
+  description?: string | null;
+  active: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface ApiCredentialCreationAttributes
+  extends Optional<
+    ApiCredentialAttributes,
+    'id' | 'keyHash' | 'secret' | 'description' | 'active'
+  > {}
+
+class ApiCredential
+  extends Model<ApiCredentialAttributes, ApiCredentialCreationAttributes>
+  implements ApiCredentialAttributes {
+  public id!: string;
+  public principalId!: string;
+  public type!: ApiCredentialType;
+  public keyHash!: string | null;
+  public secret!: string | null;
+  public scopes!: AuthScope[];
+  public description!: string | null;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+ApiCredential.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    // Who the caller is; owns the wallets whose userId matches
+    principalId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 255],
+      },
+    },
+    type: {
+      type: DataTypes.ENUM(...Object.values(ApiCredentialType)),
+      allowNull: false,
+    },
+    // API_KEY only: SHA-256 hex of the key; the key itself is never stored
+    keyHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+      unique: true,
+    },
+    // HMAC only: the signing key, which the server needs to verify
+    // signatures; shown once, at creation (like webhook secrets)
+    secret: {
+      type: DataTypes.STRING(128),
+      allowNull: true,
+    },
+    scopes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    // Revoked credentials stop authenticating immediately
+    active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'api_credentials',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['keyHash'],
+      },
+      {
+        fields: ['principalId'],
+      },
+    ],
+  }
+);
+
+export default ApiCredential;
@@ -0,0 +1,111 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface FxQuoteAttributes {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  amount: string;
+  convertedAmount: string;
+  midRate: string;
+  rate: string;
+  spreadBps: number;
+  provider: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  transactionId?: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface FxQuoteCreationAttributes
+  extends Optional<FxQuoteAttributes, 'id' | 'usedAt' | 'transactionId'> {}
+
+class FxQuote extends Model<FxQuoteAttributes, FxQuoteCreationAttributes>
+  implements FxQuoteAttributes {
+  public id!: string;
+  public fromCurrency!: string;
+  public toCurrency!: string;
+  public amount!: string;
+  public convertedAmount!: string;
+  public midRate!: string;
+  public rate!: string;
+  public spreadBps!: number;
+  public provider!: string;
+  public expiresAt!: Date;
+  public usedAt!: Date | null;
+  public transactionId!: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+FxQuote.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    fromCurrency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    toCurrency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    // Source amount the quote is locked for, in fromCurrency
+    amount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: false,
+    },
+    // amount x rate, truncated to toCurrency's scale
+    convertedAmount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: false,
+    },
+    // Provider rate before spread; rate is what the customer gets
+    midRate: {
+      type: DataTypes.DECIMAL(20, 10),
+      allowNull: false,
+    },
+    rate: {
+      type: DataTypes.DECIMAL(20, 10),
+      allowNull: false,
+    },
+    spreadBps: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    provider: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    // Set once, by the transfer that consumed the quote
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    transactionId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'fx_quotes',
+    timestamps: true,
+    indexes: [
+      {
+        fields: ['expiresAt'],
+      },
+    ],
+  }
+);
+
+export default FxQuote;
@@ -0,0 +1,131 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { HoldStatus } from '../types';
+
+interface HoldAttributes {
+  id: string;
+  walletId: string;
+  toWalletId: string;
+  currency: string;
+  amount: string;
+  capturedAmount?: string | null;
+  status: HoldStatus;
+  expiresAt: Date;
+  captureTransactionId?: string | null;
+  idempotencyKey: string;
+  requestHash: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface HoldCreationAttributes
+  extends Optional<HoldAttributes, 'id' | 'capturedAmount' | 'status' | 'captureTransactionId'> {}
+
+class Hold extends Model<HoldAttributes, HoldCreationAttributes> implements HoldAttributes {
+  public id!: string;
+  public walletId!: string;
+  public toWalletId!: string;
+  public currency!: string;
+  public amount!: string;
+  public capturedAmount!: string | null;
+  public status!: HoldStatus;
+  public expiresAt!: Date;
+  public captureTransactionId!: string | null;
+  public idempotencyKey!: string;
+  public requestHash!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Hold.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    // Wallet whose funds are reserved
+    walletId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'wallets',
+        key: 'id',
+      },
+    },
+    // Wallet a capture pays
+    toWalletId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'wallets',
+        key: 'id',
+      },
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    // Reserved amount; counted in wallets.heldAmount while ACTIVE
+    amount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: false,
+    },
+    capturedAmount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(HoldStatus)),
+      allowNull: false,
+      defaultValue: HoldStatus.ACTIVE,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    // TRANSFER log created by the capture
+    captureTransactionId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'transaction_logs',
+        key: 'id',
+      },
+    },
+    // Placement idempotency (captures use their own TransactionLog key)
+    idempotencyKey: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+      validate: {
+        notEmpty: true,
+        len: [1, 255],
+      },
+    },
+    requestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'holds',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['idempotencyKey'],
+      },
+      {
+        fields: ['status', 'expiresAt'],
+      },
+      {
+        fields: ['walletId'],
+      },
+    ],
+  }
+);
+
+export default Hold;
@@ -0,0 +1,94 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { LedgerEntryType } from '../types';
+
+interface LedgerEntryAttributes {
+  id: string;
+  transactionId: string;
+  walletId: string | null;
+  account: string;
+  entryType: LedgerEntryType;
+  amount: string;
+  balanceAfter: string | null;
+  createdAt?: Date;
+}
+
+interface LedgerEntryCreationAttributes
+  extends Optional<LedgerEntryAttributes, 'id' | 'walletId' | 'balanceAfter'> {}
+
+class LedgerEntry extends Model<LedgerEntryAttributes, LedgerEntryCreationAttributes>
+  implements LedgerEntryAttributes {
+  public id!: string;
+  public transactionId!: string;
+  public walletId!: string | null;
+  public account!: string;
+  public entryType!: LedgerEntryType;
+  public amount!: string;
+  public balanceAfter!: string | null;
+
+  public readonly createdAt!: Date;
+}
+
+LedgerEntry.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    // Groups the balanced entries of one posting: the TransactionLog id,
+    // or a generated id for wallet opening balances (no TransactionLog)
+    transactionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+    },
+    // Set for wallet accounts; null for external/equity accounts
+    walletId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'wallets',
+        key: 'id',
+      },
+    },
+    // Account name, e.g. wallet:{id}, external:deposits, equity:opening-balances
+    account: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    entryType: {
+      type: DataTypes.ENUM(...Object.values(LedgerEntryType)),
+      allowNull: false,
+    },
+    // CRITICAL: Signed effect on the account (DEBIT negative, CREDIT positive)
+    // Entries of one transaction always sum to zero
+    amount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: false,
+    },
+    // Running balance of the wallet after this entry (null for non-wallet accounts)
+    balanceAfter: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'ledger_entries',
+    timestamps: true,
+    updatedAt: false, // Ledger entries are append-only
+    indexes: [
+      {
+        fields: ['transactionId'],
+      },
+      {
+        fields: ['walletId', 'createdAt'],
+      },
+      {
+        fields: ['account'],
+      },
+    ],
+  }
+);
+
+export default LedgerEntry;
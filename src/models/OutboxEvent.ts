@@ -0,0 +1,75 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { TransferEventType } from '../types';
+
+interface OutboxEventAttributes {
+  id: string;
+  eventType: TransferEventType;
+  transactionId: string;
+  payload: object;
+  dispatchedAt?: Date | null;
+  createdAt?: Date;
+}
+
+interface OutboxEventCreationAttributes
+  extends Optional<OutboxEventAttributes, 'id' | 'dispatchedAt'> {}
+
+class OutboxEvent
+  extends Model<OutboxEventAttributes, OutboxEventCreationAttributes>
+  implements OutboxEventAttributes {
+  public id!: string;
+  public eventType!: TransferEventType;
+  public transactionId!: string;
+  public payload!: object;
+  public dispatchedAt!: Date | null;
+
+  public readonly createdAt!: Date;
+}
+
+OutboxEvent.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    eventType: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    transactionId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'transaction_logs',
+        key: 'id',
+      },
+    },
+    // Event body as delivered to webhooks (the transfer as it resolved)
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    // Set once the dispatcher has created the event's webhook deliveries
+    dispatchedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'outbox',
+    timestamps: true,
+    updatedAt: false, // Events are immutable; only dispatchedAt is set later
+    indexes: [
+      {
+        fields: ['dispatchedAt', 'createdAt'],
+      },
+      {
+        fields: ['transactionId'],
+      },
+    ],
+  }
+);
+
+export default OutboxEvent;
@@ -0,0 +1,198 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { ScheduledTransferStatus } from '../types';
+
+interface ScheduledTransferAttributes {
+  id: string;
+  fromWalletId: string;
+  toWalletId: string;
+  amount: string;
+  currency: string;
+  runAt?: Date | null;
+  cron?: string | null;
+  status: ScheduledTransferStatus;
+  nextRunAt?: Date | null;
+  attempt: number;
+  retryAt?: Date | null;
+  failureCount: number;
+  maxFailures: number;
+  lastRunAt?: Date | null;
+  lastTransactionId?: string | null;
+  lastErrorCode?: string | null;
+  lastError?: string | null;
+  idempotencyKey: string;
+  requestHash: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface ScheduledTransferCreationAttributes
+  extends Optional<
+    ScheduledTransferAttributes,
+    | 'id'
+    | 'runAt'
+    | 'cron'
+    | 'status'
+    | 'nextRunAt'
+    | 'attempt'
+    | 'retryAt'
+    | 'failureCount'
+    | 'lastRunAt'
+    | 'lastTransactionId'
+    | 'lastErrorCode'
+    | 'lastError'
+  > {}
+
+class ScheduledTransfer
+  extends Model<ScheduledTransferAttributes, ScheduledTransferCreationAttributes>
+  implements ScheduledTransferAttributes {
+  public id!: string;
+  public fromWalletId!: string;
+  public toWalletId!: string;
+  public amount!: string;
+  public currency!: string;
+  public runAt!: Date | null;
+  public cron!: string | null;
+  public status!: ScheduledTransferStatus;
+  public nextRunAt!: Date | null;
+  public attempt!: number;
+  public retryAt!: Date | null;
+  public failureCount!: number;
+  public maxFailures!: number;
+  public lastRunAt!: Date | null;
+  public lastTransactionId!: string | null;
+  public lastErrorCode!: string | null;
+  public lastError!: string | null;
+  public idempotencyKey!: string;
+  public requestHash!: string;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+ScheduledTransfer.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    fromWalletId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'wallets',
+        key: 'id',
+      },
+    },
+    toWalletId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'wallets',
+        key: 'id',
+      },
+    },
+    amount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: false,
+    },
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+    },
+    // One-off schedules run once at runAt; recurring ones follow cron (UTC)
+    runAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    cron: {
+      type: DataTypes.STRING(100),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(ScheduledTransferStatus)),
+      allowNull: false,
+      defaultValue: ScheduledTransferStatus.ACTIVE,
+    },
+    // Occurrence due next; with attempt, it derives the transfer's idempotency key
+    nextRunAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    // Failed attempts at the current occurrence (each retry uses a new key)
+    attempt: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    // Backoff: the next attempt is not made before retryAt
+    retryAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    // Consecutive failures; reaching maxFailures pauses the schedule
+    failureCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    maxFailures: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    lastRunAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastTransactionId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'transaction_logs',
+        key: 'id',
+      },
+    },
+    lastErrorCode: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    // Creation idempotency (each run uses its own TransactionLog key)
+    idempotencyKey: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+      validate: {
+        notEmpty: true,
+        len: [1, 255],
+      },
+    },
+    requestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'scheduled_transfers',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['idempotencyKey'],
+      },
+      {
+        fields: ['status', 'nextRunAt'],
+      },
+      {
+        fields: ['fromWalletId'],
+      },
+    ],
+  }
+);
+
+export default ScheduledTransfer;
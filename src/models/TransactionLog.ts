@@ -1,33 +1,77 @@
-import { DataTypes, Model, Optional } from 'sequelize';
+import { DataTypes, Model, Op, Optional } from 'sequelize';
 import sequelize from '../config/database';
-import { TransactionStatus } from '../types';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../config/currencies';
+import { TransactionStatus, TransactionType } from '../types';
+import { getLogContext } from '../utils/logger';
 
 interface TransactionLogAttributes {
   id: string;
-  fromWalletId: string;
-  toWalletId: string;
+  type: TransactionType;
+  fromWalletId: string | null;
+  toWalletId: string | null;
+  externalReference?: string | null;
   amount: string;
+  currency: string;
+  toAmount?: string | null;
+  toCurrency?: string | null;
+  fxQuoteId?: string | null;
+  batchId?: string | null;
+  reversalOfId?: string | null;
+  reversedAmount?: string;
   status: TransactionStatus;
   idempotencyKey: string;
+  requestHash?: string | null;
+  fencingToken?: number | null;
   errorMessage?: string | null;
   metadata?: object | null;
+  appliedAt?: Date | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
 interface TransactionLogCreationAttributes
-  extends Optional<TransactionLogAttributes, 'id' | 'status' | 'errorMessage' | 'metadata'> {}
+  extends Optional<
+    TransactionLogAttributes,
+    | 'id'
+    | 'type'
+    | 'externalReference'
+    | 'currency'
+    | 'toAmount'
+    | 'toCurrency'
+    | 'fxQuoteId'
+    | 'batchId'
+    | 'reversalOfId'
+    | 'reversedAmount'
+    | 'status'
+    | 'requestHash'
+    | 'fencingToken'
+    | 'errorMessage'
+    | 'metadata'
+    | 'appliedAt'
+  > {}
 
 class TransactionLog extends Model<TransactionLogAttributes, TransactionLogCreationAttributes>
   implements TransactionLogAttributes {
   public id!: string;
-  public fromWalletId!: string;
-  public toWalletId!: string;
+  public type!: TransactionType;
+  public fromWalletId!: string | null;
+  public toWalletId!: string | null;
+  public externalReference!: string | null;
   public amount!: string;
+  public currency!: string;
+  public toAmount!: string | null;
+  public toCurrency!: string | null;
+  public fxQuoteId!: string | null;
+  public batchId!: string | null;
+  public reversalOfId!: string | null;
+  public reversedAmount!: string;
   public status!: TransactionStatus;
   public idempotencyKey!: string;
+  public requestHash!: string | null;
+  public fencingToken!: number | null;
   public errorMessage!: string | null;
   public metadata!: object | null;
+  public appliedAt!: Date | null;
   
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -40,22 +84,39 @@ TransactionLog.init(
       defaultValue: DataTypes.UUIDV4,
       primaryKey: true,
     },
+    type: {
+      type: DataTypes.ENUM(...Object.values(TransactionType)),
+      allowNull: false,
+      defaultValue: TransactionType.TRANSFER,
+    },
+    // Debited wallet; null for deposits (the counterparty is external)
     fromWalletId: {
       type: DataTypes.UUID,
-      allowNull: false,
+      allowNull: true,
       references: {
         model: 'wallets',
         key: 'id',
       },
     },
+    // Credited wallet; null for withdrawals (the counterparty is external)
     toWalletId: {
       type: DataTypes.UUID,
-      allowNull: false,
+      allowNull: true,
       references: {
         model: 'wallets',
         key: 'id',
       },
     },
+    // Payment-processor ID for deposits/withdrawals
+    // Unique per type among logs that did not fail, so one external payment
+    // can't be applied twice but can be retried after a failure
+    externalReference: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      validate: {
+        len: [1, 255],
+      },
+    },
     amount: {
       type: DataTypes.DECIMAL(19, 4),
       allowNull: false,
@@ -64,6 +125,58 @@ TransactionLog.init(
         min: 0.0001, // Minimum transfer amount
       },
     },
+    // ISO 4217 code of `amount`; always the currency of the wallets involved
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      defaultValue: BASE_CURRENCY,
+      validate: {
+        isIn: [SUPPORTED_CURRENCIES],
+      },
+    },
+    // Cross-currency transfers only: amount credited to toWalletId, in
+    // toCurrency, at the rate locked by fxQuoteId (null = same as amount)
+    toAmount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: true,
+    },
+    toCurrency: {
+      type: DataTypes.STRING(3),
+      allowNull: true,
+    },
+    fxQuoteId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'fx_quotes',
+        key: 'id',
+      },
+    },
+    // Batch this transfer is a leg of (POST /api/transfers/batch)
+    batchId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'transfer_batches',
+        key: 'id',
+      },
+    },
+    // REVERSAL logs only: the TRANSFER this one refunds
+    reversalOfId: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      references: {
+        model: 'transaction_logs',
+        key: 'id',
+      },
+    },
+    // TRANSFER logs only: sum of its SUCCESS reversals, never above amount
+    // (updated under the log's row lock in the reversal's DB transaction)
+    reversedAmount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: false,
+      defaultValue: '0.0000',
+    },
     // Status tracks the lifecycle of each transfer attempt
     // PENDING -> SUCCESS or FAILED
     status: {
@@ -82,6 +195,18 @@ TransactionLog.init(
         len: [1, 255],
       },
     },
+    // SHA-256 of the canonical request body bound to the idempotency key
+    // Replays with the same key but a different payload are rejected
+    requestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
+    // Fencing token of the lock holder that owns this log
+    // SUCCESS/FAILED updates are conditional on it, rejecting stale holders
+    fencingToken: {
+      type: DataTypes.BIGINT,
+      allowNull: true,
+    },
     errorMessage: {
       type: DataTypes.TEXT,
       allowNull: true,
@@ -91,6 +216,14 @@ TransactionLog.init(
       type: DataTypes.JSONB,
       allowNull: true,
     },
+    // When the balances moved: database clock read under the wallet row
+    // locks (LedgerService.post), so it orders each wallet's changes as they
+    // were applied. createdAt is set before the locks are taken.
+    // Null until then, and for logs that never moved money.
+    appliedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   },
   {
     sequelize,
@@ -102,19 +235,50 @@ TransactionLog.init(
         fields: ['idempotencyKey'],
       },
       {
-        fields: ['fromWalletId'],
+        fields: ['status'],
       },
       {
-        fields: ['toWalletId'],
+        fields: ['type'],
       },
+      // Failed attempts moved no money, so they leave the reference free
       {
-        fields: ['status'],
+        unique: true,
+        fields: ['type', 'externalReference'],
+        where: { status: { [Op.ne]: TransactionStatus.FAILED } },
       },
       {
         fields: ['createdAt'],
       },
+      // Keyset-paginated history per side (and spending-limit windows)
+      {
+        fields: ['fromWalletId', 'createdAt', 'id'],
+      },
+      {
+        fields: ['toWalletId', 'createdAt', 'id'],
+      },
+      // Point-in-time balances and statements, in apply order per side
+      {
+        fields: ['fromWalletId', 'appliedAt', 'id'],
+      },
+      {
+        fields: ['toWalletId', 'appliedAt', 'id'],
+      },
+      {
+        fields: ['batchId'],
+      },
+      {
+        fields: ['reversalOfId'],
+      },
     ],
   }
 );
 
+// Logs created while serving a request record its X-Request-Id
+TransactionLog.beforeCreate((log) => {
+  const { requestId } = getLogContext();
+  if (requestId) {
+    log.metadata = { ...log.metadata, requestId };
+  }
+});
+
 export default TransactionLog;
\ No newline at end of file
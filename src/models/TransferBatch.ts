@@ -0,0 +1,95 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { BatchLegResult, BatchMode, BatchStatus } from '../types';
+
+interface TransferBatchAttributes {
+  id: string;
+  idempotencyKey: string;
+  requestHash: string;
+  mode: BatchMode;
+  status: BatchStatus;
+  legCount: number;
+  results?: BatchLegResult[] | null;
+  fencingToken?: number | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface TransferBatchCreationAttributes
+  extends Optional<TransferBatchAttributes, 'id' | 'status' | 'results' | 'fencingToken'> {}
+
+class TransferBatch
+  extends Model<TransferBatchAttributes, TransferBatchCreationAttributes>
+  implements TransferBatchAttributes {
+  public id!: string;
+  public idempotencyKey!: string;
+  public requestHash!: string;
+  public mode!: BatchMode;
+  public status!: BatchStatus;
+  public legCount!: number;
+  public results!: BatchLegResult[] | null;
+  public fencingToken!: number | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+TransferBatch.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    // Batch-level key; each leg also has its own TransactionLog key
+    idempotencyKey: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+      validate: {
+        notEmpty: true,
+        len: [1, 255],
+      },
+    },
+    requestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    mode: {
+      type: DataTypes.ENUM(...Object.values(BatchMode)),
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(BatchStatus)),
+      allowNull: false,
+      defaultValue: BatchStatus.PENDING,
+    },
+    legCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    // Per-leg outcomes, set once the batch is resolved; replays return them
+    results: {
+      type: DataTypes.JSONB,
+      allowNull: true,
+    },
+    // Fencing token of the lock holder processing the batch
+    fencingToken: {
+      type: DataTypes.BIGINT,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'transfer_batches',
+    timestamps: true,
+    indexes: [
+      {
+        unique: true,
+        fields: ['idempotencyKey'],
+      },
+    ],
+  }
+);
+
+export default TransferBatch;
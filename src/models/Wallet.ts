@@ -1,22 +1,37 @@
 import { DataTypes, Model, Optional } from 'sequelize';
 import sequelize from '../config/database';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '../config/currencies';
+import { WalletStatus } from '../types';
 
 interface WalletAttributes {
   id: string;
   userId: string;
+  currency: string; // ISO 4217 code, fixed for the wallet's lifetime
   balance: string; // DECIMAL stored as string to avoid float precision issues
+  heldAmount: string; // Reserved by ACTIVE holds; available = balance - heldAmount
   version: number; // Optimistic locking support
+  status: WalletStatus;
+  idempotencyKey?: string | null; // Key of the POST /wallets request that created it
+  requestHash?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
-interface WalletCreationAttributes extends Optional<WalletAttributes, 'id' | 'version'> {}
+interface WalletCreationAttributes extends Optional<
+    WalletAttributes,
+    'id' | 'currency' | 'heldAmount' | 'version' | 'status' | 'idempotencyKey' | 'requestHash'
+  > {}
 
 class Wallet extends Model<WalletAttributes, WalletCreationAttributes> implements WalletAttributes {
   public id!: string;
   public userId!: string;
+  public currency!: string;
   public balance!: string;
+  public heldAmount!: string;
   public version!: number;
+  public status!: WalletStatus;
+  public idempotencyKey!: string | null;
+  public requestHash!: string | null;
   
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
@@ -32,11 +47,19 @@ Wallet.init(
     userId: {
       type: DataTypes.STRING,
       allowNull: false,
-      unique: true,
       validate: {
         notEmpty: true,
       },
     },
+    // ISO 4217 code; the balance is denominated in it
+    currency: {
+      type: DataTypes.STRING(3),
+      allowNull: false,
+      defaultValue: BASE_CURRENCY,
+      validate: {
+        isIn: [SUPPORTED_CURRENCIES],
+      },
+    },
     // CRITICAL: Use DECIMAL(19,4) not FLOAT/REAL for money
     // This prevents floating-point precision errors
     // Example: 0.1 + 0.2 = 0.30000000000000004 in float
@@ -44,11 +67,20 @@ Wallet.init(
       type: DataTypes.DECIMAL(19, 4),
       allowNull: false,
       defaultValue: '0.0000',
+      // No min: 0 here: debits refuse to overdraw (INSUFFICIENT_BALANCE), but
+      // an admin reversal override may leave a wallet negative, and it must
+      // still accept credits afterwards
       validate: {
         isDecimal: true,
-        min: 0, // No negative balances allowed at DB level
       },
     },
+    // Sum of ACTIVE holds; part of the balance that debits may not spend
+    // Not a ledger movement, so changing it does not bump version
+    heldAmount: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: false,
+      defaultValue: '0.0000',
+    },
     // Version field for optimistic locking
     // Incremented on each update to detect concurrent modifications
     version: {
@@ -56,15 +88,39 @@ Wallet.init(
       allowNull: false,
       defaultValue: 0,
     },
+    // Lifecycle state; every change is recorded in wallet_status_changes
+    status: {
+      type: DataTypes.ENUM(...Object.values(WalletStatus)),
+      allowNull: false,
+      defaultValue: WalletStatus.ACTIVE,
+    },
+    // Creation idempotency: null for wallets created outside the API (seeds)
+    idempotencyKey: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true,
+      validate: {
+        len: [1, 255],
+      },
+    },
+    requestHash: {
+      type: DataTypes.STRING(64),
+      allowNull: true,
+    },
   },
   {
     sequelize,
     tableName: 'wallets',
     timestamps: true,
     indexes: [
+      // One wallet per user and currency
+      {
+        unique: true,
+        fields: ['userId', 'currency'],
+      },
       {
         unique: true,
-        fields: ['userId'],
+        fields: ['idempotencyKey'],
       },
     ],
   }
@@ -0,0 +1,74 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+
+interface WalletLimitAttributes {
+  walletId: string;
+  maxSingleTransfer: string | null;
+  dailyOutgoingTotal: string | null;
+  hourlyTransferCount: number | null;
+  minRetainedBalance: string | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface WalletLimitCreationAttributes
+  extends Optional<
+    WalletLimitAttributes,
+    'maxSingleTransfer' | 'dailyOutgoingTotal' | 'hourlyTransferCount' | 'minRetainedBalance'
+  > {}
+
+class WalletLimit extends Model<WalletLimitAttributes, WalletLimitCreationAttributes>
+  implements WalletLimitAttributes {
+  public walletId!: string;
+  public maxSingleTransfer!: string | null;
+  public dailyOutgoingTotal!: string | null;
+  public hourlyTransferCount!: number | null;
+  public minRetainedBalance!: string | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+WalletLimit.init(
+  {
+    // One row per limited wallet; wallets without a row are unlimited
+    walletId: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      references: {
+        model: 'wallets',
+        key: 'id',
+      },
+    },
+    // Each limit is optional (null = unlimited); amounts in the wallet's currency
+    maxSingleTransfer: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: true,
+    },
+    // Sum of SUCCESS debits per UTC calendar day
+    dailyOutgoingTotal: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: true,
+    },
+    // SUCCESS debits in the last 60 minutes
+    hourlyTransferCount: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 0,
+      },
+    },
+    // Balance a debit may not go below
+    minRetainedBalance: {
+      type: DataTypes.DECIMAL(19, 4),
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'wallet_limits',
+    timestamps: true,
+  }
+);
+
+export default WalletLimit;
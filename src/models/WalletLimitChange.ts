@@ -0,0 +1,84 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { WalletLimits } from '../types';
+
+interface WalletLimitChangeAttributes {
+  id: string;
+  walletId: string;
+  previousLimits: WalletLimits;
+  newLimits: WalletLimits;
+  reason: string;
+  actor: string;
+  createdAt?: Date;
+}
+
+interface WalletLimitChangeCreationAttributes
+  extends Optional<WalletLimitChangeAttributes, 'id'> {}
+
+class WalletLimitChange
+  extends Model<WalletLimitChangeAttributes, WalletLimitChangeCreationAttributes>
+  implements WalletLimitChangeAttributes {
+  public id!: string;
+  public walletId!: string;
+  public previousLimits!: WalletLimits;
+  public newLimits!: WalletLimits;
+  public reason!: string;
+  public actor!: string;
+
+  public readonly createdAt!: Date;
+}
+
+WalletLimitChange.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    walletId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'wallets',
+        key: 'id',
+      },
+    },
+    // Full limit sets before and after the change
+    previousLimits: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    newLimits: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    actor: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 255],
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'wallet_limit_changes',
+    timestamps: true,
+    updatedAt: false, // Audit rows are append-only
+    indexes: [
+      {
+        fields: ['walletId', 'createdAt'],
+      },
+    ],
+  }
+);
+
+export default WalletLimitChange;
@@ -0,0 +1,85 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { WalletStatus } from '../types';
+
+interface WalletStatusChangeAttributes {
+  id: string;
+  walletId: string;
+  fromStatus: WalletStatus;
+  toStatus: WalletStatus;
+  reason: string;
+  actor: string;
+  createdAt?: Date;
+}
+
+interface WalletStatusChangeCreationAttributes
+  extends Optional<WalletStatusChangeAttributes, 'id'> {}
+
+class WalletStatusChange
+  extends Model<WalletStatusChangeAttributes, WalletStatusChangeCreationAttributes>
+  implements WalletStatusChangeAttributes {
+  public id!: string;
+  public walletId!: string;
+  public fromStatus!: WalletStatus;
+  public toStatus!: WalletStatus;
+  public reason!: string;
+  public actor!: string;
+
+  public readonly createdAt!: Date;
+}
+
+WalletStatusChange.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    walletId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'wallets',
+        key: 'id',
+      },
+    },
+    fromStatus: {
+      type: DataTypes.ENUM(...Object.values(WalletStatus)),
+      allowNull: false,
+    },
+    toStatus: {
+      type: DataTypes.ENUM(...Object.values(WalletStatus)),
+      allowNull: false,
+    },
+    // Why the wallet changed state (support ticket, compliance case, ...)
+    reason: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+      },
+    },
+    // Who requested the change (operator or system identifier)
+    actor: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 255],
+      },
+    },
+  },
+  {
+    sequelize,
+    tableName: 'wallet_status_changes',
+    timestamps: true,
+    updatedAt: false, // Audit rows are append-only
+    indexes: [
+      {
+        fields: ['walletId', 'createdAt'],
+      },
+    ],
+  }
+);
+
+export default WalletStatusChange;
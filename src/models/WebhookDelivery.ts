@@ -0,0 +1,111 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { WebhookDeliveryStatus } from '../types';
+
+interface WebhookDeliveryAttributes {
+  id: string;
+  eventId: string;
+  endpointId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  lastStatusCode?: number | null;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface WebhookDeliveryCreationAttributes
+  extends Optional<
+    WebhookDeliveryAttributes,
+    'id' | 'status' | 'attempts' | 'nextAttemptAt' | 'lastStatusCode' | 'lastError' | 'deliveredAt'
+  > {}
+
+class WebhookDelivery
+  extends Model<WebhookDeliveryAttributes, WebhookDeliveryCreationAttributes>
+  implements WebhookDeliveryAttributes {
+  public id!: string;
+  public eventId!: string;
+  public endpointId!: string;
+  public status!: WebhookDeliveryStatus;
+  public attempts!: number;
+  public nextAttemptAt!: Date | null;
+  public lastStatusCode!: number | null;
+  public lastError!: string | null;
+  public deliveredAt!: Date | null;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+WebhookDelivery.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    eventId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'outbox',
+        key: 'id',
+      },
+    },
+    endpointId: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'webhook_endpoints',
+        key: 'id',
+      },
+    },
+    status: {
+      type: DataTypes.ENUM(...Object.values(WebhookDeliveryStatus)),
+      allowNull: false,
+      defaultValue: WebhookDeliveryStatus.PENDING,
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    // Due time of the next attempt (also leased forward while one is in flight)
+    nextAttemptAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    // HTTP status of the last attempt; null if no response was received
+    lastStatusCode: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    deliveredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'webhook_deliveries',
+    timestamps: true,
+    indexes: [
+      {
+        // One delivery per event and endpoint, however often fan-out runs
+        unique: true,
+        fields: ['eventId', 'endpointId'],
+      },
+      {
+        fields: ['status', 'nextAttemptAt'],
+      },
+    ],
+  }
+);
+
+export default WebhookDelivery;
@@ -0,0 +1,71 @@
+import { DataTypes, Model, Optional } from 'sequelize';
+import sequelize from '../config/database';
+import { TransferEventType } from '../types';
+
+interface WebhookEndpointAttributes {
+  id: string;
+  url: string;
+  secret: string;
+  eventTypes: TransferEventType[];
+  description?: string | null;
+  active: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+interface WebhookEndpointCreationAttributes
+  extends Optional<WebhookEndpointAttributes, 'id' | 'description' | 'active'> {}
+
+class WebhookEndpoint
+  extends Model<WebhookEndpointAttributes, WebhookEndpointCreationAttributes>
+  implements WebhookEndpointAttributes {
+  public id!: string;
+  public url!: string;
+  public secret!: string;
+  public eventTypes!: TransferEventType[];
+  public description!: string | null;
+  public active!: boolean;
+
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+WebhookEndpoint.init(
+  {
+    id: {
+      type: DataTypes.UUID,
+      defaultValue: DataTypes.UUIDV4,
+      primaryKey: true,
+    },
+    url: {
+      type: DataTypes.STRING(2048),
+      allowNull: false,
+    },
+    // HMAC-SHA256 key for X-Webhook-Signature; shown once, at registration
+    secret: {
+      type: DataTypes.STRING(128),
+      allowNull: false,
+    },
+    eventTypes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    // Deactivated endpoints get no new deliveries; pending ones are dead-lettered
+    active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+  },
+  {
+    sequelize,
+    tableName: 'webhook_endpoints',
+    timestamps: true,
+  }
+);
+
+export default WebhookEndpoint;
@@ -1,5 +1,17 @@
 import Wallet from './Wallet';
 import TransactionLog from './TransactionLog';
+import LedgerEntry from './LedgerEntry';
+import FxQuote from './FxQuote';
+import WalletStatusChange from './WalletStatusChange';
+import WalletLimit from './WalletLimit';
+import WalletLimitChange from './WalletLimitChange';
+import TransferBatch from './TransferBatch';
+import Hold from './Hold';
+import ScheduledTransfer from './ScheduledTransfer';
+import OutboxEvent from './OutboxEvent';
+import WebhookEndpoint from './WebhookEndpoint';
+import WebhookDelivery from './WebhookDelivery';
+import ApiCredential from './ApiCredential';
 
 // Define associations
 Wallet.hasMany(TransactionLog, {
@@ -22,4 +34,137 @@ TransactionLog.belongsTo(Wallet, {
   as: 'toWallet',
 });
 
-export { Wallet, TransactionLog };
\ No newline at end of file
+Wallet.hasMany(LedgerEntry, {
+  foreignKey: 'walletId',
+  as: 'ledgerEntries',
+});
+
+LedgerEntry.belongsTo(Wallet, {
+  foreignKey: 'walletId',
+  as: 'wallet',
+});
+
+// transactionId is not a DB foreign key: opening-balance postings have
+// no TransactionLog
+TransactionLog.hasMany(LedgerEntry, {
+  foreignKey: 'transactionId',
+  as: 'ledgerEntries',
+  constraints: false,
+});
+
+TransactionLog.belongsTo(FxQuote, {
+  foreignKey: 'fxQuoteId',
+  as: 'fxQuote',
+});
+
+Wallet.hasMany(WalletStatusChange, {
+  foreignKey: 'walletId',
+  as: 'statusChanges',
+});
+
+WalletStatusChange.belongsTo(Wallet, {
+  foreignKey: 'walletId',
+  as: 'wallet',
+});
+
+Wallet.hasOne(WalletLimit, {
+  foreignKey: 'walletId',
+  as: 'limits',
+});
+
+Wallet.hasMany(WalletLimitChange, {
+  foreignKey: 'walletId',
+  as: 'limitChanges',
+});
+
+TransferBatch.hasMany(TransactionLog, {
+  foreignKey: 'batchId',
+  as: 'legs',
+});
+
+TransactionLog.belongsTo(TransferBatch, {
+  foreignKey: 'batchId',
+  as: 'batch',
+});
+
+TransactionLog.hasMany(TransactionLog, {
+  foreignKey: 'reversalOfId',
+  as: 'reversals',
+});
+
+TransactionLog.belongsTo(TransactionLog, {
+  foreignKey: 'reversalOfId',
+  as: 'reversalOf',
+});
+
+Wallet.hasMany(Hold, {
+  foreignKey: 'walletId',
+  as: 'holds',
+});
+
+Hold.belongsTo(Wallet, {
+  foreignKey: 'walletId',
+  as: 'wallet',
+});
+
+Hold.belongsTo(TransactionLog, {
+  foreignKey: 'captureTransactionId',
+  as: 'captureTransaction',
+});
+
+Wallet.hasMany(ScheduledTransfer, {
+  foreignKey: 'fromWalletId',
+  as: 'scheduledTransfers',
+});
+
+ScheduledTransfer.belongsTo(Wallet, {
+  foreignKey: 'fromWalletId',
+  as: 'fromWallet',
+});
+
+ScheduledTransfer.belongsTo(TransactionLog, {
+  foreignKey: 'lastTransactionId',
+  as: 'lastTransaction',
+});
+
+TransactionLog.hasMany(OutboxEvent, {
+  foreignKey: 'transactionId',
+  as: 'events',
+});
+
+OutboxEvent.hasMany(WebhookDelivery, {
+  foreignKey: 'eventId',
+  as: 'deliveries',
+});
+
+WebhookDelivery.belongsTo(OutboxEvent, {
+  foreignKey: 'eventId',
+  as: 'event',
+});
+
+WebhookEndpoint.hasMany(WebhookDelivery, {
+  foreignKey: 'endpointId',
+  as: 'deliveries',
+});
+
+WebhookDelivery.belongsTo(WebhookEndpoint, {
+  foreignKey: 'endpointId',
+  as: 'endpoint',
+});
+
+export {
+  Wallet,
+  TransactionLog,
+  LedgerEntry,
+  FxQuote,
+  WalletStatusChange,
+  WalletLimit,
+  WalletLimitChange,
+  TransferBatch,
+  Hold,
+  ScheduledTransfer,
+  OutboxEvent,
+  WebhookEndpoint,
+  WebhookDelivery,
+  ApiCredential,
+};
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import AdminController from '../controllers/AdminController';
+import { requireAdmin } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Admin routes
+ * admin:read for GET, admin:write for everything else
+ */
+
+router.use(requireAdmin);
+
+// Balance reconciliation / drift report
+router.get('/reconciliation', AdminController.getReconciliation.bind(AdminController));
+
+// Per-wallet spending limits (changes are audited)
+router.get('/wallets/:walletId/limits', AdminController.getWalletLimits.bind(AdminController));
+router.put('/wallets/:walletId/limits', AdminController.updateWalletLimits.bind(AdminController));
+
+// Reversal with the negative balance override
+router.post(
+  '/transactions/:transactionId/reverse',
+  AdminController.reverseTransaction.bind(AdminController)
+);
+
+// Webhook endpoints for transfer events
+router.post('/webhooks', AdminController.registerWebhook.bind(AdminController));
+router.get('/webhooks', AdminController.listWebhooks.bind(AdminController));
+router.delete('/webhooks/:endpointId', AdminController.deactivateWebhook.bind(AdminController));
+
+// Failed (dead-lettered) deliveries and their replay
+router.get(
+  '/webhooks/deliveries',
+  AdminController.listWebhookDeliveries.bind(AdminController)
+);
+router.post(
+  '/webhooks/deliveries/:deliveryId/replay',
+  AdminController.replayWebhookDelivery.bind(AdminController)
+);
+
+// API credentials (key or secret shown once, on creation)
+router.post('/credentials', AdminController.createCredential.bind(AdminController));
+router.get('/credentials', AdminController.listCredentials.bind(AdminController));
+router.delete(
+  '/credentials/:credentialId',
+  AdminController.revokeCredential.bind(AdminController)
+);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import FxController from '../controllers/FxController';
+import { requireScope } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { AuthScope, RateLimitPolicy } from '../types';
+
+const router = Router();
+
+/**
+ * FX routes
+ */
+
+// Lock a rate for a cross-currency transfer
+router.post(
+  '/quote',
+  requireScope(AuthScope.TRANSFERS_WRITE),
+  rateLimit(RateLimitPolicy.WRITE),
+  FxController.quote.bind(FxController)
+);
+
+export default router;
@@ -0,0 +1,50 @@
+import { Router } from 'express';
+import HoldController from '../controllers/HoldController';
+import { holdWallet, requireScope, requireWalletOwner } from '../middleware/auth';
+import { idempotencyKeyOf, rateLimit } from '../middleware/rateLimit';
+import { AuthScope, RateLimitPolicy } from '../types';
+
+const router = Router();
+
+/**
+ * Two-phase hold routes
+ * The caller must own the wallet the funds are reserved on
+ */
+
+const canTransfer = requireScope(AuthScope.TRANSFERS_WRITE);
+const ownsHold = requireWalletOwner(holdWallet);
+
+// Reserve funds (idempotent)
+router.post(
+  '/',
+  canTransfer,
+  requireWalletOwner((req) => req.body?.walletId),
+  rateLimit(RateLimitPolicy.TRANSFER, { wallet: (req) => req.body?.walletId }),
+  HoldController.place.bind(HoldController)
+);
+
+router.get(
+  '/:holdId',
+  requireScope(AuthScope.WALLETS_READ),
+  ownsHold,
+  rateLimit(RateLimitPolicy.READ),
+  HoldController.get.bind(HoldController)
+);
+
+// Capture (transfer) or void (release) the reserved funds
+router.post(
+  '/:holdId/capture',
+  canTransfer,
+  ownsHold,
+  rateLimit(RateLimitPolicy.TRANSFER, { replayKey: idempotencyKeyOf }),
+  HoldController.capture.bind(HoldController)
+);
+router.post(
+  '/:holdId/void',
+  canTransfer,
+  ownsHold,
+  rateLimit(RateLimitPolicy.WRITE),
+  HoldController.void.bind(HoldController)
+);
+
+export default router;
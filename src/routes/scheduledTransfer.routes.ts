@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import ScheduledTransferController from '../controllers/ScheduledTransferController';
+import { requireScope, requireWalletOwner, scheduleWallet } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { AuthScope, RateLimitPolicy } from '../types';
+
+const router = Router();
+
+/**
+ * Scheduled transfer routes
+ * The caller must own the wallet the schedule pays from
+ */
+
+const canTransfer = requireScope(AuthScope.TRANSFERS_WRITE);
+const canRead = requireScope(AuthScope.WALLETS_READ);
+const ownsSchedule = requireWalletOwner(scheduleWallet);
+const limitRead = rateLimit(RateLimitPolicy.READ);
+const limitWrite = rateLimit(RateLimitPolicy.WRITE);
+
+// Create a one-off (runAt) or recurring (cron) transfer (idempotent)
+router.post(
+  '/',
+  canTransfer,
+  requireWalletOwner((req) => req.body?.fromWalletId),
+  rateLimit(RateLimitPolicy.WRITE, { wallet: (req) => req.body?.fromWalletId }),
+  ScheduledTransferController.create.bind(ScheduledTransferController)
+);
+
+router.get(
+  '/',
+  canRead,
+  requireWalletOwner((req) => req.query.walletId as string | undefined),
+  limitRead,
+  ScheduledTransferController.list.bind(ScheduledTransferController)
+);
+router.get('/:scheduleId', canRead, ownsSchedule, limitRead, ScheduledTransferController.get.bind(ScheduledTransferController));
+
+router.patch('/:scheduleId', canTransfer, ownsSchedule, limitWrite, ScheduledTransferController.update.bind(ScheduledTransferController));
+router.delete('/:scheduleId', canTransfer, ownsSchedule, limitWrite, ScheduledTransferController.cancel.bind(ScheduledTransferController));
+
+export default router;
@@ -1,18 +1,84 @@
-import { Router } from 'express';
+import { Request, Router } from 'express';
 import TransferController from '../controllers/TransferController';
+import WalletOperationController from '../controllers/WalletOperationController';
+import ReversalController from '../controllers/ReversalController';
+import { requireScope, requireWalletOwner, reversedTransferWallet } from '../middleware/auth';
+import { idempotencyKeyOf, rateLimit } from '../middleware/rateLimit';
+import { AuthScope, RateLimitPolicy } from '../types';
 
 const router = Router();
 
 /**
  * Transfer routes
+ * The caller must own the wallet money leaves (or is read from); deposits
+ * and withdrawals are for service callers, on any wallet
  */
 
-router.post('/transfer', TransferController.transfer.bind(TransferController));
+const canTransfer = requireScope(AuthScope.TRANSFERS_WRITE);
+const canRead = requireScope(AuthScope.WALLETS_READ);
+const canMoveExternal = requireScope(AuthScope.DEPOSITS_WRITE);
 
-// Get wallet balance
-router.get('/wallet/:walletId/balance', TransferController.getBalance.bind(TransferController));
+const fromWallet = (req: Request) => req.body?.fromWalletId;
+// Body fields are unchecked here; non-string IDs are left to the handler
+const fromWalletOf = (value: unknown): unknown =>
+  typeof value === 'object' && value !== null && 'fromWalletId' in value
+    ? value.fromWalletId
+    : undefined;
+const batchWallets = (req: Request): string[] =>
+  [
+    fromWalletOf(req.body),
+    ...(Array.isArray(req.body?.legs) ? req.body.legs.map(fromWalletOf) : []),
+  ].filter((id): id is string => typeof id === 'string');
+const pathWallet = (req: Request) => req.params.walletId;
+
+const ownsWallet = requireWalletOwner(pathWallet);
+const limitTransfer = rateLimit(RateLimitPolicy.TRANSFER, {
+  wallet: pathWallet,
+  replayKey: idempotencyKeyOf,
+});
+const limitRead = rateLimit(RateLimitPolicy.READ, { wallet: pathWallet });
+
+router.post(
+  '/transfer',
+  canTransfer,
+  requireWalletOwner(fromWallet),
+  rateLimit(RateLimitPolicy.TRANSFER, { wallet: fromWallet, replayKey: idempotencyKeyOf }),
+  TransferController.transfer.bind(TransferController)
+);
+
+// Many transfers under one batch idempotency key (atomic or best-effort)
+router.post(
+  '/transfers/batch',
+  canTransfer,
+  requireWalletOwner(batchWallets),
+  rateLimit(RateLimitPolicy.TRANSFER, {
+    wallet: batchWallets,
+    replayKey: (req) => req.body?.idempotencyKey && `batch:${req.body.idempotencyKey}`,
+  }),
+  TransferController.batchTransfer.bind(TransferController)
+);
+
+// Full or partial refund of a transfer
+router.post(
+  '/transactions/:transactionId/reverse',
+  canTransfer,
+  requireWalletOwner(reversedTransferWallet),
+  rateLimit(RateLimitPolicy.TRANSFER, { replayKey: idempotencyKeyOf }),
+  ReversalController.reverse.bind(ReversalController)
+);
+
+// Get wallet balance (?asOf= for a past instant)
+router.get('/wallet/:walletId/balance', canRead, ownsWallet, limitRead, TransferController.getBalance.bind(TransferController));
+
+// Deposit from / withdraw to an external account
+// (service callers only: the external side is not verified here)
+router.post('/wallet/:walletId/deposit', canMoveExternal, limitTransfer, WalletOperationController.deposit.bind(WalletOperationController));
+router.post('/wallet/:walletId/withdraw', canMoveExternal, limitTransfer, WalletOperationController.withdraw.bind(WalletOperationController));
 
 // Get transaction history
-router.get('/wallet/:walletId/transactions', TransferController.getTransactions.bind(TransferController));
+router.get('/wallet/:walletId/transactions', canRead, ownsWallet, limitRead, TransferController.getTransactions.bind(TransferController));
+
+// Statement for a period (CSV, JSON or plain text), streamed
+router.get('/wallet/:walletId/statement', canRead, ownsWallet, limitRead, TransferController.getStatement.bind(TransferController));
 
-export default router;
\ No newline at end of file
+export default router;
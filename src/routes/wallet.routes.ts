@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import WalletController from '../controllers/WalletController';
+import { requireScope, requireSelf, requireWalletOwner } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { AuthScope, RateLimitPolicy } from '../types';
+
+const router = Router();
+
+/**
+ * Wallet lifecycle routes
+ */
+
+// Create a wallet (idempotent) for the caller
+router.post(
+  '/',
+  requireScope(AuthScope.WALLETS_WRITE),
+  requireSelf,
+  rateLimit(RateLimitPolicy.WRITE),
+  WalletController.create.bind(WalletController)
+);
+
+// Wallet details and status history
+router.get(
+  '/:walletId',
+  requireScope(AuthScope.WALLETS_READ),
+  requireWalletOwner((req) => req.params.walletId),
+  rateLimit(RateLimitPolicy.READ, { wallet: (req) => req.params.walletId }),
+  WalletController.get.bind(WalletController)
+);
+
+// Status transitions (reason + actor recorded); back-office only
+const canManage = requireScope(AuthScope.ADMIN_WRITE);
+router.post('/:walletId/freeze', canManage, WalletController.freeze.bind(WalletController));
+router.post('/:walletId/unfreeze', canManage, WalletController.unfreeze.bind(WalletController));
+router.post('/:walletId/close', canManage, WalletController.close.bind(WalletController));
+
+export default router;
@@ -0,0 +1,315 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import { ApiCredential, Wallet } from '../models';
+import {
+  ApiCredentialResponse,
+  ApiCredentialType,
+  AuthPrincipal,
+  AuthScope,
+  CreateApiCredentialRequest,
+  TransferError,
+} from '../types';
+import { verifyRequestSignature } from '../utils/requestSignature';
+import RedisService from './RedisService';
+
+const CUSTOMER_SCOPES = [AuthScope.WALLETS_READ, AuthScope.WALLETS_WRITE, AuthScope.TRANSFERS_WRITE];
+const SERVICE_SCOPES = [AuthScope.DEPOSITS_WRITE];
+const ADMIN_SCOPES = [AuthScope.ADMIN_READ, AuthScope.ADMIN_WRITE];
+
+/**
+ * Nonces are opaque to the server; this keeps the Redis key sane
+ */
+const NONCE_FORMAT = /^[A-Za-z0-9_-]{16,128}$/;
+
+export interface SignedRequest {
+  keyId?: string;
+  timestamp?: string;
+  nonce?: string;
+  signature?: string;
+  method: string;
+  path: string;
+  body: Buffer;
+}
+
+/**
+ * AuthService resolves API callers to principals and authorizes them
+ *
+ * Two kinds of credential, both bound to a principal ID that is matched
+ * against Wallet.userId:
+ *
+ * 1. API_KEY: the caller sends X-Api-Key. Only the key's SHA-256 is
+ *    stored, so a leaked table does not leak keys.
+ * 2. HMAC: the caller signs method, path, timestamp, nonce and body hash
+ *    (src/utils/requestSignature.ts). The timestamp must be within
+ *    SIGNATURE_TOLERANCE of the server clock and each nonce is accepted
+ *    once per credential (Redis, kept for twice the tolerance), so a
+ *    captured request cannot be replayed.
+ *
+ * A credential holds customer scopes (its principal's own wallets), service
+ * scopes (deposits and withdrawals, which move money in and out of the
+ * system on any wallet) or admin scopes (back-office routes), never a mix.
+ * A customer key must not be able to credit its own wallet.
+ */
+class AuthService {
+  private readonly SIGNATURE_TOLERANCE = parseInt(
+    process.env.AUTH_SIGNATURE_TOLERANCE_SECONDS || '300'
+  ); // 5 minutes
+
+  /**
+   * Issue a credential; the response is the only time its key or secret is shown
+   */
+  async createCredential(request: CreateApiCredentialRequest): Promise<ApiCredentialResponse> {
+    const { principalId, description } = request;
+    const type = request.type || ApiCredentialType.API_KEY;
+    const scopes = request.scopes;
+
+    if (!principalId || typeof principalId !== 'string' || principalId.length > 255) {
+      throw new TransferError('principalId is required', 400, 'INVALID_REQUEST');
+    }
+
+    if (!Object.values(ApiCredentialType).includes(type)) {
+      throw new TransferError(
+        `type must be one of: ${Object.values(ApiCredentialType).join(', ')}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const allScopes = Object.values(AuthScope);
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      scopes.some((scope) => !allScopes.includes(scope))
+    ) {
+      throw new TransferError(
+        `scopes must be a non-empty list of: ${allScopes.join(', ')}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    if (
+      ![CUSTOMER_SCOPES, SERVICE_SCOPES, ADMIN_SCOPES].some((group) =>
+        scopes.every((scope) => group.includes(scope))
+      )
+    ) {
+      throw new TransferError(
+        'A credential holds customer, service or admin scopes, not a mix',
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const apiKey =
+      type === ApiCredentialType.API_KEY
+        ? `wk_${crypto.randomBytes(32).toString('hex')}`
+        : undefined;
+
+    const credential = await ApiCredential.create({
+      principalId,
+      type,
+      keyHash: apiKey ? this.hashKey(apiKey) : null,
+      secret:
+        type === ApiCredentialType.HMAC ? `hs_${crypto.randomBytes(32).toString('hex')}` : null,
+      scopes: [...new Set(scopes)],
+      description: description ?? null,
+    });
+
+    return {
+      ...this.toResponse(credential),
+      ...(apiKey && { apiKey }),
+      ...(credential.secret && { secret: credential.secret }),
+    };
+  }
+
+  async listCredentials(principalId?: string): Promise<ApiCredentialResponse[]> {
+    const credentials = await ApiCredential.findAll({
+      where: principalId ? { principalId } : {},
+      order: [['createdAt', 'ASC']],
+    });
+    return credentials.map((credential) => this.toResponse(credential));
+  }
+
+  /**
+   * Stop accepting the credential (kept for the audit trail)
+   */
+  async revokeCredential(credentialId: string): Promise<ApiCredentialResponse> {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(credentialId)) {
+      throw new TransferError('Invalid credential ID format', 400, 'INVALID_REQUEST');
+    }
+
+    const credential = await ApiCredential.findByPk(credentialId);
+    if (!credential) {
+      throw new TransferError('Credential not found', 404, 'CREDENTIAL_NOT_FOUND');
+    }
+
+    await credential.update({ active: false });
+
+    return this.toResponse(credential);
+  }
+
+  /**
+   * X-Api-Key
+   */
+  async authenticateApiKey(apiKey: string): Promise<AuthPrincipal> {
+    const credential = await ApiCredential.findOne({
+      where: {
+        keyHash: this.hashKey(apiKey),
+        type: ApiCredentialType.API_KEY,
+        active: true,
+      },
+    });
+
+    if (!credential) {
+      throw this.unauthenticated('Invalid API key');
+    }
+
+    return this.toPrincipal(credential);
+  }
+
+  /**
+   * X-Key-Id, X-Timestamp, X-Nonce, X-Signature
+   */
+  async authenticateSignature(request: SignedRequest): Promise<AuthPrincipal> {
+    const { keyId, timestamp, nonce, signature } = request;
+
+    if (!keyId || !timestamp || !nonce || !signature) {
+      throw this.unauthenticated(
+        'Signed requests need X-Key-Id, X-Timestamp, X-Nonce and X-Signature'
+      );
+    }
+
+    const seconds = Number(timestamp);
+    if (
+      !/^\d+$/.test(timestamp) ||
+      Math.abs(Date.now() / 1000 - seconds) > this.SIGNATURE_TOLERANCE
+    ) {
+      throw this.unauthenticated(
+        `X-Timestamp must be Unix seconds within ${this.SIGNATURE_TOLERANCE}s of server time`
+      );
+    }
+
+    if (!NONCE_FORMAT.test(nonce)) {
+      throw this.unauthenticated('X-Nonce must be 16-128 characters of [A-Za-z0-9_-]');
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    const credential = uuidRegex.test(keyId)
+      ? await ApiCredential.findOne({
+          where: { id: keyId, type: ApiCredentialType.HMAC, active: true },
+        })
+      : null;
+
+    const valid =
+      credential !== null &&
+      verifyRequestSignature(
+        credential.secret as string,
+        {
+          method: request.method,
+          path: request.path,
+          timestamp: seconds,
+          nonce,
+          body: request.body,
+        },
+        signature
+      );
+
+    if (!credential || !valid) {
+      throw this.unauthenticated('Invalid request signature');
+    }
+
+    // Only after the signature checks out, so forged requests cannot burn nonces
+    const fresh = await RedisService.claimNonce(
+      credential.id,
+      nonce,
+      this.SIGNATURE_TOLERANCE * 2
+    );
+    if (!fresh) {
+      throw this.unauthenticated('Nonce already used');
+    }
+
+    return this.toPrincipal(credential);
+  }
+
+  /**
+   * 403 unless the principal holds every scope
+   */
+  assertScopes(principal: AuthPrincipal, scopes: AuthScope[]): void {
+    const missing = scopes.filter((scope) => !principal.scopes.includes(scope));
+
+    if (missing.length > 0) {
+      throw new TransferError(
+        `Missing scope: ${missing.join(', ')}`,
+        403,
+        'FORBIDDEN',
+        { requiredScopes: scopes }
+      );
+    }
+  }
+
+  /**
+   * 403 unless every wallet that exists belongs to the principal
+   * Malformed and unknown IDs are left to the handler, which reports
+   * them as it always has (400/404)
+   */
+  async assertOwnsWallets(principal: AuthPrincipal, walletIds: string[]): Promise<void> {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    const ids = [
+      ...new Set(walletIds.filter((id) => typeof id === 'string' && uuidRegex.test(id))),
+    ];
+
+    if (ids.length === 0) {
+      return;
+    }
+
+    const foreign = await Wallet.findAll({
+      attributes: ['id'],
+      where: { id: { [Op.in]: ids }, userId: { [Op.ne]: principal.id } },
+    });
+
+    if (foreign.length > 0) {
+      throw new TransferError(
+        'Wallet does not belong to the authenticated principal',
+        403,
+        'FORBIDDEN',
+        { walletIds: foreign.map((wallet) => wallet.id) }
+      );
+    }
+  }
+
+  private hashKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+
+  private unauthenticated(message: string): TransferError {
+    return new TransferError(message, 401, 'UNAUTHENTICATED');
+  }
+
+  private toPrincipal(credential: ApiCredential): AuthPrincipal {
+    return {
+      id: credential.principalId,
+      credentialId: credential.id,
+      type: credential.type,
+      scopes: credential.scopes,
+    };
+  }
+
+  private toResponse(credential: ApiCredential): ApiCredentialResponse {
+    return {
+      id: credential.id,
+      principalId: credential.principalId,
+      type: credential.type,
+      scopes: credential.scopes,
+      description: credential.description ?? null,
+      active: credential.active,
+      createdAt: credential.createdAt.toISOString(),
+      updatedAt: credential.updatedAt.toISOString(),
+    };
+  }
+}
+
+export default new AuthService();
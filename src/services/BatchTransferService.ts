@@ -0,0 +1,546 @@
+import { Transaction as SequelizeTransaction, Op, UniqueConstraintError } from 'sequelize';
+import sequelize from '../config/database';
+import { TransactionLog, TransferBatch, Wallet } from '../models';
+import {
+  BatchLegResult,
+  BatchLegStatus,
+  BatchMode,
+  BatchStatus,
+  BatchTransferRequest,
+  BatchTransferResponse,
+  LockHandle,
+  TransactionStatus,
+  TransactionType,
+  TransferError,
+  TransferEventType,
+  TransferRequest,
+} from '../types';
+import { normalizeCurrency } from '../config/currencies';
+import { Money } from '../utils/money';
+import { computeRequestHash } from '../utils/requestHash';
+import IdempotencyService from './IdempotencyService';
+import OutboxService from './OutboxService';
+import RedisService from './RedisService';
+import TransferService from './TransferService';
+
+const MAX_BATCH_LEGS = parseInt(process.env.BATCH_MAX_LEGS || '1000');
+
+/**
+ * BatchTransferService runs many transfers under one batch idempotency key
+ *
+ * The batch key gets the same treatment as a transfer key (Redis cache,
+ * distributed lock with fencing, request fingerprint), namespaced as
+ * "batch:{key}" so it never collides with a leg key. The TransferBatch row
+ * is created PENDING under the lock and resolved with the per-leg results,
+ * which replays return verbatim.
+ *
+ * ATOMIC: one DB transaction. Every wallet involved is locked FOR UPDATE in
+ * ascending ID order (as executeTransfer does for two), then each leg gets
+ * the single-transfer rules via TransferService.applyTransfer. The first
+ * failing leg rolls everything back; the batch is recorded FAILED with that
+ * leg's error and every other leg SKIPPED.
+ *
+ * BEST_EFFORT: each leg is an ordinary executeTransfer under its own key,
+ * run in order. A batch whose holder crashed is resumed by re-running all
+ * legs: legs that already ran replay through their own keys.
+ */
+class BatchTransferService {
+  async executeBatch(request: BatchTransferRequest): Promise<BatchTransferResponse> {
+    const legs = this.validateBatchRequest(request);
+    const { idempotencyKey, mode } = request;
+    const requestHash = this.computeBatchHash(mode, legs);
+    const resource = `batch:${idempotencyKey}`;
+
+    const cachedResult = await RedisService.getCachedResult<BatchTransferResponse>(resource);
+    if (cachedResult) {
+      IdempotencyService.assertSameRequest(cachedResult.requestHash, requestHash);
+      return {
+        ...cachedResult.response,
+        message: 'Batch already processed (idempotent request) (from cache)',
+      };
+    }
+
+    const lock = await RedisService.acquireLockWithRetry(resource);
+
+    if (!lock) {
+      const existing = await TransferBatch.findOne({ where: { idempotencyKey } });
+
+      if (existing && existing.status !== BatchStatus.PENDING) {
+        IdempotencyService.assertSameRequest(existing.requestHash, requestHash);
+        return this.buildResponseFromBatch(existing);
+      }
+
+      throw new TransferError(
+        'Request is being processed by another instance. Please retry.',
+        409,
+        'CONCURRENT_PROCESSING'
+      );
+    }
+
+    const stopHeartbeat = RedisService.startLockHeartbeat(lock);
+
+    try {
+      let batch = await TransferBatch.findOne({ where: { idempotencyKey } });
+
+      if (batch) {
+        IdempotencyService.assertSameRequest(batch.requestHash, requestHash);
+
+        if (batch.status !== BatchStatus.PENDING) {
+          const replayed = this.buildResponseFromBatch(batch);
+          await RedisService.cacheResult(resource, replayed, requestHash);
+          return replayed;
+        }
+
+        // Previous holder's lock expired mid-batch: take the batch over
+        await this.claimPendingBatch(batch, lock);
+      } else {
+        batch = await this.createBatch(idempotencyKey, requestHash, mode, legs.length, lock);
+      }
+
+      const results =
+        mode === BatchMode.ATOMIC
+          ? await this.runAtomic(batch, legs, lock)
+          : await this.runBestEffort(batch, legs, lock);
+
+      const response = this.buildResponse(batch, results);
+      IdempotencyService.cacheResult(resource, response, requestHash);
+
+      return response;
+    } finally {
+      stopHeartbeat();
+      await RedisService.releaseLock(lock);
+    }
+  }
+
+  /**
+   * All legs in one DB transaction; returns the committed (or rolled back) outcome
+   */
+  private async runAtomic(
+    batch: TransferBatch,
+    legs: TransferRequest[],
+    lock: LockHandle
+  ): Promise<BatchLegResult[]> {
+    // Index of the leg being applied when the transaction failed
+    let failedIndex: number | null = null;
+
+    try {
+      return await sequelize.transaction(
+        {
+          isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+        },
+        async (t: SequelizeTransaction) => {
+          const wallets = await this.lockWallets(legs, t);
+          const usedKeys = await this.findUsedLegKeys(legs, t);
+          const results: BatchLegResult[] = [];
+
+          for (const [index, leg] of legs.entries()) {
+            failedIndex = index;
+            results.push(await this.applyAtomicLeg(batch, leg, index, wallets, usedKeys, t));
+          }
+
+          failedIndex = null;
+          await this.resolveBatch(batch, BatchStatus.COMPLETED, results, lock, t);
+
+          return results;
+        }
+      );
+    } catch (error) {
+      if (failedIndex === null) {
+        throw error;
+      }
+
+      const results = legs.map<BatchLegResult>((leg, index) =>
+        index === failedIndex
+          ? this.failedLeg(index, leg, error)
+          : { index, idempotencyKey: leg.idempotencyKey, status: BatchLegStatus.SKIPPED }
+      );
+
+      await this.resolveBatch(batch, BatchStatus.FAILED, results, lock);
+
+      return results;
+    }
+  }
+
+  /**
+   * Apply one leg on wallets already locked by this transaction
+   * The leg's log is written SUCCESS directly: it commits with the batch or not at all
+   */
+  private async applyAtomicLeg(
+    batch: TransferBatch,
+    leg: TransferRequest,
+    index: number,
+    wallets: Map<string, Wallet>,
+    usedKeys: Set<string>,
+    t: SequelizeTransaction
+  ): Promise<BatchLegResult> {
+    if (usedKeys.has(leg.idempotencyKey)) {
+      throw new TransferError(
+        `Leg idempotency key ${leg.idempotencyKey} was already used by another transfer`,
+        409,
+        'LEG_IDEMPOTENCY_KEY_USED'
+      );
+    }
+
+    const fromWallet = wallets.get(leg.fromWalletId);
+    const toWallet = wallets.get(leg.toWalletId);
+
+    if (!fromWallet || !toWallet) {
+      throw new TransferError('One or both wallets not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    const amount = Money.parse(leg.amount);
+
+    // Batches carry no FX quotes, so every leg is same-currency
+    TransferService.assertTransferCurrency(leg, amount, fromWallet, toWallet, null);
+
+    const transactionLog = TransactionLog.build({
+      type: TransactionType.TRANSFER,
+      fromWalletId: fromWallet.id,
+      toWalletId: toWallet.id,
+      amount: amount.toString(),
+      currency: fromWallet.currency,
+      batchId: batch.id,
+      status: TransactionStatus.SUCCESS,
+      idempotencyKey: leg.idempotencyKey,
+      requestHash: TransferService.computeTransferHash(leg),
+    });
+
+    const { fromBalance, toBalance, appliedAt } = await TransferService.applyTransfer(
+      transactionLog.id,
+      fromWallet,
+      toWallet,
+      amount,
+      amount,
+      t
+    );
+
+    // Not inserted yet, so the ledger posting could not stamp it
+    transactionLog.appliedAt = appliedAt;
+
+    const now = new Date().toISOString();
+    transactionLog.metadata = {
+      requestedAt: now,
+      completedAt: now,
+      fromBalanceAfter: fromBalance,
+      toBalanceAfter: toBalance,
+    };
+    await transactionLog.save({ transaction: t });
+    await OutboxService.recordTransferEvent(transactionLog, TransferEventType.SUCCEEDED, t);
+
+    return {
+      index,
+      idempotencyKey: leg.idempotencyKey,
+      status: BatchLegStatus.SUCCESS,
+      transactionId: transactionLog.id,
+      fromBalance,
+      toBalance,
+    };
+  }
+
+  /**
+   * Each leg as an independent transfer; failures are reported, not thrown
+   */
+  private async runBestEffort(
+    batch: TransferBatch,
+    legs: TransferRequest[],
+    lock: LockHandle
+  ): Promise<BatchLegResult[]> {
+    const results: BatchLegResult[] = [];
+
+    for (const [index, leg] of legs.entries()) {
+      try {
+        const response = await TransferService.executeTransfer(leg, batch.id);
+
+        results.push(
+          response.success
+            ? {
+                index,
+                idempotencyKey: leg.idempotencyKey,
+                status: BatchLegStatus.SUCCESS,
+                transactionId: response.transactionId,
+                fromBalance: response.fromBalance,
+                toBalance: response.toBalance,
+              }
+            : {
+                index,
+                idempotencyKey: leg.idempotencyKey,
+                status: BatchLegStatus.FAILED,
+                transactionId: response.transactionId,
+                error: { code: 'TRANSFER_FAILED', message: response.message },
+              }
+        );
+      } catch (error) {
+        results.push(this.failedLeg(index, leg, error));
+      }
+    }
+
+    const succeeded = results.filter((r) => r.status === BatchLegStatus.SUCCESS).length;
+    const status =
+      succeeded === legs.length
+        ? BatchStatus.COMPLETED
+        : succeeded === 0
+        ? BatchStatus.FAILED
+        : BatchStatus.PARTIAL;
+
+    await this.resolveBatch(batch, status, results, lock);
+
+    return results;
+  }
+
+  /**
+   * Lock every wallet the batch touches, in ascending ID order
+   * Two batches (or a batch and a transfer) sharing wallets therefore
+   * always wait on each other in the same order and cannot deadlock
+   */
+  private async lockWallets(
+    legs: TransferRequest[],
+    t: SequelizeTransaction
+  ): Promise<Map<string, Wallet>> {
+    const walletIds = [
+      ...new Set(legs.flatMap((leg) => [leg.fromWalletId, leg.toWalletId])),
+    ].sort();
+
+    const wallets = new Map<string, Wallet>();
+
+    for (const walletId of walletIds) {
+      const wallet = await Wallet.findByPk(walletId, {
+        lock: t.LOCK.UPDATE,
+        transaction: t,
+      });
+
+      if (wallet) {
+        wallets.set(walletId, wallet);
+      }
+    }
+
+    return wallets;
+  }
+
+  private async findUsedLegKeys(
+    legs: TransferRequest[],
+    t: SequelizeTransaction
+  ): Promise<Set<string>> {
+    const logs = await TransactionLog.findAll({
+      attributes: ['idempotencyKey'],
+      where: { idempotencyKey: { [Op.in]: legs.map((leg) => leg.idempotencyKey) } },
+      transaction: t,
+    });
+
+    return new Set(logs.map((log) => log.idempotencyKey));
+  }
+
+  private async createBatch(
+    idempotencyKey: string,
+    requestHash: string,
+    mode: BatchMode,
+    legCount: number,
+    lock: LockHandle
+  ): Promise<TransferBatch> {
+    try {
+      return await TransferBatch.create({
+        idempotencyKey,
+        requestHash,
+        mode,
+        legCount,
+        fencingToken: lock.fencingToken,
+      });
+    } catch (error) {
+      // Only reachable without a real lock (Redis down, fail-open policy)
+      if (error instanceof UniqueConstraintError) {
+        throw new TransferError(
+          'Request is being processed by another instance. Please retry.',
+          409,
+          'CONCURRENT_PROCESSING'
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record our fencing token on a PENDING batch left by an expired holder
+   */
+  private async claimPendingBatch(batch: TransferBatch, lock: LockHandle): Promise<void> {
+    if (lock.fencingToken === null) {
+      return;
+    }
+
+    await TransferBatch.update(
+      { fencingToken: lock.fencingToken },
+      {
+        where: {
+          id: batch.id,
+          status: BatchStatus.PENDING,
+          [Op.or]: [
+            { fencingToken: null },
+            { fencingToken: { [Op.lt]: lock.fencingToken } },
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Store the final status and per-leg results, fenced like completeLog
+   */
+  private async resolveBatch(
+    batch: TransferBatch,
+    status: BatchStatus,
+    results: BatchLegResult[],
+    lock: LockHandle,
+    t?: SequelizeTransaction
+  ): Promise<void> {
+    const [updatedCount] = await TransferBatch.update(
+      { status, results },
+      {
+        where: {
+          id: batch.id,
+          status: BatchStatus.PENDING,
+          fencingToken: lock.fencingToken,
+        },
+        transaction: t,
+      }
+    );
+
+    if (updatedCount !== 1) {
+      throw new TransferError(
+        'Lock ownership lost before commit; operation rolled back',
+        409,
+        'LOCK_LOST'
+      );
+    }
+
+    batch.status = status;
+    batch.results = results;
+  }
+
+  private failedLeg(index: number, leg: TransferRequest, error: unknown): BatchLegResult {
+    const transferError =
+      error instanceof TransferError
+        ? error
+        : new TransferError(
+            (error instanceof Error && error.message) || 'Transfer failed due to unexpected error',
+            500,
+            'TRANSFER_FAILED'
+          );
+
+    return {
+      index,
+      idempotencyKey: leg.idempotencyKey,
+      status: BatchLegStatus.FAILED,
+      error: {
+        code: transferError.code || 'TRANSFER_FAILED',
+        message: transferError.message,
+        ...(transferError.details && { details: transferError.details }),
+      },
+    };
+  }
+
+  private buildResponse(batch: TransferBatch, results: BatchLegResult[]): BatchTransferResponse {
+    const succeeded = results.filter((r) => r.status === BatchLegStatus.SUCCESS).length;
+
+    return {
+      success: batch.status === BatchStatus.COMPLETED,
+      batchId: batch.id,
+      mode: batch.mode,
+      status: batch.status,
+      message: `Batch processed: ${succeeded} of ${results.length} legs succeeded`,
+      legs: results,
+    };
+  }
+
+  private buildResponseFromBatch(batch: TransferBatch): BatchTransferResponse {
+    return {
+      ...this.buildResponse(batch, batch.results || []),
+      message: 'Batch already processed (idempotent request)',
+    };
+  }
+
+  /**
+   * Validate the whole batch up front and resolve each leg's source wallet
+   * A malformed leg rejects the batch (400) before anything runs
+   */
+  private validateBatchRequest(request: BatchTransferRequest): TransferRequest[] {
+    const { idempotencyKey, mode, legs } = request;
+
+    if (!idempotencyKey || !Array.isArray(legs) || legs.length === 0) {
+      throw new TransferError('Missing required fields', 400, 'INVALID_REQUEST');
+    }
+
+    if (!Object.values<string>(BatchMode).includes(mode)) {
+      throw new TransferError(
+        `Invalid batch mode "${mode}". Expected one of: ${Object.values(BatchMode).join(', ')}`,
+        400,
+        'INVALID_BATCH_MODE'
+      );
+    }
+
+    if (legs.length > MAX_BATCH_LEGS) {
+      throw new TransferError(
+        `A batch may contain at most ${MAX_BATCH_LEGS} legs`,
+        400,
+        'BATCH_TOO_LARGE'
+      );
+    }
+
+    const seenKeys = new Set<string>();
+
+    return legs.map((leg, index) => {
+      const fromWalletId = leg?.fromWalletId || request.fromWalletId || '';
+      const toWalletId = leg?.toWalletId || '';
+
+      if (typeof fromWalletId !== 'string' || typeof toWalletId !== 'string') {
+        throw new TransferError(
+          'fromWalletId and toWalletId must be strings',
+          400,
+          'INVALID_REQUEST',
+          { legIndex: index }
+        );
+      }
+
+      const resolved: TransferRequest = {
+        fromWalletId: fromWalletId.toLowerCase(),
+        toWalletId: toWalletId.toLowerCase(),
+        amount: leg?.amount?.toString(),
+        currency: leg?.currency,
+        idempotencyKey: leg?.idempotencyKey,
+      };
+
+      try {
+        TransferService.validateTransferRequest(resolved);
+      } catch (error) {
+        if (error instanceof TransferError) {
+          error.details = { ...error.details, legIndex: index };
+        }
+        throw error;
+      }
+
+      if (seenKeys.has(resolved.idempotencyKey)) {
+        throw new TransferError(
+          `Duplicate leg idempotency key ${resolved.idempotencyKey}`,
+          400,
+          'DUPLICATE_LEG_KEY',
+          { legIndex: index }
+        );
+      }
+      seenKeys.add(resolved.idempotencyKey);
+
+      return resolved;
+    });
+  }
+
+  private computeBatchHash(mode: BatchMode, legs: TransferRequest[]): string {
+    return computeRequestHash({
+      mode,
+      legs: legs.map((leg) => ({
+        fromWalletId: leg.fromWalletId,
+        toWalletId: leg.toWalletId,
+        amount: Money.parse(leg.amount).toString(),
+        currency: leg.currency ? normalizeCurrency(leg.currency) : undefined,
+        idempotencyKey: leg.idempotencyKey,
+      })),
+    });
+  }
+}
+
+export default new BatchTransferService();
@@ -0,0 +1,143 @@
+import { Transaction as SequelizeTransaction } from 'sequelize';
+import { FxQuote } from '../models';
+import { FxQuoteRequest, FxQuoteResponse, TransferError } from '../types';
+import { getCurrencyScale, normalizeCurrency } from '../config/currencies';
+import { Money } from '../utils/money';
+import { applySpread, convertAmount, formatRate, parseRate } from '../utils/fxRate';
+import { FxRateProvider, createRateProvider } from './FxRateProvider';
+
+/**
+ * FxQuoteService prices and locks FX quotes
+ *
+ * A quote fixes the rate and both amounts of one cross-currency transfer
+ * for FX_QUOTE_TTL_MS. The transfer that uses it consumes it inside its own
+ * DB transaction (row locked FOR UPDATE), so a quote backs at most one
+ * committed transfer; a transfer that rolls back leaves it usable.
+ *
+ * rate = provider mid rate less FX_SPREAD_BPS basis points
+ */
+export class FxQuoteService {
+  constructor(
+    private readonly provider: FxRateProvider = createRateProvider(),
+    private readonly ttlMs: number = parseInt(process.env.FX_QUOTE_TTL_MS || '30000'),
+    private readonly spreadBps: number = parseInt(process.env.FX_SPREAD_BPS || '50')
+  ) {
+    if (!(spreadBps >= 0 && spreadBps < 10000)) {
+      throw new Error(`Invalid FX_SPREAD_BPS "${spreadBps}". Expected 0-9999`);
+    }
+  }
+
+  async createQuote(request: FxQuoteRequest): Promise<FxQuoteResponse> {
+    if (!request.fromCurrency || !request.toCurrency || !request.amount) {
+      throw new TransferError('Missing required fields', 400, 'INVALID_REQUEST');
+    }
+
+    const fromCurrency = normalizeCurrency(request.fromCurrency);
+    const toCurrency = normalizeCurrency(request.toCurrency);
+
+    if (fromCurrency === toCurrency) {
+      throw new TransferError(
+        'Quote currencies must differ',
+        400,
+        'SAME_CURRENCY_QUOTE'
+      );
+    }
+
+    const amount = Money.parse(request.amount, getCurrencyScale(fromCurrency));
+    if (!amount.isPositive()) {
+      throw new TransferError('Amount must be a positive number', 400, 'INVALID_AMOUNT');
+    }
+
+    const midRate = await this.provider.getMidRate(fromCurrency, toCurrency);
+    if (!midRate) {
+      throw new TransferError(
+        `No FX rate available for ${fromCurrency}/${toCurrency}`,
+        422,
+        'FX_RATE_UNAVAILABLE'
+      );
+    }
+
+    const rate = applySpread(midRate, this.spreadBps);
+    const convertedAmount = convertAmount(amount, rate, getCurrencyScale(toCurrency));
+
+    if (!convertedAmount.isPositive()) {
+      throw new TransferError(
+        `Amount converts to less than one minor unit of ${toCurrency}`,
+        400,
+        'INVALID_AMOUNT'
+      );
+    }
+
+    const quote = await FxQuote.create({
+      fromCurrency,
+      toCurrency,
+      amount: amount.toString(),
+      convertedAmount: convertedAmount.toString(),
+      midRate: formatRate(parseRate(midRate)),
+      rate,
+      spreadBps: this.spreadBps,
+      provider: this.provider.name,
+      expiresAt: new Date(Date.now() + this.ttlMs),
+    });
+
+    return this.toResponse(quote);
+  }
+
+  async getQuote(quoteId: string, t?: SequelizeTransaction): Promise<FxQuote> {
+    const quote = await FxQuote.findByPk(quoteId, {
+      lock: t ? t.LOCK.UPDATE : undefined,
+      transaction: t,
+    });
+
+    if (!quote) {
+      throw new TransferError('FX quote not found', 404, 'QUOTE_NOT_FOUND');
+    }
+
+    return quote;
+  }
+
+  /**
+   * Lock the quote row and mark it used by `transactionId`
+   * Must run in the transfer's DB transaction, so a rollback releases it
+   */
+  async consumeQuote(
+    quoteId: string,
+    transactionId: string,
+    t: SequelizeTransaction,
+    now: Date = new Date()
+  ): Promise<FxQuote> {
+    const quote = await this.getQuote(quoteId, t);
+
+    if (quote.usedAt) {
+      throw new TransferError('FX quote has already been used', 409, 'QUOTE_ALREADY_USED');
+    }
+
+    if (quote.expiresAt.getTime() <= now.getTime()) {
+      throw new TransferError(
+        `FX quote expired at ${quote.expiresAt.toISOString()}`,
+        409,
+        'QUOTE_EXPIRED'
+      );
+    }
+
+    await quote.update({ usedAt: now, transactionId }, { transaction: t });
+
+    return quote;
+  }
+
+  private toResponse(quote: FxQuote): FxQuoteResponse {
+    return {
+      quoteId: quote.id,
+      fromCurrency: quote.fromCurrency,
+      toCurrency: quote.toCurrency,
+      amount: Money.parse(quote.amount).toString(),
+      convertedAmount: Money.parse(quote.convertedAmount).toString(),
+      midRate: formatRate(parseRate(quote.midRate)),
+      rate: formatRate(parseRate(quote.rate)),
+      spreadBps: quote.spreadBps,
+      expiresAt: quote.expiresAt.toISOString(),
+    };
+  }
+}
+
+export default new FxQuoteService();
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Source of mid-market FX rates used to price quotes
+ *
+ * getMidRate returns how many units of `to` one unit of `from` buys, as a
+ * decimal string, or null when the provider has no rate for the pair.
+ */
+export interface FxRateProvider {
+  readonly name: string;
+  getMidRate(from: string, to: string): Promise<string | null>;
+}
+
+/**
+ * Rate file format:
+ *   { "rates": { "USD": { "EUR": "0.9200", "GBP": "0.7900" }, ... } }
+ * Every direction must be listed explicitly; inverses are not derived,
+ * so the file fully determines what a quote can price.
+ */
+interface RateFile {
+  rates: Record<string, Record<string, string>>;
+}
+
+/**
+ * Reads fixed rates from a JSON file (tests, local development)
+ * The file is loaded once, on first use
+ */
+export class StaticFileRateProvider implements FxRateProvider {
+  readonly name = 'static-file';
+
+  private rates: RateFile['rates'] | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  async getMidRate(from: string, to: string): Promise<string | null> {
+    if (!this.rates) {
+      const parsed = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as RateFile;
+      this.rates = parsed.rates || {};
+    }
+
+    return this.rates[from]?.[to] ?? null;
+  }
+}
+
+const DEFAULT_RATES_FILE = path.resolve(process.cwd(), 'src/config/fx-rates.json');
+
+/**
+ * Provider selected by FX_RATE_PROVIDER (currently only "static")
+ */
+export function createRateProvider(
+  providerName: string = process.env.FX_RATE_PROVIDER || 'static'
+): FxRateProvider {
+  switch (providerName) {
+    case 'static':
+      return new StaticFileRateProvider(process.env.FX_RATES_FILE || DEFAULT_RATES_FILE);
+    default:
+      throw new Error(`Invalid FX_RATE_PROVIDER "${providerName}". Expected one of: static`);
+  }
+}
@@ -0,0 +1,574 @@
+import { Transaction as SequelizeTransaction, Op, UniqueConstraintError } from 'sequelize';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import { Hold, TransactionLog, Wallet } from '../models';
+import {
+  CaptureHoldRequest,
+  CaptureHoldResponse,
+  HoldExpiryReport,
+  HoldResponse,
+  HoldStatus,
+  LockHandle,
+  PlaceHoldRequest,
+  TransactionLogMetadata,
+  TransactionStatus,
+  TransactionType,
+  TransferError,
+} from '../types';
+import { getCurrencyScale, normalizeCurrency } from '../config/currencies';
+import { Money } from '../utils/money';
+import { computeRequestHash } from '../utils/requestHash';
+import IdempotencyService from './IdempotencyService';
+import TransferService from './TransferService';
+import WalletService from './WalletService';
+
+/**
+ * HoldService reserves funds now and moves them later (authorize/capture)
+ *
+ * An ACTIVE hold adds its amount to the source wallet's heldAmount: the
+ * ledger balance is untouched, but every debit spends at most
+ * balance - heldAmount. heldAmount only changes under the wallet's FOR UPDATE
+ * lock, the same lock transfers take.
+ *
+ * Placement is idempotent on the hold row (unique idempotencyKey), like
+ * wallet creation. A capture is an ordinary TRANSFER under its own
+ * idempotency key (IdempotencyService): in one DB transaction it releases the
+ * whole hold and transfers the captured part, so a partial capture releases
+ * the rest. Void releases without moving money. Expired holds are released
+ * by the sweeper (src/jobs/expireHolds.ts) or by the capture that finds them.
+ */
+class HoldService {
+  private readonly DEFAULT_TTL_SECONDS = parseInt(process.env.HOLD_TTL_SECONDS || '604800'); // 7 days
+  private readonly EXPIRY_BATCH_SIZE = parseInt(process.env.HOLD_EXPIRY_BATCH_SIZE || '100');
+
+  /**
+   * Reserve funds; created=false when the idempotency key was already used
+   * for the same request
+   */
+  async placeHold(request: PlaceHoldRequest): Promise<{ hold: HoldResponse; created: boolean }> {
+    this.validatePlaceRequest(request);
+
+    const { walletId, toWalletId, idempotencyKey } = request;
+    const amount = Money.parse(request.amount);
+    const ttlSeconds = request.ttlSeconds ?? this.DEFAULT_TTL_SECONDS;
+    const requestHash = computeRequestHash({
+      walletId: walletId.toLowerCase(),
+      toWalletId: toWalletId.toLowerCase(),
+      amount: amount.toString(),
+      currency: request.currency ? normalizeCurrency(request.currency) : undefined,
+      ttlSeconds: request.ttlSeconds,
+    });
+
+    const existing = await this.findByIdempotencyKey(idempotencyKey, requestHash);
+    if (existing) {
+      return { hold: this.toResponse(existing), created: false };
+    }
+
+    try {
+      const hold = await sequelize.transaction(
+        {
+          isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+        },
+        async (t: SequelizeTransaction) => {
+          const wallet = await Wallet.findByPk(walletId, {
+            lock: t.LOCK.UPDATE,
+            transaction: t,
+          });
+          const toWallet = await Wallet.findByPk(toWalletId, { transaction: t });
+
+          if (!wallet || !toWallet) {
+            throw new TransferError('One or both wallets not found', 404, 'WALLET_NOT_FOUND');
+          }
+
+          WalletService.assertCanDebit(wallet);
+          WalletService.assertCanCredit(toWallet);
+
+          // Captures are same-currency transfers
+          TransferService.assertTransferCurrency(
+            {
+              fromWalletId: walletId,
+              toWalletId,
+              amount: request.amount,
+              currency: request.currency,
+              idempotencyKey,
+            },
+            amount,
+            wallet,
+            toWallet,
+            null
+          );
+
+          const held = Money.parse(wallet.heldAmount);
+          const available = Money.parse(wallet.balance).minus(held);
+
+          if (available.lessThan(amount)) {
+            throw new TransferError(
+              `Insufficient balance. Available: ${available}, Required: ${amount}`,
+              400,
+              'INSUFFICIENT_BALANCE'
+            );
+          }
+
+          await wallet.update({ heldAmount: held.plus(amount).toString() }, { transaction: t });
+
+          return Hold.create(
+            {
+              walletId: wallet.id,
+              toWalletId: toWallet.id,
+              currency: wallet.currency,
+              amount: amount.toString(),
+              expiresAt: new Date(Date.now() + ttlSeconds * 1000),
+              idempotencyKey,
+              requestHash,
+            },
+            { transaction: t }
+          );
+        }
+      );
+
+      return { hold: this.toResponse(hold), created: true };
+    } catch (error) {
+      if (!(error instanceof UniqueConstraintError)) {
+        throw error;
+      }
+
+      // Lost a race with a retry of the same request (its transaction rolled back)
+      const winner = await this.findByIdempotencyKey(idempotencyKey, requestHash);
+      if (winner) {
+        return { hold: this.toResponse(winner), created: false };
+      }
+      throw error;
+    }
+  }
+
+  async getHold(holdId: string): Promise<HoldResponse> {
+    this.assertHoldId(holdId);
+    return this.toResponse(await this.findHold(holdId));
+  }
+
+  /**
+   * Transfer all or part of the hold to its destination and release the rest
+   */
+  async capture(request: CaptureHoldRequest): Promise<CaptureHoldResponse> {
+    const { holdId, idempotencyKey } = request;
+
+    if (!holdId || !idempotencyKey) {
+      throw new TransferError('Missing required fields', 400, 'INVALID_REQUEST');
+    }
+
+    this.assertHoldId(holdId);
+
+    if (request.amount !== undefined && !Money.parse(request.amount).isPositive()) {
+      throw new TransferError('Amount must be a positive number', 400, 'INVALID_AMOUNT');
+    }
+
+    const requestHash = computeRequestHash({
+      holdId: holdId.toLowerCase(),
+      amount: request.amount ? Money.parse(request.amount).toString() : undefined,
+    });
+
+    return IdempotencyService.execute({
+      idempotencyKey,
+      requestHash,
+      replay: (log) => this.buildCaptureResponseFromLog(log, holdId),
+      process: (lock) => this.processCapture(request, requestHash, lock),
+      cachedMessage: 'Hold already captured (idempotent request) (from cache)',
+    });
+  }
+
+  /**
+   * Release an ACTIVE hold without moving money (voiding a VOIDED hold is a no-op)
+   */
+  async voidHold(holdId: string): Promise<HoldResponse> {
+    this.assertHoldId(holdId);
+
+    const hold = await this.release(holdId, HoldStatus.VOIDED);
+
+    if (hold.status !== HoldStatus.VOIDED) {
+      throw new TransferError(
+        `Hold is ${hold.status} and can no longer be voided`,
+        409,
+        'HOLD_NOT_ACTIVE'
+      );
+    }
+
+    return this.toResponse(hold);
+  }
+
+  /**
+   * Release ACTIVE holds past expiresAt (one sweep, at most EXPIRY_BATCH_SIZE)
+   */
+  async expireHolds(now: Date = new Date()): Promise<HoldExpiryReport> {
+    const report: HoldExpiryReport = { scanned: 0, expired: 0 };
+
+    const dueHolds = await Hold.findAll({
+      where: {
+        status: HoldStatus.ACTIVE,
+        expiresAt: { [Op.lte]: now },
+      },
+      order: [['expiresAt', 'ASC']],
+      limit: this.EXPIRY_BATCH_SIZE,
+    });
+
+    for (const due of dueHolds) {
+      report.scanned++;
+
+      try {
+        const hold = await this.release(due.id, HoldStatus.EXPIRED, now);
+        if (hold.status === HoldStatus.EXPIRED) {
+          report.expired++;
+        }
+      } catch (error) {
+        logger.error('Failed to expire hold', { holdId: due.id, error });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Run the capture, while holding the distributed lock for its key
+   */
+  private async processCapture(
+    request: CaptureHoldRequest,
+    requestHash: string,
+    lock: LockHandle
+  ): Promise<CaptureHoldResponse> {
+    const hold = await this.findHold(request.holdId);
+
+    this.assertActive(hold);
+
+    if (this.isExpired(hold)) {
+      await this.release(hold.id, HoldStatus.EXPIRED);
+      throw this.expiredError(hold);
+    }
+
+    const holdAmount = Money.parse(hold.amount);
+
+    // Omitted amount = capture the whole hold
+    const captureAmount = request.amount
+      ? Money.parse(request.amount, getCurrencyScale(hold.currency))
+      : holdAmount;
+
+    if (captureAmount.greaterThan(holdAmount)) {
+      throw new TransferError(
+        `Capture of ${captureAmount} exceeds the held ${holdAmount}`,
+        422,
+        'CAPTURE_EXCEEDS_HOLD'
+      );
+    }
+
+    const releasedAmount = holdAmount.minus(captureAmount).toString();
+
+    const transactionLog = await TransactionLog.create({
+      type: TransactionType.TRANSFER,
+      fromWalletId: hold.walletId,
+      toWalletId: hold.toWalletId,
+      amount: captureAmount.toString(),
+      currency: hold.currency,
+      status: TransactionStatus.PENDING,
+      idempotencyKey: request.idempotencyKey,
+      requestHash,
+      fencingToken: lock.fencingToken,
+      metadata: {
+        requestedAt: new Date().toISOString(),
+        holdId: hold.id,
+      },
+    });
+
+    try {
+      const result = await sequelize.transaction(
+        {
+          isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+        },
+        async (t: SequelizeTransaction) => {
+          const lockedHold = await Hold.findByPk(hold.id, {
+            lock: t.LOCK.UPDATE,
+            transaction: t,
+          });
+
+          // Re-check under the lock: a void or the sweeper may have won
+          if (!lockedHold) {
+            throw new TransferError('Hold not found', 404, 'HOLD_NOT_FOUND');
+          }
+          this.assertActive(lockedHold);
+          if (this.isExpired(lockedHold)) {
+            throw this.expiredError(lockedHold);
+          }
+
+          const { fromWallet, toWallet } = await this.lockWallets(lockedHold, t);
+
+          // Release the whole hold first, so the transfer can spend it
+          await fromWallet.update(
+            { heldAmount: Money.parse(fromWallet.heldAmount).minus(holdAmount).toString() },
+            { transaction: t }
+          );
+
+          const { fromBalance, toBalance } = await TransferService.applyTransfer(
+            transactionLog.id,
+            fromWallet,
+            toWallet,
+            captureAmount,
+            captureAmount,
+            t
+          );
+
+          await lockedHold.update(
+            {
+              status: HoldStatus.CAPTURED,
+              capturedAmount: captureAmount.toString(),
+              captureTransactionId: transactionLog.id,
+            },
+            { transaction: t }
+          );
+
+          // Mark transaction SUCCESS (rolls back with LOCK_LOST if fenced off)
+          await IdempotencyService.completeLog(
+            transactionLog,
+            lock,
+            {
+              fromBalanceAfter: fromBalance,
+              toBalanceAfter: toBalance,
+              releasedAmount,
+            },
+            t
+          );
+
+          return { fromBalance, toBalance };
+        }
+      );
+
+      const successResponse: CaptureHoldResponse = {
+        success: true,
+        transactionId: transactionLog.id,
+        message: 'Hold captured successfully',
+        currency: hold.currency,
+        fromBalance: result.fromBalance,
+        toBalance: result.toBalance,
+        holdId: hold.id,
+        capturedAmount: captureAmount.toString(),
+        releasedAmount,
+      };
+
+      IdempotencyService.cacheResult(request.idempotencyKey, successResponse, requestHash);
+
+      return successResponse;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await IdempotencyService.markFailed(transactionLog, message, lock);
+
+      if (error instanceof TransferError) {
+        throw error;
+      }
+
+      throw new TransferError(
+        message || 'Capture failed due to unexpected error',
+        500,
+        'TRANSFER_FAILED'
+      );
+    }
+  }
+
+  /**
+   * Move an ACTIVE hold to VOIDED/EXPIRED and give its amount back
+   * Returns the hold as found under the lock if it was no longer ACTIVE
+   */
+  private async release(holdId: string, status: HoldStatus, now: Date = new Date()): Promise<Hold> {
+    return sequelize.transaction(
+      {
+        isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+      },
+      async (t: SequelizeTransaction) => {
+        const hold = await Hold.findByPk(holdId, {
+          lock: t.LOCK.UPDATE,
+          transaction: t,
+        });
+
+        if (!hold) {
+          throw new TransferError('Hold not found', 404, 'HOLD_NOT_FOUND');
+        }
+
+        if (hold.status !== HoldStatus.ACTIVE) {
+          return hold;
+        }
+
+        // The sweeper only expires holds that are actually due
+        if (status === HoldStatus.EXPIRED && !this.isExpired(hold, now)) {
+          return hold;
+        }
+
+        const wallet = await Wallet.findByPk(hold.walletId, {
+          lock: t.LOCK.UPDATE,
+          transaction: t,
+        });
+
+        if (!wallet) {
+          throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+        }
+
+        await wallet.update(
+          {
+            heldAmount: Money.parse(wallet.heldAmount).minus(Money.parse(hold.amount)).toString(),
+          },
+          { transaction: t }
+        );
+
+        await hold.update({ status }, { transaction: t });
+
+        return hold;
+      }
+    );
+  }
+
+  /**
+   * Lock the hold's two wallets in consistent order
+   */
+  private async lockWallets(
+    hold: Hold,
+    t: SequelizeTransaction
+  ): Promise<{ fromWallet: Wallet; toWallet: Wallet }> {
+    const [firstLockId, secondLockId] =
+      hold.walletId < hold.toWalletId
+        ? [hold.walletId, hold.toWalletId]
+        : [hold.toWalletId, hold.walletId];
+
+    const firstWallet = await Wallet.findByPk(firstLockId, {
+      lock: t.LOCK.UPDATE,
+      transaction: t,
+    });
+
+    const secondWallet = await Wallet.findByPk(secondLockId, {
+      lock: t.LOCK.UPDATE,
+      transaction: t,
+    });
+
+    const fromWallet = hold.walletId === firstLockId ? firstWallet : secondWallet;
+    const toWallet = hold.toWalletId === firstLockId ? firstWallet : secondWallet;
+
+    if (!fromWallet || !toWallet) {
+      throw new TransferError('One or both wallets not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    return { fromWallet, toWallet };
+  }
+
+  private async findHold(holdId: string): Promise<Hold> {
+    const hold = await Hold.findByPk(holdId);
+    if (!hold) {
+      throw new TransferError('Hold not found', 404, 'HOLD_NOT_FOUND');
+    }
+    return hold;
+  }
+
+  private async findByIdempotencyKey(
+    idempotencyKey: string,
+    requestHash: string
+  ): Promise<Hold | null> {
+    const hold = await Hold.findOne({ where: { idempotencyKey } });
+
+    if (hold) {
+      IdempotencyService.assertSameRequest(hold.requestHash, requestHash);
+    }
+
+    return hold;
+  }
+
+  private assertActive(hold: Hold): void {
+    if (hold.status === HoldStatus.EXPIRED) {
+      throw this.expiredError(hold);
+    }
+
+    if (hold.status !== HoldStatus.ACTIVE) {
+      throw new TransferError(
+        `Hold is ${hold.status} and can no longer be captured`,
+        409,
+        'HOLD_NOT_ACTIVE'
+      );
+    }
+  }
+
+  private isExpired(hold: Hold, now: Date = new Date()): boolean {
+    return hold.expiresAt.getTime() <= now.getTime();
+  }
+
+  private expiredError(hold: Hold): TransferError {
+    return new TransferError(
+      `Hold expired at ${hold.expiresAt.toISOString()}`,
+      409,
+      'HOLD_EXPIRED'
+    );
+  }
+
+  private assertHoldId(holdId: string): void {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(holdId)) {
+      throw new TransferError('Invalid hold ID format', 400, 'INVALID_HOLD_ID');
+    }
+  }
+
+  private validatePlaceRequest(request: PlaceHoldRequest): void {
+    const { walletId, toWalletId, amount, idempotencyKey, ttlSeconds } = request;
+
+    // Same shape as a transfer from walletId
+    TransferService.validateTransferRequest({
+      fromWalletId: walletId,
+      toWalletId,
+      amount,
+      currency: request.currency,
+      idempotencyKey,
+    });
+
+    if (ttlSeconds !== undefined && !(Number.isInteger(ttlSeconds) && ttlSeconds > 0)) {
+      throw new TransferError('ttlSeconds must be a positive integer', 400, 'INVALID_REQUEST');
+    }
+  }
+
+  private buildCaptureResponseFromLog(log: TransactionLog, holdId: string): CaptureHoldResponse {
+    const metadata = (log.metadata || {}) as TransactionLogMetadata;
+    const baseResponse = {
+      currency: log.currency,
+      transactionId: log.id,
+      holdId: metadata.holdId ?? holdId,
+      success: log.status === TransactionStatus.SUCCESS,
+      message:
+        log.status === TransactionStatus.SUCCESS
+          ? 'Hold already captured (idempotent request)'
+          : log.status === TransactionStatus.PENDING
+          ? 'Capture is being processed'
+          : 'Capture previously failed',
+    };
+
+    if (log.status === TransactionStatus.SUCCESS) {
+      return {
+        ...baseResponse,
+        fromBalance:
+          metadata.fromBalanceAfter && Money.parse(metadata.fromBalanceAfter).toString(),
+        toBalance: metadata.toBalanceAfter && Money.parse(metadata.toBalanceAfter).toString(),
+        capturedAmount: Money.parse(log.amount).toString(),
+        releasedAmount:
+          metadata.releasedAmount && Money.parse(metadata.releasedAmount).toString(),
+      };
+    }
+
+    return baseResponse;
+  }
+
+  private toResponse(hold: Hold): HoldResponse {
+    return {
+      id: hold.id,
+      walletId: hold.walletId,
+      toWalletId: hold.toWalletId,
+      currency: hold.currency,
+      amount: Money.parse(hold.amount).toString(),
+      capturedAmount: hold.capturedAmount ? Money.parse(hold.capturedAmount).toString() : null,
+      status: hold.status,
+      expiresAt: hold.expiresAt.toISOString(),
+      captureTransactionId: hold.captureTransactionId ?? null,
+      createdAt: hold.createdAt.toISOString(),
+      updatedAt: hold.updatedAt.toISOString(),
+    };
+  }
+}
+
+export default new HoldService();
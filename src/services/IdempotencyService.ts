@@ -0,0 +1,301 @@
+import { Transaction as SequelizeTransaction, Op } from 'sequelize';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import tracer from '../config/tracing';
+import { TransactionLog } from '../models';
+import { LockHandle, TransactionStatus, TransferError, TransferEventType } from '../types';
+import OutboxService from './OutboxService';
+import RedisService from './RedisService';
+
+/**
+ * One idempotent money operation (transfer, deposit, withdrawal, ...)
+ *
+ * replay: rebuild the response from an existing TransactionLog
+ * process: run the operation; called at most once per key, under the lock
+ * cachedMessage: message returned when the result comes from Redis
+ */
+export interface IdempotentOperation<T extends { message: string }> {
+  idempotencyKey: string;
+  requestHash: string;
+  replay: (log: TransactionLog) => T;
+  process: (lock: LockHandle) => Promise<T>;
+  cachedMessage: string;
+}
+
+/**
+ * IdempotencyService runs operations exactly once per idempotency key
+ *
+ * EXECUTION FLOW:
+ *
+ * 1. CHECK REDIS CACHE (0.1ms)
+ *    - If hit: Verify request fingerprint, return cached result immediately
+ *    - If miss: Continue to step 2
+ *
+ * 2. ACQUIRE REDIS LOCK (prevents duplicate processing)
+ *    - If acquired: Continue to step 3 (lock heartbeat keeps it alive)
+ *    - If locked: Retry or check database
+ *
+ * 3. CHECK POSTGRESQL (10-50ms)
+ *    - If exists: Verify request fingerprint, return result and cache in Redis
+ *    - If not exists: Run the operation (creates its PENDING log)
+ *
+ * 4. RELEASE REDIS LOCK
+ *    - Compare-and-delete: never removes a lock another instance now owns
+ *
+ * FENCING: every lock carries a monotonically increasing fencing token,
+ * recorded on the TransactionLog. completeLog/markFailed only apply while
+ * the log still carries our token, so a holder whose lock expired
+ * mid-operation is rejected at commit time (LOCK_LOST).
+ */
+class IdempotencyService {
+  async execute<T extends { message: string }>(
+    operation: IdempotentOperation<T>
+  ): Promise<T> {
+    const { idempotencyKey, requestHash } = operation;
+
+    // ============================================================
+    // STEP 1: CHECK REDIS CACHE FIRST (FAST PATH)
+    // ============================================================
+    const cachedResult = await tracer.startActiveSpan(
+      'idempotency.cache_check',
+      {},
+      async (span) => {
+        const cached = await RedisService.getCachedResult<T>(idempotencyKey);
+        span?.setAttribute('cache.hit', cached !== null);
+        return cached;
+      }
+    );
+    if (cachedResult) {
+      logger.info('Idempotency cache hit', { idempotencyKey });
+      this.assertSameRequest(cachedResult.requestHash, requestHash);
+      return {
+        ...cachedResult.response,
+        message: operation.cachedMessage,
+      };
+    }
+
+    // ============================================================
+    // STEP 2: ACQUIRE DISTRIBUTED LOCK
+    // ============================================================
+    // Prevents multiple app instances from processing same request
+    const lock = await tracer.startActiveSpan('idempotency.lock_acquire', {}, async (span) => {
+      const acquired = await RedisService.acquireLockWithRetry(idempotencyKey);
+      span?.setAttributes({
+        'lock.acquired': acquired !== null,
+        'lock.fencing_token': acquired?.fencingToken ?? undefined,
+      });
+      return acquired;
+    });
+
+    if (!lock) {
+      // Could not acquire lock - another instance is processing
+      // Check database for result (might be complete by now)
+      const existingTransaction = await TransactionLog.findOne({
+        where: { idempotencyKey },
+      });
+
+      if (existingTransaction) {
+        this.assertSameRequest(existingTransaction.requestHash, requestHash);
+        const result = operation.replay(existingTransaction);
+        // Cache for future requests
+        await this.cacheResolvedResult(existingTransaction, result);
+        return result;
+      }
+
+      throw new TransferError(
+        'Request is being processed by another instance. Please retry.',
+        409,
+        'CONCURRENT_PROCESSING'
+      );
+    }
+
+    // Keep the lock alive while we work; the fencing token catches the
+    // case where the heartbeat could not (process stall, Redis partition)
+    const stopHeartbeat = RedisService.startLockHeartbeat(lock);
+
+    try {
+      // ============================================================
+      // STEP 3: CHECK POSTGRESQL (REDIS MISS)
+      // ============================================================
+      const existingTransaction = await tracer.startActiveSpan('idempotency.db_lookup', {}, () =>
+        TransactionLog.findOne({ where: { idempotencyKey } })
+      );
+
+      if (existingTransaction) {
+        // Found in database but not in cache
+        this.assertSameRequest(existingTransaction.requestHash, requestHash);
+
+        // A PENDING log under a lock we now own means the previous holder's
+        // lock expired. Claim the log so that holder is fenced off at commit.
+        if (existingTransaction.status === TransactionStatus.PENDING) {
+          await this.claimPendingLog(existingTransaction, lock);
+        }
+
+        // Cache it for next time
+        const result = operation.replay(existingTransaction);
+        await this.cacheResolvedResult(existingTransaction, result);
+        return result;
+      }
+
+      return await operation.process(lock);
+    } finally {
+      // ============================================================
+      // STEP 4: ALWAYS RELEASE LOCK (only if we still own it)
+      // ============================================================
+      stopHeartbeat();
+      await RedisService.releaseLock(lock);
+    }
+  }
+
+  /**
+   * Mark our PENDING log SUCCESS inside the operation's DB transaction
+   *
+   * Only applies if we still hold the newest fencing token and nobody has
+   * resolved the log in the meantime; otherwise the transaction must roll back.
+   * Transfers also write their transfer.succeeded outbox event here.
+   */
+  async completeLog(
+    log: TransactionLog,
+    lock: LockHandle,
+    metadata: object,
+    t: SequelizeTransaction
+  ): Promise<void> {
+    const [updatedCount] = await TransactionLog.update(
+      {
+        status: TransactionStatus.SUCCESS,
+        metadata: {
+          ...log.metadata,
+          ...metadata,
+          completedAt: new Date().toISOString(),
+        },
+      },
+      {
+        where: {
+          id: log.id,
+          status: TransactionStatus.PENDING,
+          fencingToken: lock.fencingToken,
+        },
+        transaction: t,
+      }
+    );
+
+    if (updatedCount !== 1) {
+      throw new TransferError(
+        'Lock ownership lost before commit; operation rolled back',
+        409,
+        'LOCK_LOST'
+      );
+    }
+
+    await OutboxService.recordTransferEvent(log, TransferEventType.SUCCEEDED, t, { metadata });
+  }
+
+  /**
+   * Resolve our PENDING log as FAILED
+   * Fenced like completeLog: a holder that lost the lock leaves the log to
+   * whoever owns it now (or to stale PENDING recovery). Transfers write their
+   * transfer.failed outbox event in the same DB transaction.
+   */
+  async markFailed(
+    log: TransactionLog,
+    errorMessage: string,
+    lock: LockHandle
+  ): Promise<void> {
+    try {
+      await sequelize.transaction(async (t: SequelizeTransaction) => {
+        const [updatedCount] = await TransactionLog.update(
+          {
+            status: TransactionStatus.FAILED,
+            errorMessage,
+            metadata: {
+              ...log.metadata,
+              failedAt: new Date().toISOString(),
+            },
+          },
+          {
+            where: {
+              id: log.id,
+              status: TransactionStatus.PENDING,
+              fencingToken: lock.fencingToken,
+            },
+            transaction: t,
+          }
+        );
+
+        // Only the holder that resolved the log reports it
+        if (updatedCount === 1) {
+          await OutboxService.recordTransferEvent(log, TransferEventType.FAILED, t, {
+            errorMessage,
+          });
+        }
+      });
+    } catch (updateError) {
+      logger.error('Failed to mark transaction as failed', { error: updateError });
+    }
+  }
+
+  /**
+   * Cache a freshly committed result (asynchronously, never blocks the response)
+   */
+  cacheResult(idempotencyKey: string, result: object, requestHash: string): void {
+    tracer
+      .startActiveSpan('idempotency.cache_write', {}, () =>
+        RedisService.cacheResult(idempotencyKey, result, requestHash)
+      )
+      .catch((error) => {
+        logger.error('Failed to cache result', { error });
+      });
+  }
+
+  /**
+   * Record our fencing token on a PENDING log left by an expired holder
+   * Tokens only move forward, so a stale holder can never reclaim it
+   */
+  private async claimPendingLog(log: TransactionLog, lock: LockHandle): Promise<void> {
+    if (lock.fencingToken === null) {
+      return;
+    }
+
+    await TransactionLog.update(
+      { fencingToken: lock.fencingToken },
+      {
+        where: {
+          id: log.id,
+          status: TransactionStatus.PENDING,
+          [Op.or]: [
+            { fencingToken: null },
+            { fencingToken: { [Op.lt]: lock.fencingToken } },
+          ],
+        },
+      }
+    );
+  }
+
+  /**
+   * Cache a replayed result, unless the log is still PENDING
+   * A cached "being processed" would outlive the log's eventual resolution
+   */
+  private async cacheResolvedResult(log: TransactionLog, result: object): Promise<void> {
+    if (log.status === TransactionStatus.PENDING) {
+      return;
+    }
+
+    await RedisService.cacheResult(log.idempotencyKey, result, log.requestHash);
+  }
+
+  /**
+   * Reject replays that reuse an idempotency key for a different payload
+   * Logs written before fingerprinting (no stored hash) cannot be verified
+   */
+  assertSameRequest(storedHash: string | null, requestHash: string): void {
+    if (storedHash && storedHash !== requestHash) {
+      throw new TransferError(
+        'Idempotency key was already used with a different request payload',
+        422,
+        'IDEMPOTENCY_KEY_REUSED'
+      );
+    }
+  }
+}
+
+export default new IdempotencyService();
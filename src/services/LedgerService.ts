@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import {
+  Transaction as SequelizeTransaction,
+  Op,
+  QueryTypes,
+  WhereOptions,
+  fn,
+  col,
+  literal,
+} from 'sequelize';
+import sequelize from '../config/database';
+import { LedgerEntry, Wallet } from '../models';
+import { LedgerEntryType, LedgerPosting, TransferError } from '../types';
+import { Money } from '../utils/money';
+
+// Non-wallet accounts on the other side of external money movements
+export const LEDGER_ACCOUNTS = {
+  DEPOSITS: 'external:deposits',
+  WITHDRAWALS: 'external:withdrawals',
+  OPENING_BALANCES: 'equity:opening-balances',
+} as const;
+
+export function walletAccount(walletId: string): string {
+  return `wallet:${walletId}`;
+}
+
+// House FX position in one currency; cross-currency transfers pass through it
+export function fxPositionAccount(currency: string): string {
+  return `fx:position:${currency}`;
+}
+
+/**
+ * LedgerService maintains the double-entry ledger behind every balance
+ * 
+ * Every committed operation posts balanced entries (debits and credits
+ * summing to zero) inside the same DB transaction as the balance update,
+ * so Wallet.balance can always be rebuilt from ledger_entries.
+ * 
+ * Sign convention: amount is the signed effect on the account's balance.
+ *   Transfer 100 A -> B:  wallet:A -100 (DEBIT), wallet:B +100 (CREDIT)
+ *   Deposit 50 to A:      wallet:A +50 (CREDIT), external:deposits -50 (DEBIT)
+ *   FX 100 USD A -> 92 EUR B:
+ *     wallet:A -100, fx:position:USD +100, fx:position:EUR -92, wallet:B +92
+ */
+class LedgerService {
+  /**
+   * Post balanced entries for one transaction
+   * Must be called with the transaction that updates the wallet balances
+   *
+   * Also stamps the TransactionLog's appliedAt with the database clock,
+   * read here under the wallet row locks. Returned for logs not inserted
+   * yet (atomic batch legs).
+   */
+  async post(
+    transactionId: string,
+    postings: LedgerPosting[],
+    t: SequelizeTransaction
+  ): Promise<Date> {
+    const total = postings.reduce((sum, p) => sum.plus(Money.parse(p.amount)), Money.ZERO);
+
+    if (!total.isZero()) {
+      throw new TransferError(
+        `Ledger posting for ${transactionId} does not balance (off by ${total})`,
+        500,
+        'LEDGER_UNBALANCED'
+      );
+    }
+
+    await LedgerEntry.bulkCreate(
+      postings.map((p) => ({
+        transactionId,
+        walletId: p.walletId,
+        account: p.account,
+        entryType: Money.parse(p.amount).isNegative()
+          ? LedgerEntryType.DEBIT
+          : LedgerEntryType.CREDIT,
+        amount: Money.parse(p.amount).toString(),
+        balanceAfter: p.balanceAfter,
+      })),
+      { transaction: t }
+    );
+
+    // Verify what actually landed in the table, not just our input
+    await this.assertTransactionBalanced(transactionId, t);
+
+    // clock_timestamp(), not NOW(): NOW() is when the DB transaction began,
+    // possibly before it waited for the row locks. Cut to milliseconds, as
+    // a JS Date holds no more, so (appliedAt, id) keysets bound from a
+    // loaded log match the stored value
+    const [{ appliedAt }] = await sequelize.query<{ appliedAt: Date }>(
+      `WITH clock AS (SELECT date_trunc('milliseconds', clock_timestamp()) AS "appliedAt"),
+       stamped AS (
+         UPDATE transaction_logs SET "appliedAt" = clock."appliedAt"
+         FROM clock
+         WHERE transaction_logs.id = :transactionId
+       )
+       SELECT "appliedAt" FROM clock`,
+      { replacements: { transactionId }, type: QueryTypes.SELECT, transaction: t }
+    );
+
+    return appliedAt;
+  }
+
+  /**
+   * Postings for a wallet-to-wallet move of `amount`
+   */
+  transferPostings(
+    fromWalletId: string,
+    fromBalanceAfter: string,
+    toWalletId: string,
+    toBalanceAfter: string,
+    amount: Money
+  ): LedgerPosting[] {
+    return [
+      {
+        account: walletAccount(fromWalletId),
+        walletId: fromWalletId,
+        amount: amount.negate().toString(),
+        balanceAfter: fromBalanceAfter,
+      },
+      {
+        account: walletAccount(toWalletId),
+        walletId: toWalletId,
+        amount: amount.toString(),
+        balanceAfter: toBalanceAfter,
+      },
+    ];
+  }
+
+  /**
+   * Postings for a cross-currency move: each currency balances on its own
+   * through the house FX position accounts
+   */
+  fxTransferPostings(
+    from: { walletId: string; balanceAfter: string; currency: string; amount: Money },
+    to: { walletId: string; balanceAfter: string; currency: string; amount: Money }
+  ): LedgerPosting[] {
+    return [
+      ...this.externalPostings(
+        from.walletId,
+        from.balanceAfter,
+        fxPositionAccount(from.currency),
+        from.amount.negate()
+      ),
+      ...this.externalPostings(
+        to.walletId,
+        to.balanceAfter,
+        fxPositionAccount(to.currency),
+        to.amount
+      ),
+    ];
+  }
+
+  /**
+   * Postings between a wallet and a non-wallet account
+   * Positive amount credits the wallet, negative debits it
+   */
+  externalPostings(
+    walletId: string,
+    balanceAfter: string,
+    account: string,
+    amount: Money
+  ): LedgerPosting[] {
+    return [
+      {
+        account: walletAccount(walletId),
+        walletId,
+        amount: amount.toString(),
+        balanceAfter,
+      },
+      {
+        account,
+        walletId: null,
+        amount: amount.negate().toString(),
+        balanceAfter: null,
+      },
+    ];
+  }
+
+  /**
+   * Opening balance of a newly created wallet, balanced against equity
+   */
+  async postOpeningBalance(wallet: Wallet, t?: SequelizeTransaction | null): Promise<void> {
+    const balance = Money.parse(wallet.balance);
+    if (balance.isZero()) {
+      return;
+    }
+
+    const postings = this.externalPostings(
+      wallet.id,
+      balance.toString(),
+      LEDGER_ACCOUNTS.OPENING_BALANCES,
+      balance
+    );
+
+    if (t) {
+      await this.post(crypto.randomUUID(), postings, t);
+      return;
+    }
+
+    await sequelize.transaction((ownT) => this.post(crypto.randomUUID(), postings, ownT));
+  }
+
+  /**
+   * Fails if the entries stored for a transaction do not sum to zero
+   */
+  async assertTransactionBalanced(
+    transactionId: string,
+    t?: SequelizeTransaction
+  ): Promise<void> {
+    const sum = await this.sumAmounts({ transactionId }, t);
+    if (!sum.isZero()) {
+      throw new TransferError(
+        `Ledger entries for ${transactionId} sum to ${sum}, expected 0`,
+        500,
+        'LEDGER_UNBALANCED'
+      );
+    }
+  }
+
+  /**
+   * Audit: transaction ids whose entries do not sum to zero
+   */
+  async findUnbalancedTransactions(): Promise<string[]> {
+    const rows = await LedgerEntry.findAll({
+      attributes: ['transactionId'],
+      group: ['transactionId'],
+      having: literal('SUM("amount") <> 0'),
+      raw: true,
+    });
+
+    return rows.map((row) => row.transactionId);
+  }
+
+  /**
+   * Rebuild a wallet's balance from its entries at a point in time
+   */
+  async getBalanceAt(walletId: string, asOf: Date = new Date()): Promise<string> {
+    const balance = await this.sumAmounts({
+      walletId,
+      createdAt: { [Op.lte]: asOf },
+    });
+
+    return balance.toString();
+  }
+
+  /**
+   * Balance a wallet was created with (its opening-balance postings)
+   */
+  async getOpeningBalance(walletId: string): Promise<string> {
+    const balance = await this.sumAmounts({
+      walletId,
+      transactionId: {
+        [Op.in]: literal(
+          `(SELECT "transactionId" FROM ledger_entries WHERE account = ${sequelize.escape(
+            LEDGER_ACCOUNTS.OPENING_BALANCES
+          )})`
+        ),
+      },
+    });
+
+    return balance.toString();
+  }
+
+  /**
+   * Exact SUM(amount) computed by PostgreSQL
+   * (Model.sum would parse the NUMERIC result as a float)
+   */
+  private async sumAmounts(
+    where: WhereOptions<LedgerEntry>,
+    t?: SequelizeTransaction
+  ): Promise<Money> {
+    const [row] = (await LedgerEntry.findAll({
+      attributes: [[fn('COALESCE', fn('SUM', col('amount')), 0), 'total']],
+      where,
+      transaction: t,
+      raw: true,
+    })) as unknown as Array<{ total: string | number }>;
+
+    return Money.parse(row?.total ?? 0);
+  }
+}
+
+const ledgerService = new LedgerService();
+
+// Wallets created with a balance (seeds, wallet creation) get their opening
+// posting in the same transaction as the INSERT
+Wallet.afterCreate(async (wallet, options) => {
+  await ledgerService.postOpeningBalance(wallet, options.transaction);
+});
+
+Wallet.afterBulkCreate(async (wallets, options) => {
+  for (const wallet of wallets) {
+    await ledgerService.postOpeningBalance(wallet, options.transaction);
+  }
+});
+
+export default ledgerService;
@@ -0,0 +1,192 @@
+import { TransferError } from '../types';
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  PROMETHEUS_CONTENT_TYPE,
+  Registry,
+} from '../utils/metrics';
+
+/**
+ * MetricsService holds the service's Prometheus metrics
+ *
+ * Business code reports what happened in its own terms (a transfer ended
+ * with this code, the cache missed, the lock took this long) and never
+ * touches metric names or label sets; all of that lives here. Gauges that
+ * are cheaper to sample than to track (DB pool, PENDING logs) are refreshed
+ * on scrape by collectors registered with addCollector.
+ *
+ * Rendered by GET /metrics (src/middleware/metrics.ts).
+ */
+class MetricsService {
+  readonly contentType = PROMETHEUS_CONTENT_TYPE;
+
+  private readonly registry = new Registry();
+
+  private readonly transfers = this.registry.register(
+    new Counter({
+      name: 'wallet_transfers_total',
+      help: 'Transfers by outcome and error code (OK on success)',
+      labelNames: ['outcome', 'code'],
+    })
+  );
+
+  private readonly transferDuration = this.registry.register(
+    new Histogram({
+      name: 'wallet_transfer_duration_seconds',
+      help: 'End-to-end transfer latency, from validation to response',
+      labelNames: ['outcome'],
+    })
+  );
+
+  private readonly cacheLookups = this.registry.register(
+    new Counter({
+      name: 'wallet_idempotency_cache_lookups_total',
+      help: 'Redis idempotency cache lookups by result (hit, miss, error)',
+      labelNames: ['result'],
+    })
+  );
+
+  private readonly lockWait = this.registry.register(
+    new Histogram({
+      name: 'wallet_lock_wait_seconds',
+      help: 'Time to acquire the idempotency lock, by result (acquired, contended)',
+      labelNames: ['result'],
+      buckets: [0.001, 0.005, 0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+    })
+  );
+
+  private readonly lockContention = this.registry.register(
+    new Counter({
+      name: 'wallet_lock_contention_total',
+      help: 'Lock acquisitions that found the idempotency key held by another request',
+    })
+  );
+
+  private readonly dbTransactionDuration = this.registry.register(
+    new Histogram({
+      name: 'wallet_db_transaction_duration_seconds',
+      help: 'Duration of business DB transactions by operation and result (commit, rollback)',
+      labelNames: ['operation', 'result'],
+    })
+  );
+
+  private readonly httpRequests = this.registry.register(
+    new Counter({
+      name: 'http_requests_total',
+      help: 'HTTP requests by method, route and status code',
+      labelNames: ['method', 'route', 'status'],
+    })
+  );
+
+  private readonly httpDuration = this.registry.register(
+    new Histogram({
+      name: 'http_request_duration_seconds',
+      help: 'HTTP request latency by method and route',
+      labelNames: ['method', 'route'],
+    })
+  );
+
+  private readonly dbPool = this.registry.register(
+    new Gauge({
+      name: 'wallet_db_pool_connections',
+      help: 'Sequelize pool connections by state (in_use, idle, waiting, max)',
+      labelNames: ['state'],
+    })
+  );
+
+  private readonly pendingLogs = this.registry.register(
+    new Gauge({
+      name: 'wallet_pending_transactions',
+      help: 'TransactionLogs currently PENDING',
+    })
+  );
+
+  private readonly pendingAge = this.registry.register(
+    new Gauge({
+      name: 'wallet_pending_oldest_age_seconds',
+      help: 'Age of the oldest PENDING TransactionLog (0 when there is none)',
+    })
+  );
+
+  /**
+   * Time a transfer and count its outcome
+   */
+  async observeTransfer<T>(run: () => Promise<T>): Promise<T> {
+    const stop = this.transferDuration.startTimer();
+
+    try {
+      const result = await run();
+      stop({ outcome: 'success' });
+      this.transfers.inc({ outcome: 'success', code: 'OK' });
+      return result;
+    } catch (error) {
+      const code =
+        error instanceof TransferError ? error.code || 'TRANSFER_ERROR' : 'INTERNAL_ERROR';
+      stop({ outcome: 'error' });
+      this.transfers.inc({ outcome: 'error', code });
+      throw error;
+    }
+  }
+
+  cacheLookup(result: 'hit' | 'miss' | 'error'): void {
+    this.cacheLookups.inc({ result });
+  }
+
+  /**
+   * Start waiting for a lock; call the result once it is acquired or given up
+   */
+  startLockWait(): (acquired: boolean) => void {
+    const stop = this.lockWait.startTimer();
+    return (acquired) => {
+      stop({ result: acquired ? 'acquired' : 'contended' });
+    };
+  }
+
+  lockContended(): void {
+    this.lockContention.inc();
+  }
+
+  /**
+   * Time a DB transaction (commit when `run` resolves, rollback when it throws)
+   */
+  async observeDbTransaction<T>(operation: string, run: () => Promise<T>): Promise<T> {
+    const stop = this.dbTransactionDuration.startTimer({ operation });
+
+    try {
+      const result = await run();
+      stop({ result: 'commit' });
+      return result;
+    } catch (error) {
+      stop({ result: 'rollback' });
+      throw error;
+    }
+  }
+
+  httpRequest(method: string, route: string, status: number, seconds: number): void {
+    this.httpRequests.inc({ method, route, status });
+    this.httpDuration.observe({ method, route }, seconds);
+  }
+
+  setDbPool(usage: { inUse: number; idle: number; waiting: number; max: number }): void {
+    this.dbPool.set({ state: 'in_use' }, usage.inUse);
+    this.dbPool.set({ state: 'idle' }, usage.idle);
+    this.dbPool.set({ state: 'waiting' }, usage.waiting);
+    this.dbPool.set({ state: 'max' }, usage.max);
+  }
+
+  setPendingLogs(count: number, oldestAgeSeconds: number): void {
+    this.pendingLogs.set({}, count);
+    this.pendingAge.set({}, oldestAgeSeconds);
+  }
+
+  addCollector(collect: () => Promise<void> | void): void {
+    this.registry.addCollector(collect);
+  }
+
+  render(): Promise<string> {
+    return this.registry.render();
+  }
+}
+
+export default new MetricsService();
@@ -0,0 +1,66 @@
+import { Transaction as SequelizeTransaction } from 'sequelize';
+import { OutboxEvent, TransactionLog } from '../models';
+import { TransactionLogMetadata, TransactionType, TransferEventType } from '../types';
+import { Money } from '../utils/money';
+
+/**
+ * OutboxService writes transfer events to the transactional outbox
+ *
+ * An event is inserted in the same DB transaction that resolves its
+ * TransactionLog, so it exists if and only if that outcome committed: no
+ * event for a rolled-back transfer, no lost event for a committed one.
+ * WebhookService delivers the events afterwards, at least once.
+ */
+class OutboxService {
+  /**
+   * Record a TRANSFER log's outcome in `t` (other log types have no events)
+   *
+   * `resolved` carries what the resolving update wrote: the log instance
+   * may predate it (balances after, error message).
+   */
+  async recordTransferEvent(
+    log: TransactionLog,
+    eventType: TransferEventType,
+    t: SequelizeTransaction,
+    resolved: { metadata?: object | null; errorMessage?: string | null } = {}
+  ): Promise<void> {
+    if (log.type !== TransactionType.TRANSFER) {
+      return;
+    }
+
+    const metadata = { ...log.metadata, ...resolved.metadata } as TransactionLogMetadata;
+    const succeeded = eventType === TransferEventType.SUCCEEDED;
+
+    await OutboxEvent.create(
+      {
+        eventType,
+        transactionId: log.id,
+        payload: {
+          transactionId: log.id,
+          idempotencyKey: log.idempotencyKey,
+          fromWalletId: log.fromWalletId,
+          toWalletId: log.toWalletId,
+          amount: Money.parse(log.amount).toString(),
+          currency: log.currency,
+          ...(log.toAmount && {
+            toAmount: Money.parse(log.toAmount).toString(),
+            toCurrency: log.toCurrency,
+          }),
+          ...(log.batchId && { batchId: log.batchId }),
+          ...(metadata.holdId && { holdId: metadata.holdId }),
+          ...(succeeded &&
+            metadata.fromBalanceAfter !== undefined &&
+            metadata.toBalanceAfter !== undefined && {
+            fromBalance: Money.parse(metadata.fromBalanceAfter).toString(),
+            toBalance: Money.parse(metadata.toBalanceAfter).toString(),
+          }),
+          ...(!succeeded && { errorMessage: resolved.errorMessage ?? log.errorMessage }),
+          occurredAt: new Date().toISOString(),
+        },
+      },
+      { transaction: t }
+    );
+  }
+}
+
+export default new OutboxService();
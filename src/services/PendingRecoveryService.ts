@@ -0,0 +1,204 @@
+import { Transaction as SequelizeTransaction, Op } from 'sequelize';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import { LedgerEntry, TransactionLog } from '../models';
+import {
+  PendingLogStats,
+  PendingRecoveryReport,
+  TransactionStatus,
+  TransferEventType,
+} from '../types';
+import OutboxService from './OutboxService';
+import RedisService from './RedisService';
+
+/**
+ * PendingRecoveryService resolves TransactionLogs stuck in PENDING
+ * 
+ * A log stays PENDING forever if the process dies between
+ * TransactionLog.create and the final SUCCESS/FAILED update. Replays of
+ * that key would then report "... is being processed" indefinitely.
+ * 
+ * For each PENDING log older than the threshold:
+ * 1. Take the idempotency lock (skip the log if a live holder has it)
+ * 2. Lock the log row and re-check it is still PENDING
+ * 3. Decide whether the balance mutation committed
+ * 4. Move the log to SUCCESS or FAILED, record an audit note in metadata
+ *    and our fencing token (a stalled original holder then fails to commit),
+ *    and write the transfer's outbox event
+ * 5. Invalidate the Redis cache entry for the key
+ */
+class PendingRecoveryService {
+  private readonly STALE_AFTER_MS = parseInt(
+    process.env.PENDING_RECOVERY_THRESHOLD_MS || '300000'
+  ); // 5 minutes, well past the 30s lock TTL
+  private readonly BATCH_SIZE = parseInt(
+    process.env.PENDING_RECOVERY_BATCH_SIZE || '100'
+  );
+
+  async recoverStalePending(now: Date = new Date()): Promise<PendingRecoveryReport> {
+    const report: PendingRecoveryReport = {
+      scanned: 0,
+      recoveredAsSuccess: 0,
+      recoveredAsFailed: 0,
+      skipped: 0,
+    };
+
+    const staleLogs = await TransactionLog.findAll({
+      where: {
+        status: TransactionStatus.PENDING,
+        createdAt: { [Op.lt]: new Date(now.getTime() - this.STALE_AFTER_MS) },
+      },
+      order: [['createdAt', 'ASC']],
+      limit: this.BATCH_SIZE,
+    });
+
+    for (const log of staleLogs) {
+      report.scanned++;
+
+      try {
+        const resolution = await this.recoverLog(log);
+
+        if (resolution === TransactionStatus.SUCCESS) {
+          report.recoveredAsSuccess++;
+        } else if (resolution === TransactionStatus.FAILED) {
+          report.recoveredAsFailed++;
+        } else {
+          report.skipped++;
+        }
+      } catch (error) {
+        logger.error('Failed to recover PENDING transaction', { transactionId: log.id, error });
+        report.skipped++;
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * How many logs are PENDING and since when (for monitoring)
+   */
+  async getPendingStats(): Promise<PendingLogStats> {
+    const [row] = (await TransactionLog.findAll({
+      attributes: [
+        [sequelize.fn('COUNT', sequelize.col('id')), 'count'],
+        [sequelize.fn('MIN', sequelize.col('createdAt')), 'oldestCreatedAt'],
+      ],
+      where: { status: TransactionStatus.PENDING },
+      raw: true,
+    })) as unknown as Array<{ count: string; oldestCreatedAt: Date | string | null }>;
+
+    return {
+      count: parseInt(row?.count || '0'),
+      oldestCreatedAt: row?.oldestCreatedAt ? new Date(row.oldestCreatedAt) : null,
+    };
+  }
+
+  /**
+   * @returns the status the log was moved to, or null if left untouched
+   */
+  private async recoverLog(log: TransactionLog): Promise<TransactionStatus | null> {
+    const lock = await RedisService.acquireLock(log.idempotencyKey);
+
+    if (!lock) {
+      // A live holder is still working on this key
+      return null;
+    }
+
+    try {
+      const resolution = await sequelize.transaction(
+        {
+          isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+        },
+        async (t: SequelizeTransaction) => {
+          const lockedLog = await TransactionLog.findByPk(log.id, {
+            lock: t.LOCK.UPDATE,
+            transaction: t,
+          });
+
+          if (!lockedLog || lockedLog.status !== TransactionStatus.PENDING) {
+            // Resolved by its holder since we scanned
+            return null;
+          }
+
+          const committed = await this.hasCommittedMutation(lockedLog, t);
+          const status = committed ? TransactionStatus.SUCCESS : TransactionStatus.FAILED;
+          const recoveredAt = new Date().toISOString();
+
+          await lockedLog.update(
+            {
+              status,
+              fencingToken: lock.fencingToken ?? lockedLog.fencingToken,
+              errorMessage: committed
+                ? null
+                : 'Recovered stale PENDING transaction: balance mutation never committed',
+              metadata: {
+                ...lockedLog.metadata,
+                ...(committed ? { completedAt: recoveredAt } : { failedAt: recoveredAt }),
+                recovery: {
+                  recoveredAt,
+                  previousStatus: TransactionStatus.PENDING,
+                  resolution: status,
+                  reason: committed
+                    ? 'Balance mutation found committed'
+                    : 'No committed balance mutation found',
+                },
+              },
+            },
+            { transaction: t }
+          );
+
+          await OutboxService.recordTransferEvent(
+            lockedLog,
+            committed ? TransferEventType.SUCCEEDED : TransferEventType.FAILED,
+            t
+          );
+
+          return status;
+        }
+      );
+
+      if (resolution) {
+        await RedisService.invalidateCache(log.idempotencyKey);
+        logger.info('Recovered PENDING transaction', {
+          transactionId: log.id,
+          idempotencyKey: log.idempotencyKey,
+          resolution,
+        });
+      }
+
+      return resolution;
+    } finally {
+      await RedisService.releaseLock(lock);
+    }
+  }
+
+  /**
+   * Did the operation's balance mutation commit?
+   * 
+   * Ledger entries are posted in the same DB transaction as the wallet
+   * updates, so their presence proves the mutation committed. Logs from
+   * before the ledger existed fall back to the post-operation balances in
+   * metadata, which are written in that same transaction as well.
+   */
+  private async hasCommittedMutation(
+    log: TransactionLog,
+    t: SequelizeTransaction
+  ): Promise<boolean> {
+    const entryCount = await LedgerEntry.count({
+      where: { transactionId: log.id },
+      transaction: t,
+    });
+
+    if (entryCount > 0) {
+      return true;
+    }
+
+    const metadata = (log.metadata || {}) as Record<string, unknown>;
+    return (
+      (!log.fromWalletId || metadata.fromBalanceAfter !== undefined) &&
+      (!log.toWalletId || metadata.toBalanceAfter !== undefined)
+    );
+  }
+}
+
+export default new PendingRecoveryService();
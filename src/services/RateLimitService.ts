@@ -0,0 +1,110 @@
+import {
+  RateLimitDimension,
+  RateLimitPolicy,
+  RateLimitResult,
+} from '../types';
+import RedisService from './RedisService';
+
+export interface RateLimitSubject {
+  principalId?: string;
+  walletIds: string[];
+  ip?: string;
+}
+
+/**
+ * Budgets of a policy, from RATE_LIMIT_<POLICY>_<DIMENSION> (requests per
+ * window; 0 disables that dimension)
+ */
+function budgets(
+  policy: RateLimitPolicy,
+  [principal, wallet, ip]: [number, number, number]
+): Record<RateLimitDimension, number> {
+  const read = (dimension: RateLimitDimension, fallback: number) =>
+    parseInt(
+      process.env[`RATE_LIMIT_${policy.toUpperCase()}_${dimension.toUpperCase()}`] ||
+        String(fallback)
+    );
+
+  return {
+    [RateLimitDimension.PRINCIPAL]: read(RateLimitDimension.PRINCIPAL, principal),
+    [RateLimitDimension.WALLET]: read(RateLimitDimension.WALLET, wallet),
+    [RateLimitDimension.IP]: read(RateLimitDimension.IP, ip),
+  };
+}
+
+/**
+ * RateLimitService counts requests in sliding windows kept in Redis
+ *
+ * Each route group (policy) has its own budgets per API principal, per
+ * source wallet and per client IP. A request is counted in all of its
+ * buckets or, when any is full, in none and refused; so a refused request
+ * never uses up budget. Buckets are sorted sets of request timestamps
+ * (RedisService.consumeRateLimit), trimmed to the window on every request.
+ *
+ * When Redis is unavailable REDIS_FAILURE_POLICY applies as for the
+ * idempotency cache: closed refuses the request (503), open and
+ * postgres-fallback serve it unlimited.
+ */
+class RateLimitService {
+  private readonly WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '60000');
+
+  // Defaults: [principal, wallet, ip] per window
+  private readonly BUDGETS: Record<RateLimitPolicy, Record<RateLimitDimension, number>> = {
+    [RateLimitPolicy.TRANSFER]: budgets(RateLimitPolicy.TRANSFER, [120, 60, 300]),
+    [RateLimitPolicy.WRITE]: budgets(RateLimitPolicy.WRITE, [120, 120, 300]),
+    [RateLimitPolicy.READ]: budgets(RateLimitPolicy.READ, [600, 600, 1200]),
+  };
+
+  /**
+   * Count one request of `policy` made by `subject`
+   *
+   * @returns the most constrained bucket, or null when nothing was counted
+   * (no budget applies, or Redis is down under a fail-open policy)
+   */
+  async consume(
+    policy: RateLimitPolicy,
+    subject: RateLimitSubject
+  ): Promise<RateLimitResult | null> {
+    const limits = this.BUDGETS[policy];
+    const subjects: Array<{ dimension: RateLimitDimension; id: string | undefined }> = [
+      { dimension: RateLimitDimension.PRINCIPAL, id: subject.principalId },
+      ...[...new Set(subject.walletIds)].map((id) => ({
+        dimension: RateLimitDimension.WALLET,
+        id,
+      })),
+      { dimension: RateLimitDimension.IP, id: subject.ip },
+    ];
+
+    const buckets = subjects
+      .filter(({ dimension, id }) => id && limits[dimension] > 0)
+      .map(({ dimension, id }) => ({
+        dimension,
+        key: `ratelimit:${policy}:${dimension}:${id}`,
+        limit: limits[dimension],
+        windowMs: this.WINDOW_MS,
+      }));
+
+    if (buckets.length === 0) {
+      return null;
+    }
+
+    const outcome = await RedisService.consumeRateLimit(buckets);
+    if (!outcome) {
+      return null;
+    }
+
+    // Refused: the full bucket that frees up last decides Retry-After
+    // Allowed: the bucket with the least budget left
+    const [{ dimension, ...bucket }] = outcome.allowed
+      ? outcome.buckets.sort(
+          (a, b) => a.limit - a.count - (b.limit - b.count) || b.resetMs - a.resetMs
+        )
+      : outcome.buckets
+          .filter((state) => state.count >= state.limit)
+          .sort((a, b) => b.resetMs - a.resetMs);
+
+    return { allowed: outcome.allowed, dimension, bucket };
+  }
+}
+
+export default new RateLimitService();
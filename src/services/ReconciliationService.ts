@@ -0,0 +1,216 @@
+import { Transaction as SequelizeTransaction, Op, QueryTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { Wallet, TransactionLog } from '../models';
+import { BalanceDrift, ReconciliationReport, TransactionStatus } from '../types';
+import { Money } from '../utils/money';
+import { toCsvRow } from '../utils/csv';
+import { LEDGER_ACCOUNTS } from './LedgerService';
+
+const CSV_COLUMNS: Array<keyof BalanceDrift> = [
+  'walletId',
+  'userId',
+  'currency',
+  'openingBalance',
+  'expectedBalance',
+  'recordedBalance',
+  'delta',
+  'lastConsistentTransactionId',
+  'expectedVersion',
+  'recordedVersion',
+  'versionMismatch',
+];
+
+/**
+ * ReconciliationService detects balance drift
+ *
+ * For every wallet:
+ *   expected balance = opening balance + SUCCESS credits - SUCCESS debits
+ *   (credits of cross-currency transfers count their converted toAmount)
+ *   expected version = number of SUCCESS TransactionLogs touching the wallet
+ * and compares them with Wallet.balance / Wallet.version.
+ *
+ * The whole run reads one READ ONLY, REPEATABLE READ snapshot, paging
+ * through wallets in batches. MVCC snapshots take no row locks, so
+ * executeTransfer keeps running unblocked while a report is built.
+ */
+class ReconciliationService {
+  private readonly BATCH_SIZE = parseInt(
+    process.env.RECONCILIATION_BATCH_SIZE || '500'
+  );
+
+  async run(): Promise<ReconciliationReport> {
+    return sequelize.transaction(
+      {
+        isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.REPEATABLE_READ,
+      },
+      async (t: SequelizeTransaction) => {
+        // Must precede the first query of the transaction
+        await sequelize.query('SET TRANSACTION READ ONLY', { transaction: t });
+
+        const drifts: BalanceDrift[] = [];
+        let walletsChecked = 0;
+        let lastWalletId: string | null = null;
+
+        // Keyset pagination by id: stable within the snapshot
+        for (;;) {
+          const wallets: Wallet[] = await Wallet.findAll({
+            where: lastWalletId ? { id: { [Op.gt]: lastWalletId } } : {},
+            order: [['id', 'ASC']],
+            limit: this.BATCH_SIZE,
+            transaction: t,
+          });
+
+          if (wallets.length === 0) {
+            break;
+          }
+
+          drifts.push(...(await this.reconcileBatch(wallets, t)));
+          walletsChecked += wallets.length;
+          lastWalletId = wallets[wallets.length - 1].id;
+        }
+
+        return {
+          generatedAt: new Date().toISOString(),
+          walletsChecked,
+          driftCount: drifts.length,
+          drifts,
+        };
+      }
+    );
+  }
+
+  toCsv(report: ReconciliationReport): string {
+    const rows = report.drifts.map((drift) => toCsvRow(CSV_COLUMNS.map((c) => drift[c])));
+    return [toCsvRow(CSV_COLUMNS), ...rows].join('\n') + '\n';
+  }
+
+  private async reconcileBatch(
+    wallets: Wallet[],
+    t: SequelizeTransaction
+  ): Promise<BalanceDrift[]> {
+    const walletIds = wallets.map((w) => w.id);
+
+    // Opening balance: the wallet side of its opening-balance postings
+    const openingRows = await sequelize.query<{ walletId: string; opening: string }>(
+      `SELECT le."walletId", SUM(le.amount) AS opening
+       FROM ledger_entries le
+       WHERE le."walletId" IN (:walletIds)
+         AND le."transactionId" IN (
+           SELECT "transactionId" FROM ledger_entries WHERE account = :openingAccount
+         )
+       GROUP BY le."walletId"`,
+      {
+        replacements: { walletIds, openingAccount: LEDGER_ACCOUNTS.OPENING_BALANCES },
+        type: QueryTypes.SELECT,
+        transaction: t,
+      }
+    );
+
+    // Net SUCCESS movement and mutation count per wallet (exact NUMERIC sums)
+    const movementRows = await sequelize.query<{
+      walletId: string;
+      net: string;
+      mutations: string;
+    }>(
+      `SELECT w.id AS "walletId",
+              COALESCE(SUM(CASE WHEN tl."toWalletId" = w.id
+                                THEN COALESCE(tl."toAmount", tl.amount)
+                                ELSE -tl.amount END), 0) AS net,
+              COUNT(tl.id) AS mutations
+       FROM wallets w
+       LEFT JOIN transaction_logs tl
+         ON tl.status = :status
+        AND (tl."fromWalletId" = w.id OR tl."toWalletId" = w.id)
+       WHERE w.id IN (:walletIds)
+       GROUP BY w.id`,
+      {
+        replacements: { walletIds, status: TransactionStatus.SUCCESS },
+        type: QueryTypes.SELECT,
+        transaction: t,
+      }
+    );
+
+    const openings = new Map(openingRows.map((r) => [r.walletId, Money.parse(r.opening)]));
+    const movements = new Map(movementRows.map((r) => [r.walletId, r]));
+
+    const drifts: BalanceDrift[] = [];
+
+    for (const wallet of wallets) {
+      const opening = openings.get(wallet.id) ?? Money.ZERO;
+      const movement = movements.get(wallet.id);
+      const expected = opening.plus(Money.parse(movement?.net ?? 0));
+      const recorded = Money.parse(wallet.balance);
+      const expectedVersion = parseInt(movement?.mutations ?? '0');
+      const versionMismatch = expectedVersion !== wallet.version;
+
+      if (recorded.equals(expected) && !versionMismatch) {
+        continue;
+      }
+
+      drifts.push({
+        walletId: wallet.id,
+        userId: wallet.userId,
+        currency: wallet.currency,
+        openingBalance: opening.toString(),
+        expectedBalance: expected.toString(),
+        recordedBalance: recorded.toString(),
+        delta: recorded.minus(expected).toString(),
+        lastConsistentTransactionId: await this.findLastConsistentTransaction(
+          wallet.id,
+          opening,
+          t
+        ),
+        expectedVersion,
+        recordedVersion: wallet.version,
+        versionMismatch,
+      });
+    }
+
+    return drifts;
+  }
+
+  /**
+   * Replay a drifting wallet's SUCCESS logs in completion order and return
+   * the last one whose recorded balance-after matches the replayed balance
+   */
+  private async findLastConsistentTransaction(
+    walletId: string,
+    opening: Money,
+    t: SequelizeTransaction
+  ): Promise<string | null> {
+    const logs = await TransactionLog.findAll({
+      where: {
+        status: TransactionStatus.SUCCESS,
+        [Op.or]: [{ fromWalletId: walletId }, { toWalletId: walletId }],
+      },
+      order: [
+        [sequelize.literal(`metadata->>'completedAt'`), 'ASC'],
+        ['id', 'ASC'],
+      ],
+      transaction: t,
+    });
+
+    let running = opening;
+    let lastConsistent: string | null = null;
+
+    for (const log of logs) {
+      const isDebit = log.fromWalletId === walletId;
+      const metadata = (log.metadata || {}) as Record<string, string | undefined>;
+      const recordedAfter = isDebit ? metadata.fromBalanceAfter : metadata.toBalanceAfter;
+
+      running = isDebit
+        ? running.minus(Money.parse(log.amount))
+        : running.plus(Money.parse(log.toAmount ?? log.amount));
+
+      if (recordedAfter === undefined || !Money.parse(recordedAfter).equals(running)) {
+        break;
+      }
+
+      lastConsistent = log.id;
+    }
+
+    return lastConsistent;
+  }
+}
+
+export default new ReconciliationService();
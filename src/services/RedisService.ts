@@ -1,4 +1,100 @@
+import crypto from 'crypto';
+import Redis from 'ioredis';
+import { Pool, PoolClient } from 'pg';
 import redisClient from '../config/redis';
+import advisoryLockPool from '../config/advisoryLockPool';
+import logger from '../config/logger';
+import MetricsService from './MetricsService';
+import {
+  CachedIdempotencyResult,
+  LockHandle,
+  RateLimitBucket,
+  RateLimitBucketState,
+  RedisFailurePolicy,
+  TransferError,
+} from '../types';
+
+// Single global counter: fencing tokens only need to be monotonic per
+// resource, and one counter never expires or leaks keys
+const FENCING_COUNTER_KEY = 'lock:fencing-counter';
+
+// KEYS[1] = lock key, KEYS[2] = fencing counter
+// ARGV[1] = owner token, ARGV[2] = ttl in ms
+// Returns the new fencing token, or 0 if the lock is held
+const ACQUIRE_LOCK_SCRIPT = `
+if redis.call('SET', KEYS[1], ARGV[1], 'NX', 'PX', ARGV[2]) then
+  return redis.call('INCR', KEYS[2])
+end
+return 0
+`;
+
+// Delete only if we still own the lock
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+// Extend only if we still own the lock
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+// Sliding-window log over several buckets at once: the request is counted
+// in every bucket, or (when any is full) in none
+// KEYS = bucket keys (sorted sets of request timestamps)
+// ARGV[1] = now (ms), ARGV[2] = unique member,
+// then limit and window (ms) for each key
+// Returns allowed (1/0), then count and reset (ms) for each key
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local allowed = 1
+local counts = {}
+
+for i, key in ipairs(KEYS) do
+  local limit = tonumber(ARGV[1 + i * 2])
+  local window = tonumber(ARGV[2 + i * 2])
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+  counts[i] = redis.call('ZCARD', key)
+  if counts[i] >= limit then
+    allowed = 0
+  end
+end
+
+local result = { allowed }
+
+for i, key in ipairs(KEYS) do
+  local limit = tonumber(ARGV[1 + i * 2])
+  local window = tonumber(ARGV[2 + i * 2])
+  local count = counts[i]
+
+  if allowed == 1 then
+    redis.call('ZADD', key, now, ARGV[2])
+    redis.call('PEXPIRE', key, window)
+    count = count + 1
+  end
+
+  -- Full bucket: wait for the entry whose expiry frees a slot
+  local rank = 0
+  if count > limit then
+    rank = count - limit
+  end
+  local oldest = redis.call('ZRANGE', key, rank, rank, 'WITHSCORES')
+  local reset = window
+  if oldest[2] then
+    reset = tonumber(oldest[2]) + window - now
+  end
+
+  table.insert(result, count)
+  table.insert(result, reset)
+end
+
+return result
+`;
 
 /**
  * RedisService handles all Redis operations for idempotency and locking
@@ -7,92 +103,271 @@ import redisClient from '../config/redis';
  * 
  * 1. IDEMPOTENCY CACHE:
  *    Key: idempotency:{idempotencyKey}
- *    Value: JSON serialized transaction result
+ *    Value: JSON { requestHash, response } - result bound to request fingerprint
  *    TTL: 24 hours (configurable)
  *    Purpose: Fast duplicate detection without PostgreSQL query
  * 
  * 2. DISTRIBUTED LOCK:
  *    Key: lock:{idempotencyKey}
- *    Value: timestamp of lock acquisition
- *    TTL: 30 seconds (auto-release on crash)
+ *    Value: random owner token (released/extended via compare-and-set Lua)
+ *    TTL: 30 seconds (auto-release on crash), extended by heartbeat
+ *    Fencing: lock:fencing-counter INCR'd on every acquisition
  *    Purpose: Prevent concurrent processing across instances
  * 
- * 3. REDIS AS CACHE, NOT SOURCE OF TRUTH:
+ * 3. RATE LIMITS:
+ *    Key: ratelimit:{policy}:{dimension}:{id}
+ *    Value: sorted set of request timestamps (sliding window log)
+ *    TTL: the window
+ * 
+ * 4. REDIS AS CACHE, NOT SOURCE OF TRUTH:
  *    - PostgreSQL is authoritative
- *    - Redis failures don't break functionality
- *    - Graceful degradation to database-only mode
+ *    - Behaviour on Redis failure is set by REDIS_FAILURE_POLICY:
+ *      open              - degrade to database-only mode (default)
+ *      closed            - refuse transfers with 503 REDIS_UNAVAILABLE
+ *      postgres-fallback - lock via pg_try_advisory_lock on the key
  */
-class RedisService {
+export class RedisService {
   private readonly IDEMPOTENCY_TTL = parseInt(
     process.env.REDIS_IDEMPOTENCY_TTL || '86400'
   ); // 24 hours
-  private readonly LOCK_TTL = 30; // 30 seconds
+  private readonly LOCK_TTL_MS = 30000; // 30 seconds
+  private readonly LOCK_HEARTBEAT_INTERVAL_MS = 10000; // LOCK_TTL / 3
   private readonly LOCK_RETRY_DELAY = 100; // 100ms
   private readonly LOCK_MAX_RETRIES = 50; // Max 5 seconds total
 
+  readonly failurePolicy: RedisFailurePolicy;
+
+  // Connections holding postgres-fallback advisory locks, by owner token
+  private readonly advisoryLocks = new Map<string, PoolClient>();
+
+  constructor(
+    private readonly client: Redis = redisClient,
+    failurePolicy: string = process.env.REDIS_FAILURE_POLICY || RedisFailurePolicy.OPEN,
+    private readonly lockPool: Pool = advisoryLockPool
+  ) {
+    if (!Object.values<string>(RedisFailurePolicy).includes(failurePolicy)) {
+      throw new Error(
+        `Invalid REDIS_FAILURE_POLICY "${failurePolicy}". ` +
+          `Expected one of: ${Object.values(RedisFailurePolicy).join(', ')}`
+      );
+    }
+    this.failurePolicy = failurePolicy as RedisFailurePolicy;
+  }
+
   /**
    * Attempt to acquire distributed lock for idempotency key
    * 
-   * Uses Redis SETNX (SET if Not eXists) for atomic lock acquisition
+   * One Lua script, so both steps are atomic:
+   *   SET lock:{key} {ownerToken} NX PX {ttl}
+   *   INCR fencing counter (only when the SET succeeded)
    * 
-   * @returns true if lock acquired, false if already locked
+   * @returns lock handle if acquired, null if already locked
    */
-  async acquireLock(idempotencyKey: string): Promise<boolean> {
+  async acquireLock(idempotencyKey: string): Promise<LockHandle | null> {
+    const handle: LockHandle = {
+      resource: idempotencyKey,
+      token: crypto.randomUUID(),
+      fencingToken: null,
+    };
+
     try {
-      const lockKey = `lock:${idempotencyKey}`;
-      const lockValue = Date.now().toString();
-
-      // SETNX with expiration (atomic operation)
-      // Returns 1 if key was set (lock acquired)
-      // Returns 0 if key already exists (lock held by another process)
-      const result = await redisClient.set(
-        lockKey,
-        lockValue,
-        'EX', // Expire in seconds
-        this.LOCK_TTL,
-        'NX' // Set only if Not eXists
+      const fencingToken = (await this.client.eval(
+        ACQUIRE_LOCK_SCRIPT,
+        2,
+        this.lockKey(idempotencyKey),
+        FENCING_COUNTER_KEY,
+        handle.token,
+        this.LOCK_TTL_MS
+      )) as number;
+
+      if (!fencingToken) {
+        return null;
+      }
+
+      return { ...handle, fencingToken };
+    } catch (error) {
+      logger.error('Redis lock acquisition error', { error });
+
+      if (this.failurePolicy === RedisFailurePolicy.POSTGRES_FALLBACK) {
+        return this.acquireAdvisoryLock(handle);
+      }
+
+      this.assertFailOpen();
+
+      // Fail open for availability: allow operation without a lock
+      // No fencing token: the commit is then guarded by the log status only
+      return handle;
+    }
+  }
+
+  /**
+   * postgres-fallback: session-level advisory lock on the key
+   *
+   * Taken on a connection of its own (see config/advisoryLockPool.ts) that
+   * is held until releaseLock unlocks on that same connection. If the
+   * session dies the lock goes with it. Advisory locks have no TTL, hence
+   * no fencing token is needed.
+   *
+   * Waiting for a lock connection is bounded by ADVISORY_LOCK_TIMEOUT_MS;
+   * past it the request is refused with 503 like under the closed policy.
+   */
+  private async acquireAdvisoryLock(handle: LockHandle): Promise<LockHandle | null> {
+    let connection: PoolClient | undefined;
+
+    try {
+      connection = await this.lockPool.connect();
+
+      const { rows } = await connection.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_lock(hashtextextended($1, 0)) AS locked',
+        [this.lockKey(handle.resource)]
       );
 
-      return result === 'OK';
+      if (!rows[0]?.locked) {
+        connection.release();
+        return null;
+      }
+
+      this.advisoryLocks.set(handle.token, connection);
+      return handle;
     } catch (error) {
-      console.error('Redis lock acquisition error:', error);
-      // On Redis failure, allow operation (fail open for availability)
-      return true;
+      logger.error('Advisory lock acquisition error', { error });
+      // Drop the connection: should the lock have been granted after all,
+      // closing the session releases it
+      connection?.release(true);
+
+      throw new TransferError(
+        'Idempotency lock unavailable, request refused. Please retry later.',
+        503,
+        'REDIS_UNAVAILABLE'
+      );
+    }
+  }
+
+  /**
+   * Under the closed policy a Redis failure refuses the operation
+   */
+  private assertFailOpen(): void {
+    if (this.failurePolicy === RedisFailurePolicy.CLOSED) {
+      throw new TransferError(
+        'Idempotency store unavailable, request refused. Please retry later.',
+        503,
+        'REDIS_UNAVAILABLE'
+      );
     }
   }
 
   /**
    * Release distributed lock
+   * 
+   * Compare-and-delete: if our lock expired and another instance took it,
+   * its lock is left untouched
    */
-  async releaseLock(idempotencyKey: string): Promise<void> {
+  async releaseLock(lock: LockHandle): Promise<void> {
+    const connection = this.advisoryLocks.get(lock.token);
+    if (connection) {
+      this.advisoryLocks.delete(lock.token);
+      try {
+        await connection.query('SELECT pg_advisory_unlock(hashtextextended($1, 0))', [
+          this.lockKey(lock.resource),
+        ]);
+        connection.release();
+      } catch (error) {
+        logger.error('Advisory lock release error', { error });
+        // Closing the session releases the lock
+        connection.release(true);
+      }
+      return;
+    }
+
     try {
-      const lockKey = `lock:${idempotencyKey}`;
-      await redisClient.del(lockKey);
+      await this.client.eval(
+        RELEASE_LOCK_SCRIPT,
+        1,
+        this.lockKey(lock.resource),
+        lock.token
+      );
     } catch (error) {
-      console.error('Redis lock release error:', error);
+      logger.error('Redis lock release error', { error });
       // Lock will auto-expire, so non-critical error
     }
   }
 
+  /**
+   * Extend lock TTL for long-running work
+   * 
+   * @returns false if the lock is no longer ours (expired or taken over)
+   */
+  async extendLock(lock: LockHandle, ttlMs: number = this.LOCK_TTL_MS): Promise<boolean> {
+    try {
+      const result = await this.client.eval(
+        EXTEND_LOCK_SCRIPT,
+        1,
+        this.lockKey(lock.resource),
+        lock.token,
+        ttlMs
+      );
+
+      return result === 1;
+    } catch (error) {
+      logger.error('Redis lock extension error', { error });
+      return false;
+    }
+  }
+
+  /**
+   * Periodically extend the lock until the returned stop function is called
+   * 
+   * Losing the lock is only logged here; the fencing token on the
+   * TransactionLog is what actually rejects a stale holder
+   */
+  startLockHeartbeat(lock: LockHandle): () => void {
+    if (lock.fencingToken === null) {
+      // Fail-open or advisory lock handle, nothing in Redis to extend
+      return () => undefined;
+    }
+
+    const timer = setInterval(async () => {
+      const extended = await this.extendLock(lock);
+      if (!extended) {
+        logger.warn('Lock heartbeat failed, lock lost', { resource: lock.resource });
+        clearInterval(timer);
+      }
+    }, this.LOCK_HEARTBEAT_INTERVAL_MS);
+
+    // Never keep the process alive just for a heartbeat
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
   /**
    * Acquire lock with retry logic
    * 
    * Useful when multiple clients try to process same request simultaneously
    * One gets lock immediately, others retry briefly
    */
-  async acquireLockWithRetry(idempotencyKey: string): Promise<boolean> {
+  async acquireLockWithRetry(idempotencyKey: string): Promise<LockHandle | null> {
+    const stopWait = MetricsService.startLockWait();
+
     for (let attempt = 0; attempt < this.LOCK_MAX_RETRIES; attempt++) {
-      const acquired = await this.acquireLock(idempotencyKey);
+      const lock = await this.acquireLock(idempotencyKey);
       
-      if (acquired) {
-        return true;
+      if (lock) {
+        stopWait(true);
+        return lock;
+      }
+
+      // Once per contended acquisition, however many retries it takes
+      if (attempt === 0) {
+        MetricsService.lockContended();
       }
 
       // Wait before retry
       await this.sleep(this.LOCK_RETRY_DELAY);
     }
 
-    return false; // Could not acquire lock after max retries
+    stopWait(false);
+    return null; // Could not acquire lock after max retries
   }
 
   /**
@@ -103,10 +378,14 @@ class RedisService {
    * 2. If miss, check PostgreSQL (slower)
    * 3. If still not found, proceed with transfer
    */
-  async getCachedResult(idempotencyKey: string): Promise<any | null> {
+  async getCachedResult<T = unknown>(
+    idempotencyKey: string
+  ): Promise<CachedIdempotencyResult<T> | null> {
     try {
       const cacheKey = `idempotency:${idempotencyKey}`;
-      const cached = await redisClient.get(cacheKey);
+      const cached = await this.client.get(cacheKey);
+
+      MetricsService.cacheLookup(cached ? 'hit' : 'miss');
 
       if (cached) {
         return JSON.parse(cached);
@@ -114,7 +393,9 @@ class RedisService {
 
       return null;
     } catch (error) {
-      console.error('Redis cache read error:', error);
+      MetricsService.cacheLookup('error');
+      logger.error('Redis cache read error', { error });
+      this.assertFailOpen();
       // On Redis failure, return null (fall back to database)
       return null;
     }
@@ -126,16 +407,21 @@ class RedisService {
    * Called AFTER PostgreSQL commit to ensure consistency
    * If Redis fails here, it's non-critical (just slower next time)
    */
-  async cacheResult(idempotencyKey: string, result: any): Promise<void> {
+  async cacheResult(
+    idempotencyKey: string,
+    response: object,
+    requestHash: string | null
+  ): Promise<void> {
     try {
       const cacheKey = `idempotency:${idempotencyKey}`;
-      await redisClient.setex(
+      const entry: CachedIdempotencyResult<object> = { requestHash, response };
+      await this.client.setex(
         cacheKey,
         this.IDEMPOTENCY_TTL,
-        JSON.stringify(result)
+        JSON.stringify(entry)
       );
     } catch (error) {
-      console.error('Redis cache write error:', error);
+      logger.error('Redis cache write error', { error });
       // Non-critical error, operation succeeded in PostgreSQL
     }
   }
@@ -146,9 +432,74 @@ class RedisService {
   async invalidateCache(idempotencyKey: string): Promise<void> {
     try {
       const cacheKey = `idempotency:${idempotencyKey}`;
-      await redisClient.del(cacheKey);
+      await this.client.del(cacheKey);
     } catch (error) {
-      console.error('Redis cache invalidation error:', error);
+      logger.error('Redis cache invalidation error', { error });
+    }
+  }
+
+  /**
+   * Count a request against every bucket, unless one of them is full
+   *
+   * @returns bucket states, or null when Redis is unavailable and the
+   * failure policy lets the request through unlimited
+   */
+  async consumeRateLimit<B extends RateLimitBucket>(
+    buckets: B[]
+  ): Promise<{ allowed: boolean; buckets: Array<B & RateLimitBucketState> } | null> {
+    if (buckets.length === 0) {
+      return { allowed: true, buckets: [] };
+    }
+
+    const now = Date.now();
+
+    try {
+      const result = (await this.client.eval(
+        RATE_LIMIT_SCRIPT,
+        buckets.length,
+        ...buckets.map((bucket) => bucket.key),
+        now,
+        `${now}-${crypto.randomUUID()}`,
+        ...buckets.flatMap((bucket) => [bucket.limit, bucket.windowMs])
+      )) as number[];
+
+      return {
+        allowed: result[0] === 1,
+        buckets: buckets.map((bucket, i) => ({
+          ...bucket,
+          count: result[1 + i * 2],
+          resetMs: result[2 + i * 2],
+        })),
+      };
+    } catch (error) {
+      logger.error('Redis rate limit error', { error });
+      this.assertFailOpen();
+      // No limiting without Redis (postgres-fallback only covers locks)
+      return null;
+    }
+  }
+
+  /**
+   * Record a signed request's nonce; false if it was already seen
+   *
+   * SET auth:nonce:{credentialId}:{nonce} NX EX {ttl}. If Redis is down
+   * the failure policy decides: closed refuses the request, otherwise the
+   * timestamp window is the only replay protection left.
+   */
+  async claimNonce(credentialId: string, nonce: string, ttlSeconds: number): Promise<boolean> {
+    try {
+      const result = await this.client.set(
+        `auth:nonce:${credentialId}:${nonce}`,
+        '1',
+        'EX',
+        ttlSeconds,
+        'NX'
+      );
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Redis nonce claim error', { error });
+      this.assertFailOpen();
+      return true;
     }
   }
 
@@ -157,7 +508,7 @@ class RedisService {
    */
   async healthCheck(): Promise<boolean> {
     try {
-      const result = await redisClient.ping();
+      const result = await this.client.ping();
       return result === 'PONG';
     } catch (error) {
       return false;
@@ -168,7 +519,8 @@ class RedisService {
    * Gracefully close Redis connection (for shutdown)
    */
   async disconnect(): Promise<void> {
-    await redisClient.quit();
+    await this.client.quit();
+    await this.lockPool.end();
   }
 
   /**
@@ -176,12 +528,16 @@ class RedisService {
    */
   async flushAll(): Promise<void> {
     try {
-      await redisClient.flushall();
+      await this.client.flushall();
     } catch (error) {
-      console.error('Redis flush error:', error);
+      logger.error('Redis flush error', { error });
     }
   }
 
+  private lockKey(resource: string): string {
+    return `lock:${resource}`;
+  }
+
   /**
    * Utility: Sleep for retry logic
    */
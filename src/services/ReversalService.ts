@@ -0,0 +1,327 @@
+import { Transaction as SequelizeTransaction } from 'sequelize';
+import sequelize from '../config/database';
+import { Wallet, TransactionLog } from '../models';
+import {
+  LockHandle,
+  ReversalRequest,
+  ReversalResponse,
+  TransactionLogMetadata,
+  TransactionStatus,
+  TransactionType,
+  TransferError,
+} from '../types';
+import { getCurrencyScale } from '../config/currencies';
+import { Money } from '../utils/money';
+import { computeRequestHash } from '../utils/requestHash';
+import IdempotencyService from './IdempotencyService';
+import TransferService from './TransferService';
+
+/**
+ * ReversalService refunds SUCCESS transfers, fully or partially
+ *
+ * A reversal is its own REVERSAL TransactionLog (reversalOfId -> original),
+ * idempotent under its own key via IdempotencyService, moving money from the
+ * original recipient back to the original sender. The original log's row is
+ * locked FOR UPDATE in the reversal's DB transaction, so concurrent
+ * reversals of one transfer serialize and reversedAmount never exceeds the
+ * original amount. The original also lists its reversals in metadata.
+ *
+ * Cross-currency transfers are not reversible: the refund would need a
+ * fresh FX quote in the opposite direction.
+ */
+class ReversalService {
+  async reverse(request: ReversalRequest): Promise<ReversalResponse> {
+    this.validateRequest(request);
+
+    const requestHash = computeRequestHash({
+      transactionId: request.transactionId.toLowerCase(),
+      amount: request.amount ? Money.parse(request.amount).toString() : undefined,
+      allowNegativeBalance: request.allowNegativeBalance || undefined,
+    });
+
+    return IdempotencyService.execute({
+      idempotencyKey: request.idempotencyKey,
+      requestHash,
+      replay: (log) => this.buildResponseFromLog(log),
+      process: (lock) => this.processReversal(request, requestHash, lock),
+      cachedMessage: 'Reversal already processed (idempotent request) (from cache)',
+    });
+  }
+
+  /**
+   * Run the reversal, while holding the distributed lock for its key
+   */
+  private async processReversal(
+    request: ReversalRequest,
+    requestHash: string,
+    lock: LockHandle
+  ): Promise<ReversalResponse> {
+    const original = await TransactionLog.findByPk(request.transactionId);
+
+    if (!original) {
+      throw new TransferError('Transaction not found', 404, 'TRANSACTION_NOT_FOUND');
+    }
+
+    this.assertReversible(original);
+
+    // Omitted amount = full refund of whatever is left
+    const amount = request.amount
+      ? Money.parse(request.amount, getCurrencyScale(original.currency))
+      : this.remaining(original);
+
+    if (!amount.isPositive()) {
+      throw new TransferError(
+        'Transaction has already been fully reversed',
+        422,
+        'REVERSAL_EXCEEDS_ORIGINAL',
+        this.capDetails(original)
+      );
+    }
+
+    // Money flows back: original recipient -> original sender
+    const fromWalletId = original.toWalletId as string;
+    const toWalletId = original.fromWalletId as string;
+    const override = request.allowNegativeBalance === true;
+
+    const reversalLog = await TransactionLog.create({
+      type: TransactionType.REVERSAL,
+      fromWalletId,
+      toWalletId,
+      amount: amount.toString(),
+      currency: original.currency,
+      reversalOfId: original.id,
+      status: TransactionStatus.PENDING,
+      idempotencyKey: request.idempotencyKey,
+      requestHash,
+      fencingToken: lock.fencingToken,
+      metadata: {
+        requestedAt: new Date().toISOString(),
+        ...(request.reason && { reason: request.reason }),
+        ...(override && { negativeBalanceOverride: { actor: request.actor } }),
+      },
+    });
+
+    try {
+      const result = await sequelize.transaction(
+        {
+          isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+        },
+        async (t: SequelizeTransaction) => {
+          // Serializes reversals of the same transfer
+          const lockedOriginal = await TransactionLog.findByPk(original.id, {
+            lock: t.LOCK.UPDATE,
+            transaction: t,
+          });
+
+          if (!lockedOriginal) {
+            throw new TransferError('Transaction not found', 404, 'TRANSACTION_NOT_FOUND');
+          }
+
+          const remaining = this.remaining(lockedOriginal);
+          if (amount.greaterThan(remaining)) {
+            throw new TransferError(
+              `Reversal of ${amount} exceeds the ${remaining} not yet reversed`,
+              422,
+              'REVERSAL_EXCEEDS_ORIGINAL',
+              this.capDetails(lockedOriginal)
+            );
+          }
+
+          // Lock wallet rows in consistent order
+          const [firstLockId, secondLockId] =
+            fromWalletId < toWalletId
+              ? [fromWalletId, toWalletId]
+              : [toWalletId, fromWalletId];
+
+          const firstWallet = await Wallet.findByPk(firstLockId, {
+            lock: t.LOCK.UPDATE,
+            transaction: t,
+          });
+
+          const secondWallet = await Wallet.findByPk(secondLockId, {
+            lock: t.LOCK.UPDATE,
+            transaction: t,
+          });
+
+          const fromWallet = fromWalletId === firstLockId ? firstWallet : secondWallet;
+          const toWallet = toWalletId === firstLockId ? firstWallet : secondWallet;
+
+          if (!fromWallet || !toWallet) {
+            throw new TransferError('One or both wallets not found', 404, 'WALLET_NOT_FOUND');
+          }
+
+          const { fromBalance, toBalance } = await TransferService.applyTransfer(
+            reversalLog.id,
+            fromWallet,
+            toWallet,
+            amount,
+            amount,
+            t,
+            { enforceLimits: false, allowNegativeBalance: override }
+          );
+
+          const totalReversed = Money.parse(lockedOriginal.reversedAmount).plus(amount).toString();
+          const originalMetadata = (lockedOriginal.metadata || {}) as TransactionLogMetadata;
+
+          // Reversal reference on the original
+          await lockedOriginal.update(
+            {
+              reversedAmount: totalReversed,
+              metadata: {
+                ...originalMetadata,
+                reversals: [
+                  ...(originalMetadata.reversals || []),
+                  {
+                    transactionId: reversalLog.id,
+                    amount: amount.toString(),
+                    reversedAt: new Date().toISOString(),
+                  },
+                ],
+              },
+            },
+            { transaction: t }
+          );
+
+          // Mark reversal SUCCESS (rolls back with LOCK_LOST if fenced off)
+          await IdempotencyService.completeLog(
+            reversalLog,
+            lock,
+            {
+              fromBalanceAfter: fromBalance,
+              toBalanceAfter: toBalance,
+              totalReversed,
+            },
+            t
+          );
+
+          return { fromBalance, toBalance, totalReversed };
+        }
+      );
+
+      const successResponse: ReversalResponse = {
+        success: true,
+        transactionId: reversalLog.id,
+        reversalOf: original.id,
+        message: 'Reversal completed successfully',
+        currency: original.currency,
+        amount: amount.toString(),
+        totalReversed: result.totalReversed,
+        fromBalance: result.fromBalance,
+        toBalance: result.toBalance,
+      };
+
+      IdempotencyService.cacheResult(request.idempotencyKey, successResponse, requestHash);
+
+      return successResponse;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await IdempotencyService.markFailed(reversalLog, message, lock);
+
+      if (error instanceof TransferError) {
+        throw error;
+      }
+
+      throw new TransferError(
+        message || 'Reversal failed due to unexpected error',
+        500,
+        'TRANSFER_FAILED'
+      );
+    }
+  }
+
+  private assertReversible(original: TransactionLog): void {
+    if (original.type !== TransactionType.TRANSFER) {
+      throw new TransferError(
+        `Only transfers can be reversed (transaction is a ${original.type})`,
+        422,
+        'TRANSACTION_NOT_REVERSIBLE'
+      );
+    }
+
+    if (original.status !== TransactionStatus.SUCCESS) {
+      throw new TransferError(
+        `Only SUCCESS transactions can be reversed (status: ${original.status})`,
+        422,
+        'TRANSACTION_NOT_REVERSIBLE'
+      );
+    }
+
+    if (original.fxQuoteId) {
+      throw new TransferError(
+        'Cross-currency transfers cannot be reversed',
+        422,
+        'TRANSACTION_NOT_REVERSIBLE'
+      );
+    }
+  }
+
+  private remaining(original: TransactionLog): Money {
+    return Money.parse(original.amount).minus(Money.parse(original.reversedAmount));
+  }
+
+  private capDetails(original: TransactionLog): Record<string, unknown> {
+    return {
+      originalAmount: Money.parse(original.amount).toString(),
+      reversedAmount: Money.parse(original.reversedAmount).toString(),
+      remaining: this.remaining(original).toString(),
+      currency: original.currency,
+    };
+  }
+
+  private buildResponseFromLog(log: TransactionLog): ReversalResponse {
+    const baseResponse = {
+      transactionId: log.id,
+      reversalOf: log.reversalOfId as string,
+      currency: log.currency,
+      amount: Money.parse(log.amount).toString(),
+      success: log.status === TransactionStatus.SUCCESS,
+      message:
+        log.status === TransactionStatus.SUCCESS
+          ? 'Reversal already processed (idempotent request)'
+          : log.status === TransactionStatus.PENDING
+          ? 'Reversal is being processed'
+          : 'Reversal previously failed',
+    };
+
+    if (log.status === TransactionStatus.SUCCESS && log.metadata) {
+      const metadata = log.metadata as TransactionLogMetadata;
+      return {
+        ...baseResponse,
+        totalReversed: metadata.totalReversed && Money.parse(metadata.totalReversed).toString(),
+        fromBalance:
+          metadata.fromBalanceAfter && Money.parse(metadata.fromBalanceAfter).toString(),
+        toBalance: metadata.toBalanceAfter && Money.parse(metadata.toBalanceAfter).toString(),
+      };
+    }
+
+    return baseResponse;
+  }
+
+  private validateRequest(request: ReversalRequest): void {
+    const { transactionId, amount, idempotencyKey } = request;
+
+    if (!transactionId || !idempotencyKey) {
+      throw new TransferError('Missing required fields', 400, 'INVALID_REQUEST');
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(transactionId)) {
+      throw new TransferError('Invalid transaction ID format', 400, 'INVALID_TRANSACTION_ID');
+    }
+
+    if (amount !== undefined && !Money.parse(amount).isPositive()) {
+      throw new TransferError('Amount must be a positive number', 400, 'INVALID_AMOUNT');
+    }
+
+    if (request.allowNegativeBalance && (!request.actor || typeof request.actor !== 'string')) {
+      throw new TransferError(
+        'The negative balance override requires an actor',
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+  }
+}
+
+export default new ReversalService();
@@ -0,0 +1,659 @@
+import {
+  Transaction as SequelizeTransaction,
+  Op,
+  UniqueConstraintError,
+  WhereOptions,
+} from 'sequelize';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import { ScheduledTransfer, TransactionLog, Wallet } from '../models';
+import {
+  CreateScheduledTransferRequest,
+  ScheduledTransferResponse,
+  ScheduledTransferRunReport,
+  ScheduledTransferStatus,
+  TransactionStatus,
+  TransferError,
+  TransferResponse,
+  UpdateScheduledTransferRequest,
+} from '../types';
+import { getCurrencyScale, normalizeCurrency } from '../config/currencies';
+import { nextOccurrence, parseCron } from '../utils/cron';
+import { Money } from '../utils/money';
+import { computeRequestHash } from '../utils/requestHash';
+import IdempotencyService from './IdempotencyService';
+import TransferService from './TransferService';
+import WalletService from './WalletService';
+
+// Outcome unknown: the next run repeats the attempt under the same key
+const TRANSIENT_CODES = ['CONCURRENT_PROCESSING', 'LOCK_LOST', 'REDIS_UNAVAILABLE'];
+
+// Failures that may clear on their own; anything else pauses at once
+const RETRYABLE_CODES = [
+  'INSUFFICIENT_BALANCE',
+  'LIMIT_EXCEEDED',
+  'SOURCE_WALLET_FROZEN',
+  'TRANSFER_FAILED',
+  // Amount edited after an attempt whose outcome was unknown: new key next time
+  'IDEMPOTENCY_KEY_REUSED',
+];
+
+type RunOutcome =
+  | { kind: 'succeeded'; transactionId: string }
+  | { kind: 'failed'; code: string; message: string; retryable: boolean }
+  | { kind: 'deferred'; message: string };
+
+/**
+ * ScheduledTransferService runs transfers at a future time or on a cron schedule
+ *
+ * Creation is idempotent on the schedule row (unique idempotencyKey), like
+ * holds. The scheduler (src/jobs/runScheduledTransfers.ts) pays each due
+ * occurrence through TransferService.executeTransfer under a key derived
+ * from the schedule ID and the occurrence time, so a restarted scheduler or
+ * a second worker replays the same transfer instead of paying it twice. The
+ * schedule row is also locked FOR UPDATE SKIP LOCKED while it runs, so
+ * concurrent workers normally never even try.
+ *
+ * A failed occurrence is retried with exponential backoff. The failed
+ * attempt's TransactionLog is FAILED for good, so each retry appends the
+ * attempt number to the key. Only a definite failure moves on to a new key;
+ * when the outcome is unknown (lock contention, a PENDING log) the next run
+ * repeats the attempt under the same key. maxFailures consecutive failures,
+ * or a failure that cannot clear by itself (e.g. a closed wallet), pause the
+ * schedule.
+ *
+ * Missed occurrences are not paid one by one: after a run the schedule
+ * moves to its first occurrence after now.
+ */
+class ScheduledTransferService {
+  private readonly DEFAULT_MAX_FAILURES = parseInt(
+    process.env.SCHEDULED_TRANSFER_MAX_FAILURES || '3'
+  );
+  private readonly RETRY_BASE_MS = parseInt(
+    process.env.SCHEDULED_TRANSFER_RETRY_BASE_MS || '300000' // 5 minutes
+  );
+  private readonly RETRY_MAX_MS = parseInt(
+    process.env.SCHEDULED_TRANSFER_RETRY_MAX_MS || '21600000' // 6 hours
+  );
+  private readonly BATCH_SIZE = parseInt(process.env.SCHEDULER_BATCH_SIZE || '100');
+
+  /**
+   * Create a schedule; created=false when the idempotency key was already
+   * used for the same request
+   */
+  async create(
+    request: CreateScheduledTransferRequest
+  ): Promise<{ schedule: ScheduledTransferResponse; created: boolean }> {
+    const { fromWalletId, toWalletId, idempotencyKey } = request;
+
+    TransferService.validateTransferRequest({
+      fromWalletId,
+      toWalletId,
+      amount: request.amount,
+      currency: request.currency,
+      idempotencyKey,
+    });
+
+    const timing = this.parseTiming(request.runAt, request.cron);
+    const maxFailures = this.parseMaxFailures(request.maxFailures) ?? this.DEFAULT_MAX_FAILURES;
+    const amount = Money.parse(request.amount);
+
+    const requestHash = computeRequestHash({
+      fromWalletId: fromWalletId.toLowerCase(),
+      toWalletId: toWalletId.toLowerCase(),
+      amount: amount.toString(),
+      currency: request.currency ? normalizeCurrency(request.currency) : undefined,
+      runAt: timing.runAt ? timing.runAt.toISOString() : undefined,
+      cron: timing.cron ?? undefined,
+      maxFailures: request.maxFailures,
+    });
+
+    const existing = await this.findByIdempotencyKey(idempotencyKey, requestHash);
+    if (existing) {
+      return { schedule: this.toResponse(existing), created: false };
+    }
+
+    const fromWallet = await Wallet.findByPk(fromWalletId);
+    const toWallet = await Wallet.findByPk(toWalletId);
+
+    if (!fromWallet || !toWallet) {
+      throw new TransferError('One or both wallets not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    // Fail now rather than at the first run; each run checks again
+    WalletService.assertCanDebit(fromWallet);
+    WalletService.assertCanCredit(toWallet);
+
+    // FX quotes expire long before a schedule runs: same currency only
+    TransferService.assertTransferCurrency(
+      {
+        fromWalletId,
+        toWalletId,
+        amount: request.amount,
+        currency: request.currency,
+        idempotencyKey,
+      },
+      amount,
+      fromWallet,
+      toWallet,
+      null
+    );
+
+    try {
+      const schedule = await ScheduledTransfer.create({
+        fromWalletId: fromWallet.id,
+        toWalletId: toWallet.id,
+        amount: amount.toString(),
+        currency: fromWallet.currency,
+        runAt: timing.runAt,
+        cron: timing.cron,
+        nextRunAt: timing.nextRunAt,
+        maxFailures,
+        idempotencyKey,
+        requestHash,
+      });
+
+      return { schedule: this.toResponse(schedule), created: true };
+    } catch (error) {
+      if (!(error instanceof UniqueConstraintError)) {
+        throw error;
+      }
+
+      // Lost a race with a retry of the same request
+      const winner = await this.findByIdempotencyKey(idempotencyKey, requestHash);
+      if (winner) {
+        return { schedule: this.toResponse(winner), created: false };
+      }
+      throw error;
+    }
+  }
+
+  async get(scheduleId: string): Promise<ScheduledTransferResponse> {
+    this.assertId(scheduleId, 'INVALID_SCHEDULE_ID', 'Invalid scheduled transfer ID format');
+
+    const schedule = await ScheduledTransfer.findByPk(scheduleId);
+    if (!schedule) {
+      throw new TransferError('Scheduled transfer not found', 404, 'SCHEDULE_NOT_FOUND');
+    }
+
+    return this.toResponse(schedule);
+  }
+
+  /**
+   * Schedules paying out of walletId, oldest first
+   */
+  async listForWallet(walletId: string): Promise<ScheduledTransferResponse[]> {
+    this.assertId(walletId, 'INVALID_WALLET_ID', 'Invalid wallet ID format');
+
+    const schedules = await ScheduledTransfer.findAll({
+      where: { fromWalletId: walletId },
+      order: [['createdAt', 'ASC']],
+    });
+
+    return schedules.map((schedule) => this.toResponse(schedule));
+  }
+
+  /**
+   * Change amount, timing or maxFailures, or pause/resume
+   *
+   * New timing starts a fresh occurrence and clears the failure count.
+   * Resuming clears the failure count too; a recurring schedule whose
+   * occurrence went by while paused moves on to its next one.
+   */
+  async update(request: UpdateScheduledTransferRequest): Promise<ScheduledTransferResponse> {
+    const { scheduleId } = request;
+
+    this.assertId(scheduleId, 'INVALID_SCHEDULE_ID', 'Invalid scheduled transfer ID format');
+
+    if (request.runAt !== undefined && request.cron !== undefined) {
+      throw new TransferError('Set either runAt or cron, not both', 400, 'INVALID_SCHEDULE');
+    }
+
+    if (
+      request.status !== undefined &&
+      request.status !== ScheduledTransferStatus.ACTIVE &&
+      request.status !== ScheduledTransferStatus.PAUSED
+    ) {
+      throw new TransferError(
+        'status can only be set to ACTIVE or PAUSED',
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const maxFailures = this.parseMaxFailures(request.maxFailures);
+    const timing =
+      request.runAt !== undefined || request.cron !== undefined
+        ? this.parseTiming(request.runAt, request.cron)
+        : null;
+
+    return sequelize.transaction(
+      {
+        isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+      },
+      async (t: SequelizeTransaction) => {
+        // Waits for a scheduler run of this schedule to finish
+        const schedule = await this.lockSchedule(scheduleId, t);
+        this.assertOpen(schedule);
+
+        const now = new Date();
+        const changes: Partial<ScheduledTransfer> = {};
+
+        if (request.amount !== undefined) {
+          const amount = Money.parse(String(request.amount), getCurrencyScale(schedule.currency));
+          if (!amount.isPositive()) {
+            throw new TransferError('Amount must be a positive number', 400, 'INVALID_AMOUNT');
+          }
+          changes.amount = amount.toString();
+        }
+
+        if (maxFailures !== undefined) {
+          changes.maxFailures = maxFailures;
+        }
+
+        if (timing) {
+          Object.assign(changes, {
+            runAt: timing.runAt,
+            cron: timing.cron,
+            nextRunAt: timing.nextRunAt,
+            attempt: 0,
+            retryAt: null,
+            failureCount: 0,
+          });
+        }
+
+        if (request.status === ScheduledTransferStatus.PAUSED) {
+          changes.status = ScheduledTransferStatus.PAUSED;
+        }
+
+        if (
+          request.status === ScheduledTransferStatus.ACTIVE &&
+          schedule.status === ScheduledTransferStatus.PAUSED
+        ) {
+          Object.assign(changes, {
+            status: ScheduledTransferStatus.ACTIVE,
+            retryAt: null,
+            failureCount: 0,
+          });
+
+          const cron = timing ? timing.cron : schedule.cron;
+          const nextRunAt = timing ? timing.nextRunAt : schedule.nextRunAt;
+
+          if (cron && nextRunAt && nextRunAt.getTime() <= now.getTime()) {
+            changes.nextRunAt = nextOccurrence(parseCron(cron), now);
+            changes.attempt = 0;
+          }
+        }
+
+        await schedule.update(changes, { transaction: t });
+
+        return this.toResponse(schedule);
+      }
+    );
+  }
+
+  /**
+   * Stop the schedule for good (cancelling a CANCELLED schedule is a no-op)
+   */
+  async cancel(scheduleId: string): Promise<ScheduledTransferResponse> {
+    this.assertId(scheduleId, 'INVALID_SCHEDULE_ID', 'Invalid scheduled transfer ID format');
+
+    return sequelize.transaction(
+      {
+        isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+      },
+      async (t: SequelizeTransaction) => {
+        const schedule = await this.lockSchedule(scheduleId, t);
+
+        if (schedule.status !== ScheduledTransferStatus.CANCELLED) {
+          this.assertOpen(schedule);
+          await schedule.update(
+            {
+              status: ScheduledTransferStatus.CANCELLED,
+              nextRunAt: null,
+              retryAt: null,
+            },
+            { transaction: t }
+          );
+        }
+
+        return this.toResponse(schedule);
+      }
+    );
+  }
+
+  /**
+   * Pay every due occurrence (one sweep, at most BATCH_SIZE schedules)
+   */
+  async runDue(now: Date = new Date()): Promise<ScheduledTransferRunReport> {
+    const report: ScheduledTransferRunReport = {
+      scanned: 0,
+      succeeded: 0,
+      failed: 0,
+      paused: 0,
+      deferred: 0,
+    };
+
+    const dueSchedules = await ScheduledTransfer.findAll({
+      attributes: ['id'],
+      where: this.dueWhere(now),
+      order: [['nextRunAt', 'ASC']],
+      limit: this.BATCH_SIZE,
+    });
+
+    for (const due of dueSchedules) {
+      report.scanned++;
+
+      try {
+        const outcome = await this.runSchedule(due.id, now);
+        if (outcome) {
+          report[outcome]++;
+        }
+      } catch (error) {
+        logger.error('Failed to run scheduled transfer', { scheduleId: due.id, error });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Idempotency key of the schedule's current attempt
+   * First attempt: scheduled:<id>:<occurrence>; retries append :<attempt>
+   */
+  occurrenceKey(schedule: ScheduledTransfer): string {
+    const key = `scheduled:${schedule.id}:${(schedule.nextRunAt as Date).toISOString()}`;
+    return schedule.attempt > 0 ? `${key}:${schedule.attempt}` : key;
+  }
+
+  /**
+   * Run one due schedule under its row lock
+   * Returns null when another worker holds it or it is no longer due
+   */
+  private async runSchedule(
+    scheduleId: string,
+    now: Date
+  ): Promise<keyof Omit<ScheduledTransferRunReport, 'scanned'> | null> {
+    return sequelize.transaction(
+      {
+        isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+      },
+      async (t: SequelizeTransaction) => {
+        const schedule = await ScheduledTransfer.findOne({
+          where: { id: scheduleId, ...this.dueWhere(now) },
+          lock: t.LOCK.UPDATE,
+          skipLocked: true,
+          transaction: t,
+        });
+
+        if (!schedule) {
+          return null;
+        }
+
+        const outcome = await this.runAttempt(schedule);
+
+        if (outcome.kind === 'succeeded') {
+          await this.recordSuccess(schedule, outcome.transactionId, now, t);
+          return 'succeeded';
+        }
+
+        if (outcome.kind === 'deferred') {
+          logger.warn('Scheduled transfer deferred', {
+            scheduleId: schedule.id,
+            reason: outcome.message,
+          });
+          return 'deferred';
+        }
+
+        return this.recordFailure(schedule, outcome, now, t);
+      }
+    );
+  }
+
+  /**
+   * Execute the current attempt and classify its outcome
+   * The attempt's TransactionLog settles what a thrown error leaves unclear
+   */
+  private async runAttempt(schedule: ScheduledTransfer): Promise<RunOutcome> {
+    const idempotencyKey = this.occurrenceKey(schedule);
+
+    let response: TransferResponse | null = null;
+    let failure: unknown = null;
+
+    try {
+      response = await TransferService.executeTransfer({
+        fromWalletId: schedule.fromWalletId,
+        toWalletId: schedule.toWalletId,
+        amount: Money.parse(schedule.amount).toString(),
+        currency: schedule.currency,
+        idempotencyKey,
+      });
+    } catch (error) {
+      failure = error;
+    }
+
+    if (response?.success) {
+      return { kind: 'succeeded', transactionId: response.transactionId };
+    }
+
+    const log = await TransactionLog.findOne({ where: { idempotencyKey } });
+
+    if (log?.status === TransactionStatus.SUCCESS) {
+      return { kind: 'succeeded', transactionId: log.id };
+    }
+
+    if (log?.status === TransactionStatus.PENDING) {
+      return { kind: 'deferred', message: `transfer ${log.id} is still PENDING` };
+    }
+
+    if (failure instanceof TransferError) {
+      const code = failure.code || 'TRANSFER_FAILED';
+
+      if (!TRANSIENT_CODES.includes(code)) {
+        return {
+          kind: 'failed',
+          code,
+          message: failure.message,
+          retryable: RETRYABLE_CODES.includes(code),
+        };
+      }
+    }
+
+    // Replay of an attempt that failed before a crash: only the log says why
+    if (log?.status === TransactionStatus.FAILED) {
+      return {
+        kind: 'failed',
+        code: 'TRANSFER_FAILED',
+        message: log.errorMessage || 'Transfer failed',
+        retryable: true,
+      };
+    }
+
+    return {
+      kind: 'deferred',
+      message: failure instanceof Error ? failure.message : 'transfer outcome unknown',
+    };
+  }
+
+  private async recordSuccess(
+    schedule: ScheduledTransfer,
+    transactionId: string,
+    now: Date,
+    t: SequelizeTransaction
+  ): Promise<void> {
+    const recurring = schedule.cron !== null;
+
+    await schedule.update(
+      {
+        status: recurring ? ScheduledTransferStatus.ACTIVE : ScheduledTransferStatus.COMPLETED,
+        nextRunAt: recurring ? nextOccurrence(parseCron(schedule.cron as string), now) : null,
+        attempt: 0,
+        retryAt: null,
+        failureCount: 0,
+        lastRunAt: now,
+        lastTransactionId: transactionId,
+        lastErrorCode: null,
+        lastError: null,
+      },
+      { transaction: t }
+    );
+  }
+
+  private async recordFailure(
+    schedule: ScheduledTransfer,
+    outcome: Extract<RunOutcome, { kind: 'failed' }>,
+    now: Date,
+    t: SequelizeTransaction
+  ): Promise<'failed' | 'paused'> {
+    const failureCount = schedule.failureCount + 1;
+    const pause = !outcome.retryable || failureCount >= schedule.maxFailures;
+
+    await schedule.update(
+      {
+        status: pause ? ScheduledTransferStatus.PAUSED : ScheduledTransferStatus.ACTIVE,
+        // The failed attempt's key is spent; the next one gets a new key
+        attempt: schedule.attempt + 1,
+        retryAt: pause ? null : new Date(now.getTime() + this.backoffMs(failureCount)),
+        failureCount,
+        lastRunAt: now,
+        lastErrorCode: outcome.code,
+        lastError: outcome.message,
+      },
+      { transaction: t }
+    );
+
+    return pause ? 'paused' : 'failed';
+  }
+
+  /**
+   * RETRY_BASE_MS doubled per consecutive failure, capped at RETRY_MAX_MS
+   */
+  private backoffMs(failureCount: number): number {
+    return Math.min(this.RETRY_BASE_MS * 2 ** (failureCount - 1), this.RETRY_MAX_MS);
+  }
+
+  private dueWhere(now: Date): WhereOptions {
+    return {
+      status: ScheduledTransferStatus.ACTIVE,
+      nextRunAt: { [Op.lte]: now },
+      [Op.or]: [{ retryAt: null }, { retryAt: { [Op.lte]: now } }],
+    };
+  }
+
+  /**
+   * Validate timing; exactly one of runAt and cron
+   */
+  private parseTiming(
+    runAt: string | undefined,
+    cron: string | undefined
+  ): { runAt: Date | null; cron: string | null; nextRunAt: Date } {
+    if ((runAt === undefined) === (cron === undefined)) {
+      throw new TransferError(
+        'Exactly one of runAt and cron is required',
+        400,
+        'INVALID_SCHEDULE'
+      );
+    }
+
+    if (cron !== undefined) {
+      const expression = String(cron).trim().split(/\s+/).join(' ');
+      return {
+        runAt: null,
+        cron: expression,
+        nextRunAt: nextOccurrence(parseCron(expression), new Date()),
+      };
+    }
+
+    const date = new Date(String(runAt));
+    if (isNaN(date.getTime())) {
+      throw new TransferError('runAt must be an ISO 8601 date', 400, 'INVALID_SCHEDULE');
+    }
+
+    // A past runAt simply runs on the next scheduler sweep
+    return { runAt: date, cron: null, nextRunAt: date };
+  }
+
+  private parseMaxFailures(value: number | undefined): number | undefined {
+    if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+      throw new TransferError('maxFailures must be a positive integer', 400, 'INVALID_REQUEST');
+    }
+    return value;
+  }
+
+  private async lockSchedule(
+    scheduleId: string,
+    t: SequelizeTransaction
+  ): Promise<ScheduledTransfer> {
+    const schedule = await ScheduledTransfer.findByPk(scheduleId, {
+      lock: t.LOCK.UPDATE,
+      transaction: t,
+    });
+
+    if (!schedule) {
+      throw new TransferError('Scheduled transfer not found', 404, 'SCHEDULE_NOT_FOUND');
+    }
+
+    return schedule;
+  }
+
+  private assertOpen(schedule: ScheduledTransfer): void {
+    if (
+      schedule.status === ScheduledTransferStatus.COMPLETED ||
+      schedule.status === ScheduledTransferStatus.CANCELLED
+    ) {
+      throw new TransferError(
+        `Scheduled transfer is ${schedule.status} and can no longer be changed`,
+        409,
+        'INVALID_STATUS_TRANSITION'
+      );
+    }
+  }
+
+  private assertId(id: string, code: string, message: string): void {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      throw new TransferError(message, 400, code);
+    }
+  }
+
+  private async findByIdempotencyKey(
+    idempotencyKey: string,
+    requestHash: string
+  ): Promise<ScheduledTransfer | null> {
+    const schedule = await ScheduledTransfer.findOne({ where: { idempotencyKey } });
+
+    if (schedule) {
+      IdempotencyService.assertSameRequest(schedule.requestHash, requestHash);
+    }
+
+    return schedule;
+  }
+
+  private toResponse(schedule: ScheduledTransfer): ScheduledTransferResponse {
+    const iso = (date: Date | null) => (date ? date.toISOString() : null);
+
+    return {
+      id: schedule.id,
+      fromWalletId: schedule.fromWalletId,
+      toWalletId: schedule.toWalletId,
+      amount: Money.parse(schedule.amount).toString(),
+      currency: schedule.currency,
+      runAt: iso(schedule.runAt ?? null),
+      cron: schedule.cron ?? null,
+      status: schedule.status,
+      nextRunAt: iso(schedule.nextRunAt ?? null),
+      retryAt: iso(schedule.retryAt ?? null),
+      failureCount: schedule.failureCount,
+      maxFailures: schedule.maxFailures,
+      lastRunAt: iso(schedule.lastRunAt ?? null),
+      lastTransactionId: schedule.lastTransactionId ?? null,
+      lastErrorCode: schedule.lastErrorCode ?? null,
+      lastError: schedule.lastError ?? null,
+      createdAt: schedule.createdAt.toISOString(),
+      updatedAt: schedule.updatedAt.toISOString(),
+    };
+  }
+}
+
+export default new ScheduledTransferService();
@@ -0,0 +1,236 @@
+import { Op, WhereOptions } from 'sequelize';
+import { Wallet, TransactionLog } from '../models';
+import {
+  StatementFormat,
+  StatementHeader,
+  StatementRequest,
+  StatementSummary,
+  TransactionStatus,
+  TransferError,
+} from '../types';
+import { Money } from '../utils/money';
+import { StatementWriter } from '../utils/statement';
+import TransactionHistoryService from './TransactionHistoryService';
+
+/**
+ * StatementService exports a wallet's statement for a period
+ *
+ * Lines are the wallet's SUCCESS TransactionLogs applied in [from, to), in
+ * (appliedAt, id) order: the order the balance changes were made, which
+ * for concurrent transfers need not be their creation order. The running
+ * balance of each line is the
+ * balance-after stored in its metadata (fromBalanceAfter/toBalanceAfter);
+ * logs resolved by stale PENDING recovery have none and carry the previous
+ * balance forward instead. The opening balance is the wallet's balance
+ * just before the period (TransactionHistoryService.balanceAt).
+ *
+ * Logs are read in keyset batches of BATCH_SIZE and written as they are
+ * read, so a long period is never held in memory. Statements are meant for
+ * closed periods: a transfer still committing when the export passes its
+ * apply time is not on it.
+ */
+// Keyset position of the last line written
+interface StatementCursor {
+  appliedAt: Date;
+  id: string;
+}
+
+class StatementService {
+  private readonly BATCH_SIZE = parseInt(process.env.STATEMENT_BATCH_SIZE || '500');
+
+  /**
+   * Validate the request and compute the opening balance
+   * Nothing is written yet, so errors can still become a JSON response
+   */
+  async open(
+    request: StatementRequest
+  ): Promise<{ header: StatementHeader; format: StatementFormat }> {
+    const { walletId } = request;
+    const format = request.format || StatementFormat.JSON;
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!walletId || !uuidRegex.test(walletId)) {
+      throw new TransferError('Invalid wallet ID format', 400, 'INVALID_WALLET_ID');
+    }
+
+    if (!Object.values(StatementFormat).includes(format)) {
+      throw new TransferError(
+        `format must be one of: ${Object.values(StatementFormat).join(', ')}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const from = this.parseDate(request.from, 'from');
+    const to = this.parseDate(request.to, 'to');
+    if (from >= to) {
+      throw new TransferError('from must be before to', 400, 'INVALID_REQUEST');
+    }
+
+    const wallet = await Wallet.findByPk(walletId);
+    if (!wallet) {
+      throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    // Balance at the last instant before the period
+    const opening = await TransactionHistoryService.balanceAt(
+      wallet,
+      new Date(from.getTime() - 1)
+    );
+
+    return {
+      format,
+      header: {
+        walletId,
+        userId: wallet.userId,
+        currency: wallet.currency,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        generatedAt: new Date().toISOString(),
+        openingBalance: opening.balance.toString(),
+      },
+    };
+  }
+
+  /**
+   * Render the statement, awaiting `write` for every chunk
+   */
+  async stream(
+    header: StatementHeader,
+    format: StatementFormat,
+    write: (chunk: string) => Promise<void>
+  ): Promise<StatementSummary> {
+    const writer = new StatementWriter(format);
+    const from = new Date(header.from);
+    const to = new Date(header.to);
+
+    let balance = Money.parse(header.openingBalance);
+    let credits = Money.ZERO;
+    let debits = Money.ZERO;
+    let transactionCount = 0;
+    let cursor: StatementCursor | null = null;
+
+    await write(writer.begin(header));
+
+    for (;;) {
+      const logs = await this.nextBatch(header.walletId, from, to, cursor);
+
+      for (const log of logs) {
+        const debit = log.fromWalletId === header.walletId;
+        const amount = debit
+          ? Money.parse(log.amount).negate()
+          : Money.parse(log.toAmount ?? log.amount);
+        const metadata = (log.metadata || {}) as Record<string, string | undefined>;
+        const balanceAfter = debit ? metadata.fromBalanceAfter : metadata.toBalanceAfter;
+
+        balance = balanceAfter !== undefined ? Money.parse(balanceAfter) : balance.plus(amount);
+
+        if (debit) {
+          debits = debits.plus(amount.negate());
+        } else {
+          credits = credits.plus(amount);
+        }
+        transactionCount++;
+
+        await write(
+          writer.line({
+            date: (log.appliedAt as Date).toISOString(),
+            transactionId: log.id,
+            type: log.type,
+            counterpartyWalletId: debit ? log.toWalletId : log.fromWalletId,
+            externalReference: log.externalReference,
+            amount: amount.toString(),
+            balance: balance.toString(),
+          })
+        );
+      }
+
+      if (logs.length < this.BATCH_SIZE) {
+        break;
+      }
+
+      // appliedAt is stored to the millisecond (see LedgerService.post), so
+      // the loaded value is exact and the keyset resumes past `last`
+      const last = logs[logs.length - 1];
+      cursor = { appliedAt: last.appliedAt as Date, id: last.id };
+    }
+
+    const summary: StatementSummary = {
+      transactionCount,
+      totalCredits: credits.toString(),
+      totalDebits: debits.toString(),
+      closingBalance: balance.toString(),
+    };
+
+    await write(writer.end(summary));
+
+    return summary;
+  }
+
+  /**
+   * The next BATCH_SIZE logs after the cursor, oldest first
+   * Each side walks its own (wallet, appliedAt, id) index; see
+   * TransactionHistoryService
+   */
+  private async nextBatch(
+    walletId: string,
+    from: Date,
+    to: Date,
+    cursor: StatementCursor | null
+  ): Promise<TransactionLog[]> {
+    const sides = await Promise.all(
+      [{ fromWalletId: walletId }, { toWalletId: walletId }].map((side) => {
+        const conditions: WhereOptions[] = [
+          side,
+          { status: TransactionStatus.SUCCESS },
+          { appliedAt: { [Op.gte]: from, [Op.lt]: to } },
+        ];
+
+        if (cursor) {
+          conditions.push({
+            appliedAt: { [Op.gte]: cursor.appliedAt },
+            [Op.or]: [
+              { appliedAt: { [Op.gt]: cursor.appliedAt } },
+              { id: { [Op.gt]: cursor.id } },
+            ],
+          });
+        }
+
+        return TransactionLog.findAll({
+          where: { [Op.and]: conditions },
+          order: [
+            ['appliedAt', 'ASC'],
+            ['id', 'ASC'],
+          ],
+          limit: this.BATCH_SIZE,
+        });
+      })
+    );
+
+    return sides
+      .flat()
+      .sort((a, b) => this.compare(a, b))
+      .slice(0, this.BATCH_SIZE);
+  }
+
+  // (appliedAt, id) order; every SUCCESS log has appliedAt
+  private compare(a: TransactionLog, b: TransactionLog): number {
+    return (
+      (a.appliedAt as Date).getTime() - (b.appliedAt as Date).getTime() ||
+      (a.id < b.id ? -1 : 1)
+    );
+  }
+
+  private parseDate(value: string | undefined, field: string): Date {
+    const date = new Date(value as string);
+
+    if (!value || Number.isNaN(date.getTime())) {
+      throw new TransferError(`${field} must be an ISO 8601 date`, 400, 'INVALID_REQUEST');
+    }
+
+    return date;
+  }
+}
+
+export default new StatementService();
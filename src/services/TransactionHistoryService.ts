@@ -0,0 +1,356 @@
+import { Op, QueryTypes, WhereOptions, col, fn, where } from 'sequelize';
+import sequelize from '../config/database';
+import { Wallet, TransactionLog } from '../models';
+import {
+  HistoricalBalance,
+  TransactionDirection,
+  TransactionHistoryEntry,
+  TransactionHistoryPage,
+  TransactionHistoryQuery,
+  TransactionStatus,
+  TransferError,
+} from '../types';
+import { HistoryCursor, decodeCursor, encodeCursor } from '../utils/cursor';
+import { Money } from '../utils/money';
+import LedgerService from './LedgerService';
+
+interface HistoryFilters {
+  cursor: HistoryCursor | null;
+  statuses: TransactionStatus[] | null;
+  from: Date | null;
+  to: Date | null;
+  minAmount: Money | null;
+  maxAmount: Money | null;
+}
+
+/**
+ * TransactionHistoryService pages through a wallet's transaction logs
+ *
+ * Newest first, keyset-paginated on (createdAt, id). Sent and received
+ * logs are read by two queries, each walking its own
+ * (fromWalletId|toWalletId, createdAt, id) index from the cursor down and
+ * stopping after one page, then merged. A single OR query would have to
+ * sort every matching log of the wallet before applying the limit.
+ *
+ * Point-in-time balances go by (appliedAt, id) instead: the balance at T
+ * is the balance-after recorded on the wallet's latest SUCCESS log applied
+ * at or before T, which also makes it the closing balance of a statement
+ * ending at T. createdAt would not do: it is set before the wallet row
+ * locks are taken, so concurrent transfers can apply in another order.
+ */
+class TransactionHistoryService {
+  private readonly DEFAULT_PAGE_SIZE = parseInt(process.env.HISTORY_PAGE_SIZE || '50');
+  private readonly MAX_PAGE_SIZE = parseInt(process.env.HISTORY_MAX_PAGE_SIZE || '200');
+
+  async getHistory(query: TransactionHistoryQuery): Promise<TransactionHistoryPage> {
+    const { walletId } = query;
+    const limit = query.limit ?? this.DEFAULT_PAGE_SIZE;
+    const filters = this.parseFilters(query, limit);
+
+    const wallet = await Wallet.findByPk(walletId);
+    if (!wallet) {
+      throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    const directions = query.direction
+      ? [query.direction]
+      : [TransactionDirection.SENT, TransactionDirection.RECEIVED];
+
+    // One extra row tells whether another page follows
+    const sides = await Promise.all(
+      directions.map((direction) => this.findSide(walletId, direction, filters, limit + 1))
+    );
+
+    const logs = sides.flat().sort((a, b) => this.compare(b, a));
+
+    const page = logs.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return {
+      walletId,
+      transactions: page.map((log) => this.toEntry(log, walletId)),
+      nextCursor:
+        logs.length > limit ? encodeCursor({ createdAt: last.createdAt, id: last.id }) : null,
+    };
+  }
+
+  /**
+   * The wallet's balance at `asOf` (ISO 8601, not in the future)
+   */
+  async getBalanceAsOf(walletId: string, asOf: string): Promise<HistoricalBalance> {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!walletId || !uuidRegex.test(walletId)) {
+      throw new TransferError('Invalid wallet ID format', 400, 'INVALID_WALLET_ID');
+    }
+
+    const date = this.parseDate(asOf, 'asOf') as Date;
+    if (date.getTime() > Date.now()) {
+      throw new TransferError('asOf cannot be in the future', 400, 'INVALID_REQUEST');
+    }
+
+    const wallet = await Wallet.findByPk(walletId);
+    if (!wallet) {
+      throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    const result = await this.balanceAt(wallet, date);
+
+    return {
+      walletId,
+      currency: wallet.currency,
+      asOf: date.toISOString(),
+      balance: result.balance.toString(),
+      anchorTransactionId: result.anchor?.id ?? null,
+      anchoredAt: result.anchor?.appliedAt?.toISOString() ?? null,
+      replayedTransactions: result.replayedTransactions,
+    };
+  }
+
+  /**
+   * Balance at `asOf`: the latest SUCCESS log applied at or before it that
+   * recorded the wallet's balance-after, plus any SUCCESS logs after that
+   * one which did not (stale PENDING recovery records none). Without such a log the
+   * balance is replayed from the wallet's opening balance.
+   * Zero before the wallet existed.
+   */
+  async balanceAt(
+    wallet: Wallet,
+    asOf: Date
+  ): Promise<{ balance: Money; anchor: TransactionLog | null; replayedTransactions: number }> {
+    if (asOf < wallet.createdAt) {
+      return { balance: Money.ZERO, anchor: null, replayedTransactions: 0 };
+    }
+
+    const [sent, received] = await Promise.all(
+      (
+        [
+          ['fromWalletId', 'fromBalanceAfter'],
+          ['toWalletId', 'toBalanceAfter'],
+        ] as const
+      ).map(([column, key]) =>
+        TransactionLog.findOne({
+          where: {
+            [column]: wallet.id,
+            status: TransactionStatus.SUCCESS,
+            appliedAt: { [Op.lte]: asOf },
+            [`metadata.${key}`]: { [Op.ne]: null },
+          },
+          order: [
+            ['appliedAt', 'DESC'],
+            ['id', 'DESC'],
+          ],
+        })
+      )
+    );
+
+    const anchor =
+      sent && received
+        ? this.compareApplied(sent, received) > 0
+          ? sent
+          : received
+        : sent || received;
+
+    const start = anchor
+      ? Money.parse(
+          (anchor.metadata as Record<string, string>)[
+            anchor.fromWalletId === wallet.id ? 'fromBalanceAfter' : 'toBalanceAfter'
+          ]
+        )
+      : Money.parse(await LedgerService.getOpeningBalance(wallet.id));
+
+    // Exact NUMERIC sum of what came after the anchor, as in reconciliation
+    const [replay] = await sequelize.query<{ net: string; replayed: string }>(
+      `SELECT COALESCE(SUM(CASE WHEN "toWalletId" = :walletId
+                                THEN COALESCE("toAmount", amount)
+                                ELSE -amount END), 0) AS net,
+              COUNT(*) AS replayed
+       FROM transaction_logs
+       WHERE ("fromWalletId" = :walletId OR "toWalletId" = :walletId)
+         AND status = :status
+         AND "appliedAt" <= :asOf
+         ${anchor ? 'AND ("appliedAt", id) > (:anchorAppliedAt, :anchorId)' : ''}`,
+      {
+        replacements: {
+          walletId: wallet.id,
+          status: TransactionStatus.SUCCESS,
+          asOf,
+          anchorAppliedAt: anchor?.appliedAt ?? null,
+          anchorId: anchor?.id ?? null,
+        },
+        type: QueryTypes.SELECT,
+      }
+    );
+
+    return {
+      balance: start.plus(Money.parse(replay?.net ?? 0)),
+      anchor,
+      replayedTransactions: parseInt(replay?.replayed ?? '0'),
+    };
+  }
+
+  // (createdAt, id) order
+  private compare(a: TransactionLog, b: TransactionLog): number {
+    return a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : 1);
+  }
+
+  // (appliedAt, id) order, for SUCCESS logs (which all have appliedAt)
+  private compareApplied(a: TransactionLog, b: TransactionLog): number {
+    return (
+      (a.appliedAt as Date).getTime() - (b.appliedAt as Date).getTime() ||
+      (a.id < b.id ? -1 : 1)
+    );
+  }
+
+  private async findSide(
+    walletId: string,
+    direction: TransactionDirection,
+    filters: HistoryFilters,
+    limit: number
+  ): Promise<TransactionLog[]> {
+    const sent = direction === TransactionDirection.SENT;
+    const conditions: WhereOptions[] = [sent ? { fromWalletId: walletId } : { toWalletId: walletId }];
+
+    if (filters.cursor) {
+      // (createdAt, id) < cursor; the createdAt bound keeps it an index range scan
+      const { createdAt, id } = filters.cursor;
+      conditions.push({
+        createdAt: { [Op.lte]: createdAt },
+        [Op.or]: [{ createdAt: { [Op.lt]: createdAt } }, { id: { [Op.lt]: id } }],
+      });
+    }
+
+    if (filters.statuses) {
+      conditions.push({ status: { [Op.in]: filters.statuses } });
+    }
+
+    if (filters.from) {
+      conditions.push({ createdAt: { [Op.gte]: filters.from } });
+    }
+
+    if (filters.to) {
+      conditions.push({ createdAt: { [Op.lt]: filters.to } });
+    }
+
+    // Credits of cross-currency transfers land in the wallet as toAmount
+    const walletAmount = sent ? col('amount') : fn('COALESCE', col('toAmount'), col('amount'));
+
+    if (filters.minAmount) {
+      conditions.push(where(walletAmount, { [Op.gte]: filters.minAmount.toString() }));
+    }
+
+    if (filters.maxAmount) {
+      conditions.push(where(walletAmount, { [Op.lte]: filters.maxAmount.toString() }));
+    }
+
+    return TransactionLog.findAll({
+      where: { [Op.and]: conditions },
+      order: [
+        ['createdAt', 'DESC'],
+        ['id', 'DESC'],
+      ],
+      limit,
+    });
+  }
+
+  private toEntry(log: TransactionLog, walletId: string): TransactionHistoryEntry {
+    const sent = log.fromWalletId === walletId;
+
+    return {
+      id: log.id,
+      type: log.type,
+      status: log.status,
+      direction: sent ? TransactionDirection.SENT : TransactionDirection.RECEIVED,
+      signedAmount: sent
+        ? Money.parse(log.amount).negate().toString()
+        : Money.parse(log.toAmount ?? log.amount).toString(),
+      counterpartyWalletId: sent ? log.toWalletId : log.fromWalletId,
+      fromWalletId: log.fromWalletId,
+      toWalletId: log.toWalletId,
+      externalReference: log.externalReference,
+      amount: Money.parse(log.amount).toString(),
+      currency: log.currency,
+      toAmount: log.toAmount ? Money.parse(log.toAmount).toString() : null,
+      toCurrency: log.toCurrency,
+      batchId: log.batchId,
+      reversalOfId: log.reversalOfId,
+      idempotencyKey: log.idempotencyKey,
+      errorMessage: log.errorMessage,
+      metadata: log.metadata,
+      createdAt: log.createdAt.toISOString(),
+      updatedAt: log.updatedAt.toISOString(),
+    };
+  }
+
+  private parseFilters(query: TransactionHistoryQuery, limit: number): HistoryFilters {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!query.walletId || !uuidRegex.test(query.walletId)) {
+      throw new TransferError('Invalid wallet ID format', 400, 'INVALID_WALLET_ID');
+    }
+
+    if (!(Number.isInteger(limit) && limit > 0 && limit <= this.MAX_PAGE_SIZE)) {
+      throw new TransferError(
+        `limit must be an integer between 1 and ${this.MAX_PAGE_SIZE}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    if (query.direction && !Object.values(TransactionDirection).includes(query.direction)) {
+      throw new TransferError(
+        `direction must be one of: ${Object.values(TransactionDirection).join(', ')}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const statuses = query.statuses && query.statuses.length > 0 ? query.statuses : null;
+    if (statuses && statuses.some((status) => !Object.values(TransactionStatus).includes(status))) {
+      throw new TransferError(
+        `status must be one of: ${Object.values(TransactionStatus).join(', ')}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const from = this.parseDate(query.from, 'from');
+    const to = this.parseDate(query.to, 'to');
+    if (from && to && from >= to) {
+      throw new TransferError('from must be before to', 400, 'INVALID_REQUEST');
+    }
+
+    const minAmount = query.minAmount !== undefined ? Money.parse(query.minAmount) : null;
+    const maxAmount = query.maxAmount !== undefined ? Money.parse(query.maxAmount) : null;
+    if ((minAmount && minAmount.isNegative()) || (maxAmount && maxAmount.isNegative())) {
+      throw new TransferError('Amount filters cannot be negative', 400, 'INVALID_AMOUNT');
+    }
+    if (minAmount && maxAmount && minAmount.greaterThan(maxAmount)) {
+      throw new TransferError('minAmount cannot exceed maxAmount', 400, 'INVALID_AMOUNT');
+    }
+
+    return {
+      cursor: query.cursor ? decodeCursor(query.cursor) : null,
+      statuses,
+      from,
+      to,
+      minAmount,
+      maxAmount,
+    };
+  }
+
+  private parseDate(value: string | undefined, field: string): Date | null {
+    if (value === undefined) {
+      return null;
+    }
+
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new TransferError(`${field} must be an ISO 8601 date`, 400, 'INVALID_REQUEST');
+    }
+
+    return date;
+  }
+}
+
+export default new TransactionHistoryService();
@@ -1,101 +1,123 @@
-import { Transaction as SequelizeTransaction, Op } from 'sequelize';
+import { Transaction as SequelizeTransaction } from 'sequelize';
 import sequelize from '../config/database';
-import { Wallet, TransactionLog } from '../models';
-import { TransactionStatus, TransferRequest, TransferResponse, TransferError } from '../types';
-import RedisService from './RedisService';
+import { Wallet, TransactionLog, FxQuote } from '../models';
+import {
+  LockHandle,
+  TransactionLogMetadata,
+  TransactionStatus,
+  TransactionType,
+  TransferRequest,
+  TransferResponse,
+  TransferError,
+  TransferFxDetails,
+  WalletBalance,
+} from '../types';
+import { getCurrencyScale, normalizeCurrency } from '../config/currencies';
+import IdempotencyService from './IdempotencyService';
+import LedgerService from './LedgerService';
+import FxQuoteService from './FxQuoteService';
+import WalletService from './WalletService';
+import WalletLimitService from './WalletLimitService';
+import MetricsService from './MetricsService';
+import logger from '../config/logger';
+import tracer from '../config/tracing';
+import { formatRate, parseRate } from '../utils/fxRate';
+import { computeRequestHash } from '../utils/requestHash';
+import { Money } from '../utils/money';
+import { addLogContext, runWithLogContext } from '../utils/logger';
 
 /**
- * TransferService with Redis Integration
+ * TransferService executes wallet-to-wallet transfers
  * 
- * EXECUTION FLOW WITH REDIS:
+ * Idempotency (Redis cache, distributed lock, PostgreSQL lookup, fencing)
+ * is handled by IdempotencyService. This service owns the transfer itself:
  * 
- * 1. CHECK REDIS CACHE (0.1ms)
- *    - If hit: Return cached result immediately
- *    - If miss: Continue to step 2
+ * 1. VALIDATE WALLETS EXIST BEFORE CREATING LOG
+ *    - Both wallets must share the transfer currency (CURRENCY_MISMATCH),
+ *      unless an FX quote (quoteId) locks the converted amount
  * 
- * 2. ACQUIRE REDIS LOCK (prevents duplicate processing)
- *    - If acquired: Continue to step 3
- *    - If locked: Retry or check database
+ * 2. CREATE PENDING LOG
  * 
- * 3. CHECK POSTGRESQL (10-50ms)
- *    - If exists: Return result and cache in Redis
- *    - If not exists: Continue to step 4
- * 
- * 4. EXECUTE TRANSFER (database transaction)
- *    - Create PENDING log
- *    - Lock wallets
+ * 3. EXECUTE TRANSFER (database transaction)
+ *    - Lock wallets in consistent order
+ *    - Refuse debits from FROZEN/CLOSED and credits to CLOSED wallets
+ *    - Debit at most the available balance (balance less held funds)
+ *    - Enforce the source wallet's spending limits (LIMIT_EXCEEDED)
+ *    - Consume the FX quote, if any (rejects expired/used quotes)
  *    - Update balances
- *    - Mark SUCCESS/FAILED
+ *    - Post balanced ledger entries
+ *    - Mark SUCCESS (fenced) or FAILED
  * 
- * 5. CACHE RESULT IN REDIS
+ * 4. CACHE RESULT IN REDIS
  *    - Store for 24 hours
  *    - Future requests skip database entirely
- * 
- * 6. RELEASE REDIS LOCK
  */
 class TransferService {
-  async executeTransfer(request: TransferRequest): Promise<TransferResponse> {
-    const { fromWalletId, toWalletId, amount, idempotencyKey } = request;
-
-    // Input validation
-    this.validateTransferRequest(request);
-
-    // ============================================================
-    // STEP 1: CHECK REDIS CACHE FIRST (FAST PATH)
-    // ============================================================
-    const cachedResult = await RedisService.getCachedResult(idempotencyKey);
-    if (cachedResult) {
-      console.log(`[REDIS HIT] Idempotency key: ${idempotencyKey}`);
-      return {
-        ...cachedResult,
-        message: 'Transfer already processed (idempotent request) (from cache)',
-      };
-    }
-
-    // ============================================================
-    // STEP 2: ACQUIRE DISTRIBUTED LOCK
-    // ============================================================
-    // Prevents multiple app instances from processing same request
-    const lockAcquired = await RedisService.acquireLockWithRetry(idempotencyKey);
-    
-    if (!lockAcquired) {
-      // Could not acquire lock - another instance is processing
-      // Check database for result (might be complete by now)
-      const existingTransaction = await TransactionLog.findOne({
-        where: { idempotencyKey },
-      });
-
-      if (existingTransaction) {
-        const result = this.buildResponseFromLog(existingTransaction);
-        // Cache for future requests
-        await RedisService.cacheResult(idempotencyKey, result);
-        return result;
-      }
+  /**
+   * batchId links the transfer's log to a best-effort batch it is a leg of
+   */
+  async executeTransfer(
+    request: TransferRequest,
+    batchId: string | null = null
+  ): Promise<TransferResponse> {
+    // Every log line of this transfer carries its key and wallets; a
+    // context of its own, so the legs of a batch don't mix
+    const context = {
+      idempotencyKey: request.idempotencyKey,
+      walletIds: [request.fromWalletId, request.toWalletId].filter(Boolean),
+    };
 
-      throw new TransferError(
-        'Request is being processed by another instance. Please retry.',
-        409,
-        'CONCURRENT_PROCESSING'
-      );
-    }
+    // Parent of the step spans (cache check, lock, DB lookup, row locks, ...)
+    const attributes = {
+      'transfer.idempotency_key': request.idempotencyKey,
+      'transfer.from_wallet_id': request.fromWalletId,
+      'transfer.to_wallet_id': request.toWalletId,
+      'transfer.batch_id': batchId ?? undefined,
+    };
 
-    // ============================================================
-    // STEP 3: CHECK POSTGRESQL (REDIS MISS)
-    // ============================================================
-    const existingTransaction = await TransactionLog.findOne({
-      where: { idempotencyKey },
-    });
+    // Latency and outcome (by error code) of every transfer
+    return runWithLogContext(context, () =>
+      tracer.startActiveSpan('transfer', { attributes }, () =>
+        MetricsService.observeTransfer(async () => {
+          // Input validation
+          this.validateTransferRequest(request);
+
+          // Exact decimal amount
+          const transferAmount = Money.parse(request.amount);
+
+          // Fingerprint of the request body bound to this idempotency key
+          const requestHash = this.computeTransferHash(request);
+
+          return IdempotencyService.execute({
+            idempotencyKey: request.idempotencyKey,
+            requestHash,
+            replay: (log) => this.buildResponseFromLog(log),
+            process: (lock) =>
+              this.processTransfer(request, transferAmount, requestHash, lock, batchId),
+            cachedMessage: 'Transfer already processed (idempotent request) (from cache)',
+          });
+        })
+      )
+    );
+  }
 
-    if (existingTransaction) {
-      // Found in database but not in cache
-      // Cache it for next time
-      const result = this.buildResponseFromLog(existingTransaction);
-      await RedisService.cacheResult(idempotencyKey, result);
-      return result;
-    }
+  /**
+   * Run the transfer, while holding the distributed lock for the key
+   */
+  private async processTransfer(
+    request: TransferRequest,
+    transferAmount: Money,
+    requestHash: string,
+    lock: LockHandle,
+    batchId: string | null
+  ): Promise<TransferResponse> {
+    const { fromWalletId, toWalletId, idempotencyKey } = request;
+
+    // Canonical 4-decimal string for storage
+    const amount = transferAmount.toString();
 
     // ============================================================
-    // STEP 4: VALIDATE WALLETS EXIST BEFORE CREATING LOG
+    // STEP 1: VALIDATE WALLETS EXIST BEFORE CREATING LOG
     // ============================================================
     const fromWallet = await Wallet.findByPk(fromWalletId);
     const toWallet = await Wallet.findByPk(toWalletId);
@@ -104,131 +126,134 @@ class TransferService {
       throw new TransferError('One or both wallets not found', 404, 'WALLET_NOT_FOUND');
     }
 
+    const currency = fromWallet.currency;
+    const quote = request.quoteId ? await FxQuoteService.getQuote(request.quoteId) : null;
+
+    this.assertTransferCurrency(request, transferAmount, fromWallet, toWallet, quote);
+
+    // What the destination wallet receives, in its own currency
+    const creditAmount = quote ? Money.parse(quote.convertedAmount) : transferAmount;
+
     // ============================================================
-    // STEP 5: CREATE PENDING LOG (NOW THAT WE KNOW WALLETS EXIST)
+    // STEP 2: CREATE PENDING LOG (NOW THAT WE KNOW WALLETS EXIST)
     // This ensures a FAILED log is created even if transaction rolls back
     // ============================================================
-    let transactionLog = await TransactionLog.create({
+    const transactionLog = await TransactionLog.create({
+      type: TransactionType.TRANSFER,
       fromWalletId,
       toWalletId,
       amount,
+      currency,
+      toAmount: quote ? creditAmount.toString() : null,
+      toCurrency: quote ? quote.toCurrency : null,
+      fxQuoteId: quote ? quote.id : null,
+      batchId,
       status: TransactionStatus.PENDING,
       idempotencyKey,
+      requestHash,
+      fencingToken: lock.fencingToken,
       metadata: {
         requestedAt: new Date().toISOString(),
+        ...(quote && { fxRate: formatRate(parseRate(quote.rate)) }),
       },
     });
 
+    addLogContext({ transactionId: transactionLog.id });
+    tracer.getActiveSpan()?.setAttribute('transaction.id', transactionLog.id);
+
     try {
       // ============================================================
-      // STEP 5: EXECUTE TRANSFER WITHIN TRANSACTION
+      // STEP 3: EXECUTE TRANSFER WITHIN TRANSACTION
       // ============================================================
-      const result = await sequelize.transaction(
-        {
-          isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
-        },
-        async (t: SequelizeTransaction) => {
-          // Lock wallet rows in consistent order
-          const [firstLockId, secondLockId] =
-            fromWalletId < toWalletId
-              ? [fromWalletId, toWalletId]
-              : [toWalletId, fromWalletId];
-
-          const firstWallet = await Wallet.findByPk(firstLockId, {
-            lock: t.LOCK.UPDATE,
-            transaction: t,
-          });
-
-          const secondWallet = await Wallet.findByPk(secondLockId, {
-            lock: t.LOCK.UPDATE,
-            transaction: t,
-          });
-
-          const fromWallet = fromWalletId === firstLockId ? firstWallet : secondWallet;
-          const toWallet = toWalletId === firstLockId ? firstWallet : secondWallet;
-
-          if (!fromWallet || !toWallet) {
-            throw new TransferError('One or both wallets not found', 404, 'WALLET_NOT_FOUND');
-          }
-
-          // Validate sufficient balance
-          const fromBalanceNum = parseFloat(fromWallet.balance);
-          const amountNum = parseFloat(amount);
-
-          if (fromBalanceNum < amountNum) {
-            throw new TransferError(
-              `Insufficient balance. Available: ${fromWallet.balance}, Required: ${amount}`,
-              400,
-              'INSUFFICIENT_BALANCE'
+      const result = await MetricsService.observeDbTransaction('transfer', () =>
+        sequelize.transaction(
+          {
+            isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+          },
+          async (t: SequelizeTransaction) => {
+            // Lock wallet rows in consistent order
+            const [firstLockId, secondLockId] =
+              fromWalletId < toWalletId
+                ? [fromWalletId, toWalletId]
+                : [toWalletId, fromWalletId];
+
+            const [firstWallet, secondWallet] = await tracer.startActiveSpan(
+              'transfer.lock_rows',
+              {},
+              async () => [
+                await Wallet.findByPk(firstLockId, { lock: t.LOCK.UPDATE, transaction: t }),
+                await Wallet.findByPk(secondLockId, { lock: t.LOCK.UPDATE, transaction: t }),
+              ]
             );
-          }
 
-          // Update balances
-          const newFromBalance = (fromBalanceNum - amountNum).toFixed(4);
-          const toBalanceNum = parseFloat(toWallet.balance);
-          const newToBalance = (toBalanceNum + amountNum).toFixed(4);
+            const fromWallet = fromWalletId === firstLockId ? firstWallet : secondWallet;
+            const toWallet = toWalletId === firstLockId ? firstWallet : secondWallet;
 
-          await fromWallet.update(
-            {
-              balance: newFromBalance,
-              version: fromWallet.version + 1,
-            },
-            { transaction: t }
-          );
+            if (!fromWallet || !toWallet) {
+              throw new TransferError('One or both wallets not found', 404, 'WALLET_NOT_FOUND');
+            }
 
-          await toWallet.update(
-            {
-              balance: newToBalance,
-              version: toWallet.version + 1,
-            },
-            { transaction: t }
-          );
+            // Quote is consumed only if this transaction commits
+            if (quote) {
+              await FxQuoteService.consumeQuote(quote.id, transactionLog.id, t);
+            }
 
-          // Mark transaction SUCCESS
-          await TransactionLog.update(
-            {
-              status: TransactionStatus.SUCCESS,
-              metadata: {
-                ...transactionLog.metadata,
-                completedAt: new Date().toISOString(),
+            const { fromBalance: newFromBalance, toBalance: newToBalance } =
+              await tracer.startActiveSpan('transfer.update_balances', {}, () =>
+                this.applyTransfer(
+                  transactionLog.id,
+                  fromWallet,
+                  toWallet,
+                  transferAmount,
+                  creditAmount,
+                  t
+                )
+              );
+
+            // Mark transaction SUCCESS (rolls back with LOCK_LOST if fenced off)
+            await IdempotencyService.completeLog(
+              transactionLog,
+              lock,
+              {
                 fromBalanceAfter: newFromBalance,
                 toBalanceAfter: newToBalance,
               },
-            },
-            {
-              where: { id: transactionLog.id },
-              transaction: t,
-            }
-          );
-
-          return {
-            transactionLog,
-            fromBalance: newFromBalance,
-            toBalance: newToBalance,
-          };
-        }
+              t
+            );
+
+            return {
+              transactionLog,
+              fromBalance: newFromBalance,
+              toBalance: newToBalance,
+            };
+          }
+        )
       );
 
       // ============================================================
-      // STEP 6: CACHE RESULT IN REDIS
+      // STEP 4: CACHE RESULT IN REDIS
       // ============================================================
-      const successResponse = {
+      const fx = this.buildFxDetails(result.transactionLog);
+      const successResponse: TransferResponse = {
         success: true,
         transactionId: result.transactionLog.id,
         message: 'Transfer completed successfully',
+        currency,
         fromBalance: result.fromBalance,
         toBalance: result.toBalance,
+        ...(fx && { fx }),
       };
 
-      // Cache asynchronously (don't block response)
-      RedisService.cacheResult(idempotencyKey, successResponse).catch((error) => {
-        console.error('Failed to cache result:', error);
-      });
+      IdempotencyService.cacheResult(idempotencyKey, successResponse, requestHash);
+
+      logger.info('Transfer completed', { amount, currency });
 
       return successResponse;
     } catch (error: any) {
       // Mark transaction failed - update the PENDING log created above
-      await this.markTransactionFailed(transactionLog, error.message);
+      await IdempotencyService.markFailed(transactionLog, error.message, lock);
+
+      logger.warn('Transfer failed', { amount, currency, error });
 
       if (error instanceof TransferError) {
         throw error;
@@ -239,34 +264,183 @@ class TransferService {
         500,
         'TRANSFER_FAILED'
       );
-    } finally {
-      // ============================================================
-      // STEP 7: ALWAYS RELEASE LOCK
-      // ============================================================
-      await RedisService.releaseLock(idempotencyKey);
     }
   }
 
-  private async markTransactionFailed(
-    transactionLog: TransactionLog,
-    errorMessage: string
-  ): Promise<void> {
-    try {
-      await transactionLog.update({
-        status: TransactionStatus.FAILED,
-        errorMessage,
-        metadata: {
-          ...transactionLog.metadata,
-          failedAt: new Date().toISOString(),
-        },
-      });
-    } catch (updateError) {
-      console.error('Failed to mark transaction as failed:', updateError);
+  /**
+   * Reject currency combinations the transfer cannot settle
+   * No implicit conversion: amount is in the source wallet's currency,
+   * and only an FX quote lets the destination wallet hold another one
+   */
+  assertTransferCurrency(
+    request: TransferRequest,
+    transferAmount: Money,
+    fromWallet: Wallet,
+    toWallet: Wallet,
+    quote: FxQuote | null
+  ): void {
+    const currency = fromWallet.currency;
+    const requestedCurrency = request.currency ? normalizeCurrency(request.currency) : currency;
+
+    if (requestedCurrency !== currency || (!quote && toWallet.currency !== currency)) {
+      throw new TransferError(
+        `Currency mismatch: requested ${requestedCurrency}, ` +
+          `source wallet holds ${currency}, destination wallet holds ${toWallet.currency}` +
+          (quote ? '' : '. Cross-currency transfers require a quoteId'),
+        400,
+        'CURRENCY_MISMATCH'
+      );
+    }
+
+    if (
+      quote &&
+      (quote.fromCurrency !== currency ||
+        quote.toCurrency !== toWallet.currency ||
+        !Money.parse(quote.amount).equals(transferAmount))
+    ) {
+      throw new TransferError(
+        `FX quote is for ${quote.amount} ${quote.fromCurrency} -> ${quote.toCurrency}, ` +
+          `not ${transferAmount} ${currency} -> ${toWallet.currency}`,
+        400,
+        'QUOTE_MISMATCH'
+      );
+    }
+
+    // Amount must fit the currency's minor unit (e.g. whole yen for JPY)
+    Money.parse(request.amount, getCurrencyScale(currency));
+  }
+
+  /**
+   * Debit fromWallet and credit toWallet, both locked FOR UPDATE in `t`
+   *
+   * Applies the status, balance and spending-limit rules, updates both
+   * balances and posts the ledger entries for `transactionId` (which stamps
+   * its appliedAt). Atomic batches call it once per leg, on wallet instances
+   * shared across legs.
+   *
+   * Reversals skip the spending limits (they return money, they are not
+   * spending) and may let an admin take the source balance negative.
+   */
+  async applyTransfer(
+    transactionId: string,
+    fromWallet: Wallet,
+    toWallet: Wallet,
+    transferAmount: Money,
+    creditAmount: Money,
+    t: SequelizeTransaction,
+    options: { enforceLimits?: boolean; allowNegativeBalance?: boolean } = {}
+  ): Promise<{ fromBalance: string; toBalance: string; appliedAt: Date }> {
+    const { enforceLimits = true, allowNegativeBalance = false } = options;
+
+    // Status is read under the row locks, so a concurrent freeze/close
+    // either precedes this check or waits for the commit
+    WalletService.assertCanDebit(fromWallet);
+    WalletService.assertCanCredit(toWallet);
+
+    // Validate sufficient balance (funds reserved by holds are not spendable)
+    const fromBalance = Money.parse(fromWallet.balance);
+    const available = fromBalance.minus(Money.parse(fromWallet.heldAmount));
+
+    if (available.lessThan(transferAmount) && !allowNegativeBalance) {
+      throw new TransferError(
+        `Insufficient balance. Available: ${available}, Required: ${transferAmount}`,
+        400,
+        'INSUFFICIENT_BALANCE'
+      );
+    }
+
+    // Spending limits, evaluated under the source wallet's row lock
+    if (enforceLimits) {
+      await WalletLimitService.enforce(fromWallet, transferAmount, t);
+    }
+
+    // Update balances (exact bigint arithmetic, no float rounding)
+    const newFromBalance = fromBalance.minus(transferAmount).toString();
+    const newToBalance = Money.parse(toWallet.balance).plus(creditAmount).toString();
+
+    await fromWallet.update(
+      {
+        balance: newFromBalance,
+        version: fromWallet.version + 1,
+      },
+      { transaction: t }
+    );
+
+    await toWallet.update(
+      {
+        balance: newToBalance,
+        version: toWallet.version + 1,
+      },
+      { transaction: t }
+    );
+
+    // Balanced debit/credit entries in the same DB transaction
+    const appliedAt = await LedgerService.post(
+      transactionId,
+      fromWallet.currency !== toWallet.currency
+        ? LedgerService.fxTransferPostings(
+            {
+              walletId: fromWallet.id,
+              balanceAfter: newFromBalance,
+              currency: fromWallet.currency,
+              amount: transferAmount,
+            },
+            {
+              walletId: toWallet.id,
+              balanceAfter: newToBalance,
+              currency: toWallet.currency,
+              amount: creditAmount,
+            }
+          )
+        : LedgerService.transferPostings(
+            fromWallet.id,
+            newFromBalance,
+            toWallet.id,
+            newToBalance,
+            transferAmount
+          ),
+      t
+    );
+
+    return { fromBalance: newFromBalance, toBalance: newToBalance, appliedAt };
+  }
+
+  /**
+   * Canonical fingerprint of the fields that define a transfer
+   * Amount is normalised so "100" and "100.0000" hash identically
+   * An omitted currency is left out, keeping hashes of pre-currency keys stable
+   */
+  computeTransferHash(request: TransferRequest): string {
+    return computeRequestHash({
+      fromWalletId: request.fromWalletId.toLowerCase(),
+      toWalletId: request.toWalletId.toLowerCase(),
+      amount: Money.parse(request.amount).toString(),
+      currency: request.currency ? normalizeCurrency(request.currency) : undefined,
+      quoteId: request.quoteId ? request.quoteId.toLowerCase() : undefined,
+    });
+  }
+
+  /**
+   * Conversion details of a cross-currency log, null for same-currency ones
+   */
+  private buildFxDetails(log: TransactionLog): TransferFxDetails | null {
+    const { fxRate } = (log.metadata || {}) as TransactionLogMetadata;
+    if (!log.fxQuoteId || !log.toAmount || !log.toCurrency || !fxRate) {
+      return null;
     }
+
+    return {
+      quoteId: log.fxQuoteId,
+      rate: fxRate,
+      amount: Money.parse(log.amount).toString(),
+      convertedAmount: Money.parse(log.toAmount).toString(),
+      toCurrency: log.toCurrency,
+    };
   }
 
   private buildResponseFromLog(log: TransactionLog): TransferResponse {
     const baseResponse = {
+      currency: log.currency,
       transactionId: log.id,
       success: log.status === TransactionStatus.SUCCESS,
       message:
@@ -278,46 +452,61 @@ class TransferService {
     };
 
     if (log.status === TransactionStatus.SUCCESS && log.metadata) {
-      const metadata = log.metadata as any;
+      const metadata = log.metadata as TransactionLogMetadata;
+      const fx = this.buildFxDetails(log);
       return {
         ...baseResponse,
-        fromBalance: metadata.fromBalanceAfter,
-        toBalance: metadata.toBalanceAfter,
+        fromBalance: metadata.fromBalanceAfter && Money.parse(metadata.fromBalanceAfter).toString(),
+        toBalance: metadata.toBalanceAfter && Money.parse(metadata.toBalanceAfter).toString(),
+        ...(fx && { fx }),
       };
     }
 
     return baseResponse;
   }
 
-  private validateTransferRequest(request: TransferRequest): void {
+  validateTransferRequest(request: TransferRequest): void {
     const { fromWalletId, toWalletId, amount, idempotencyKey } = request;
 
     if (!fromWalletId || !toWalletId || !amount || !idempotencyKey) {
       throw new TransferError('Missing required fields', 400, 'INVALID_REQUEST');
     }
 
-    if (fromWalletId === toWalletId) {
+    // JSON bodies may carry any type; everything below assumes strings
+    if (
+      typeof fromWalletId !== 'string' ||
+      typeof toWalletId !== 'string' ||
+      typeof idempotencyKey !== 'string' ||
+      (request.quoteId !== undefined && typeof request.quoteId !== 'string')
+    ) {
       throw new TransferError(
-        'Cannot transfer to the same wallet',
+        'fromWalletId, toWalletId, idempotencyKey and quoteId must be strings',
         400,
-        'SAME_WALLET_TRANSFER'
+        'INVALID_REQUEST'
       );
     }
 
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) {
+    if (typeof amount !== 'string' && typeof amount !== 'number') {
+      throw new TransferError('Amount must be a string or number', 400, 'INVALID_AMOUNT');
+    }
+
+    if (fromWalletId === toWalletId) {
       throw new TransferError(
-        'Amount must be a positive number',
+        'Cannot transfer to the same wallet',
         400,
-        'INVALID_AMOUNT'
+        'SAME_WALLET_TRANSFER'
       );
     }
 
-    if (amountNum < 0.0001) {
+    // Rejects malformed values, >4 decimals and values beyond DECIMAL(19,4)
+    // (or more decimals than the requested currency allows)
+    // The smallest positive Money is 0.0001, so no separate minimum check
+    const scale = request.currency ? getCurrencyScale(request.currency) : undefined;
+    if (!Money.parse(amount, scale).isPositive()) {
       throw new TransferError(
-        'Amount must be at least 0.0001',
+        'Amount must be a positive number',
         400,
-        'AMOUNT_TOO_SMALL'
+        'INVALID_AMOUNT'
       );
     }
 
@@ -326,27 +515,26 @@ class TransferService {
     if (!uuidRegex.test(fromWalletId) || !uuidRegex.test(toWalletId)) {
       throw new TransferError('Invalid wallet ID format', 400, 'INVALID_WALLET_ID');
     }
+
+    if (request.quoteId && !uuidRegex.test(request.quoteId)) {
+      throw new TransferError('Invalid quote ID format', 400, 'INVALID_QUOTE_ID');
+    }
   }
 
-  async getWalletBalance(walletId: string): Promise<string> {
+  async getWalletBalance(walletId: string): Promise<WalletBalance> {
     const wallet = await Wallet.findByPk(walletId);
     if (!wallet) {
       throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
     }
-    return wallet.balance;
-  }
-
-  async getTransactionHistory(walletId: string): Promise<TransactionLog[]> {
-    return await TransactionLog.findAll({
-      where: {
-        [Op.or]: [
-          { fromWalletId: walletId },
-          { toWalletId: walletId },
-        ],
-      },
-      order: [['createdAt', 'DESC']],
-      limit: 100,
-    });
+    const balance = Money.parse(wallet.balance);
+    const held = Money.parse(wallet.heldAmount);
+    return {
+      walletId,
+      balance: balance.toString(),
+      available: balance.minus(held).toString(),
+      held: held.toString(),
+      currency: wallet.currency,
+    };
   }
 }
 
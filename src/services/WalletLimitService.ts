@@ -0,0 +1,285 @@
+import { Transaction as SequelizeTransaction, QueryTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { Wallet, WalletLimit, WalletLimitChange } from '../models';
+import {
+  TransactionStatus,
+  TransactionType,
+  TransferError,
+  UpdateWalletLimitsRequest,
+  WalletLimits,
+  WalletLimitsResponse,
+  WalletLimitType,
+} from '../types';
+import { getCurrencyScale } from '../config/currencies';
+import { Money } from '../utils/money';
+
+const NO_LIMITS: WalletLimits = {
+  maxSingleTransfer: null,
+  dailyOutgoingTotal: null,
+  hourlyTransferCount: null,
+  minRetainedBalance: null,
+};
+
+const AMOUNT_LIMITS = ['maxSingleTransfer', 'dailyOutgoingTotal', 'minRetainedBalance'] as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * WalletLimitService enforces per-wallet spending limits and velocity controls
+ *
+ * enforce() runs inside the debit's DB transaction, after the source wallet
+ * row is locked FOR UPDATE. Every debit of a wallet takes that lock, so the
+ * daily total and hourly count read from SUCCESS TransactionLogs cannot be
+ * raced by a concurrent debit of the same wallet.
+ *
+ * Outgoing = TRANSFER and WITHDRAWAL logs debiting the wallet.
+ */
+class WalletLimitService {
+  async getLimits(walletId: string): Promise<WalletLimitsResponse> {
+    this.assertWalletId(walletId);
+
+    const wallet = await Wallet.findByPk(walletId);
+    if (!wallet) {
+      throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    return this.toResponse(wallet, await this.findLimits(walletId));
+  }
+
+  /**
+   * Apply an admin change and record it with reason and actor
+   */
+  async updateLimits(request: UpdateWalletLimitsRequest): Promise<WalletLimitsResponse> {
+    const { walletId, reason, actor } = request;
+
+    this.assertWalletId(walletId);
+
+    if (!reason || !actor || typeof reason !== 'string' || typeof actor !== 'string') {
+      throw new TransferError(
+        'Limit changes require a reason and an actor',
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    return sequelize.transaction(async (t: SequelizeTransaction) => {
+      // Serializes limit changes with debits of the same wallet
+      const wallet = await Wallet.findByPk(walletId, {
+        lock: t.LOCK.UPDATE,
+        transaction: t,
+      });
+
+      if (!wallet) {
+        throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+      }
+
+      const previousLimits = await this.findLimits(walletId, t);
+      const newLimits = this.mergeLimits(previousLimits, request.limits || {}, wallet.currency);
+
+      await WalletLimit.upsert({ walletId, ...newLimits }, { transaction: t });
+
+      await WalletLimitChange.create(
+        { walletId, previousLimits, newLimits, reason, actor },
+        { transaction: t }
+      );
+
+      return this.toResponse(wallet, newLimits, t);
+    });
+  }
+
+  /**
+   * Throw LIMIT_EXCEEDED if debiting `amount` breaches a limit
+   * Call with `wallet` locked FOR UPDATE in transaction `t`
+   */
+  async enforce(wallet: Wallet, amount: Money, t: SequelizeTransaction): Promise<void> {
+    const limits = await this.findLimits(wallet.id, t);
+
+    if (limits.maxSingleTransfer !== null) {
+      const max = Money.parse(limits.maxSingleTransfer);
+      if (amount.greaterThan(max)) {
+        this.exceeded(wallet, WalletLimitType.MAX_SINGLE_TRANSFER, max.toString(), max.toString());
+      }
+    }
+
+    if (limits.hourlyTransferCount !== null) {
+      const { count } = await this.outgoingSince(wallet.id, new Date(Date.now() - HOUR_MS), t);
+      if (count >= limits.hourlyTransferCount) {
+        this.exceeded(wallet, WalletLimitType.HOURLY_TRANSFER_COUNT, limits.hourlyTransferCount, 0);
+      }
+    }
+
+    if (limits.dailyOutgoingTotal !== null) {
+      const dailyLimit = Money.parse(limits.dailyOutgoingTotal);
+      const { total } = await this.outgoingSince(wallet.id, this.startOfUtcDay(), t);
+      const remaining = dailyLimit.minus(total);
+
+      if (amount.greaterThan(remaining)) {
+        this.exceeded(
+          wallet,
+          WalletLimitType.DAILY_OUTGOING_TOTAL,
+          dailyLimit.toString(),
+          (remaining.isNegative() ? Money.ZERO : remaining).toString()
+        );
+      }
+    }
+
+    if (limits.minRetainedBalance !== null) {
+      const minRetained = Money.parse(limits.minRetainedBalance);
+      const spendable = Money.parse(wallet.balance).minus(minRetained);
+
+      if (amount.greaterThan(spendable)) {
+        this.exceeded(
+          wallet,
+          WalletLimitType.MIN_RETAINED_BALANCE,
+          minRetained.toString(),
+          (spendable.isNegative() ? Money.ZERO : spendable).toString()
+        );
+      }
+    }
+  }
+
+  private exceeded(
+    wallet: Wallet,
+    limit: WalletLimitType,
+    limitValue: string | number,
+    headroom: string | number
+  ): never {
+    throw new TransferError(
+      `Wallet limit ${limit} exceeded (limit: ${limitValue}, headroom: ${headroom})`,
+      422,
+      'LIMIT_EXCEEDED',
+      { limit, limitValue, headroom, currency: wallet.currency }
+    );
+  }
+
+  /**
+   * Count and exact sum of SUCCESS debits since `since`
+   */
+  private async outgoingSince(
+    walletId: string,
+    since: Date,
+    t: SequelizeTransaction
+  ): Promise<{ count: number; total: Money }> {
+    const [row] = await sequelize.query<{ count: string; total: string }>(
+      `SELECT COUNT(*) AS count, COALESCE(SUM(amount), 0) AS total
+       FROM transaction_logs
+       WHERE "fromWalletId" = :walletId
+         AND status = :status
+         AND type IN (:types)
+         AND "createdAt" >= :since`,
+      {
+        replacements: {
+          walletId,
+          since,
+          status: TransactionStatus.SUCCESS,
+          types: [TransactionType.TRANSFER, TransactionType.WITHDRAWAL],
+        },
+        type: QueryTypes.SELECT,
+        transaction: t,
+      }
+    );
+
+    return { count: parseInt(row.count), total: Money.parse(row.total) };
+  }
+
+  private assertWalletId(walletId: string): void {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(walletId)) {
+      throw new TransferError('Invalid wallet ID format', 400, 'INVALID_WALLET_ID');
+    }
+  }
+
+  private startOfUtcDay(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  }
+
+  private async findLimits(walletId: string, t?: SequelizeTransaction): Promise<WalletLimits> {
+    const row = await WalletLimit.findByPk(walletId, { transaction: t });
+    if (!row) {
+      return { ...NO_LIMITS };
+    }
+
+    const amountOrNull = (value: string | null) =>
+      value === null ? null : Money.parse(value).toString();
+
+    return {
+      maxSingleTransfer: amountOrNull(row.maxSingleTransfer),
+      dailyOutgoingTotal: amountOrNull(row.dailyOutgoingTotal),
+      hourlyTransferCount: row.hourlyTransferCount,
+      minRetainedBalance: amountOrNull(row.minRetainedBalance),
+    };
+  }
+
+  /**
+   * Validate an admin update against the current limits
+   * Amounts use the wallet currency's scale and must not be negative
+   */
+  private mergeLimits(
+    current: WalletLimits,
+    changes: Partial<WalletLimits>,
+    currency: string
+  ): WalletLimits {
+    const merged: WalletLimits = { ...current };
+
+    for (const field of AMOUNT_LIMITS) {
+      const value = changes[field];
+      if (value === undefined) {
+        continue;
+      }
+
+      if (value === null) {
+        merged[field] = null;
+        continue;
+      }
+
+      const amount = Money.parse(String(value), getCurrencyScale(currency));
+      if (amount.isNegative()) {
+        throw new TransferError(`${field} must not be negative`, 400, 'INVALID_LIMIT');
+      }
+      merged[field] = amount.toString();
+    }
+
+    const count = changes.hourlyTransferCount;
+    if (count !== undefined) {
+      if (count !== null && !(Number.isInteger(count) && count >= 0)) {
+        throw new TransferError(
+          'hourlyTransferCount must be a non-negative integer',
+          400,
+          'INVALID_LIMIT'
+        );
+      }
+      merged.hourlyTransferCount = count;
+    }
+
+    return merged;
+  }
+
+  private async toResponse(
+    wallet: Wallet,
+    limits: WalletLimits,
+    t?: SequelizeTransaction
+  ): Promise<WalletLimitsResponse> {
+    const changes = await WalletLimitChange.findAll({
+      where: { walletId: wallet.id },
+      order: [['createdAt', 'ASC']],
+      transaction: t,
+    });
+
+    return {
+      walletId: wallet.id,
+      currency: wallet.currency,
+      limits,
+      history: changes.map((change) => ({
+        previousLimits: change.previousLimits,
+        newLimits: change.newLimits,
+        reason: change.reason,
+        actor: change.actor,
+        createdAt: change.createdAt.toISOString(),
+      })),
+    };
+  }
+}
+
+export default new WalletLimitService();
@@ -0,0 +1,293 @@
+import { Transaction as SequelizeTransaction, Op } from 'sequelize';
+import sequelize from '../config/database';
+import { Wallet, TransactionLog } from '../models';
+import {
+  LockHandle,
+  TransactionLogMetadata,
+  TransactionStatus,
+  TransactionType,
+  TransferError,
+  WalletOperationRequest,
+  WalletOperationResponse,
+} from '../types';
+import { getCurrencyScale, normalizeCurrency } from '../config/currencies';
+import { Money } from '../utils/money';
+import { computeRequestHash } from '../utils/requestHash';
+import IdempotencyService from './IdempotencyService';
+import LedgerService, { LEDGER_ACCOUNTS } from './LedgerService';
+import WalletService from './WalletService';
+import WalletLimitService from './WalletLimitService';
+
+type WalletOperationType = TransactionType.DEPOSIT | TransactionType.WITHDRAWAL;
+
+const OPERATION_LABELS: Record<WalletOperationType, string> = {
+  [TransactionType.DEPOSIT]: 'Deposit',
+  [TransactionType.WITHDRAWAL]: 'Withdrawal',
+};
+
+/**
+ * WalletOperationService moves money between one wallet and the outside
+ *
+ * DEPOSIT credits the wallet (e.g. card top-up), WITHDRAWAL debits it
+ * (e.g. bank payout). Both carry the payment processor's externalReference
+ * and get the same guarantees as transfers via IdempotencyService:
+ * Redis cache, distributed lock, request fingerprint, fenced TransactionLog.
+ */
+class WalletOperationService {
+  async deposit(request: WalletOperationRequest): Promise<WalletOperationResponse> {
+    return this.execute(TransactionType.DEPOSIT, request);
+  }
+
+  async withdraw(request: WalletOperationRequest): Promise<WalletOperationResponse> {
+    return this.execute(TransactionType.WITHDRAWAL, request);
+  }
+
+  private async execute(
+    type: WalletOperationType,
+    request: WalletOperationRequest
+  ): Promise<WalletOperationResponse> {
+    this.validateRequest(request);
+
+    const amount = Money.parse(request.amount);
+    const requestHash = computeRequestHash({
+      type,
+      walletId: request.walletId.toLowerCase(),
+      amount: amount.toString(),
+      currency: request.currency ? normalizeCurrency(request.currency) : undefined,
+      externalReference: request.externalReference,
+    });
+
+    return IdempotencyService.execute({
+      idempotencyKey: request.idempotencyKey,
+      requestHash,
+      replay: (log) => this.buildResponseFromLog(log),
+      process: (lock) => this.processOperation(type, request, amount, requestHash, lock),
+      cachedMessage: `${OPERATION_LABELS[type]} already processed (idempotent request) (from cache)`,
+    });
+  }
+
+  /**
+   * Run the deposit/withdrawal, while holding the distributed lock for the key
+   */
+  private async processOperation(
+    type: WalletOperationType,
+    request: WalletOperationRequest,
+    amount: Money,
+    requestHash: string,
+    lock: LockHandle
+  ): Promise<WalletOperationResponse> {
+    const { walletId, externalReference, idempotencyKey } = request;
+    const label = OPERATION_LABELS[type];
+    const isDeposit = type === TransactionType.DEPOSIT;
+
+    const wallet = await Wallet.findByPk(walletId);
+    if (!wallet) {
+      throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    const currency = wallet.currency;
+    if (request.currency && normalizeCurrency(request.currency) !== currency) {
+      throw new TransferError(
+        `Currency mismatch: requested ${normalizeCurrency(request.currency)}, wallet holds ${currency}`,
+        400,
+        'CURRENCY_MISMATCH'
+      );
+    }
+
+    // Amount must fit the currency's minor unit (e.g. whole yen for JPY)
+    Money.parse(request.amount, getCurrencyScale(currency));
+
+    // Same external payment under a different idempotency key; a failed
+    // attempt does not count, so the payment can be retried
+    // (the partial unique index on type + externalReference is the backstop)
+    const duplicate = await TransactionLog.findOne({
+      where: { type, externalReference, status: { [Op.ne]: TransactionStatus.FAILED } },
+    });
+    if (duplicate) {
+      throw new TransferError(
+        `${label} with external reference ${externalReference} already exists`,
+        409,
+        'DUPLICATE_EXTERNAL_REFERENCE'
+      );
+    }
+
+    const transactionLog = await TransactionLog.create({
+      type,
+      fromWalletId: isDeposit ? null : walletId,
+      toWalletId: isDeposit ? walletId : null,
+      externalReference,
+      amount: amount.toString(),
+      currency,
+      status: TransactionStatus.PENDING,
+      idempotencyKey,
+      requestHash,
+      fencingToken: lock.fencingToken,
+      metadata: {
+        requestedAt: new Date().toISOString(),
+      },
+    });
+
+    try {
+      const newBalance = await sequelize.transaction(
+        {
+          isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+        },
+        async (t: SequelizeTransaction) => {
+          const lockedWallet = await Wallet.findByPk(walletId, {
+            lock: t.LOCK.UPDATE,
+            transaction: t,
+          });
+
+          if (!lockedWallet) {
+            throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+          }
+
+          if (isDeposit) {
+            WalletService.assertCanCredit(lockedWallet);
+          } else {
+            WalletService.assertCanDebit(lockedWallet);
+          }
+
+          const balance = Money.parse(lockedWallet.balance);
+          const available = balance.minus(Money.parse(lockedWallet.heldAmount));
+
+          // Funds reserved by holds cannot be withdrawn
+          if (!isDeposit && available.lessThan(amount)) {
+            throw new TransferError(
+              `Insufficient balance. Available: ${available}, Required: ${amount}`,
+              400,
+              'INSUFFICIENT_BALANCE'
+            );
+          }
+
+          // Withdrawals count as outgoing money for spending limits
+          if (!isDeposit) {
+            await WalletLimitService.enforce(lockedWallet, amount, t);
+          }
+
+          const updatedBalance = (isDeposit ? balance.plus(amount) : balance.minus(amount)).toString();
+
+          await lockedWallet.update(
+            {
+              balance: updatedBalance,
+              version: lockedWallet.version + 1,
+            },
+            { transaction: t }
+          );
+
+          await LedgerService.post(
+            transactionLog.id,
+            LedgerService.externalPostings(
+              walletId,
+              updatedBalance,
+              isDeposit ? LEDGER_ACCOUNTS.DEPOSITS : LEDGER_ACCOUNTS.WITHDRAWALS,
+              isDeposit ? amount : amount.negate()
+            ),
+            t
+          );
+
+          await IdempotencyService.completeLog(
+            transactionLog,
+            lock,
+            isDeposit ? { toBalanceAfter: updatedBalance } : { fromBalanceAfter: updatedBalance },
+            t
+          );
+
+          return updatedBalance;
+        }
+      );
+
+      const successResponse: WalletOperationResponse = {
+        success: true,
+        transactionId: transactionLog.id,
+        message: `${label} completed successfully`,
+        type,
+        walletId,
+        externalReference,
+        currency,
+        balance: newBalance,
+      };
+
+      IdempotencyService.cacheResult(idempotencyKey, successResponse, requestHash);
+
+      return successResponse;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await IdempotencyService.markFailed(transactionLog, message, lock);
+
+      if (error instanceof TransferError) {
+        throw error;
+      }
+
+      throw new TransferError(
+        message || `${label} failed due to unexpected error`,
+        500,
+        `${type}_FAILED`
+      );
+    }
+  }
+
+  private buildResponseFromLog(log: TransactionLog): WalletOperationResponse {
+    const label = OPERATION_LABELS[log.type as WalletOperationType] || 'Operation';
+    const isDeposit = log.type === TransactionType.DEPOSIT;
+
+    const baseResponse: WalletOperationResponse = {
+      transactionId: log.id,
+      success: log.status === TransactionStatus.SUCCESS,
+      message:
+        log.status === TransactionStatus.SUCCESS
+          ? `${label} already processed (idempotent request)`
+          : log.status === TransactionStatus.PENDING
+          ? `${label} is being processed`
+          : `${label} previously failed`,
+      type: log.type,
+      walletId: (isDeposit ? log.toWalletId : log.fromWalletId) as string,
+      externalReference: log.externalReference,
+      currency: log.currency,
+    };
+
+    if (log.status === TransactionStatus.SUCCESS && log.metadata) {
+      const metadata = log.metadata as TransactionLogMetadata;
+      const balanceAfter = isDeposit ? metadata.toBalanceAfter : metadata.fromBalanceAfter;
+      return {
+        ...baseResponse,
+        balance: balanceAfter && Money.parse(balanceAfter).toString(),
+      };
+    }
+
+    return baseResponse;
+  }
+
+  private validateRequest(request: WalletOperationRequest): void {
+    const { walletId, amount, externalReference, idempotencyKey } = request;
+
+    if (!walletId || !amount || !externalReference || !idempotencyKey) {
+      throw new TransferError('Missing required fields', 400, 'INVALID_REQUEST');
+    }
+
+    if (typeof externalReference !== 'string' || externalReference.length > 255) {
+      throw new TransferError(
+        'externalReference must be a string of at most 255 characters',
+        400,
+        'INVALID_EXTERNAL_REFERENCE'
+      );
+    }
+
+    const scale = request.currency ? getCurrencyScale(request.currency) : undefined;
+    if (!Money.parse(amount, scale).isPositive()) {
+      throw new TransferError(
+        'Amount must be a positive number',
+        400,
+        'INVALID_AMOUNT'
+      );
+    }
+
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(walletId)) {
+      throw new TransferError('Invalid wallet ID format', 400, 'INVALID_WALLET_ID');
+    }
+  }
+}
+
+export default new WalletOperationService();
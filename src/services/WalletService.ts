@@ -0,0 +1,265 @@
+import { Transaction as SequelizeTransaction, UniqueConstraintError } from 'sequelize';
+import sequelize from '../config/database';
+import { Wallet, WalletStatusChange } from '../models';
+import {
+  CreateWalletRequest,
+  TransferError,
+  WalletResponse,
+  WalletStatus,
+  WalletStatusChangeRequest,
+} from '../types';
+import { BASE_CURRENCY, normalizeCurrency } from '../config/currencies';
+import { Money } from '../utils/money';
+import { computeRequestHash } from '../utils/requestHash';
+
+// Allowed lifecycle transitions; CLOSED is terminal
+const TRANSITIONS: Record<WalletStatus, WalletStatus[]> = {
+  [WalletStatus.ACTIVE]: [WalletStatus.FROZEN, WalletStatus.CLOSED],
+  [WalletStatus.FROZEN]: [WalletStatus.ACTIVE, WalletStatus.CLOSED],
+  [WalletStatus.CLOSED]: [],
+};
+
+/**
+ * WalletService owns the wallet lifecycle
+ *
+ * Creation is idempotent on the wallet row itself: the unique
+ * idempotencyKey column settles concurrent retries, so no Redis lock is
+ * needed. Status transitions lock the wallet row FOR UPDATE, the same lock
+ * executeTransfer takes, and record reason and actor in the same
+ * transaction. assertCanDebit/assertCanCredit are the status rules every
+ * money movement applies to its locked wallets.
+ */
+class WalletService {
+  /**
+   * Create a wallet (zero balance; funded through deposits)
+   * Returns created=false when the idempotency key was already used for the
+   * same request
+   */
+  async createWallet(
+    request: CreateWalletRequest
+  ): Promise<{ wallet: WalletResponse; created: boolean }> {
+    const { userId, idempotencyKey } = request;
+
+    if (!userId || !idempotencyKey) {
+      throw new TransferError('Missing required fields', 400, 'INVALID_REQUEST');
+    }
+
+    if (typeof userId !== 'string' || userId.length > 255) {
+      throw new TransferError(
+        'userId must be a string of at most 255 characters',
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const currency = request.currency ? normalizeCurrency(request.currency) : BASE_CURRENCY;
+    const requestHash = computeRequestHash({ userId, currency });
+
+    const existing = await this.findByIdempotencyKey(idempotencyKey, requestHash);
+    if (existing) {
+      return { wallet: await this.toResponse(existing), created: false };
+    }
+
+    try {
+      const wallet = await Wallet.create({
+        userId,
+        currency,
+        balance: Money.ZERO.toString(),
+        idempotencyKey,
+        requestHash,
+      });
+
+      return { wallet: await this.toResponse(wallet), created: true };
+    } catch (error) {
+      if (!(error instanceof UniqueConstraintError)) {
+        throw error;
+      }
+
+      // Lost a race with a retry of the same request
+      const winner = await this.findByIdempotencyKey(idempotencyKey, requestHash);
+      if (winner) {
+        return { wallet: await this.toResponse(winner), created: false };
+      }
+
+      throw new TransferError(
+        `User ${userId} already has a ${currency} wallet`,
+        409,
+        'WALLET_ALREADY_EXISTS'
+      );
+    }
+  }
+
+  async getWallet(walletId: string): Promise<WalletResponse> {
+    this.assertWalletId(walletId);
+
+    const wallet = await Wallet.findByPk(walletId);
+    if (!wallet) {
+      throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+    }
+
+    return this.toResponse(wallet);
+  }
+
+  async freeze(request: WalletStatusChangeRequest): Promise<WalletResponse> {
+    return this.transition(request, WalletStatus.FROZEN);
+  }
+
+  async unfreeze(request: WalletStatusChangeRequest): Promise<WalletResponse> {
+    return this.transition(request, WalletStatus.ACTIVE);
+  }
+
+  async close(request: WalletStatusChangeRequest): Promise<WalletResponse> {
+    return this.transition(request, WalletStatus.CLOSED);
+  }
+
+  /**
+   * Refuse to move money out of a FROZEN or CLOSED wallet
+   * Call with the wallet row locked FOR UPDATE
+   */
+  assertCanDebit(wallet: Wallet): void {
+    if (wallet.status === WalletStatus.FROZEN) {
+      throw new TransferError(
+        `Wallet ${wallet.id} is frozen and cannot be debited`,
+        409,
+        'SOURCE_WALLET_FROZEN'
+      );
+    }
+
+    if (wallet.status === WalletStatus.CLOSED) {
+      throw new TransferError(
+        `Wallet ${wallet.id} is closed and cannot be debited`,
+        409,
+        'SOURCE_WALLET_CLOSED'
+      );
+    }
+  }
+
+  /**
+   * Refuse to move money into a CLOSED wallet (FROZEN wallets may receive)
+   * Call with the wallet row locked FOR UPDATE
+   */
+  assertCanCredit(wallet: Wallet): void {
+    if (wallet.status === WalletStatus.CLOSED) {
+      throw new TransferError(
+        `Wallet ${wallet.id} is closed and cannot be credited`,
+        409,
+        'DESTINATION_WALLET_CLOSED'
+      );
+    }
+  }
+
+  private async transition(
+    request: WalletStatusChangeRequest,
+    toStatus: WalletStatus
+  ): Promise<WalletResponse> {
+    const { walletId, reason, actor } = request;
+
+    this.assertWalletId(walletId);
+
+    if (!reason || !actor || typeof reason !== 'string' || typeof actor !== 'string') {
+      throw new TransferError(
+        'Status changes require a reason and an actor',
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const wallet = await sequelize.transaction(
+      {
+        isolationLevel: SequelizeTransaction.ISOLATION_LEVELS.READ_COMMITTED,
+      },
+      async (t: SequelizeTransaction) => {
+        const locked = await Wallet.findByPk(walletId, {
+          lock: t.LOCK.UPDATE,
+          transaction: t,
+        });
+
+        if (!locked) {
+          throw new TransferError('Wallet not found', 404, 'WALLET_NOT_FOUND');
+        }
+
+        const fromStatus = locked.status;
+
+        if (!TRANSITIONS[fromStatus].includes(toStatus)) {
+          throw new TransferError(
+            `Cannot change wallet status from ${fromStatus} to ${toStatus}`,
+            409,
+            'INVALID_STATUS_TRANSITION'
+          );
+        }
+
+        // Balance is read under the row lock, so no transfer can slip in
+        if (toStatus === WalletStatus.CLOSED && !Money.parse(locked.balance).isZero()) {
+          throw new TransferError(
+            `Wallet balance must be zero to close (balance: ${Money.parse(locked.balance)})`,
+            409,
+            'WALLET_BALANCE_NOT_ZERO'
+          );
+        }
+
+        await locked.update({ status: toStatus }, { transaction: t });
+
+        await WalletStatusChange.create(
+          { walletId, fromStatus, toStatus, reason, actor },
+          { transaction: t }
+        );
+
+        return locked;
+      }
+    );
+
+    return this.toResponse(wallet);
+  }
+
+  private assertWalletId(walletId: string): void {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(walletId)) {
+      throw new TransferError('Invalid wallet ID format', 400, 'INVALID_WALLET_ID');
+    }
+  }
+
+  private async findByIdempotencyKey(
+    idempotencyKey: string,
+    requestHash: string
+  ): Promise<Wallet | null> {
+    const wallet = await Wallet.findOne({ where: { idempotencyKey } });
+
+    if (wallet && wallet.requestHash !== requestHash) {
+      throw new TransferError(
+        'Idempotency key was already used with a different request payload',
+        422,
+        'IDEMPOTENCY_KEY_REUSED'
+      );
+    }
+
+    return wallet;
+  }
+
+  private async toResponse(wallet: Wallet): Promise<WalletResponse> {
+    const changes = await WalletStatusChange.findAll({
+      where: { walletId: wallet.id },
+      order: [['createdAt', 'ASC']],
+    });
+
+    return {
+      id: wallet.id,
+      userId: wallet.userId,
+      currency: wallet.currency,
+      balance: Money.parse(wallet.balance).toString(),
+      status: wallet.status,
+      version: wallet.version,
+      createdAt: wallet.createdAt.toISOString(),
+      updatedAt: wallet.updatedAt.toISOString(),
+      statusHistory: changes.map((change) => ({
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus,
+        reason: change.reason,
+        actor: change.actor,
+        createdAt: change.createdAt.toISOString(),
+      })),
+    };
+  }
+}
+
+export default new WalletService();
@@ -0,0 +1,474 @@
+import crypto from 'crypto';
+import { Transaction as SequelizeTransaction, Op } from 'sequelize';
+import sequelize from '../config/database';
+import logger from '../config/logger';
+import tracer from '../config/tracing';
+import { OutboxEvent, WebhookDelivery, WebhookEndpoint } from '../models';
+import {
+  RegisterWebhookRequest,
+  TransferError,
+  TransferEventType,
+  WebhookDeliveryResponse,
+  WebhookDeliveryStatus,
+  WebhookDispatchReport,
+  WebhookEndpointResponse,
+} from '../types';
+import { signWebhook } from '../utils/webhookSignature';
+
+const MAX_LISTED_DELIVERIES = 500;
+
+/**
+ * WebhookService delivers outbox events to registered endpoints
+ *
+ * A dispatch sweep (src/jobs/dispatchWebhooks.ts) first fans undispatched
+ * outbox events out into one delivery per subscribed, active endpoint (the
+ * unique (eventId, endpointId) index keeps a repeated fan-out harmless),
+ * then POSTs due deliveries. Rows are claimed FOR UPDATE SKIP LOCKED and
+ * leased by pushing nextAttemptAt past the request timeout, so concurrent
+ * dispatchers never send the same attempt twice and no DB connection is held
+ * during the HTTP call.
+ *
+ * Delivery is at least once: receivers deduplicate on X-Webhook-Id (the
+ * event ID). A failed attempt (non-2xx, timeout, network error) is retried
+ * with exponential backoff; after MAX_ATTEMPTS the delivery is dead-lettered
+ * (DEAD) until an admin replays it.
+ */
+class WebhookService {
+  private readonly MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+  private readonly RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000');
+  private readonly RETRY_MAX_MS = parseInt(
+    process.env.WEBHOOK_RETRY_MAX_MS || '3600000' // 1 hour
+  );
+  private readonly TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000');
+  private readonly BATCH_SIZE = parseInt(process.env.WEBHOOK_DISPATCH_BATCH_SIZE || '100');
+
+  /**
+   * Register an endpoint; the response is the only time its secret is shown
+   */
+  async registerEndpoint(request: RegisterWebhookRequest): Promise<WebhookEndpointResponse> {
+    const { url, description } = request;
+
+    if (!url || typeof url !== 'string' || !/^https?:\/\/[^\s]+$/i.test(url)) {
+      throw new TransferError('url must be an http(s) URL', 400, 'INVALID_REQUEST');
+    }
+
+    const allTypes = Object.values(TransferEventType);
+    const eventTypes = request.eventTypes ?? allTypes;
+
+    if (
+      !Array.isArray(eventTypes) ||
+      eventTypes.length === 0 ||
+      eventTypes.some((type) => !allTypes.includes(type))
+    ) {
+      throw new TransferError(
+        `eventTypes must be a non-empty list of: ${allTypes.join(', ')}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const endpoint = await WebhookEndpoint.create({
+      url,
+      secret: `whsec_${crypto.randomBytes(32).toString('hex')}`,
+      eventTypes: [...new Set(eventTypes)],
+      description: description ?? null,
+    });
+
+    return { ...this.toEndpointResponse(endpoint), secret: endpoint.secret };
+  }
+
+  async listEndpoints(): Promise<WebhookEndpointResponse[]> {
+    const endpoints = await WebhookEndpoint.findAll({ order: [['createdAt', 'ASC']] });
+    return endpoints.map((endpoint) => this.toEndpointResponse(endpoint));
+  }
+
+  /**
+   * Stop fanning events out to the endpoint (kept for its delivery history)
+   */
+  async deactivateEndpoint(endpointId: string): Promise<WebhookEndpointResponse> {
+    this.assertId(endpointId, 'Invalid webhook endpoint ID format');
+
+    const endpoint = await WebhookEndpoint.findByPk(endpointId);
+    if (!endpoint) {
+      throw new TransferError('Webhook endpoint not found', 404, 'WEBHOOK_ENDPOINT_NOT_FOUND');
+    }
+
+    await endpoint.update({ active: false });
+
+    return this.toEndpointResponse(endpoint);
+  }
+
+  /**
+   * Deliveries in `status` (dead-lettered by default), newest first
+   */
+  async listDeliveries(
+    status: WebhookDeliveryStatus = WebhookDeliveryStatus.DEAD,
+    limit: number = 100
+  ): Promise<WebhookDeliveryResponse[]> {
+    if (!Object.values(WebhookDeliveryStatus).includes(status)) {
+      throw new TransferError(
+        `status must be one of: ${Object.values(WebhookDeliveryStatus).join(', ')}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    if (!(Number.isInteger(limit) && limit > 0 && limit <= MAX_LISTED_DELIVERIES)) {
+      throw new TransferError(
+        `limit must be an integer between 1 and ${MAX_LISTED_DELIVERIES}`,
+        400,
+        'INVALID_REQUEST'
+      );
+    }
+
+    const deliveries = await WebhookDelivery.findAll({
+      where: { status },
+      order: [['updatedAt', 'DESC']],
+      limit,
+    });
+
+    return this.toDeliveryResponses(deliveries);
+  }
+
+  /**
+   * Put a dead-lettered delivery back in the queue with a fresh attempt budget
+   */
+  async replayDelivery(deliveryId: string): Promise<WebhookDeliveryResponse> {
+    this.assertId(deliveryId, 'Invalid webhook delivery ID format');
+
+    const delivery = await sequelize.transaction(async (t: SequelizeTransaction) => {
+      const locked = await WebhookDelivery.findByPk(deliveryId, {
+        lock: t.LOCK.UPDATE,
+        transaction: t,
+      });
+
+      if (!locked) {
+        throw new TransferError('Webhook delivery not found', 404, 'WEBHOOK_DELIVERY_NOT_FOUND');
+      }
+
+      if (locked.status !== WebhookDeliveryStatus.DEAD) {
+        throw new TransferError(
+          `Only DEAD deliveries can be replayed (status: ${locked.status})`,
+          409,
+          'WEBHOOK_DELIVERY_NOT_DEAD'
+        );
+      }
+
+      await locked.update(
+        {
+          status: WebhookDeliveryStatus.PENDING,
+          attempts: 0,
+          nextAttemptAt: new Date(),
+        },
+        { transaction: t }
+      );
+
+      return locked;
+    });
+
+    const [response] = await this.toDeliveryResponses([delivery]);
+    return response;
+  }
+
+  /**
+   * One dispatch sweep: fan out new events, then attempt due deliveries
+   */
+  async dispatch(now: Date = new Date()): Promise<WebhookDispatchReport> {
+    const report: WebhookDispatchReport = {
+      fannedOut: await this.fanOut(now),
+      delivered: 0,
+      retried: 0,
+      deadLettered: 0,
+    };
+
+    for (const deliveryId of await this.claimDue(now)) {
+      try {
+        report[await this.deliver(deliveryId, now)]++;
+      } catch (error) {
+        logger.error('Failed to deliver webhook', { deliveryId, error });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Create deliveries for undispatched events, oldest first
+   */
+  private async fanOut(now: Date): Promise<number> {
+    return sequelize.transaction(async (t: SequelizeTransaction) => {
+      const events = await OutboxEvent.findAll({
+        where: { dispatchedAt: null },
+        order: [['createdAt', 'ASC']],
+        limit: this.BATCH_SIZE,
+        lock: t.LOCK.UPDATE,
+        skipLocked: true,
+        transaction: t,
+      });
+
+      if (events.length === 0) {
+        return 0;
+      }
+
+      const endpoints = await WebhookEndpoint.findAll({
+        where: { active: true },
+        transaction: t,
+      });
+
+      const deliveries = events.flatMap((event) =>
+        endpoints
+          .filter((endpoint) => endpoint.eventTypes.includes(event.eventType))
+          .map((endpoint) => ({
+            eventId: event.id,
+            endpointId: endpoint.id,
+            nextAttemptAt: now,
+          }))
+      );
+
+      await WebhookDelivery.bulkCreate(deliveries, {
+        ignoreDuplicates: true,
+        transaction: t,
+      });
+
+      await OutboxEvent.update(
+        { dispatchedAt: now },
+        {
+          where: { id: events.map((event) => event.id) },
+          transaction: t,
+        }
+      );
+
+      return events.length;
+    });
+  }
+
+  /**
+   * Claim due PENDING deliveries by leasing them past the request timeout
+   */
+  private async claimDue(now: Date): Promise<string[]> {
+    return sequelize.transaction(async (t: SequelizeTransaction) => {
+      const due = await WebhookDelivery.findAll({
+        attributes: ['id'],
+        where: {
+          status: WebhookDeliveryStatus.PENDING,
+          nextAttemptAt: { [Op.lte]: now },
+        },
+        order: [['nextAttemptAt', 'ASC']],
+        limit: this.BATCH_SIZE,
+        lock: t.LOCK.UPDATE,
+        skipLocked: true,
+        transaction: t,
+      });
+
+      const ids = due.map((delivery) => delivery.id);
+
+      if (ids.length > 0) {
+        // A dispatcher that dies mid-request leaves the lease to expire
+        await WebhookDelivery.update(
+          { nextAttemptAt: new Date(now.getTime() + this.TIMEOUT_MS * 2) },
+          { where: { id: ids }, transaction: t }
+        );
+      }
+
+      return ids;
+    });
+  }
+
+  /**
+   * POST one claimed delivery and record the outcome
+   */
+  private async deliver(
+    deliveryId: string,
+    now: Date
+  ): Promise<'delivered' | 'retried' | 'deadLettered'> {
+    const delivery = await WebhookDelivery.findByPk(deliveryId);
+    if (!delivery) {
+      throw new TransferError('Webhook delivery not found', 404, 'WEBHOOK_DELIVERY_NOT_FOUND');
+    }
+
+    const event = await OutboxEvent.findByPk(delivery.eventId);
+    const endpoint = await WebhookEndpoint.findByPk(delivery.endpointId);
+
+    if (!event || !endpoint) {
+      throw new Error(`Delivery ${delivery.id} references a missing event or endpoint`);
+    }
+
+    if (!endpoint.active) {
+      await delivery.update({
+        status: WebhookDeliveryStatus.DEAD,
+        nextAttemptAt: null,
+        lastError: 'Endpoint deactivated',
+      });
+      return 'deadLettered';
+    }
+
+    const { statusCode, error } = await this.post(endpoint, event);
+    const attempts = delivery.attempts + 1;
+
+    if (!error) {
+      await delivery.update({
+        status: WebhookDeliveryStatus.SUCCEEDED,
+        attempts,
+        nextAttemptAt: null,
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+      return 'delivered';
+    }
+
+    const dead = attempts >= this.MAX_ATTEMPTS;
+
+    await delivery.update({
+      status: dead ? WebhookDeliveryStatus.DEAD : WebhookDeliveryStatus.PENDING,
+      attempts,
+      nextAttemptAt: dead ? null : new Date(now.getTime() + this.backoffMs(attempts)),
+      lastStatusCode: statusCode,
+      lastError: error,
+    });
+
+    return dead ? 'deadLettered' : 'retried';
+  }
+
+  /**
+   * Signed POST of the event; any 2xx is a successful delivery
+   */
+  private async post(
+    endpoint: WebhookEndpoint,
+    event: OutboxEvent
+  ): Promise<{ statusCode: number | null; error: string | null }> {
+    const body = JSON.stringify({
+      id: event.id,
+      type: event.eventType,
+      createdAt: event.createdAt.toISOString(),
+      data: event.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    // Client span; its traceparent lets the receiver join the trace
+    return tracer.startActiveSpan(
+      'webhook.deliver',
+      {
+        kind: 'client',
+        attributes: {
+          'http.method': 'POST',
+          'http.url': endpoint.url,
+          'webhook.event_id': event.id,
+          'webhook.event_type': event.eventType,
+        },
+      },
+      async (span) => {
+        try {
+          const response = await fetch(endpoint.url, {
+            method: 'POST',
+            headers: tracer.inject({
+              'Content-Type': 'application/json',
+              'X-Webhook-Id': event.id,
+              'X-Webhook-Event': event.eventType,
+              'X-Webhook-Timestamp': String(timestamp),
+              'X-Webhook-Signature': signWebhook(endpoint.secret, timestamp, body),
+            }),
+            body,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(this.TIMEOUT_MS),
+          });
+
+          // Drain the body so the connection can be reused
+          await response.arrayBuffer().catch(() => undefined);
+
+          span?.setAttribute('http.status_code', response.status);
+          if (!response.ok) {
+            span?.setStatus('error', `HTTP ${response.status}`);
+          }
+
+          return {
+            statusCode: response.status,
+            error: response.ok ? null : `Endpoint responded with HTTP ${response.status}`,
+          };
+        } catch (error) {
+          span?.recordException(error);
+          return {
+            statusCode: null,
+            error: (error instanceof Error && error.message) || 'Request failed',
+          };
+        }
+      }
+    );
+  }
+
+  /**
+   * RETRY_BASE_MS doubled per failed attempt, capped at RETRY_MAX_MS
+   */
+  private backoffMs(attempts: number): number {
+    return Math.min(this.RETRY_BASE_MS * 2 ** (attempts - 1), this.RETRY_MAX_MS);
+  }
+
+  private assertId(id: string, message: string): void {
+    const uuidRegex =
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(id)) {
+      throw new TransferError(message, 400, 'INVALID_REQUEST');
+    }
+  }
+
+  private toEndpointResponse(endpoint: WebhookEndpoint): WebhookEndpointResponse {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      eventTypes: endpoint.eventTypes,
+      description: endpoint.description ?? null,
+      active: endpoint.active,
+      createdAt: endpoint.createdAt.toISOString(),
+      updatedAt: endpoint.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Responses with each delivery's event type and endpoint URL
+   */
+  private async toDeliveryResponses(
+    deliveries: WebhookDelivery[]
+  ): Promise<WebhookDeliveryResponse[]> {
+    const events = await OutboxEvent.findAll({
+      where: { id: [...new Set(deliveries.map((delivery) => delivery.eventId))] },
+    });
+    const endpoints = await WebhookEndpoint.findAll({
+      where: { id: [...new Set(deliveries.map((delivery) => delivery.endpointId))] },
+    });
+
+    const eventTypes = new Map(events.map((event) => [event.id, event.eventType]));
+    const urls = new Map(endpoints.map((endpoint) => [endpoint.id, endpoint.url]));
+
+    return deliveries.map((delivery) =>
+      this.toDeliveryResponse(
+        delivery,
+        eventTypes.get(delivery.eventId) as TransferEventType,
+        urls.get(delivery.endpointId) as string
+      )
+    );
+  }
+
+  private toDeliveryResponse(
+    delivery: WebhookDelivery,
+    eventType: TransferEventType,
+    url: string
+  ): WebhookDeliveryResponse {
+    return {
+      id: delivery.id,
+      eventId: delivery.eventId,
+      eventType,
+      endpointId: delivery.endpointId,
+      url,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt ? delivery.nextAttemptAt.toISOString() : null,
+      lastStatusCode: delivery.lastStatusCode ?? null,
+      lastError: delivery.lastError ?? null,
+      deliveredAt: delivery.deliveredAt ? delivery.deliveredAt.toISOString() : null,
+      createdAt: delivery.createdAt.toISOString(),
+      updatedAt: delivery.updatedAt.toISOString(),
+    };
+  }
+}
+
+export default new WebhookService();
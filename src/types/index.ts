@@ -4,10 +4,58 @@ export enum TransactionStatus {
   FAILED = 'FAILED',
 }
 
+/**
+ * Kind of money movement recorded by a TransactionLog
+ * TRANSFER: fromWalletId -> toWalletId
+ * DEPOSIT: external source -> toWalletId (fromWalletId null)
+ * WITHDRAWAL: fromWalletId -> external destination (toWalletId null)
+ * REVERSAL: refund of a TRANSFER, from its recipient back to its sender
+ */
+export enum TransactionType {
+  TRANSFER = 'TRANSFER',
+  DEPOSIT = 'DEPOSIT',
+  WITHDRAWAL = 'WITHDRAWAL',
+  REVERSAL = 'REVERSAL',
+}
+
+/**
+ * Wallet lifecycle
+ * ACTIVE: debits and credits allowed
+ * FROZEN: credits only (e.g. under investigation); can be unfrozen
+ * CLOSED: terminal, no movements; only reachable at zero balance
+ */
+export enum WalletStatus {
+  ACTIVE = 'ACTIVE',
+  FROZEN = 'FROZEN',
+  CLOSED = 'CLOSED',
+}
+
+/**
+ * Side of a ledger entry; DEBIT lowers the account balance, CREDIT raises it
+ */
+export enum LedgerEntryType {
+  DEBIT = 'DEBIT',
+  CREDIT = 'CREDIT',
+}
+
+/**
+ * What the service does when Redis (idempotency cache + locks) is down
+ * OPEN: proceed without cache/lock (availability first)
+ * CLOSED: refuse transfers with 503
+ * POSTGRES_FALLBACK: serialize per idempotency key with a PG advisory lock
+ */
+export enum RedisFailurePolicy {
+  OPEN = 'open',
+  CLOSED = 'closed',
+  POSTGRES_FALLBACK = 'postgres-fallback',
+}
+
 export interface TransferRequest {
   fromWalletId: string;
   toWalletId: string;
   amount: string; // String to preserve precision
+  currency?: string; // ISO 4217; defaults to the source wallet's currency
+  quoteId?: string; // FX quote, required when the wallets' currencies differ
   idempotencyKey: string;
 }
 
@@ -15,15 +63,788 @@ export interface TransferResponse {
   success: boolean;
   transactionId: string;
   message: string;
+  currency: string;
+  fromBalance?: string;
+  toBalance?: string;
+  fx?: TransferFxDetails;
+}
+
+/**
+ * TransactionLog.metadata as the services write it; which keys are set
+ * depends on the log's type and outcome (stale PENDING recovery records no
+ * balances)
+ */
+export interface TransactionLogMetadata {
+  requestedAt?: string;
+  completedAt?: string;
+  fromBalanceAfter?: string;
+  toBalanceAfter?: string;
+  fxRate?: string; // Quote rate of a cross-currency transfer
+  totalReversed?: string; // The original's reversed total, on a reversal
+  reason?: string;
+  negativeBalanceOverride?: { actor: string };
+  // On the original, one entry per reversal
+  reversals?: Array<{ transactionId: string; amount: string; reversedAt: string }>;
+  holdId?: string; // Hold a capture settled
+  releasedAmount?: string; // Held amount a partial capture released
+}
+
+/**
+ * Batch execution mode
+ * ATOMIC: every leg commits in one DB transaction, or none does
+ * BEST_EFFORT: each leg is an independent transfer; outcomes reported per leg
+ */
+export enum BatchMode {
+  ATOMIC = 'atomic',
+  BEST_EFFORT = 'best-effort',
+}
+
+/**
+ * Batch lifecycle
+ * PENDING -> COMPLETED (all legs succeeded), PARTIAL (best-effort only)
+ * or FAILED (no leg succeeded)
+ */
+export enum BatchStatus {
+  PENDING = 'PENDING',
+  COMPLETED = 'COMPLETED',
+  PARTIAL = 'PARTIAL',
+  FAILED = 'FAILED',
+}
+
+/**
+ * SKIPPED: not committed because another leg failed an atomic batch
+ */
+export enum BatchLegStatus {
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED',
+}
+
+/**
+ * One transfer of a batch; fromWalletId defaults to the batch's
+ */
+export interface BatchTransferLeg {
+  fromWalletId?: string;
+  toWalletId: string;
+  amount: string; // String to preserve precision
+  currency?: string;
+  idempotencyKey: string;
+}
+
+export interface BatchTransferRequest {
+  idempotencyKey: string;
+  mode: BatchMode;
+  fromWalletId?: string;
+  legs: BatchTransferLeg[];
+}
+
+export interface BatchLegResult {
+  index: number;
+  idempotencyKey: string;
+  status: BatchLegStatus;
+  transactionId?: string;
+  fromBalance?: string;
+  toBalance?: string;
+  error?: {
+    code: string;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+export interface BatchTransferResponse {
+  success: boolean;
+  batchId: string;
+  mode: BatchMode;
+  status: BatchStatus;
+  message: string;
+  legs: BatchLegResult[];
+}
+
+/**
+ * Conversion applied by a cross-currency transfer
+ * amount: debited in the source currency; convertedAmount: credited in toCurrency
+ */
+export interface TransferFxDetails {
+  quoteId: string;
+  rate: string;
+  amount: string;
+  convertedAmount: string;
+  toCurrency: string;
+}
+
+export interface FxQuoteRequest {
+  fromCurrency: string;
+  toCurrency: string;
+  amount: string;
+}
+
+export interface FxQuoteResponse {
+  quoteId: string;
+  fromCurrency: string;
+  toCurrency: string;
+  amount: string;
+  convertedAmount: string;
+  midRate: string;
+  rate: string;
+  spreadBps: number;
+  expiresAt: string;
+}
+
+/**
+ * Full (amount omitted) or partial refund of a SUCCESS transfer
+ * allowNegativeBalance: admin override letting the recipient go negative;
+ * requires an actor
+ */
+export interface ReversalRequest {
+  transactionId: string;
+  amount?: string;
+  reason?: string;
+  idempotencyKey: string;
+  allowNegativeBalance?: boolean;
+  actor?: string;
+}
+
+/**
+ * fromBalance is the original recipient's, toBalance the original sender's
+ * totalReversed covers every reversal of the original so far
+ */
+export interface ReversalResponse {
+  success: boolean;
+  transactionId: string;
+  reversalOf: string;
+  message: string;
+  currency: string;
+  amount: string;
+  totalReversed?: string;
   fromBalance?: string;
   toBalance?: string;
 }
 
+/**
+ * Hold lifecycle
+ * ACTIVE -> CAPTURED (transfer executed), VOIDED or EXPIRED (funds released)
+ */
+export enum HoldStatus {
+  ACTIVE = 'ACTIVE',
+  CAPTURED = 'CAPTURED',
+  VOIDED = 'VOIDED',
+  EXPIRED = 'EXPIRED',
+}
+
+/**
+ * Reserve amount on walletId for a later transfer to toWalletId
+ * ttlSeconds defaults to HOLD_TTL_SECONDS
+ */
+export interface PlaceHoldRequest {
+  walletId: string;
+  toWalletId: string;
+  amount: string; // String to preserve precision
+  currency?: string;
+  ttlSeconds?: number;
+  idempotencyKey: string;
+}
+
+/**
+ * Capture all (amount omitted) or part of a hold; the rest is released
+ */
+export interface CaptureHoldRequest {
+  holdId: string;
+  amount?: string;
+  idempotencyKey: string;
+}
+
+export interface HoldResponse {
+  id: string;
+  walletId: string;
+  toWalletId: string;
+  currency: string;
+  amount: string;
+  capturedAmount: string | null;
+  status: HoldStatus;
+  expiresAt: string;
+  captureTransactionId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CaptureHoldResponse extends TransferResponse {
+  holdId: string;
+  capturedAmount?: string;
+  releasedAmount?: string;
+}
+
+/**
+ * Scheduled transfer lifecycle
+ * ACTIVE -> PAUSED (by the owner, or by the scheduler after maxFailures
+ * failed attempts), COMPLETED (one-off transfer paid) or CANCELLED
+ * PAUSED -> ACTIVE (resume) or CANCELLED
+ */
+export enum ScheduledTransferStatus {
+  ACTIVE = 'ACTIVE',
+  PAUSED = 'PAUSED',
+  COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Exactly one of runAt (one-off, ISO 8601) and cron (recurring, 5 fields, UTC)
+ * maxFailures defaults to SCHEDULED_TRANSFER_MAX_FAILURES
+ */
+export interface CreateScheduledTransferRequest {
+  fromWalletId: string;
+  toWalletId: string;
+  amount: string; // String to preserve precision
+  currency?: string;
+  runAt?: string;
+  cron?: string;
+  maxFailures?: number;
+  idempotencyKey: string;
+}
+
+/**
+ * Owner edits; status only toggles ACTIVE <-> PAUSED (cancel is DELETE)
+ * Setting runAt clears cron and vice versa
+ */
+export interface UpdateScheduledTransferRequest {
+  scheduleId: string;
+  amount?: string;
+  runAt?: string;
+  cron?: string;
+  maxFailures?: number;
+  status?: ScheduledTransferStatus;
+}
+
+export interface ScheduledTransferResponse {
+  id: string;
+  fromWalletId: string;
+  toWalletId: string;
+  amount: string;
+  currency: string;
+  runAt: string | null;
+  cron: string | null;
+  status: ScheduledTransferStatus;
+  nextRunAt: string | null;
+  retryAt: string | null;
+  failureCount: number;
+  maxFailures: number;
+  lastRunAt: string | null;
+  lastTransactionId: string | null;
+  lastErrorCode: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Events written to the transactional outbox when a transfer resolves
+ */
+export enum TransferEventType {
+  SUCCEEDED = 'transfer.succeeded',
+  FAILED = 'transfer.failed',
+}
+
+/**
+ * Webhook delivery lifecycle
+ * PENDING (retried with backoff) -> SUCCEEDED, or DEAD after
+ * WEBHOOK_MAX_ATTEMPTS failed attempts; an admin replay moves DEAD -> PENDING
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  DEAD = 'DEAD',
+}
+
+/**
+ * eventTypes defaults to every TransferEventType
+ */
+export interface RegisterWebhookRequest {
+  url: string;
+  eventTypes?: TransferEventType[];
+  description?: string;
+}
+
+/**
+ * secret is only returned when the endpoint is registered
+ */
+export interface WebhookEndpointResponse {
+  id: string;
+  url: string;
+  eventTypes: TransferEventType[];
+  description: string | null;
+  active: boolean;
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  eventId: string;
+  eventType: TransferEventType;
+  endpointId: string;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Deposit into / withdrawal from a single wallet
+ * externalReference: payment-processor ID for the external side of the movement
+ */
+export interface WalletOperationRequest {
+  walletId: string;
+  amount: string; // String to preserve precision
+  currency?: string; // ISO 4217; defaults to the wallet's currency
+  externalReference: string;
+  idempotencyKey: string;
+}
+
+export interface WalletOperationResponse {
+  success: boolean;
+  transactionId: string;
+  message: string;
+  type: TransactionType;
+  walletId: string;
+  externalReference: string | null;
+  currency: string;
+  balance?: string;
+}
+
+export interface CreateWalletRequest {
+  userId: string;
+  currency?: string; // ISO 4217; defaults to BASE_CURRENCY
+  idempotencyKey: string;
+}
+
+/**
+ * Freeze/unfreeze/close a wallet
+ * reason and actor are recorded in wallet_status_changes
+ */
+export interface WalletStatusChangeRequest {
+  walletId: string;
+  reason: string;
+  actor: string;
+}
+
+export interface WalletStatusChangeView {
+  fromStatus: WalletStatus;
+  toStatus: WalletStatus;
+  reason: string;
+  actor: string;
+  createdAt: string;
+}
+
+export interface WalletResponse {
+  id: string;
+  userId: string;
+  currency: string;
+  balance: string;
+  status: WalletStatus;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  statusHistory: WalletStatusChangeView[];
+}
+
+/**
+ * balance: ledger balance; held: reserved by ACTIVE holds
+ * available = balance - held, what debits may spend
+ */
+export interface WalletBalance {
+  walletId: string;
+  balance: string;
+  available: string;
+  held: string;
+  currency: string;
+}
+
+/**
+ * Balance at a past instant (GET /wallet/:walletId/balance?asOf=)
+ * anchorTransactionId: SUCCESS log whose recorded balance-after the figure
+ * starts from; null when replayed from the wallet's opening balance
+ * anchoredAt: when the anchor was applied (its appliedAt)
+ * replayedTransactions: SUCCESS logs after the anchor added on top of it
+ */
+export interface HistoricalBalance {
+  walletId: string;
+  currency: string;
+  asOf: string;
+  balance: string;
+  anchorTransactionId: string | null;
+  anchoredAt: string | null;
+  replayedTransactions: number;
+}
+
+/**
+ * Transaction history, relative to one wallet
+ * sent: the wallet was debited (fromWalletId); received: it was credited
+ */
+export enum TransactionDirection {
+  SENT = 'sent',
+  RECEIVED = 'received',
+}
+
+/**
+ * Filters for GET /wallet/:walletId/transactions
+ * from inclusive, to exclusive (ISO 8601)
+ * minAmount/maxAmount bound the wallet-side amount, ignoring its sign
+ */
+export interface TransactionHistoryQuery {
+  walletId: string;
+  cursor?: string;
+  limit?: number;
+  direction?: TransactionDirection;
+  statuses?: TransactionStatus[];
+  from?: string;
+  to?: string;
+  minAmount?: string;
+  maxAmount?: string;
+}
+
+/**
+ * signedAmount: effect on the wallet in its own currency (negative = debit;
+ * toAmount for cross-currency credits)
+ * counterpartyWalletId: the other wallet, null for deposits and withdrawals
+ */
+export interface TransactionHistoryEntry {
+  id: string;
+  type: TransactionType;
+  status: TransactionStatus;
+  direction: TransactionDirection;
+  signedAmount: string;
+  counterpartyWalletId: string | null;
+  fromWalletId: string | null;
+  toWalletId: string | null;
+  externalReference: string | null;
+  amount: string;
+  currency: string;
+  toAmount: string | null;
+  toCurrency: string | null;
+  batchId: string | null;
+  reversalOfId: string | null;
+  idempotencyKey: string;
+  errorMessage: string | null;
+  metadata: object | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * nextCursor: pass back as ?cursor= for the next (older) page; null on the last
+ */
+export interface TransactionHistoryPage {
+  walletId: string;
+  transactions: TransactionHistoryEntry[];
+  nextCursor: string | null;
+}
+
+export enum StatementFormat {
+  CSV = 'csv',
+  JSON = 'json',
+  TXT = 'txt',
+}
+
+/**
+ * GET /wallet/:walletId/statement
+ * from inclusive, to exclusive (ISO 8601)
+ */
+export interface StatementRequest {
+  walletId: string;
+  from: string;
+  to: string;
+  format?: StatementFormat; // default json
+}
+
+export interface StatementHeader {
+  walletId: string;
+  userId: string;
+  currency: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  openingBalance: string;
+}
+
+/**
+ * One SUCCESS transaction of the period
+ * date: when it was applied (appliedAt)
+ * amount: signed effect on the wallet; balance: the wallet's balance after it
+ */
+export interface StatementLine {
+  date: string;
+  transactionId: string;
+  type: TransactionType;
+  counterpartyWalletId: string | null;
+  externalReference: string | null;
+  amount: string;
+  balance: string;
+}
+
+export interface StatementSummary {
+  transactionCount: number;
+  totalCredits: string;
+  totalDebits: string;
+  closingBalance: string;
+}
+
+/**
+ * One leg of a ledger posting
+ * walletId set: wallet account (running balance tracked)
+ * walletId null: external/equity account named by `account`
+ * amount: signed effect on the account (negative = debit)
+ */
+export interface LedgerPosting {
+  account: string;
+  walletId: string | null;
+  amount: string;
+  balanceAfter: string | null;
+}
+
+/**
+ * Idempotency cache entry stored in Redis
+ * requestHash binds the cached response to the request that produced it
+ */
+export interface CachedIdempotencyResult<T = unknown> {
+  requestHash: string | null;
+  response: T;
+}
+
+/**
+ * Rate-limit budgets, one per group of routes
+ * TRANSFER: money-moving requests; WRITE: other changes; READ: queries
+ */
+export enum RateLimitPolicy {
+  TRANSFER = 'transfer',
+  WRITE = 'write',
+  READ = 'read',
+}
+
+/**
+ * Who a budget is counted against
+ */
+export enum RateLimitDimension {
+  PRINCIPAL = 'principal',
+  WALLET = 'wallet',
+  IP = 'ip',
+}
+
+/**
+ * A sliding window: at most `limit` requests in any `windowMs`
+ */
+export interface RateLimitBucket {
+  key: string;
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * A bucket after a request was counted (or refused)
+ * count: requests in the window, including this one if it was allowed
+ * resetMs: until the oldest counted request leaves the window
+ */
+export interface RateLimitBucketState extends RateLimitBucket {
+  count: number;
+  resetMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // The bucket closest to its limit (the refusing one when not allowed)
+  dimension: RateLimitDimension;
+  bucket: RateLimitBucketState;
+}
+
+/**
+ * Distributed lock ownership
+ * token: random owner id, checked on release/extend (compare-and-delete)
+ * fencingToken: monotonically increasing, null when Redis was unavailable
+ */
+export interface LockHandle {
+  resource: string;
+  token: string;
+  fencingToken: number | null;
+}
+
+/**
+ * A wallet whose stored balance or version disagrees with its history
+ */
+export interface BalanceDrift {
+  walletId: string;
+  userId: string;
+  currency: string;
+  openingBalance: string;
+  expectedBalance: string;
+  recordedBalance: string;
+  delta: string; // recorded - expected
+  lastConsistentTransactionId: string | null;
+  expectedVersion: number;
+  recordedVersion: number;
+  versionMismatch: boolean;
+}
+
+export interface ReconciliationReport {
+  generatedAt: string;
+  walletsChecked: number;
+  driftCount: number;
+  drifts: BalanceDrift[];
+}
+
+export interface PendingRecoveryReport {
+  scanned: number;
+  recoveredAsSuccess: number;
+  recoveredAsFailed: number;
+  skipped: number;
+}
+
+/**
+ * PENDING logs right now (oldestCreatedAt null when there are none)
+ */
+export interface PendingLogStats {
+  count: number;
+  oldestCreatedAt: Date | null;
+}
+
+export interface HoldExpiryReport {
+  scanned: number;
+  expired: number;
+}
+
+/**
+ * fannedOut: outbox events turned into per-endpoint deliveries
+ */
+export interface WebhookDispatchReport {
+  fannedOut: number;
+  delivered: number;
+  retried: number;
+  deadLettered: number;
+}
+
+/**
+ * deferred: outcome unknown (e.g. lock contention), retried under the same key
+ */
+export interface ScheduledTransferRunReport {
+  scanned: number;
+  succeeded: number;
+  failed: number;
+  paused: number;
+  deferred: number;
+}
+
+/**
+ * Per-wallet controls on outgoing money (transfers and withdrawals)
+ */
+export enum WalletLimitType {
+  MAX_SINGLE_TRANSFER = 'MAX_SINGLE_TRANSFER',
+  DAILY_OUTGOING_TOTAL = 'DAILY_OUTGOING_TOTAL',
+  HOURLY_TRANSFER_COUNT = 'HOURLY_TRANSFER_COUNT',
+  MIN_RETAINED_BALANCE = 'MIN_RETAINED_BALANCE',
+}
+
+/**
+ * Limit values; null means unlimited
+ * Amounts are in the wallet's currency; the daily total is per UTC day,
+ * the hourly count is over the last 60 minutes
+ */
+export interface WalletLimits {
+  maxSingleTransfer: string | null;
+  dailyOutgoingTotal: string | null;
+  hourlyTransferCount: number | null;
+  minRetainedBalance: string | null;
+}
+
+/**
+ * Admin update: omitted fields are kept, null removes the limit
+ */
+export interface UpdateWalletLimitsRequest {
+  walletId: string;
+  limits: Partial<WalletLimits>;
+  reason: string;
+  actor: string;
+}
+
+export interface WalletLimitsResponse {
+  walletId: string;
+  currency: string;
+  limits: WalletLimits;
+  history: Array<{
+    previousLimits: WalletLimits;
+    newLimits: WalletLimits;
+    reason: string;
+    actor: string;
+    createdAt: string;
+  }>;
+}
+
+/**
+ * Customer scopes act on wallets the principal owns (Wallet.userId);
+ * admin scopes open the back-office routes. A credential holds one kind only.
+ */
+export enum AuthScope {
+  WALLETS_READ = 'wallets:read',
+  WALLETS_WRITE = 'wallets:write',
+  TRANSFERS_WRITE = 'transfers:write',
+  // Service callers (payment processor integration) only
+  DEPOSITS_WRITE = 'deposits:write',
+  ADMIN_READ = 'admin:read',
+  ADMIN_WRITE = 'admin:write',
+}
+
+/**
+ * API_KEY: X-Api-Key header, stored as a SHA-256 hash
+ * HMAC: X-Key-Id + signed timestamp and nonce, replay-protected
+ */
+export enum ApiCredentialType {
+  API_KEY = 'API_KEY',
+  HMAC = 'HMAC',
+}
+
+/**
+ * The authenticated caller of a request
+ * id: matched against Wallet.userId for ownership checks
+ */
+export interface AuthPrincipal {
+  id: string;
+  credentialId: string;
+  type: ApiCredentialType;
+  scopes: AuthScope[];
+}
+
+export interface CreateApiCredentialRequest {
+  principalId: string;
+  type?: ApiCredentialType; // default API_KEY
+  scopes: AuthScope[];
+  description?: string;
+}
+
+/**
+ * apiKey (API_KEY) or secret (HMAC) is only returned on creation
+ */
+export interface ApiCredentialResponse {
+  id: string;
+  principalId: string;
+  type: ApiCredentialType;
+  scopes: AuthScope[];
+  description: string | null;
+  active: boolean;
+  apiKey?: string;
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export class TransferError extends Error {
   constructor(
     message: string,
     public statusCode: number = 400,
-    public code?: string
+    public code?: string,
+    public details?: Record<string, unknown>
   ) {
     super(message);
     this.name = 'TransferError';
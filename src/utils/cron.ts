@@ -0,0 +1,178 @@
+import { TransferError } from '../types';
+
+/**
+ * Minimal 5-field cron expressions, evaluated in UTC
+ *
+ *   minute hour day-of-month month day-of-week
+ *   "0 9 1 * *"    09:00 on the 1st of every month
+ *   "30 8 * * 1-5" 08:30 Monday to Friday
+ *
+ * Each field takes *, a number, a range (a-b) or a list (a,b,c), and a
+ * "/n" step suffix on * or a range. Day-of-week runs 0-7 with both 0 and 7
+ * meaning Sunday.
+ * As in classic cron, when day-of-month and day-of-week are both
+ * restricted a day matches if either does.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 },
+] as const;
+
+// Long enough to reach the next 29 February; "0 0 30 2 *" never matches
+const MAX_SEARCH_YEARS = 8;
+
+const MINUTE_MS = 60 * 1000;
+
+function invalid(expression: string, reason: string): TransferError {
+  return new TransferError(
+    `Invalid cron expression "${expression}": ${reason}`,
+    400,
+    'INVALID_SCHEDULE'
+  );
+}
+
+function parseNumber(value: string, expression: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw invalid(expression, `"${value}" is not a number`);
+  }
+  return parseInt(value);
+}
+
+function parseField(
+  source: string,
+  field: (typeof FIELDS)[number],
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [rangePart, stepPart, ...rest] = part.split('/');
+    if (rest.length > 0 || rangePart === '') {
+      throw invalid(expression, `malformed ${field.name} field "${source}"`);
+    }
+
+    const step = stepPart === undefined ? 1 : parseNumber(stepPart, expression);
+    if (step < 1) {
+      throw invalid(expression, `${field.name} step must be at least 1`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-');
+      start = parseNumber(from, expression);
+      end = parseNumber(to, expression);
+    } else {
+      start = parseNumber(rangePart, expression);
+      // "5/15" means 5, 20, 35, ... as in Vixie cron
+      end = stepPart === undefined ? start : field.max;
+    }
+
+    if (start < field.min || end > field.max || start > end) {
+      throw invalid(
+        expression,
+        `${field.name} must be within ${field.min}-${field.max} (got "${part}")`
+      );
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = String(expression).trim().split(/\s+/);
+
+  if (parts.length !== FIELDS.length) {
+    throw invalid(expression, `expected ${FIELDS.length} fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+    parseField(part, FIELDS[index], expression)
+  );
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // "*" and "*/n" leave the field unrestricted for the either-day rule
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First time strictly after `after` that the schedule fires (whole minutes)
+ * Throws INVALID_SCHEDULE for expressions that never fire, e.g. 31 February
+ */
+export function nextOccurrence(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = Date.UTC(date.getUTCFullYear() + MAX_SEARCH_YEARS, 0, 1);
+
+  // Coarsest field first: skip whole months, days and hours that cannot match
+  while (date.getTime() < limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    return date;
+  }
+
+  throw new TransferError('Cron expression never fires', 400, 'INVALID_SCHEDULE');
+}
@@ -0,0 +1,12 @@
+/**
+ * Minimal RFC 4180 CSV encoding
+ * Fields containing commas, quotes or newlines are quoted, quotes doubled
+ */
+export function toCsvRow(values: Array<string | number | boolean | null | undefined>): string {
+  return values
+    .map((value) => {
+      const text = value === null || value === undefined ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',');
+}
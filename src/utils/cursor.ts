@@ -0,0 +1,42 @@
+import { TransferError } from '../types';
+
+/**
+ * Opaque keyset-pagination cursors
+ *
+ * A cursor is the (createdAt, id) of the last row on a page, encoded as
+ * base64url JSON. The next page continues strictly after that row in
+ * (createdAt DESC, id DESC) order, so rows inserted meanwhile never shift
+ * or repeat entries the way OFFSET paging would. Clients must treat the
+ * string as opaque.
+ */
+export interface HistoryCursor {
+  createdAt: Date;
+  id: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function encodeCursor(cursor: HistoryCursor): string {
+  return Buffer.from(
+    JSON.stringify({ t: cursor.createdAt.toISOString(), id: cursor.id })
+  ).toString('base64url');
+}
+
+export function decodeCursor(value: string): HistoryCursor {
+  let decoded: { t?: unknown; id?: unknown } | null;
+
+  try {
+    decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    decoded = null;
+  }
+
+  const { t, id } = decoded !== null && typeof decoded === 'object' ? decoded : {};
+  const createdAt = new Date(typeof t === 'string' ? t : NaN);
+
+  if (Number.isNaN(createdAt.getTime()) || typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+    throw new TransferError('Invalid pagination cursor', 400, 'INVALID_CURSOR');
+  }
+
+  return { createdAt, id };
+}
@@ -0,0 +1,71 @@
+import { TransferError } from '../types';
+import { Money, MONEY_SCALE } from './money';
+
+/**
+ * Exact FX rate arithmetic
+ *
+ * Rates are held as bigint units of 10^-10, matching the DECIMAL(20,10)
+ * rate columns on fx_quotes. Converted amounts are truncated (never rounded
+ * up) to the target currency's scale, so a conversion never credits more
+ * than the quoted rate allows.
+ */
+export const RATE_SCALE = 10;
+
+const RATE_FACTOR = BigInt(10) ** BigInt(RATE_SCALE);
+const BPS_FACTOR = BigInt(10000);
+
+const RATE_PATTERN = /^(\d+)(?:\.(\d+))?$/;
+
+/**
+ * Parse a positive decimal rate (e.g. "0.9215", "151.37")
+ */
+export function parseRate(value: string | number): bigint {
+  const match = RATE_PATTERN.exec(String(value).trim());
+  const [, integerPart = '', rawFraction = ''] = match || [];
+  const fractionPart = rawFraction.replace(/0+$/, '');
+
+  if (!match || fractionPart.length > RATE_SCALE) {
+    throw new TransferError(
+      `FX rate must be a decimal with at most ${RATE_SCALE} decimal places`,
+      500,
+      'INVALID_FX_RATE'
+    );
+  }
+
+  const units = BigInt(integerPart) * RATE_FACTOR + BigInt(fractionPart.padEnd(RATE_SCALE, '0'));
+
+  if (units <= BigInt(0)) {
+    throw new TransferError('FX rate must be positive', 500, 'INVALID_FX_RATE');
+  }
+
+  return units;
+}
+
+/**
+ * Fixed 10-decimal string, the format stored in DECIMAL(20,10) columns
+ */
+export function formatRate(units: bigint): string {
+  const integerPart = units / RATE_FACTOR;
+  const fractionPart = (units % RATE_FACTOR).toString().padStart(RATE_SCALE, '0');
+
+  return `${integerPart}.${fractionPart}`;
+}
+
+/**
+ * Customer rate: the mid rate less the spread (in basis points), truncated
+ */
+export function applySpread(midRate: string, spreadBps: number): string {
+  const units = (parseRate(midRate) * (BPS_FACTOR - BigInt(spreadBps))) / BPS_FACTOR;
+
+  return formatRate(units);
+}
+
+/**
+ * amount x rate, truncated to `scale` fractional digits
+ */
+export function convertAmount(amount: Money, rate: string, scale: number): Money {
+  const units = (amount.units * parseRate(rate)) / RATE_FACTOR;
+  const step = BigInt(10) ** BigInt(MONEY_SCALE - Math.min(scale, MONEY_SCALE));
+
+  return Money.fromUnits(units - (units % step));
+}
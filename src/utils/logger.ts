@@ -0,0 +1,201 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Structured JSON logging
+ *
+ * One JSON object per line: timestamp, level, message, the current log
+ * context, then the caller's fields. The context (request ID, idempotency
+ * key, wallet IDs, transaction ID) follows the request through every
+ * await via AsyncLocalStorage, so code deep in the transfer flow logs it
+ * without passing it around.
+ *
+ * The configured instance is src/config/logger.ts.
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface LogContext {
+  requestId?: string;
+  idempotencyKey?: string;
+  walletIds?: string[];
+  transactionId?: string;
+  traceId?: string;
+}
+
+export interface LoggerOptions {
+  level: LogLevel | 'silent';
+  redact: string[];
+  // Where lines go; stdout, and stderr for warn/error, by default
+  write?: (line: string, level: LogLevel) => void;
+}
+
+export const REDACTED = '[REDACTED]';
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+const REDACT_GROUPS: Record<string, string[]> = {
+  amounts: [
+    'amount',
+    'toAmount',
+    'convertedAmount',
+    'balance',
+    'availableBalance',
+    'heldAmount',
+    'fromBalance',
+    'toBalance',
+    'fromBalanceAfter',
+    'toBalanceAfter',
+  ],
+  userIds: ['userId', 'principalId'],
+};
+
+// Nested objects deeper than this are logged as a placeholder
+const MAX_DEPTH = 6;
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run `run` with `context` added to the current log context
+ * The caller's context is left as it was when `run` returns
+ */
+export function runWithLogContext<T>(context: LogContext, run: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, run);
+}
+
+/**
+ * Add fields to the current log context (no-op outside runWithLogContext)
+ */
+export function addLogContext(context: LogContext): void {
+  const store = storage.getStore();
+  if (store) {
+    Object.assign(store, context);
+  }
+}
+
+export function getLogContext(): LogContext {
+  return { ...storage.getStore() };
+}
+
+/**
+ * Expand LOG_REDACT into field names
+ */
+export function parseRedactConfig(value: string): string[] {
+  const entries = value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+
+  if (entries.includes('none')) {
+    return [];
+  }
+
+  return [...new Set(entries.flatMap((entry) => REDACT_GROUPS[entry] || [entry]))];
+}
+
+function serializeError(error: Error): LogFields {
+  const { code, statusCode } = error as Error & { code?: unknown; statusCode?: unknown };
+
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined && { code }),
+    ...(statusCode !== undefined && { statusCode }),
+    ...(process.env.NODE_ENV === 'development' && { stack: error.stack }),
+  };
+}
+
+/**
+ * Copy of `value` with redacted fields masked and errors made serializable
+ */
+export function redact(value: unknown, fields: ReadonlySet<string>, depth: number = 0): unknown {
+  if (value instanceof Error) {
+    return redact(serializeError(value), fields, depth);
+  }
+
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '[Object]';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, fields, depth + 1));
+  }
+
+  const out: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    out[key] =
+      fields.has(key) && item !== null && item !== undefined
+        ? REDACTED
+        : redact(item, fields, depth + 1);
+  }
+  return out;
+}
+
+function writeToConsole(line: string, level: LogLevel): void {
+  const stream = level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+}
+
+export class Logger {
+  private readonly threshold: number;
+  private readonly redactFields: ReadonlySet<string>;
+  private readonly write: (line: string, level: LogLevel) => void;
+
+  constructor(options: LoggerOptions) {
+    if (!Object.prototype.hasOwnProperty.call(LEVELS, options.level)) {
+      throw new Error(`Unknown log level "${options.level}"`);
+    }
+    this.threshold = LEVELS[options.level];
+    this.redactFields = new Set(options.redact);
+    this.write = options.write || writeToConsole;
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVELS[level] >= this.threshold;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry = redact(
+      {
+        timestamp: new Date().toISOString(),
+        level,
+        message,
+        ...getLogContext(),
+        ...fields,
+      },
+      this.redactFields
+    );
+
+    this.write(JSON.stringify(entry), level);
+  }
+}
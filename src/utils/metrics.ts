@@ -0,0 +1,217 @@
+/**
+ * Minimal Prometheus metrics: counters, gauges and histograms with labels,
+ * rendered in the text exposition format (version 0.0.4)
+ *
+ * Only what /metrics needs; label values are kept per series in memory, so
+ * labels must have a small, fixed set of values (codes, outcomes, routes).
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export type Labels = Record<string, string | number>;
+
+interface MetricOptions {
+  name: string;
+  help: string;
+  labelNames?: string[];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+abstract class Metric {
+  readonly name: string;
+  protected readonly help: string;
+  protected readonly labelNames: string[];
+
+  constructor(options: MetricOptions) {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(options.name)) {
+      throw new Error(`Invalid metric name "${options.name}"`);
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames || [];
+  }
+
+  abstract readonly type: string;
+
+  render(): string {
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    return `# HELP ${this.name} ${help}\n# TYPE ${this.name} ${this.type}\n${this.renderSamples()}`;
+  }
+
+  protected abstract renderSamples(): string;
+
+  // Series key: label values in labelNames order
+  protected key(labels: Labels = {}): string {
+    const unknown = Object.keys(labels).filter((name) => !this.labelNames.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown label(s) ${unknown.join(', ')} for metric ${this.name}`);
+    }
+    return JSON.stringify(this.labelNames.map((name) => String(labels[name] ?? '')));
+  }
+
+  protected formatLabels(key: string, extra: Array<[string, string]> = []): string {
+    const values: string[] = JSON.parse(key);
+    const pairs = [
+      ...this.labelNames.map((name, i): [string, string] => [name, values[i]]),
+      ...extra,
+    ];
+
+    if (pairs.length === 0) {
+      return '';
+    }
+    return `{${pairs.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private readonly values = new Map<string, number>();
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.key(labels)) || 0;
+  }
+
+  protected renderSamples(): string {
+    return [...this.values]
+      .map(([key, value]) => `${this.name}${this.formatLabels(key)} ${formatValue(value)}\n`)
+      .join('');
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private readonly values = new Map<string, number>();
+
+  set(labels: Labels, value: number): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.values.get(this.key(labels));
+  }
+
+  protected renderSamples(): string {
+    return [...this.values]
+      .map(([key, value]) => `${this.name}${this.formatLabels(key)} ${formatValue(value)}\n`)
+      .join('');
+  }
+}
+
+interface HistogramSeries {
+  buckets: number[]; // non-cumulative counts per upper bound
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private readonly upperBounds: number[];
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(options: MetricOptions & { buckets?: number[] }) {
+    super(options);
+    this.upperBounds = [...(options.buckets || DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+
+    if (!series) {
+      series = { buckets: this.upperBounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const index = this.upperBounds.findIndex((bound) => value <= bound);
+    if (index >= 0) {
+      series.buckets[index]++;
+    }
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start timing; call the returned function to observe the elapsed seconds
+   */
+  startTimer(labels: Labels = {}): (endLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+
+    return (endLabels: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(this.key(labels))?.count || 0;
+  }
+
+  protected renderSamples(): string {
+    let out = '';
+
+    for (const [key, series] of this.series) {
+      let cumulative = 0;
+
+      this.upperBounds.forEach((bound, i) => {
+        cumulative += series.buckets[i];
+        const labels = this.formatLabels(key, [['le', formatValue(bound)]]);
+        out += `${this.name}_bucket${labels} ${cumulative}\n`;
+      });
+      out += `${this.name}_bucket${this.formatLabels(key, [['le', '+Inf']])} ${series.count}\n`;
+      out += `${this.name}_sum${this.formatLabels(key)} ${formatValue(series.sum)}\n`;
+      out += `${this.name}_count${this.formatLabels(key)} ${series.count}\n`;
+    }
+
+    return out;
+  }
+}
+
+/**
+ * A set of metrics rendered together
+ * Collectors run before each render, to refresh gauges sampled on scrape
+ */
+export class Registry {
+  private readonly metrics = new Map<string, Metric>();
+  private readonly collectors: Array<() => Promise<void> | void> = [];
+
+  register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  addCollector(collect: () => Promise<void> | void): void {
+    this.collectors.push(collect);
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map((collect) => collect()));
+
+    return [...this.metrics.values()].map((metric) => metric.render()).join('');
+  }
+}
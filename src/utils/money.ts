@@ -0,0 +1,134 @@
+import { TransferError } from '../types';
+
+/**
+ * Exact fixed-scale decimal arithmetic for money
+ *
+ * Amounts are held as bigint minor units (1 unit = 0.0001), matching the
+ * DECIMAL(19,4) columns on wallets and transaction_logs. No value ever
+ * passes through a JS float, so balances near 10^15 stay exact:
+ *
+ *   parseFloat('999999999999999.9999') -> 1000000000000000
+ *   Money.parse('999999999999999.9999') -> 9999999999999999999n units
+ */
+export const MONEY_SCALE = 4;
+
+const SCALE_FACTOR = BigInt(10) ** BigInt(MONEY_SCALE);
+
+// DECIMAL(19,4): 15 integer digits + 4 fractional digits
+const MAX_UNITS = BigInt(10) ** BigInt(19) - BigInt(1);
+
+const DECIMAL_PATTERN = /^([+-])?(\d+)(?:\.(\d+))?$/;
+
+export class Money {
+  private constructor(public readonly units: bigint) {
+    if (units > MAX_UNITS || units < -MAX_UNITS) {
+      throw new TransferError(
+        'Amount exceeds the supported range of DECIMAL(19,4)',
+        400,
+        'AMOUNT_OUT_OF_RANGE'
+      );
+    }
+  }
+
+  static readonly ZERO = new Money(BigInt(0));
+
+  /**
+   * Parse a decimal string (e.g. "100", "-0.5", "123.4567")
+   *
+   * Rejects exponents, more than `scale` fractional digits (default 4, the
+   * storage scale; pass a currency's scale to enforce its minor unit) and
+   * values outside the DECIMAL(19,4) range. DB values may arrive as numbers
+   * depending on driver settings, so numbers are accepted via their string form.
+   */
+  static parse(value: string | number, scale: number = MONEY_SCALE): Money {
+    const match = DECIMAL_PATTERN.exec(String(value).trim());
+
+    if (!match) {
+      throw new TransferError(
+        'Amount must be a valid decimal number',
+        400,
+        'INVALID_AMOUNT'
+      );
+    }
+
+    const [, sign, integerPart, rawFraction = ''] = match;
+
+    // Trailing zeros carry no precision: "100.0000" is a valid 2-decimal amount
+    const fractionPart = rawFraction.replace(/0+$/, '');
+
+    if (fractionPart.length > Math.min(scale, MONEY_SCALE)) {
+      throw new TransferError(
+        `Amount supports at most ${Math.min(scale, MONEY_SCALE)} decimal places`,
+        400,
+        'AMOUNT_PRECISION_EXCEEDED'
+      );
+    }
+
+    const units =
+      BigInt(integerPart) * SCALE_FACTOR +
+      BigInt(fractionPart.padEnd(MONEY_SCALE, '0'));
+
+    return new Money(sign === '-' ? -units : units);
+  }
+
+  static fromUnits(units: bigint): Money {
+    return new Money(units);
+  }
+
+  plus(other: Money): Money {
+    return new Money(this.units + other.units);
+  }
+
+  minus(other: Money): Money {
+    return new Money(this.units - other.units);
+  }
+
+  negate(): Money {
+    return new Money(-this.units);
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    if (this.units === other.units) return 0;
+    return this.units < other.units ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.units === other.units;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.units < other.units;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.units > other.units;
+  }
+
+  isZero(): boolean {
+    return this.units === BigInt(0);
+  }
+
+  isPositive(): boolean {
+    return this.units > BigInt(0);
+  }
+
+  isNegative(): boolean {
+    return this.units < BigInt(0);
+  }
+
+  /**
+   * Fixed 4-decimal string, the format stored in DECIMAL(19,4) columns
+   */
+  toString(): string {
+    const negative = this.units < BigInt(0);
+    const abs = negative ? -this.units : this.units;
+    const integerPart = abs / SCALE_FACTOR;
+    const fractionPart = (abs % SCALE_FACTOR).toString().padStart(MONEY_SCALE, '0');
+
+    return `${negative ? '-' : ''}${integerPart}.${fractionPart}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
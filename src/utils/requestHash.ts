@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+
+/**
+ * Canonical request fingerprinting for idempotency keys
+ *
+ * An idempotency key is only safe to replay if the replayed request is
+ * the same request. We store a hash of the canonical request body next to
+ * every key (Redis cache entry + transaction_logs.requestHash) and compare
+ * it on replay.
+ *
+ * Canonical form: JSON with keys sorted recursively, so property order in
+ * the client payload never changes the hash.
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+
+  return value;
+}
+
+/**
+ * SHA-256 hex digest of the canonical request payload
+ */
+export function computeRequestHash(payload: Record<string, unknown>): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(canonicalize(payload)))
+    .digest('hex');
+}
@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import { StatementFormat, StatementHeader, StatementLine, StatementSummary } from '../types';
+import { toCsvRow } from './csv';
+
+/**
+ * Statement rendering in CSV, JSON and plain text
+ *
+ * A statement is written chunk by chunk (begin, one line per transaction,
+ * end) so it can be streamed. It ends with a checksum line (followed only
+ * by the closing brace in JSON) holding the SHA-256 of every byte before it:
+ *
+ *   csv   checksum,sha256:<hex>
+ *   json    "checksum": "sha256:<hex>"
+ *   txt   Checksum: sha256:<hex>
+ *
+ * verifyStatementChecksum checks a saved file against it.
+ */
+const CSV_COLUMNS = [
+  'record',
+  'date',
+  'transactionId',
+  'type',
+  'counterpartyWalletId',
+  'externalReference',
+  'amount',
+  'balance',
+];
+
+const CHECKSUM_LINE = /^(?:checksum,|Checksum: | {2}"checksum": ")sha256:([0-9a-f]{64})"?$/gm;
+
+const TXT_RULE = '-'.repeat(118);
+
+// Fixed-width columns: date, description, type, amount, balance
+function txtRow(date: string, description: string, type: string, amount: string, balance: string) {
+  return (
+    date.padEnd(26) +
+    description.padEnd(38) +
+    type.padEnd(14) +
+    amount.padStart(20) +
+    balance.padStart(20) +
+    '\n'
+  );
+}
+
+// Opening/closing balance rows leave the transaction columns empty
+function csvBalanceRow(record: string, date: string, balance: string): string {
+  return `${toCsvRow([record, date, null, null, null, null, null, balance])}\n`;
+}
+
+export class StatementWriter {
+  private readonly hash = crypto.createHash('sha256');
+  private lines = 0;
+  private header: StatementHeader | null = null;
+
+  constructor(private readonly format: StatementFormat) {}
+
+  begin(header: StatementHeader): string {
+    this.header = header;
+
+    switch (this.format) {
+      case StatementFormat.CSV:
+        return this.emit(
+          `${toCsvRow(CSV_COLUMNS)}\n` + csvBalanceRow('opening', header.from, header.openingBalance)
+        );
+      case StatementFormat.JSON: {
+        const fields = Object.entries(header)
+          .map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)},\n`)
+          .join('');
+        return this.emit(`{\n${fields}  "transactions": [`);
+      }
+      case StatementFormat.TXT:
+        return this.emit(
+          'ACCOUNT STATEMENT\n\n' +
+            `Wallet:    ${header.walletId}\n` +
+            `Owner:     ${header.userId}\n` +
+            `Currency:  ${header.currency}\n` +
+            `Period:    ${header.from} to ${header.to}\n` +
+            `Generated: ${header.generatedAt}\n\n` +
+            txtRow('Date', 'Transaction', 'Type', 'Amount', 'Balance') +
+            `${TXT_RULE}\n` +
+            txtRow('', 'Opening balance', '', '', header.openingBalance)
+        );
+    }
+  }
+
+  line(line: StatementLine): string {
+    this.lines++;
+
+    switch (this.format) {
+      case StatementFormat.CSV:
+        return this.emit(
+          `${toCsvRow([
+            'transaction',
+            line.date,
+            line.transactionId,
+            line.type,
+            line.counterpartyWalletId,
+            line.externalReference,
+            line.amount,
+            line.balance,
+          ])}\n`
+        );
+      case StatementFormat.JSON:
+        return this.emit(`${this.lines > 1 ? ',' : ''}\n    ${JSON.stringify(line)}`);
+      case StatementFormat.TXT:
+        return this.emit(txtRow(line.date, line.transactionId, line.type, line.amount, line.balance));
+    }
+  }
+
+  /**
+   * Closing rows and the checksum line; the writer is done afterwards
+   */
+  end(summary: StatementSummary): string {
+    const header = this.header as StatementHeader;
+    let body: string;
+
+    switch (this.format) {
+      case StatementFormat.CSV:
+        body = csvBalanceRow('closing', header.to, summary.closingBalance);
+        break;
+      case StatementFormat.JSON:
+        body =
+          `${this.lines > 0 ? '\n  ' : ''}],\n` +
+          Object.entries(summary)
+            .map(([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)},\n`)
+            .join('');
+        break;
+      case StatementFormat.TXT:
+        body =
+          txtRow('', 'Closing balance', '', '', summary.closingBalance) +
+          `${TXT_RULE}\n\n` +
+          `Transactions:  ${summary.transactionCount}\n` +
+          `Total credits: ${summary.totalCredits}\n` +
+          `Total debits:  ${summary.totalDebits}\n\n`;
+        break;
+    }
+
+    const checksum = `sha256:${this.hash.update(body).digest('hex')}`;
+
+    switch (this.format) {
+      case StatementFormat.CSV:
+        return `${body}${toCsvRow(['checksum', checksum])}\n`;
+      case StatementFormat.JSON:
+        return `${body}  "checksum": "${checksum}"\n}\n`;
+      case StatementFormat.TXT:
+        return `${body}Checksum: ${checksum}\n`;
+    }
+  }
+
+  private emit(chunk: string): string {
+    this.hash.update(chunk);
+    return chunk;
+  }
+}
+
+/**
+ * True when the statement's checksum line matches the content before it
+ */
+export function verifyStatementChecksum(content: string): boolean {
+  const matches = [...content.matchAll(CHECKSUM_LINE)];
+  const last = matches[matches.length - 1];
+
+  if (!last || last.index === undefined) {
+    return false;
+  }
+
+  const digest = crypto
+    .createHash('sha256')
+    .update(content.slice(0, last.index))
+    .digest('hex');
+
+  return digest === last[1];
+}
@@ -0,0 +1,434 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+/**
+ * Minimal OpenTelemetry-compatible tracing
+ *
+ * Spans follow the OpenTelemetry data model (trace/span IDs, kinds,
+ * attributes, status, exception events) and propagate with W3C Trace
+ * Context (traceparent), so traces join those of other services and can
+ * be sent to any OTLP/HTTP collector. The active span follows async work
+ * through AsyncLocalStorage.
+ *
+ * Exporters: in-memory (tests), console (one JSON line per span) and
+ * OTLP/HTTP JSON. A tracer without an exporter starts no spans at all.
+ * The configured instance is src/config/tracing.ts.
+ */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+export type AttributeValue = string | number | boolean;
+
+// Undefined values are skipped, so optional attributes can be passed as-is
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+export interface SpanContext {
+  traceId: string; // 32 hex
+  spanId: string; // 16 hex
+  sampled: boolean;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  // Remote parent (extracted traceparent); defaults to the active span
+  parent?: SpanContext | null;
+}
+
+export interface SpanEvent {
+  name: string;
+  timeUnixNano: bigint;
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface SpanExporter {
+  export(spans: Span[]): void;
+  // Send whatever is buffered (on shutdown)
+  flush?(): Promise<void>;
+}
+
+const TRACEPARENT_FORMAT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * W3C traceparent header -> remote span context (null if absent or invalid)
+ */
+export function parseTraceparent(header: string | undefined): SpanContext | null {
+  const match = header ? TRACEPARENT_FORMAT.exec(header.trim().toLowerCase()) : null;
+  if (!match) {
+    return null;
+  }
+
+  const [, version, traceId, spanId, flags, rest] = match;
+  if (
+    version === 'ff' ||
+    (version === '00' && rest !== undefined) ||
+    /^0+$/.test(traceId) ||
+    /^0+$/.test(spanId)
+  ) {
+    return null;
+  }
+
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1 };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.sampled ? '01' : '00'}`;
+}
+
+function nowUnixNano(): bigint {
+  return BigInt(Date.now()) * 1_000_000n;
+}
+
+export class Span {
+  readonly context: SpanContext;
+  readonly parentSpanId: string | null;
+  readonly kind: SpanKind;
+  readonly startTimeUnixNano: bigint;
+  readonly attributes: Record<string, AttributeValue> = {};
+  readonly events: SpanEvent[] = [];
+  name: string;
+  status: { code: SpanStatusCode; message?: string } = { code: 'unset' };
+  endTimeUnixNano: bigint | null = null;
+
+  // Start on the monotonic clock, so durations survive wall-clock changes
+  private readonly startHrTime = process.hrtime.bigint();
+
+  constructor(
+    name: string,
+    context: SpanContext,
+    parentSpanId: string | null,
+    options: SpanOptions,
+    private readonly onEnd: (span: Span) => void
+  ) {
+    this.name = name;
+    this.context = context;
+    this.parentSpanId = parentSpanId;
+    this.kind = options.kind || 'internal';
+    this.startTimeUnixNano = nowUnixNano();
+    this.setAttributes(options.attributes || {});
+  }
+
+  /**
+   * Unsampled spans still carry IDs to propagate, but record nothing
+   */
+  isRecording(): boolean {
+    return this.context.sampled && this.endTimeUnixNano === null;
+  }
+
+  get durationMs(): number | null {
+    return this.endTimeUnixNano === null
+      ? null
+      : Number(this.endTimeUnixNano - this.startTimeUnixNano) / 1e6;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (this.isRecording() && value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Attributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    if (this.isRecording()) {
+      this.status = message === undefined ? { code } : { code, message };
+    }
+    return this;
+  }
+
+  /**
+   * Exception event (type, message, code) and error status
+   */
+  recordException(error: unknown): this {
+    if (!this.isRecording()) {
+      return this;
+    }
+
+    const err = error instanceof Error ? error : new Error(String(error));
+    const code = (err as Error & { code?: unknown }).code;
+    this.events.push({
+      name: 'exception',
+      timeUnixNano: nowUnixNano(),
+      attributes: {
+        'exception.type': err.name,
+        'exception.message': err.message,
+        ...(typeof code === 'string' && { 'exception.code': code }),
+      },
+    });
+    return this.setStatus('error', err.message);
+  }
+
+  end(): void {
+    if (this.endTimeUnixNano !== null) {
+      return;
+    }
+
+    const elapsed = process.hrtime.bigint() - this.startHrTime;
+    this.endTimeUnixNano = this.startTimeUnixNano + elapsed;
+
+    if (this.context.sampled) {
+      this.onEnd(this);
+    }
+  }
+}
+
+export interface TracerOptions {
+  exporter?: SpanExporter | null;
+  // Share of new traces recorded (0-1); requests carrying a traceparent
+  // follow their caller's sampling decision
+  sampleRatio?: number;
+}
+
+export class Tracer {
+  private exporter: SpanExporter | null;
+  private readonly sampleRatio: number;
+  private readonly storage = new AsyncLocalStorage<Span>();
+
+  constructor(options: TracerOptions = {}) {
+    this.exporter = options.exporter || null;
+    this.sampleRatio = Math.min(1, Math.max(0, options.sampleRatio ?? 1));
+  }
+
+  get enabled(): boolean {
+    return this.exporter !== null;
+  }
+
+  /**
+   * Replace the exporter (null turns tracing off); mainly for tests
+   */
+  useExporter(exporter: SpanExporter | null): void {
+    this.exporter = exporter;
+  }
+
+  getActiveSpan(): Span | undefined {
+    return this.enabled ? this.storage.getStore() : undefined;
+  }
+
+  /**
+   * Start a span; it is not active until passed to withSpan
+   * Returns undefined when tracing is off
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span | undefined {
+    const exporter = this.exporter;
+    if (!exporter) {
+      return undefined;
+    }
+
+    const parent =
+      options.parent !== undefined ? options.parent : this.storage.getStore()?.context || null;
+    const context: SpanContext = {
+      traceId: parent ? parent.traceId : crypto.randomBytes(16).toString('hex'),
+      spanId: crypto.randomBytes(8).toString('hex'),
+      sampled: parent ? parent.sampled : Math.random() < this.sampleRatio,
+    };
+
+    return new Span(name, context, parent ? parent.spanId : null, options, (span) =>
+      exporter.export([span])
+    );
+  }
+
+  /**
+   * Run `run` with `span` as the active span
+   */
+  withSpan<T>(span: Span | undefined, run: () => T): T {
+    return span ? this.storage.run(span, run) : run();
+  }
+
+  /**
+   * Run `run` in a new active span, ended when its promise settles
+   * (with the exception recorded if it rejects)
+   */
+  async startActiveSpan<T>(
+    name: string,
+    options: SpanOptions,
+    run: (span: Span | undefined) => Promise<T>
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+
+    try {
+      return await this.withSpan(span, () => run(span));
+    } catch (error) {
+      span?.recordException(error);
+      throw error;
+    } finally {
+      span?.end();
+    }
+  }
+
+  /**
+   * Add the active span's traceparent to outgoing request headers
+   */
+  inject(headers: Record<string, string>): Record<string, string> {
+    const span = this.getActiveSpan();
+    return span ? { ...headers, traceparent: formatTraceparent(span.context) } : headers;
+  }
+
+  async flush(): Promise<void> {
+    await this.exporter?.flush?.();
+  }
+}
+
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: Span[] = [];
+
+  export(spans: Span[]): void {
+    this.spans.push(...spans);
+  }
+
+  getFinishedSpans(): Span[] {
+    return [...this.spans];
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+export class ConsoleSpanExporter implements SpanExporter {
+  constructor(
+    private readonly write: (line: string) => void = (line) => process.stdout.write(`${line}\n`)
+  ) {}
+
+  export(spans: Span[]): void {
+    for (const span of spans) {
+      this.write(
+        JSON.stringify({
+          span: span.name,
+          kind: span.kind,
+          traceId: span.context.traceId,
+          spanId: span.context.spanId,
+          parentSpanId: span.parentSpanId,
+          startTime: new Date(Number(span.startTimeUnixNano / 1_000_000n)).toISOString(),
+          durationMs: span.durationMs,
+          status: span.status,
+          attributes: span.attributes,
+          ...(span.events.length > 0 && {
+            events: span.events.map(({ name, attributes }) => ({ name, attributes })),
+          }),
+        })
+      );
+    }
+  }
+}
+
+export interface OtlpHttpExporterOptions {
+  url: string; // e.g. http://localhost:4318/v1/traces
+  serviceName: string;
+  headers?: Record<string, string>;
+  // Spans are sent in batches of up to maxBatchSize, at least every intervalMs
+  maxBatchSize?: number;
+  intervalMs?: number;
+  // Spans beyond this many unsent are dropped (collector down)
+  maxQueueSize?: number;
+  timeoutMs?: number;
+  onError?: (error: unknown) => void;
+}
+
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value:
+      typeof value === 'boolean'
+        ? { boolValue: value }
+        : typeof value === 'number'
+          ? Number.isInteger(value)
+            ? { intValue: String(value) }
+            : { doubleValue: value }
+          : { stringValue: value },
+  }));
+}
+
+/**
+ * OTLP/HTTP with the JSON encoding, batched
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private queue: Span[] = [];
+  private readonly timer: NodeJS.Timeout;
+  private readonly maxBatchSize: number;
+  private readonly maxQueueSize: number;
+
+  constructor(private readonly options: OtlpHttpExporterOptions) {
+    this.maxBatchSize = options.maxBatchSize || 512;
+    this.maxQueueSize = options.maxQueueSize || 2048;
+    this.timer = setInterval(() => void this.flush(), options.intervalMs || 5000);
+    this.timer.unref();
+  }
+
+  export(spans: Span[]): void {
+    const room = this.maxQueueSize - this.queue.length;
+    this.queue.push(...spans.slice(0, Math.max(0, room)));
+
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.maxBatchSize);
+
+      try {
+        const response = await fetch(this.options.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...this.options.headers },
+          body: JSON.stringify(this.encode(batch)),
+          signal: AbortSignal.timeout(this.options.timeoutMs || 10000),
+        });
+        await response.arrayBuffer().catch(() => undefined);
+
+        if (!response.ok) {
+          throw new Error(`OTLP endpoint responded with HTTP ${response.status}`);
+        }
+      } catch (error) {
+        this.options.onError?.(error);
+        return;
+      }
+    }
+  }
+
+  private encode(spans: Span[]) {
+    return {
+      resourceSpans: [
+        {
+          resource: {
+            attributes: toOtlpAttributes({ 'service.name': this.options.serviceName }),
+          },
+          scopeSpans: [
+            {
+              scope: { name: this.options.serviceName },
+              spans: spans.map((span) => ({
+                traceId: span.context.traceId,
+                spanId: span.context.spanId,
+                ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+                name: span.name,
+                kind: OTLP_SPAN_KIND[span.kind],
+                startTimeUnixNano: String(span.startTimeUnixNano),
+                endTimeUnixNano: String(span.endTimeUnixNano),
+                attributes: toOtlpAttributes(span.attributes),
+                events: span.events.map((event) => ({
+                  name: event.name,
+                  timeUnixNano: String(event.timeUnixNano),
+                  attributes: toOtlpAttributes(event.attributes),
+                })),
+                status: {
+                  code: OTLP_STATUS_CODE[span.status.code],
+                  ...(span.status.message && { message: span.status.message }),
+                },
+              })),
+            },
+          ],
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+
+/**
+ * Webhook request signatures
+ *
+ * Every delivery carries X-Webhook-Timestamp (Unix seconds) and
+ * X-Webhook-Signature: "sha256=" + hex HMAC-SHA256 of "<timestamp>.<body>",
+ * keyed with the endpoint's secret. The timestamp is signed too, so a
+ * receiver can reject old deliveries replayed by a third party.
+ */
+const SCHEME = 'sha256';
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `${SCHEME}=${digest}`;
+}
+
+/**
+ * Receiver-side check, in constant time
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signWebhook(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,56 @@
+import { nextOccurrence, parseCron } from '../src/utils/cron';
+
+const next = (expression: string, after: string) =>
+  nextOccurrence(parseCron(expression), new Date(after)).toISOString();
+
+describe('Cron schedules', () => {
+  it('should fire on the 1st of every month', () => {
+    expect(next('0 9 1 * *', '2024-01-15T12:00:00.000Z')).toBe('2024-02-01T09:00:00.000Z');
+    expect(next('0 9 1 * *', '2024-12-01T09:00:00.000Z')).toBe('2025-01-01T09:00:00.000Z');
+  });
+
+  it('should be strictly after the given time, in whole minutes', () => {
+    expect(next('* * * * *', '2024-01-01T10:00:00.000Z')).toBe('2024-01-01T10:01:00.000Z');
+    expect(next('* * * * *', '2024-01-01T10:00:30.500Z')).toBe('2024-01-01T10:01:00.000Z');
+  });
+
+  it('should support ranges, lists and steps', () => {
+    // 2024-01-06 is a Saturday
+    expect(next('30 8 * * 1-5', '2024-01-06T00:00:00.000Z')).toBe('2024-01-08T08:30:00.000Z');
+    expect(next('*/15 * * * *', '2024-01-01T10:16:00.000Z')).toBe('2024-01-01T10:30:00.000Z');
+    expect(next('0 6,18 * * *', '2024-01-01T07:00:00.000Z')).toBe('2024-01-01T18:00:00.000Z');
+  });
+
+  it('should treat 7 as Sunday and match either restricted day field', () => {
+    expect(next('0 0 * * 7', '2024-01-01T00:00:00.000Z')).toBe('2024-01-07T00:00:00.000Z');
+    // 15th of the month or any Friday, whichever comes first
+    expect(next('0 0 15 * 5', '2024-01-01T00:00:00.000Z')).toBe('2024-01-05T00:00:00.000Z');
+  });
+
+  it('should skip months without the day', () => {
+    expect(next('0 0 31 * *', '2024-04-01T00:00:00.000Z')).toBe('2024-05-31T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2024-03-01T00:00:00.000Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should reject malformed and impossible expressions', () => {
+    const malformed = [
+      '',
+      '* * * *',
+      '60 * * * *',
+      '* * 0 * *',
+      '*/0 * * * *',
+      'a * * * *',
+      '5-1 * * * *',
+    ];
+
+    for (const expression of malformed) {
+      expect(() => parseCron(expression)).toThrow(
+        expect.objectContaining({ code: 'INVALID_SCHEDULE' })
+      );
+    }
+
+    expect(() => next('0 0 30 2 *', '2024-01-01T00:00:00.000Z')).toThrow(
+      expect.objectContaining({ code: 'INVALID_SCHEDULE' })
+    );
+  });
+});
@@ -0,0 +1,32 @@
+import { decodeCursor, encodeCursor } from '../src/utils/cursor';
+
+describe('Pagination cursors', () => {
+  const cursor = {
+    createdAt: new Date('2026-02-04T10:30:45.123Z'),
+    id: '550e8400-e29b-41d4-a716-446655440000',
+  };
+
+  it('should round-trip createdAt and id', () => {
+    const encoded = encodeCursor(cursor);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(encoded)).toEqual(cursor);
+  });
+
+  it('should reject malformed cursors', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    for (const value of [
+      'not-a-cursor',
+      '',
+      encode({ t: 'yesterday', id: cursor.id }),
+      encode({ t: cursor.createdAt.toISOString(), id: 'wallet-1' }),
+      encode({ id: cursor.id }),
+      encode(null),
+    ]) {
+      expect(() => decodeCursor(value)).toThrow(
+        expect.objectContaining({ code: 'INVALID_CURSOR', statusCode: 400 })
+      );
+    }
+  });
+});
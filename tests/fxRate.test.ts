@@ -0,0 +1,28 @@
+import { Money } from '../src/utils/money';
+import { applySpread, convertAmount, formatRate, parseRate } from '../src/utils/fxRate';
+
+describe('FX rate arithmetic', () => {
+  it('should normalise rates to 10 decimal places', () => {
+    expect(formatRate(parseRate('0.92'))).toBe('0.9200000000');
+    expect(formatRate(parseRate('151.25'))).toBe('151.2500000000');
+  });
+
+  it('should reject zero, negative and over-precise rates', () => {
+    for (const value of ['0', '-1.2', '0.00000000001', 'abc']) {
+      expect(() => parseRate(value)).toThrow(
+        expect.objectContaining({ code: 'INVALID_FX_RATE' })
+      );
+    }
+  });
+
+  it('should take the spread off the mid rate', () => {
+    expect(applySpread('0.9200', 50)).toBe('0.9154000000');
+    expect(applySpread('1.0000', 0)).toBe('1.0000000000');
+  });
+
+  it('should truncate converted amounts to the target scale', () => {
+    expect(convertAmount(Money.parse('100.00'), '0.9154', 2).toString()).toBe('91.5400');
+    expect(convertAmount(Money.parse('10.01'), '0.9154', 2).toString()).toBe('9.1600');
+    expect(convertAmount(Money.parse('10.00'), '150.4937', 0).toString()).toBe('1504.0000');
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  Logger,
+  LogLevel,
+  REDACTED,
+  addLogContext,
+  getLogContext,
+  parseRedactConfig,
+  runWithLogContext,
+} from '../src/utils/logger';
+import { requestContext } from '../src/middleware/requestContext';
+import { errorHandler } from '../src/middleware/errorHandler';
+import { TransferError } from '../src/types';
+
+const capture = (level: LogLevel | 'silent', redact: string[] = []) => {
+  const lines: Array<Record<string, any>> = [];
+  const logger = new Logger({
+    level,
+    redact,
+    write: (line) => lines.push(JSON.parse(line)),
+  });
+  return { logger, lines };
+};
+
+describe('Logger', () => {
+  it('should write one JSON object per line at or above the level', () => {
+    const { logger, lines } = capture('info');
+
+    logger.debug('hidden');
+    logger.info('shown', { walletId: 'w1' });
+    logger.error('failed', { error: new TransferError('Nope', 409, 'CONFLICT') });
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ level: 'info', message: 'shown', walletId: 'w1' });
+    expect(new Date(lines[0].timestamp).toISOString()).toBe(lines[0].timestamp);
+    expect(lines[1].error).toMatchObject({
+      name: 'TransferError',
+      message: 'Nope',
+      code: 'CONFLICT',
+      statusCode: 409,
+    });
+    expect(logger.isLevelEnabled('debug')).toBe(false);
+    expect(() => new Logger({ level: 'verbose' as LogLevel, redact: [] })).toThrow(/level/);
+  });
+
+  it('should redact configured fields at any depth', () => {
+    const { logger, lines } = capture('debug', parseRedactConfig('amounts,userIds,iban'));
+
+    logger.info('transfer', {
+      amount: '10.0000',
+      currency: 'USD',
+      wallet: { userId: 'user1', balance: '90.0000' },
+      legs: [{ amount: '1.0000' }],
+      iban: 'DE00',
+      toAmount: null,
+    });
+
+    expect(lines[0]).toMatchObject({
+      amount: REDACTED,
+      currency: 'USD',
+      wallet: { userId: REDACTED, balance: REDACTED },
+      legs: [{ amount: REDACTED }],
+      iban: REDACTED,
+      toAmount: null,
+    });
+    expect(parseRedactConfig('amounts, none')).toEqual([]);
+  });
+
+  it('should attach the log context across awaits', async () => {
+    const { logger, lines } = capture('info');
+
+    await runWithLogContext({ requestId: 'req-1' }, async () => {
+      await runWithLogContext({ idempotencyKey: 'key-1', walletIds: ['w1', 'w2'] }, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        addLogContext({ transactionId: 'tx-1' });
+        logger.info('inner');
+      });
+      logger.info('outer');
+    });
+    logger.info('none');
+
+    expect(lines[0]).toMatchObject({
+      requestId: 'req-1',
+      idempotencyKey: 'key-1',
+      walletIds: ['w1', 'w2'],
+      transactionId: 'tx-1',
+    });
+    expect(lines[1]).toMatchObject({ requestId: 'req-1' });
+    expect(lines[1].transactionId).toBeUndefined();
+    expect(lines[2].requestId).toBeUndefined();
+  });
+});
+
+describe('Request context middleware', () => {
+  const run = (headers: Record<string, string>, body: object = {}) => {
+    const req: any = { body, get: (name: string) => headers[name] };
+    const res: any = {
+      headers: {},
+      setHeader: (name: string, value: string) => {
+        res.headers[name] = value;
+      },
+    };
+    let context = {};
+    requestContext(req, res, () => {
+      context = getLogContext();
+    });
+    return { req, res, context };
+  };
+
+  it('should propagate a valid X-Request-Id and generate one otherwise', () => {
+    const kept = run({ 'X-Request-Id': 'upstream-123' });
+    expect(kept.req.requestId).toBe('upstream-123');
+    expect(kept.res.headers['X-Request-Id']).toBe('upstream-123');
+
+    const replaced = run({ 'X-Request-Id': 'bad id\n' });
+    expect(replaced.req.requestId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(run({}).req.requestId).not.toBe(replaced.req.requestId);
+  });
+
+  it('should seed the context from the request body', () => {
+    const { context } = run(
+      { 'X-Request-Id': 'req-2' },
+      { fromWalletId: 'w1', toWalletId: 'w2', amount: '5.00', idempotencyKey: 'key-2' }
+    );
+
+    expect(context).toEqual({
+      requestId: 'req-2',
+      idempotencyKey: 'key-2',
+      walletIds: ['w1', 'w2'],
+    });
+  });
+
+  it('should return the request ID in error responses', () => {
+    let body: any;
+    const res: any = {
+      setHeader: jest.fn(),
+      status: () => res,
+      json: (payload: object) => {
+        body = payload;
+      },
+    };
+    const req: any = { requestId: 'req-3', method: 'POST', path: '/api/transfer' };
+
+    const error = new TransferError('Insufficient balance', 400, 'INSUFFICIENT_BALANCE');
+    errorHandler(error, req, res, jest.fn());
+    expect(body.error).toMatchObject({ code: 'INSUFFICIENT_BALANCE', requestId: 'req-3' });
+
+    errorHandler(new Error('boom'), req, res, jest.fn());
+    expect(body.error).toMatchObject({ code: 'INTERNAL_ERROR', requestId: 'req-3' });
+  });
+});
@@ -0,0 +1,85 @@
+import { Counter, Gauge, Histogram, Registry } from '../src/utils/metrics';
+
+describe('Metrics registry', () => {
+  it('should render counters per label set', async () => {
+    const registry = new Registry();
+    const counter = registry.register(
+      new Counter({ name: 'test_total', help: 'Test counter', labelNames: ['code'] })
+    );
+
+    counter.inc({ code: 'OK' });
+    counter.inc({ code: 'OK' }, 2);
+    counter.inc({ code: 'INSUFFICIENT_BALANCE' });
+
+    expect(await registry.render()).toBe(
+      '# HELP test_total Test counter\n' +
+        '# TYPE test_total counter\n' +
+        'test_total{code="OK"} 3\n' +
+        'test_total{code="INSUFFICIENT_BALANCE"} 1\n'
+    );
+    expect(() => counter.inc({ code: 'OK' }, -1)).toThrow(/cannot decrease/);
+  });
+
+  it('should render cumulative histogram buckets, sum and count', async () => {
+    const registry = new Registry();
+    const histogram = registry.register(
+      new Histogram({ name: 'test_seconds', help: 'Test histogram', buckets: [0.1, 1] })
+    );
+
+    histogram.observe({}, 0.05);
+    histogram.observe({}, 0.5);
+    histogram.observe({}, 3);
+
+    expect(await registry.render()).toBe(
+      '# HELP test_seconds Test histogram\n' +
+        '# TYPE test_seconds histogram\n' +
+        'test_seconds_bucket{le="0.1"} 1\n' +
+        'test_seconds_bucket{le="1"} 2\n' +
+        'test_seconds_bucket{le="+Inf"} 3\n' +
+        'test_seconds_sum 3.55\n' +
+        'test_seconds_count 3\n'
+    );
+  });
+
+  it('should time with startTimer', () => {
+    const histogram = new Histogram({
+      name: 'timer_seconds',
+      help: 'Timer',
+      labelNames: ['operation', 'result'],
+    });
+
+    const stop = histogram.startTimer({ operation: 'transfer' });
+    const seconds = stop({ result: 'commit' });
+
+    expect(seconds).toBeGreaterThanOrEqual(0);
+    expect(histogram.getCount({ operation: 'transfer', result: 'commit' })).toBe(1);
+  });
+
+  it('should refresh gauges through collectors before rendering', async () => {
+    const registry = new Registry();
+    const gauge = registry.register(new Gauge({ name: 'test_gauge', help: 'Test gauge' }));
+    let samples = 0;
+
+    registry.addCollector(async () => {
+      gauge.set({}, ++samples);
+    });
+
+    await registry.render();
+    expect(await registry.render()).toContain('test_gauge 2\n');
+  });
+
+  it('should escape label values and reject unknown labels', async () => {
+    const registry = new Registry();
+    const counter = registry.register(
+      new Counter({ name: 'escaped_total', help: 'Escaping', labelNames: ['route'] })
+    );
+
+    counter.inc({ route: 'a"b\\c\nd' });
+
+    expect(await registry.render()).toContain('escaped_total{route="a\\"b\\\\c\\nd"} 1\n');
+    expect(() => counter.inc({ path: '/x' })).toThrow(/Unknown label/);
+    expect(() => registry.register(new Counter({ name: 'escaped_total', help: 'Again' }))).toThrow(
+      /already registered/
+    );
+  });
+});
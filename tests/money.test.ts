@@ -0,0 +1,86 @@
+import { Money } from '../src/utils/money';
+import { TransferError } from '../src/types';
+
+describe('Money', () => {
+  describe('Parsing', () => {
+    it('should normalise to 4 decimal places', () => {
+      expect(Money.parse('100').toString()).toBe('100.0000');
+      expect(Money.parse('0.5').toString()).toBe('0.5000');
+      expect(Money.parse('-12.34').toString()).toBe('-12.3400');
+      expect(Money.parse(42).toString()).toBe('42.0000');
+    });
+
+    it('should reject more than 4 fractional digits', () => {
+      expect(() => Money.parse('1.00001')).toThrow(TransferError);
+      expect(() => Money.parse('1.00001')).toThrow(
+        expect.objectContaining({ code: 'AMOUNT_PRECISION_EXCEEDED' })
+      );
+    });
+
+    it('should enforce a narrower currency scale', () => {
+      expect(Money.parse('12.34', 2).toString()).toBe('12.3400');
+      expect(Money.parse('100.0000', 2).toString()).toBe('100.0000');
+      expect(Money.parse('500', 0).toString()).toBe('500.0000');
+      expect(() => Money.parse('12.345', 2)).toThrow(
+        expect.objectContaining({ code: 'AMOUNT_PRECISION_EXCEEDED' })
+      );
+      expect(() => Money.parse('0.5', 0)).toThrow(
+        expect.objectContaining({ code: 'AMOUNT_PRECISION_EXCEEDED' })
+      );
+    });
+
+        it('should reject malformed values', () => {
+      for (const value of ['', 'abc', '1e5', '1.', '.5', '1,000.00', 'NaN']) {
+        expect(() => Money.parse(value)).toThrow(
+          expect.objectContaining({ code: 'INVALID_AMOUNT' })
+        );
+      }
+    });
+
+    it('should reject values beyond DECIMAL(19,4)', () => {
+      expect(Money.parse('999999999999999.9999').toString()).toBe('999999999999999.9999');
+      expect(() => Money.parse('1000000000000000')).toThrow(
+        expect.objectContaining({ code: 'AMOUNT_OUT_OF_RANGE' })
+      );
+    });
+  });
+
+  describe('Arithmetic near 10^15', () => {
+    it('should subtract exactly where float math rounds', () => {
+      const balance = Money.parse('999999999999999.9999');
+      const amount = Money.parse('0.0001');
+
+      // Float math cannot represent the operands, let alone the result
+      expect((parseFloat('999999999999999.9999') - 0.0001).toFixed(4)).not.toBe(
+        '999999999999999.9998'
+      );
+      expect(balance.minus(amount).toString()).toBe('999999999999999.9998');
+    });
+
+    it('should add exactly where float math rounds', () => {
+      const balance = Money.parse('123456789012345.6789');
+      const amount = Money.parse('0.0002');
+
+      expect(balance.plus(amount).toString()).toBe('123456789012345.6791');
+    });
+
+    it('should compare values that are equal as floats', () => {
+      const a = Money.parse('999999999999999.9998');
+      const b = Money.parse('999999999999999.9999');
+
+      expect(parseFloat(a.toString())).toBe(parseFloat(b.toString()));
+      expect(a.lessThan(b)).toBe(true);
+      expect(a.compare(b)).toBe(-1);
+      expect(b.compare(a)).toBe(1);
+      expect(a.equals(Money.parse('999999999999999.9998'))).toBe(true);
+    });
+
+    it('should reject results that overflow the column range', () => {
+      const max = Money.parse('999999999999999.9999');
+
+      expect(() => max.plus(Money.parse('0.0001'))).toThrow(
+        expect.objectContaining({ code: 'AMOUNT_OUT_OF_RANGE' })
+      );
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import Redis from 'ioredis';
+import { Pool } from 'pg';
+import { RedisFailurePolicy, TransferError } from '../src/types';
+
+// Replace the real client so importing RedisService never opens a socket
+jest.mock('../src/config/redis', () => ({ __esModule: true, default: {} }));
+
+import { RedisService } from '../src/services/RedisService';
+
+// Stand-in for the advisory lock pool: records lock queries and their outcome
+const lockConnection = {
+  query: jest.fn(async (_sql: string, _values: unknown[]) => ({ rows: [{ locked: true }] })),
+  release: jest.fn(),
+};
+const lockPool = {
+  connect: jest.fn(async () => lockConnection),
+  end: jest.fn(),
+};
+
+/**
+ * Fake ioredis client for a Redis outage: every command rejects
+ */
+function createUnavailableClient(): Redis {
+  const fail = jest.fn(async () => {
+    throw new Error('Connection is closed.');
+  });
+
+  return {
+    eval: fail,
+    get: fail,
+    set: fail,
+    setex: fail,
+    del: fail,
+    ping: fail,
+  } as unknown as Redis;
+}
+
+describe('Redis failure policy', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject an unknown policy', () => {
+    expect(() => new RedisService(createUnavailableClient(), 'sometimes')).toThrow(
+      /Invalid REDIS_FAILURE_POLICY/
+    );
+  });
+
+  it('should default to open', () => {
+    const previous = process.env.REDIS_FAILURE_POLICY;
+    delete process.env.REDIS_FAILURE_POLICY;
+
+    expect(new RedisService(createUnavailableClient()).failurePolicy).toBe(
+      RedisFailurePolicy.OPEN
+    );
+
+    if (previous !== undefined) {
+      process.env.REDIS_FAILURE_POLICY = previous;
+    }
+  });
+
+  describe('open', () => {
+    const service = new RedisService(createUnavailableClient(), RedisFailurePolicy.OPEN);
+
+    it('should treat the cache as a miss', async () => {
+      await expect(service.getCachedResult('key-1')).resolves.toBeNull();
+    });
+
+    it('should grant a lock without a fencing token', async () => {
+      const lock = await service.acquireLock('key-1');
+
+      expect(lock).not.toBeNull();
+      expect(lock?.fencingToken).toBeNull();
+    });
+
+    it('should serve requests without rate limiting', async () => {
+      await expect(
+        service.consumeRateLimit([{ key: 'ratelimit:test', limit: 1, windowMs: 1000 }])
+      ).resolves.toBeNull();
+    });
+
+    it('should accept signed-request nonces unchecked', async () => {
+      await expect(service.claimNonce('credential-1', 'nonce-1', 600)).resolves.toBe(true);
+    });
+  });
+
+  describe('closed', () => {
+    const service = new RedisService(createUnavailableClient(), RedisFailurePolicy.CLOSED);
+
+    it('should refuse cache reads with 503', async () => {
+      await expect(service.getCachedResult('key-1')).rejects.toMatchObject({
+        statusCode: 503,
+        code: 'REDIS_UNAVAILABLE',
+      });
+    });
+
+    it('should refuse lock acquisition with 503', async () => {
+      await expect(service.acquireLock('key-1')).rejects.toThrow(TransferError);
+    });
+
+    it('should refuse rate-limited requests with 503', async () => {
+      await expect(
+        service.consumeRateLimit([{ key: 'ratelimit:test', limit: 1, windowMs: 1000 }])
+      ).rejects.toMatchObject({ statusCode: 503, code: 'REDIS_UNAVAILABLE' });
+    });
+
+    it('should refuse signed requests whose nonce cannot be recorded', async () => {
+      await expect(service.claimNonce('credential-1', 'nonce-1', 600)).rejects.toMatchObject({
+        statusCode: 503,
+      });
+    });
+
+    it('should not fail after-commit cache writes', async () => {
+      await expect(
+        service.cacheResult(
+          'key-1',
+          { success: true, transactionId: 'tx', message: 'ok' },
+          null
+        )
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('postgres-fallback', () => {
+    const service = new RedisService(
+      createUnavailableClient(),
+      RedisFailurePolicy.POSTGRES_FALLBACK,
+      lockPool as unknown as Pool
+    );
+
+    it('should lock through a PostgreSQL advisory lock', async () => {
+      const lock = await service.acquireLock('key-1');
+
+      expect(lock).not.toBeNull();
+      expect(lockConnection.query).toHaveBeenCalledWith(
+        expect.stringContaining('pg_try_advisory_lock'),
+        ['lock:key-1']
+      );
+      // The connection stays checked out while the lock is held
+      expect(lockConnection.release).not.toHaveBeenCalled();
+
+      // Releasing unlocks on the same connection, then returns it
+      await service.releaseLock(lock!);
+      expect(lockConnection.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('pg_advisory_unlock'),
+        ['lock:key-1']
+      );
+      expect(lockConnection.release).toHaveBeenCalledWith();
+    });
+
+    it('should report contention when the advisory lock is held', async () => {
+      lockConnection.query.mockResolvedValueOnce({ rows: [{ locked: false }] });
+
+      await expect(service.acquireLock('key-1')).resolves.toBeNull();
+      expect(lockConnection.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refuse with 503 when no lock connection frees up in time', async () => {
+      lockPool.connect.mockRejectedValueOnce(
+        new Error('timeout exceeded when trying to connect')
+      );
+
+      await expect(service.acquireLock('key-1')).rejects.toMatchObject({
+        statusCode: 503,
+        code: 'REDIS_UNAVAILABLE',
+      });
+    });
+
+    it('should drop the connection when the lock query fails', async () => {
+      lockConnection.query.mockRejectedValueOnce(new Error('Query read timeout'));
+
+      await expect(service.acquireLock('key-1')).rejects.toThrow(TransferError);
+      expect(lockConnection.release).toHaveBeenCalledWith(true);
+    });
+
+    it('should fall back to the database for cache reads', async () => {
+      await expect(service.getCachedResult('key-1')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import {
+  canonicalRequest,
+  signRequest,
+  verifyRequestSignature,
+} from '../src/utils/requestSignature';
+
+describe('Request signatures', () => {
+  const secret = 'hsec_test';
+  const body = JSON.stringify({ fromWalletId: 'a', toWalletId: 'b', amount: '10.00' });
+  const parts = {
+    method: 'post',
+    path: '/api/transfer',
+    timestamp: 1700000000,
+    nonce: 'n-1',
+    body,
+  };
+
+  it('should sign method, path, timestamp, nonce and body hash', () => {
+    const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+    const canonical = `POST\n/api/transfer\n1700000000\nn-1\n${bodyHash}`;
+
+    expect(canonicalRequest(parts)).toBe(canonical);
+    expect(signRequest(secret, parts)).toBe(
+      `sha256=${crypto.createHmac('sha256', secret).update(canonical).digest('hex')}`
+    );
+  });
+
+  it('should hash an empty body for requests without one', () => {
+    const emptyHash = crypto.createHash('sha256').update('').digest('hex');
+
+    expect(canonicalRequest({ ...parts, method: 'GET', body: Buffer.alloc(0) })).toMatch(
+      new RegExp(`\\n${emptyHash}$`)
+    );
+  });
+
+  it('should verify only the exact request', () => {
+    const signature = signRequest(secret, parts);
+
+    expect(verifyRequestSignature(secret, parts, signature)).toBe(true);
+    expect(verifyRequestSignature('other', parts, signature)).toBe(false);
+    expect(verifyRequestSignature(secret, { ...parts, path: '/api/transfers/batch' }, signature)).toBe(false);
+    expect(verifyRequestSignature(secret, { ...parts, timestamp: 1700000001 }, signature)).toBe(false);
+    expect(verifyRequestSignature(secret, { ...parts, nonce: 'n-2' }, signature)).toBe(false);
+    expect(verifyRequestSignature(secret, { ...parts, body: `${body} ` }, signature)).toBe(false);
+    expect(verifyRequestSignature(secret, parts, 'sha256=00')).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { StatementFormat, StatementHeader, StatementLine, TransactionType } from '../src/types';
+import { StatementWriter, verifyStatementChecksum } from '../src/utils/statement';
+
+describe('Statement rendering', () => {
+  const header: StatementHeader = {
+    walletId: '11111111-1111-1111-1111-111111111112',
+    userId: 'alice',
+    currency: 'USD',
+    from: '2026-02-01T00:00:00.000Z',
+    to: '2026-03-01T00:00:00.000Z',
+    generatedAt: '2026-03-01T08:00:00.000Z',
+    openingBalance: '1000.0000',
+  };
+
+  const lines: StatementLine[] = [
+    {
+      date: '2026-02-04T10:30:45.123Z',
+      transactionId: '550e8400-e29b-41d4-a716-446655440000',
+      type: TransactionType.TRANSFER,
+      counterpartyWalletId: '22222222-2222-2222-2222-222222222223',
+      externalReference: null,
+      amount: '-100.0000',
+      balance: '900.0000',
+    },
+    {
+      date: '2026-02-05T09:00:00.000Z',
+      transactionId: '660e8400-e29b-41d4-a716-446655440001',
+      type: TransactionType.DEPOSIT,
+      counterpartyWalletId: null,
+      externalReference: 'psp, "ref" 1',
+      amount: '50.0000',
+      balance: '950.0000',
+    },
+  ];
+
+  const summary = {
+    transactionCount: 2,
+    totalCredits: '50.0000',
+    totalDebits: '100.0000',
+    closingBalance: '950.0000',
+  };
+
+  const render = (format: StatementFormat, statementLines = lines) => {
+    const writer = new StatementWriter(format);
+    return (
+      writer.begin(header) +
+      statementLines.map((line) => writer.line(line)).join('') +
+      writer.end(summary)
+    );
+  };
+
+  it('should render CSV with opening, transaction, closing and checksum rows', () => {
+    const rows = render(StatementFormat.CSV).trimEnd().split('\n');
+
+    expect(rows[0]).toBe(
+      'record,date,transactionId,type,counterpartyWalletId,externalReference,amount,balance'
+    );
+    expect(rows[1]).toBe('opening,2026-02-01T00:00:00.000Z,,,,,,1000.0000');
+    expect(rows[3]).toBe(
+      'transaction,2026-02-05T09:00:00.000Z,660e8400-e29b-41d4-a716-446655440001,DEPOSIT,,' +
+        '"psp, ""ref"" 1",50.0000,950.0000'
+    );
+    expect(rows[4]).toBe('closing,2026-03-01T00:00:00.000Z,,,,,,950.0000');
+    expect(rows[5]).toMatch(/^checksum,sha256:[0-9a-f]{64}$/);
+  });
+
+  it('should render JSON that parses, with or without transactions', () => {
+    const statement = JSON.parse(render(StatementFormat.JSON));
+
+    expect(statement).toMatchObject({ ...header, ...summary, transactions: lines });
+    expect(statement.checksum).toMatch(/^sha256:[0-9a-f]{64}$/);
+
+    expect(JSON.parse(render(StatementFormat.JSON, [])).transactions).toEqual([]);
+  });
+
+  it('should render plain text with balances and totals', () => {
+    const text = render(StatementFormat.TXT);
+
+    expect(text).toContain('Wallet:    11111111-1111-1111-1111-111111111112');
+    expect(text).toMatch(/Opening balance\s+1000\.0000\n/);
+    expect(text).toMatch(/550e8400-e29b-41d4-a716-446655440000\s+TRANSFER\s+-100\.0000\s+900\.0000\n/);
+    expect(text).toMatch(/Closing balance\s+950\.0000\n/);
+    expect(text).toContain('Total debits:  100.0000');
+  });
+
+  it('should verify untouched statements and reject edited ones', () => {
+    for (const format of Object.values(StatementFormat)) {
+      const content = render(format);
+
+      expect(verifyStatementChecksum(content)).toBe(true);
+      expect(verifyStatementChecksum(content.replace('950.0000', '9950.0000'))).toBe(false);
+    }
+
+    expect(verifyStatementChecksum('no checksum here\n')).toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+import { EventEmitter } from 'events';
+import tracer, { instrumentRedis, instrumentSequelize } from '../src/config/tracing';
+import { httpTracing } from '../src/middleware/tracing';
+import {
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  OtlpHttpSpanExporter,
+  Tracer,
+  formatTraceparent,
+  parseTraceparent,
+} from '../src/utils/tracing';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+describe('W3C traceparent', () => {
+  it('should parse and format sampled and unsampled contexts', () => {
+    const header = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+    expect(parseTraceparent(header)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      sampled: true,
+    });
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`)!.sampled).toBe(false);
+    expect(formatTraceparent(parseTraceparent(header)!)).toBe(header);
+  });
+
+  it('should reject malformed headers', () => {
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent('garbage')).toBeNull();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeNull();
+    expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`)).toBeNull();
+    // Later versions may append fields
+    expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-01-extra`)).not.toBeNull();
+  });
+});
+
+describe('Tracer', () => {
+  it('should nest active spans across awaits and record exceptions', async () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new Tracer({ exporter });
+
+    await tracer.startActiveSpan('parent', { attributes: { 'a.b': 1 } }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      await tracer
+        .startActiveSpan('child', {}, async () => {
+          throw Object.assign(new Error('nope'), { code: 'LOCK_LOST' });
+        })
+        .catch(() => undefined);
+    });
+
+    const [child, parent] = exporter.getFinishedSpans();
+    expect(parent).toMatchObject({ name: 'parent', parentSpanId: null, attributes: { 'a.b': 1 } });
+    expect(child.name).toBe('child');
+    expect(child.context.traceId).toBe(parent.context.traceId);
+    expect(child.parentSpanId).toBe(parent.context.spanId);
+    expect(child.status).toEqual({ code: 'error', message: 'nope' });
+    expect(child.events[0].attributes).toMatchObject({
+      'exception.message': 'nope',
+      'exception.code': 'LOCK_LOST',
+    });
+    expect(parent.durationMs).toBeGreaterThan(0);
+    expect(tracer.getActiveSpan()).toBeUndefined();
+  });
+
+  it('should continue a remote parent and follow its sampling decision', async () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new Tracer({ exporter });
+    let injected: Record<string, string> = {};
+
+    const unsampled = { traceId: TRACE_ID, spanId: SPAN_ID, sampled: false };
+    await tracer.startActiveSpan('server', { parent: unsampled }, async () => {
+      await tracer.startActiveSpan('child', {}, async () => {
+        injected = tracer.inject({ accept: 'application/json' });
+      });
+    });
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+    expect(injected.accept).toBe('application/json');
+    expect(parseTraceparent(injected.traceparent)).toMatchObject({
+      traceId: TRACE_ID,
+      sampled: false,
+    });
+  });
+
+  it('should do nothing without an exporter', async () => {
+    const tracer = new Tracer();
+
+    const result = await tracer.startActiveSpan('noop', {}, async (span) => {
+      expect(span).toBeUndefined();
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(tracer.inject({})).toEqual({});
+  });
+
+  it('should write one JSON line per span to the console exporter', async () => {
+    const lines: string[] = [];
+    const tracer = new Tracer({ exporter: new ConsoleSpanExporter((line) => lines.push(line)) });
+
+    await tracer.startActiveSpan('work', { kind: 'client' }, async () => undefined);
+
+    expect(JSON.parse(lines[0])).toMatchObject({
+      span: 'work',
+      kind: 'client',
+      parentSpanId: null,
+      status: { code: 'unset' },
+    });
+  });
+
+  it('should send OTLP/HTTP JSON batches', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      arrayBuffer: async () => new ArrayBuffer(0),
+    });
+    const originalFetch = global.fetch;
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    try {
+      const exporter = new OtlpHttpSpanExporter({
+        url: 'http://collector:4318/v1/traces',
+        serviceName: 'wallet-test',
+        headers: { authorization: 'Bearer t' },
+      });
+      const tracer = new Tracer({ exporter });
+
+      const attributes = { 'x.n': 2, 'x.ok': true };
+      await tracer.startActiveSpan('transfer', { attributes }, async () => undefined);
+      await exporter.flush();
+
+      const [url, init] = fetchMock.mock.calls[0];
+      const payload = JSON.parse(init.body);
+      const span = payload.resourceSpans[0].scopeSpans[0].spans[0];
+
+      expect(url).toBe('http://collector:4318/v1/traces');
+      expect(init.headers).toMatchObject({ authorization: 'Bearer t' });
+      expect(payload.resourceSpans[0].resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'wallet-test' } },
+      ]);
+      expect(span).toMatchObject({ name: 'transfer', kind: 1, status: { code: 0 } });
+      expect(span.attributes).toEqual([
+        { key: 'x.n', value: { intValue: '2' } },
+        { key: 'x.ok', value: { boolValue: true } },
+      ]);
+      expect(BigInt(span.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(span.startTimeUnixNano));
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
+
+describe('Tracing instrumentation', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeEach(() => {
+    exporter.reset();
+    tracer.useExporter(exporter);
+  });
+
+  afterAll(() => {
+    tracer.useExporter(null);
+  });
+
+  it('should open a server span per request continuing the caller trace', () => {
+    const req: any = {
+      method: 'POST',
+      originalUrl: '/api/transfer',
+      baseUrl: '/api',
+      requestId: 'req-1',
+      get: (name: string) =>
+        name === 'traceparent' ? `00-${TRACE_ID}-${SPAN_ID}-01` : undefined,
+    };
+    const res: any = Object.assign(new EventEmitter(), { statusCode: 201 });
+    let active: string | undefined;
+
+    httpTracing(req, res, () => {
+      active = tracer.getActiveSpan()?.context.traceId;
+    });
+    req.route = { path: '/transfer' };
+    res.emit('finish');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(active).toBe(TRACE_ID);
+    expect(span).toMatchObject({
+      name: 'POST /api/transfer',
+      kind: 'server',
+      parentSpanId: SPAN_ID,
+      attributes: {
+        'http.route': '/api/transfer',
+        'http.status_code': 201,
+        'http.request_id': 'req-1',
+      },
+    });
+  });
+
+  it('should trace Redis commands only within a trace', async () => {
+    const sent: string[] = [];
+    const client: any = {
+      sendCommand: (command: { name: string }) => {
+        sent.push(command.name);
+      },
+    };
+    instrumentRedis(client);
+
+    const command = (name: string) => {
+      const result: any = { name };
+      result.promise = new Promise((resolve) => {
+        result.resolve = resolve;
+      });
+      return result;
+    };
+
+    const outside = command('get');
+    client.sendCommand(outside);
+    outside.resolve('1');
+
+    await tracer.startActiveSpan('parent', {}, async () => {
+      const inside = command('set');
+      client.sendCommand(inside);
+      inside.resolve('OK');
+      await inside.promise;
+    });
+
+    expect(sent).toEqual(['get', 'set']);
+    expect(exporter.getFinishedSpans().map((span) => span.name)).toEqual([
+      'redis set',
+      'parent',
+    ]);
+  });
+  it('should trace SQL queries within a trace and pass their arguments through', async () => {
+    const calls: unknown[][] = [];
+    const sequelize: any = {
+      query: async (...args: unknown[]) => {
+        calls.push(args);
+        if (typeof args[0] === 'object') {
+          throw new Error('permission denied');
+        }
+        return [[], 0];
+      },
+      getDatabaseName: () => 'wallet_test',
+    };
+    instrumentSequelize(sequelize);
+
+    const options = { model: { tableName: 'wallets' }, plain: true };
+    await sequelize.query('SELECT 1', {});
+
+    await tracer.startActiveSpan('parent', {}, async () => {
+      await expect(sequelize.query('SELECT * FROM "wallets"', options)).resolves.toEqual([[], 0]);
+      await expect(sequelize.query({ query: 'DELETE FROM x', values: [] })).rejects.toThrow(
+        'permission denied'
+      );
+    });
+
+    expect(calls).toEqual([
+      ['SELECT 1', {}],
+      ['SELECT * FROM "wallets"', options],
+      [{ query: 'DELETE FROM x', values: [] }],
+    ]);
+
+    const [select, failed] = exporter.getFinishedSpans();
+    expect(select).toMatchObject({
+      name: 'SELECT wallets',
+      kind: 'client',
+      attributes: {
+        'db.system': 'postgresql',
+        'db.name': 'wallet_test',
+        'db.operation': 'SELECT',
+        'db.sql.table': 'wallets',
+      },
+    });
+    expect(failed).toMatchObject({ name: 'DELETE', status: { code: 'error' } });
+  });
+});
+
@@ -1,8 +1,70 @@
+import http from 'http';
+import { AddressInfo } from 'net';
 import sequelize from '../src/config/database';
-import { Wallet, TransactionLog } from '../src/models';
+import {
+  Wallet,
+  TransactionLog,
+  LedgerEntry,
+  FxQuote,
+  WalletStatusChange,
+  WalletLimit,
+  WalletLimitChange,
+  TransferBatch,
+  Hold,
+  ScheduledTransfer,
+  OutboxEvent,
+  WebhookEndpoint,
+  WebhookDelivery,
+  ApiCredential,
+} from '../src/models';
 import TransferService from '../src/services/TransferService';
-import { TransactionStatus, TransferError } from '../src/types';
+import app, { metricsApp } from '../src/app';
+import {
+  ApiCredentialType,
+  AuthScope,
+  RateLimitDimension,
+  RateLimitPolicy,
+  BatchLegStatus,
+  BatchMode,
+  BatchStatus,
+  HoldStatus,
+  ScheduledTransferStatus,
+  StatementFormat,
+  TransactionDirection,
+  TransactionHistoryQuery,
+  TransactionStatus,
+  TransactionType,
+  TransferError,
+  TransferEventType,
+  WalletStatus,
+  WebhookDeliveryStatus,
+} from '../src/types';
 import RedisService from '../src/services/RedisService';
+import PendingRecoveryService from '../src/services/PendingRecoveryService';
+import WalletOperationService from '../src/services/WalletOperationService';
+import LedgerService from '../src/services/LedgerService';
+import ReconciliationService from '../src/services/ReconciliationService';
+import FxQuoteService from '../src/services/FxQuoteService';
+import WalletService from '../src/services/WalletService';
+import WalletLimitService from '../src/services/WalletLimitService';
+import BatchTransferService from '../src/services/BatchTransferService';
+import ReversalService from '../src/services/ReversalService';
+import HoldService from '../src/services/HoldService';
+import ScheduledTransferService from '../src/services/ScheduledTransferService';
+import TransactionHistoryService from '../src/services/TransactionHistoryService';
+import StatementService from '../src/services/StatementService';
+import { verifyStatementChecksum } from '../src/utils/statement';
+import WebhookService from '../src/services/WebhookService';
+import { verifyWebhookSignature } from '../src/utils/webhookSignature';
+import AuthService from '../src/services/AuthService';
+import RateLimitService from '../src/services/RateLimitService';
+import MetricsService from '../src/services/MetricsService';
+import logger from '../src/config/logger';
+import { LogContext, getLogContext, runWithLogContext } from '../src/utils/logger';
+import tracer from '../src/config/tracing';
+import { InMemorySpanExporter } from '../src/utils/tracing';
+import { metricsHandler } from '../src/middleware/metrics';
+import { signRequest } from '../src/utils/requestSignature';
 
 describe('TransferService', () => {
   let wallet1: Wallet;
@@ -23,8 +85,20 @@ describe('TransferService', () => {
 
   beforeEach(async () => {
     // Clean database
+    await LedgerEntry.destroy({ where: {}, force: true });
+    await Hold.destroy({ where: {}, force: true });
+    await ScheduledTransfer.destroy({ where: {}, force: true });
+    await WebhookDelivery.destroy({ where: {}, force: true });
+    await WebhookEndpoint.destroy({ where: {}, force: true });
+    await OutboxEvent.destroy({ where: {}, force: true });
     await TransactionLog.destroy({ where: {}, force: true });
+    await TransferBatch.destroy({ where: {}, force: true });
+    await FxQuote.destroy({ where: {}, force: true });
+    await WalletStatusChange.destroy({ where: {}, force: true });
+    await WalletLimitChange.destroy({ where: {}, force: true });
+    await WalletLimit.destroy({ where: {}, force: true });
     await Wallet.destroy({ where: {}, force: true });
+    await ApiCredential.destroy({ where: {}, force: true });
     
     // Clear Redis cache
     await RedisService.flushAll();
@@ -41,6 +115,55 @@ describe('TransferService', () => {
     });
   });
 
+  /**
+   * A transfer and a deposit on one wallet, created in that order but
+   * applied the other way round: both log PENDING while a blocker holds the
+   * wallet rows, and the deposit queues on the row the transfer locks second
+   */
+  const applyOutOfCreationOrder = async () => {
+    const [firstLockId, secondLockId] = [wallet1.id, wallet2.id].sort();
+    const waitForLog = async (idempotencyKey: string) => {
+      while (!(await TransactionLog.findOne({ where: { idempotencyKey } }))) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    const blocker = await sequelize.transaction();
+    await Wallet.findByPk(firstLockId, { lock: blocker.LOCK.UPDATE, transaction: blocker });
+    await Wallet.findByPk(secondLockId, { lock: blocker.LOCK.UPDATE, transaction: blocker });
+
+    const transfer = TransferService.executeTransfer({
+      fromWalletId: firstLockId,
+      toWalletId: secondLockId,
+      amount: '100.00',
+      idempotencyKey: 'interleaved-transfer',
+    });
+    await waitForLog('interleaved-transfer');
+
+    const deposit = WalletOperationService.deposit({
+      walletId: secondLockId,
+      amount: '50.00',
+      externalReference: 'interleaved-deposit',
+      idempotencyKey: 'interleaved-deposit',
+    });
+    await waitForLog('interleaved-deposit');
+    // Let the deposit reach its row lock
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    await blocker.commit();
+    const [transferResult, depositResult] = await Promise.all([transfer, deposit]);
+
+    const opening = secondLockId === wallet1.id ? 1000 : 500;
+    expect(depositResult.balance).toBe((opening + 50).toFixed(4));
+
+    return {
+      walletId: secondLockId,
+      transferId: transferResult.transactionId,
+      depositId: depositResult.transactionId,
+      closingBalance: (opening + 150).toFixed(4),
+    };
+  };
+
   describe('Basic Transfer', () => {
     it('should successfully transfer money between wallets', async () => {
       const result = await TransferService.executeTransfer({
@@ -104,6 +227,57 @@ describe('TransferService', () => {
       expect(finalWallet1?.balance).toBe('900.0000');
     });
 
+    it('should reject a replayed key with a different payload', async () => {
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'reused-key',
+      });
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '250.0000',
+          idempotencyKey: 'reused-key',
+        })
+      ).rejects.toMatchObject({ statusCode: 422, code: 'IDEMPOTENCY_KEY_REUSED' });
+
+      // Same check must hold when the Redis cache is cold
+      await RedisService.flushAll();
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '250.0000',
+          idempotencyKey: 'reused-key',
+        })
+      ).rejects.toMatchObject({ statusCode: 422, code: 'IDEMPOTENCY_KEY_REUSED' });
+
+      const finalWallet1 = await Wallet.findByPk(wallet1.id);
+      expect(finalWallet1?.balance).toBe('900.0000');
+    });
+
+    it('should treat equivalent amount formats as the same request', async () => {
+      const firstResult = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100',
+        idempotencyKey: 'normalised-key',
+      });
+
+      const secondResult = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'normalised-key',
+      });
+
+      expect(secondResult.transactionId).toBe(firstResult.transactionId);
+    });
+
     it('should handle concurrent requests with same idempotency key', async () => {
       // Fire two concurrent requests
       const promises = [
@@ -139,6 +313,298 @@ describe('TransferService', () => {
     });
   });
 
+  describe('Distributed Lock', () => {
+    it('should issue increasing fencing tokens', async () => {
+      const first = await RedisService.acquireLock('fence-test');
+      expect(first).not.toBeNull();
+      await RedisService.releaseLock(first!);
+
+      const second = await RedisService.acquireLock('fence-test');
+      expect(second).not.toBeNull();
+      expect(second!.fencingToken!).toBeGreaterThan(first!.fencingToken!);
+      await RedisService.releaseLock(second!);
+    });
+
+    it('should not release a lock owned by another holder', async () => {
+      const owner = await RedisService.acquireLock('owner-test');
+      expect(owner).not.toBeNull();
+
+      // Stale handle for the same resource with a different owner token
+      await RedisService.releaseLock({ ...owner!, token: 'stale-owner' });
+      expect(await RedisService.acquireLock('owner-test')).toBeNull();
+
+      expect(await RedisService.extendLock({ ...owner!, token: 'stale-owner' })).toBe(false);
+      expect(await RedisService.extendLock(owner!)).toBe(true);
+
+      await RedisService.releaseLock(owner!);
+      const next = await RedisService.acquireLock('owner-test');
+      expect(next).not.toBeNull();
+      await RedisService.releaseLock(next!);
+    });
+
+    it('should reject the commit of a holder whose log was claimed', async () => {
+      const stale = await RedisService.acquireLock('fenced-transfer');
+      await RedisService.releaseLock(stale!);
+
+      // A newer holder has already claimed the key's log
+      await TransactionLog.create({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'fenced-transfer',
+        fencingToken: stale!.fencingToken! + 1,
+      });
+
+      const [updatedCount] = await TransactionLog.update(
+        { status: TransactionStatus.SUCCESS },
+        {
+          where: {
+            idempotencyKey: 'fenced-transfer',
+            status: TransactionStatus.PENDING,
+            fencingToken: stale!.fencingToken,
+          },
+        }
+      );
+      expect(updatedCount).toBe(0);
+    });
+  });
+
+  describe('Deposits and Withdrawals', () => {
+    it('should credit a wallet on deposit', async () => {
+      const result = await WalletOperationService.deposit({
+        walletId: wallet1.id,
+        amount: '250.5000',
+        externalReference: 'psp-charge-1',
+        idempotencyKey: 'deposit-1',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.balance).toBe('1250.5000');
+
+      const log = await TransactionLog.findByPk(result.transactionId);
+      expect(log?.type).toBe(TransactionType.DEPOSIT);
+      expect(log?.fromWalletId).toBeNull();
+      expect(log?.toWalletId).toBe(wallet1.id);
+      expect(log?.externalReference).toBe('psp-charge-1');
+    });
+
+    it('should debit a wallet on withdrawal', async () => {
+      const result = await WalletOperationService.withdraw({
+        walletId: wallet1.id,
+        amount: '400.0000',
+        externalReference: 'bank-payout-1',
+        idempotencyKey: 'withdrawal-1',
+      });
+
+      expect(result.balance).toBe('600.0000');
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('600.0000');
+    });
+
+    it('should be idempotent on replay', async () => {
+      const request = {
+        walletId: wallet1.id,
+        amount: '100.0000',
+        externalReference: 'psp-charge-2',
+        idempotencyKey: 'deposit-2',
+      };
+
+      const first = await WalletOperationService.deposit(request);
+      const second = await WalletOperationService.deposit(request);
+
+      expect(second.transactionId).toBe(first.transactionId);
+      expect(second.message).toContain('already processed');
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('1100.0000');
+    });
+
+    it('should reject the same external reference under a new key', async () => {
+      await WalletOperationService.deposit({
+        walletId: wallet1.id,
+        amount: '100.0000',
+        externalReference: 'psp-charge-3',
+        idempotencyKey: 'deposit-3',
+      });
+
+      await expect(
+        WalletOperationService.deposit({
+          walletId: wallet1.id,
+          amount: '100.0000',
+          externalReference: 'psp-charge-3',
+          idempotencyKey: 'deposit-3-retry',
+        })
+      ).rejects.toMatchObject({ code: 'DUPLICATE_EXTERNAL_REFERENCE' });
+    });
+
+    it('should fail a withdrawal above the balance', async () => {
+      await expect(
+        WalletOperationService.withdraw({
+          walletId: wallet2.id,
+          amount: '500.01',
+          externalReference: 'bank-payout-2',
+          idempotencyKey: 'withdrawal-2',
+        })
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+      const log = await TransactionLog.findOne({ where: { idempotencyKey: 'withdrawal-2' } });
+      expect(log?.status).toBe(TransactionStatus.FAILED);
+    });
+
+    it('should accept an external reference again after the attempt failed', async () => {
+      await expect(
+        WalletOperationService.withdraw({
+          walletId: wallet2.id,
+          amount: '600.0000',
+          externalReference: 'bank-payout-3',
+          idempotencyKey: 'withdrawal-3',
+        })
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+      // The processor retries the same payout, smaller, under a new key
+      const retry = await WalletOperationService.withdraw({
+        walletId: wallet2.id,
+        amount: '200.0000',
+        externalReference: 'bank-payout-3',
+        idempotencyKey: 'withdrawal-3-retry',
+      });
+
+      expect(retry.success).toBe(true);
+      expect(retry.balance).toBe('300.0000');
+
+      const logs = await TransactionLog.findAll({
+        where: { externalReference: 'bank-payout-3' },
+        order: [['createdAt', 'ASC']],
+      });
+      expect(logs.map((log) => log.status)).toEqual([
+        TransactionStatus.FAILED,
+        TransactionStatus.SUCCESS,
+      ]);
+    });
+  });
+
+  describe('Ledger', () => {
+    it('should post opening balances for new wallets', async () => {
+      expect(await LedgerService.getBalanceAt(wallet1.id)).toBe('1000.0000');
+      expect(await LedgerService.getBalanceAt(wallet2.id)).toBe('500.0000');
+    });
+
+    it('should write balanced entries with running balances', async () => {
+      const result = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'ledger-transfer',
+      });
+
+      const entries = await LedgerEntry.findAll({
+        where: { transactionId: result.transactionId },
+        order: [['amount', 'ASC']],
+      });
+
+      expect(entries.map((e) => [e.walletId, e.amount, e.balanceAfter])).toEqual([
+        [wallet1.id, '-100.0000', '900.0000'],
+        [wallet2.id, '100.0000', '600.0000'],
+      ]);
+      await expect(
+        LedgerService.assertTransactionBalanced(result.transactionId)
+      ).resolves.toBeUndefined();
+      expect(await LedgerService.findUnbalancedTransactions()).toEqual([]);
+    });
+
+    it('should rebuild balances at a point in time', async () => {
+      await WalletOperationService.deposit({
+        walletId: wallet1.id,
+        amount: '50.0000',
+        externalReference: 'ledger-deposit',
+        idempotencyKey: 'ledger-deposit',
+      });
+      const afterDeposit = new Date();
+
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '300.0000',
+        idempotencyKey: 'ledger-transfer-2',
+      });
+
+      expect(await LedgerService.getBalanceAt(wallet1.id, afterDeposit)).toBe('1050.0000');
+      expect(await LedgerService.getBalanceAt(wallet1.id)).toBe('750.0000');
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(await LedgerService.getBalanceAt(wallet1.id)).toBe(wallet1After?.balance);
+    });
+
+    it('should detect an unbalanced transaction', async () => {
+      const result = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'ledger-tampered',
+      });
+
+      await LedgerEntry.update(
+        { amount: '99.0000' },
+        { where: { transactionId: result.transactionId, walletId: wallet2.id } }
+      );
+
+      await expect(
+        LedgerService.assertTransactionBalanced(result.transactionId)
+      ).rejects.toMatchObject({ code: 'LEDGER_UNBALANCED' });
+      expect(await LedgerService.findUnbalancedTransactions()).toEqual([result.transactionId]);
+    });
+  });
+
+  describe('Reconciliation', () => {
+    it('should report no drift for consistent wallets', async () => {
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'reconcile-1',
+      });
+
+      const report = await ReconciliationService.run();
+      expect(report.walletsChecked).toBe(2);
+      expect(report.driftCount).toBe(0);
+    });
+
+    it('should report drift with delta and last consistent transaction', async () => {
+      const first = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'reconcile-2',
+      });
+
+      // Balance edited by hand, bypassing the transfer flow
+      await Wallet.update({ balance: '925.0000' }, { where: { id: wallet1.id } });
+
+      const report = await ReconciliationService.run();
+      expect(report.driftCount).toBe(1);
+      expect(report.drifts[0]).toMatchObject({
+        walletId: wallet1.id,
+        currency: 'USD',
+        openingBalance: '1000.0000',
+        expectedBalance: '900.0000',
+        recordedBalance: '925.0000',
+        delta: '25.0000',
+        lastConsistentTransactionId: first.transactionId,
+        expectedVersion: 1,
+        recordedVersion: 1,
+        versionMismatch: false,
+      });
+
+      const csv = ReconciliationService.toCsv(report).trim().split('\n');
+      expect(csv[0]).toBe(
+        'walletId,userId,currency,openingBalance,expectedBalance,recordedBalance,delta,' +
+          'lastConsistentTransactionId,expectedVersion,recordedVersion,versionMismatch'
+      );
+      expect(csv).toHaveLength(2);
+    });
+  });
+
   describe('Validation', () => {
     it('should reject transfer with insufficient balance', async () => {
       await expect(
@@ -166,6 +632,26 @@ describe('TransferService', () => {
       ).rejects.toThrow(TransferError);
     });
 
+    it('should reject fields of the wrong type with 400', async () => {
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: [wallet1.id] as unknown as string,
+          toWalletId: wallet2.id,
+          amount: '10.00',
+          idempotencyKey: 'wrong-type-wallet',
+        })
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_REQUEST' });
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: ['10.00'] as unknown as string,
+          idempotencyKey: 'wrong-type-amount',
+        })
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_AMOUNT' });
+    });
+
     it('should reject negative amount', async () => {
       await expect(
         TransferService.executeTransfer({
@@ -259,23 +745,2384 @@ describe('TransferService', () => {
     });
   });
 
-  describe('Precision Handling', () => {
-    it('should handle decimal amounts with precision', async () => {
-      const result = await TransferService.executeTransfer({
+  describe('Pending Recovery', () => {
+    // Sweep as if an hour had passed, so fresh logs count as stale
+    const oneHourLater = () => new Date(Date.now() + 60 * 60 * 1000);
+
+    it('should fail a stale PENDING log whose transfer never committed', async () => {
+      await TransactionLog.create({
         fromWalletId: wallet1.id,
         toWalletId: wallet2.id,
-        amount: '123.4567',
-        idempotencyKey: 'precision-test',
+        amount: '100.0000',
+        idempotencyKey: 'crashed-transfer',
+        metadata: { requestedAt: new Date().toISOString() },
       });
 
-      expect(result.success).toBe(true);
-      
-      // Should maintain 4 decimal places
+      const report = await PendingRecoveryService.recoverStalePending(oneHourLater());
+      expect(report.recoveredAsFailed).toBe(1);
+
+      const log = await TransactionLog.findOne({
+        where: { idempotencyKey: 'crashed-transfer' },
+      });
+      expect(log?.status).toBe(TransactionStatus.FAILED);
+      expect((log?.metadata as any).recovery.resolution).toBe(TransactionStatus.FAILED);
+
+      // Replays now report the failure instead of "being processed"
+      const replay = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'crashed-transfer',
+      });
+      expect(replay.success).toBe(false);
+      expect(replay.message).toBe('Transfer previously failed');
+
       const wallet1After = await Wallet.findByPk(wallet1.id);
-      const wallet2After = await Wallet.findByPk(wallet2.id);
-      
-      expect(wallet1After?.balance).toBe('876.5433');
-      expect(wallet2After?.balance).toBe('623.4567');
+      expect(wallet1After?.balance).toBe('1000.0000');
+    });
+
+    it('should leave recent PENDING logs alone', async () => {
+      await TransactionLog.create({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.0000',
+        idempotencyKey: 'in-flight-transfer',
+      });
+
+      const report = await PendingRecoveryService.recoverStalePending();
+      expect(report.scanned).toBe(0);
+    });
+  });
+
+  describe('Multi-currency', () => {
+    it('should reject transfers between wallets of different currencies', async () => {
+      const eurWallet = await Wallet.create({
+        userId: 'user-eur',
+        currency: 'EUR',
+        balance: '100.0000',
+      });
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: eurWallet.id,
+          amount: '10.00',
+          idempotencyKey: 'usd-to-eur',
+        })
+      ).rejects.toMatchObject({ code: 'CURRENCY_MISMATCH', statusCode: 400 });
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('1000.0000');
+    });
+
+    it('should reject a requested currency the wallets do not hold', async () => {
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '10.00',
+          currency: 'GBP',
+          idempotencyKey: 'wrong-currency',
+        })
+      ).rejects.toMatchObject({ code: 'CURRENCY_MISMATCH' });
+    });
+
+    it('should reject unsupported currency codes', async () => {
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '10.00',
+          currency: 'XYZ',
+          idempotencyKey: 'unsupported-currency',
+        })
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_CURRENCY' });
+    });
+
+    it('should transfer whole units only in zero-decimal currencies', async () => {
+      const yen1 = await Wallet.create({ userId: 'user-jpy-1', currency: 'JPY', balance: '5000' });
+      const yen2 = await Wallet.create({ userId: 'user-jpy-2', currency: 'JPY', balance: '0' });
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: yen1.id,
+          toWalletId: yen2.id,
+          amount: '100.5',
+          idempotencyKey: 'jpy-fractional',
+        })
+      ).rejects.toMatchObject({ code: 'AMOUNT_PRECISION_EXCEEDED' });
+
+      const result = await TransferService.executeTransfer({
+        fromWalletId: yen1.id,
+        toWalletId: yen2.id,
+        amount: '100',
+        currency: 'jpy',
+        idempotencyKey: 'jpy-whole',
+      });
+
+      expect(result.currency).toBe('JPY');
+      expect(result.fromBalance).toBe('4900.0000');
+
+      const log = await TransactionLog.findOne({ where: { idempotencyKey: 'jpy-whole' } });
+      expect(log?.currency).toBe('JPY');
+    });
+
+    it('should default wallets to the base currency', () => {
+      expect(wallet1.currency).toBe('USD');
+    });
+  });
+
+  describe('FX Transfers', () => {
+    let eurWallet: Wallet;
+
+    beforeEach(async () => {
+      eurWallet = await Wallet.create({
+        userId: 'user-eur',
+        currency: 'EUR',
+        balance: '50.0000',
+      });
+    });
+
+    it('should quote with spread and expiry', async () => {
+      const quote = await FxQuoteService.createQuote({
+        fromCurrency: 'usd',
+        toCurrency: 'EUR',
+        amount: '100.00',
+      });
+
+      expect(quote).toMatchObject({
+        fromCurrency: 'USD',
+        toCurrency: 'EUR',
+        amount: '100.0000',
+        midRate: '0.9200000000',
+        rate: '0.9154000000',
+        spreadBps: 50,
+        convertedAmount: '91.5400',
+      });
+      expect(new Date(quote.expiresAt).getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should debit and credit the converted amounts atomically', async () => {
+      const quote = await FxQuoteService.createQuote({
+        fromCurrency: 'USD',
+        toCurrency: 'EUR',
+        amount: '100.00',
+      });
+
+      const result = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: eurWallet.id,
+        amount: '100.00',
+        quoteId: quote.quoteId,
+        idempotencyKey: 'fx-transfer-1',
+      });
+
+      expect(result.fromBalance).toBe('900.0000');
+      expect(result.toBalance).toBe('141.5400');
+      expect(result.fx).toEqual({
+        quoteId: quote.quoteId,
+        rate: '0.9154000000',
+        amount: '100.0000',
+        convertedAmount: '91.5400',
+        toCurrency: 'EUR',
+      });
+
+      // Each currency balances on its own through the FX position accounts
+      const entries = await LedgerEntry.findAll({ where: { transactionId: result.transactionId } });
+      expect(entries).toHaveLength(4);
+      await expect(LedgerService.assertTransactionBalanced(result.transactionId)).resolves.toBeUndefined();
+
+      const report = await ReconciliationService.run();
+      expect(report.driftCount).toBe(0);
+
+      // Replay returns the original converted amounts
+      await RedisService.flushAll();
+      const replay = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: eurWallet.id,
+        amount: '100.00',
+        quoteId: quote.quoteId,
+        idempotencyKey: 'fx-transfer-1',
+      });
+      expect(replay.fx).toEqual(result.fx);
+      expect(replay.toBalance).toBe('141.5400');
+    });
+
+    it('should reject a cross-currency transfer without a quote', async () => {
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: eurWallet.id,
+          amount: '100.00',
+          idempotencyKey: 'fx-no-quote',
+        })
+      ).rejects.toMatchObject({ code: 'CURRENCY_MISMATCH' });
+    });
+
+    it('should reject a quote for a different amount', async () => {
+      const quote = await FxQuoteService.createQuote({
+        fromCurrency: 'USD',
+        toCurrency: 'EUR',
+        amount: '100.00',
+      });
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: eurWallet.id,
+          amount: '200.00',
+          quoteId: quote.quoteId,
+          idempotencyKey: 'fx-wrong-amount',
+        })
+      ).rejects.toMatchObject({ code: 'QUOTE_MISMATCH' });
+    });
+
+    it('should reject an already-used quote', async () => {
+      const quote = await FxQuoteService.createQuote({
+        fromCurrency: 'USD',
+        toCurrency: 'EUR',
+        amount: '10.00',
+      });
+
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: eurWallet.id,
+        amount: '10.00',
+        quoteId: quote.quoteId,
+        idempotencyKey: 'fx-used-1',
+      });
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: eurWallet.id,
+          amount: '10.00',
+          quoteId: quote.quoteId,
+          idempotencyKey: 'fx-used-2',
+        })
+      ).rejects.toMatchObject({ code: 'QUOTE_ALREADY_USED', statusCode: 409 });
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('990.0000');
+    });
+
+    it('should reject an expired quote and leave balances untouched', async () => {
+      const quote = await FxQuoteService.createQuote({
+        fromCurrency: 'USD',
+        toCurrency: 'EUR',
+        amount: '10.00',
+      });
+      await FxQuote.update({ expiresAt: new Date(Date.now() - 1000) }, { where: { id: quote.quoteId } });
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: eurWallet.id,
+          amount: '10.00',
+          quoteId: quote.quoteId,
+          idempotencyKey: 'fx-expired',
+        })
+      ).rejects.toMatchObject({ code: 'QUOTE_EXPIRED' });
+
+      const eurAfter = await Wallet.findByPk(eurWallet.id);
+      expect(eurAfter?.balance).toBe('50.0000');
+
+      const log = await TransactionLog.findOne({ where: { idempotencyKey: 'fx-expired' } });
+      expect(log?.status).toBe(TransactionStatus.FAILED);
+    });
+  });
+
+  describe('Wallet Lifecycle', () => {
+    const operator = { reason: 'Fraud investigation #42', actor: 'ops:alice' };
+
+    it('should create wallets idempotently', async () => {
+      const first = await WalletService.createWallet({
+        userId: 'new-user',
+        currency: 'GBP',
+        idempotencyKey: 'create-wallet-1',
+      });
+      const retry = await WalletService.createWallet({
+        userId: 'new-user',
+        currency: 'GBP',
+        idempotencyKey: 'create-wallet-1',
+      });
+
+      expect(first.created).toBe(true);
+      expect(first.wallet).toMatchObject({
+        userId: 'new-user',
+        currency: 'GBP',
+        balance: '0.0000',
+        status: WalletStatus.ACTIVE,
+      });
+      expect(retry.created).toBe(false);
+      expect(retry.wallet.id).toBe(first.wallet.id);
+
+      await expect(
+        WalletService.createWallet({
+          userId: 'new-user',
+          currency: 'EUR',
+          idempotencyKey: 'create-wallet-1',
+        })
+      ).rejects.toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+
+      await expect(
+        WalletService.createWallet({
+          userId: 'new-user',
+          currency: 'GBP',
+          idempotencyKey: 'create-wallet-2',
+        })
+      ).rejects.toMatchObject({ code: 'WALLET_ALREADY_EXISTS', statusCode: 409 });
+    });
+
+    it('should give a user one wallet per currency and convert between them', async () => {
+      const usd = await WalletService.createWallet({
+        userId: 'multi-currency-user',
+        currency: 'USD',
+        idempotencyKey: 'create-wallet-usd',
+      });
+      const eur = await WalletService.createWallet({
+        userId: 'multi-currency-user',
+        currency: 'EUR',
+        idempotencyKey: 'create-wallet-eur',
+      });
+
+      expect(usd.created && eur.created).toBe(true);
+      expect(usd.wallet.id).not.toBe(eur.wallet.id);
+
+      await WalletOperationService.deposit({
+        walletId: usd.wallet.id,
+        amount: '100.00',
+        externalReference: 'multi-currency-funding',
+        idempotencyKey: 'multi-currency-deposit',
+      });
+      const quote = await FxQuoteService.createQuote({
+        fromCurrency: 'USD',
+        toCurrency: 'EUR',
+        amount: '100.00',
+      });
+
+      const result = await TransferService.executeTransfer({
+        fromWalletId: usd.wallet.id,
+        toWalletId: eur.wallet.id,
+        amount: '100.00',
+        quoteId: quote.quoteId,
+        idempotencyKey: 'multi-currency-convert',
+      });
+      expect(result).toMatchObject({ fromBalance: '0.0000', toBalance: '91.5400' });
+    });
+
+    it('should refuse debits from a frozen wallet but accept credits', async () => {
+      const frozen = await WalletService.freeze({ walletId: wallet1.id, ...operator });
+      expect(frozen.status).toBe(WalletStatus.FROZEN);
+      expect(frozen.statusHistory).toEqual([
+        expect.objectContaining({
+          fromStatus: WalletStatus.ACTIVE,
+          toStatus: WalletStatus.FROZEN,
+          ...operator,
+        }),
+      ]);
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '10.00',
+          idempotencyKey: 'from-frozen',
+        })
+      ).rejects.toMatchObject({ code: 'SOURCE_WALLET_FROZEN' });
+
+      const credit = await TransferService.executeTransfer({
+        fromWalletId: wallet2.id,
+        toWalletId: wallet1.id,
+        amount: '10.00',
+        idempotencyKey: 'to-frozen',
+      });
+      expect(credit.toBalance).toBe('1010.0000');
+
+      const active = await WalletService.unfreeze({ walletId: wallet1.id, ...operator });
+      expect(active.status).toBe(WalletStatus.ACTIVE);
+    });
+
+    it('should only close wallets at zero balance', async () => {
+      await expect(
+        WalletService.close({ walletId: wallet2.id, ...operator })
+      ).rejects.toMatchObject({ code: 'WALLET_BALANCE_NOT_ZERO' });
+
+      await WalletOperationService.withdraw({
+        walletId: wallet2.id,
+        amount: '500.00',
+        externalReference: 'close-out-payout',
+        idempotencyKey: 'close-out',
+      });
+
+      const closed = await WalletService.close({ walletId: wallet2.id, ...operator });
+      expect(closed.status).toBe(WalletStatus.CLOSED);
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '10.00',
+          idempotencyKey: 'to-closed',
+        })
+      ).rejects.toMatchObject({ code: 'DESTINATION_WALLET_CLOSED' });
+
+      await expect(
+        WalletOperationService.deposit({
+          walletId: wallet2.id,
+          amount: '10.00',
+          externalReference: 'late-charge',
+          idempotencyKey: 'deposit-to-closed',
+        })
+      ).rejects.toMatchObject({ code: 'DESTINATION_WALLET_CLOSED' });
+
+      await expect(
+        WalletService.unfreeze({ walletId: wallet2.id, ...operator })
+      ).rejects.toMatchObject({ code: 'INVALID_STATUS_TRANSITION' });
+    });
+  });
+
+  describe('Spending Limits', () => {
+    const setLimits = (limits: object) =>
+      WalletLimitService.updateLimits({
+        walletId: wallet1.id,
+        limits,
+        reason: 'Risk review',
+        actor: 'ops:bob',
+      });
+
+    const transfer = (amount: string, idempotencyKey: string) =>
+      TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount,
+        idempotencyKey,
+      });
+
+    it('should reject transfers above the single transfer limit', async () => {
+      await setLimits({ maxSingleTransfer: '100.00' });
+
+      await expect(transfer('100.01', 'limit-single')).rejects.toMatchObject({
+        code: 'LIMIT_EXCEEDED',
+        statusCode: 422,
+        details: { limit: 'MAX_SINGLE_TRANSFER', limitValue: '100.0000' },
+      });
+      await expect(transfer('100.00', 'limit-single-ok')).resolves.toMatchObject({ success: true });
+    });
+
+    it('should report daily headroom left', async () => {
+      await setLimits({ dailyOutgoingTotal: '250.00' });
+      await transfer('200.00', 'limit-daily-1');
+
+      await expect(transfer('60.00', 'limit-daily-2')).rejects.toMatchObject({
+        code: 'LIMIT_EXCEEDED',
+        details: { limit: 'DAILY_OUTGOING_TOTAL', headroom: '50.0000', currency: 'USD' },
+      });
+
+      // Withdrawals draw on the same daily total
+      await expect(
+        WalletOperationService.withdraw({
+          walletId: wallet1.id,
+          amount: '60.00',
+          externalReference: 'limit-payout',
+          idempotencyKey: 'limit-daily-3',
+        })
+      ).rejects.toMatchObject({ details: { limit: 'DAILY_OUTGOING_TOTAL' } });
+    });
+
+    it('should cap the number of transfers per hour', async () => {
+      await setLimits({ hourlyTransferCount: 2 });
+      await transfer('1.00', 'limit-hourly-1');
+      await transfer('1.00', 'limit-hourly-2');
+
+      await expect(transfer('1.00', 'limit-hourly-3')).rejects.toMatchObject({
+        details: { limit: 'HOURLY_TRANSFER_COUNT', headroom: 0 },
+      });
+    });
+
+    it('should keep the minimum retained balance', async () => {
+      await setLimits({ minRetainedBalance: '900.00' });
+
+      await expect(transfer('150.00', 'limit-retained')).rejects.toMatchObject({
+        details: { limit: 'MIN_RETAINED_BALANCE', headroom: '100.0000' },
+      });
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('1000.0000');
+    });
+
+    it('should audit limit changes', async () => {
+      await setLimits({ maxSingleTransfer: '100.00', hourlyTransferCount: 5 });
+      const result = await setLimits({ maxSingleTransfer: null });
+
+      expect(result.limits).toEqual({
+        maxSingleTransfer: null,
+        dailyOutgoingTotal: null,
+        hourlyTransferCount: 5,
+        minRetainedBalance: null,
+      });
+      expect(result.history).toHaveLength(2);
+      expect(result.history).toContainEqual(
+        expect.objectContaining({
+          previousLimits: expect.objectContaining({ maxSingleTransfer: '100.0000' }),
+          newLimits: expect.objectContaining({ maxSingleTransfer: null }),
+          reason: 'Risk review',
+          actor: 'ops:bob',
+        })
+      );
+    });
+  });
+
+  describe('Batch Transfers', () => {
+    let wallet3: Wallet;
+
+    beforeEach(async () => {
+      wallet3 = await Wallet.create({
+        userId: 'user3',
+        balance: '0.0000',
+      });
+    });
+
+    const payroll = (mode: BatchMode, idempotencyKey: string, amounts: string[]) =>
+      BatchTransferService.executeBatch({
+        idempotencyKey,
+        mode,
+        fromWalletId: wallet1.id,
+        legs: amounts.map((amount, i) => ({
+          toWalletId: i % 2 === 0 ? wallet2.id : wallet3.id,
+          amount,
+          idempotencyKey: `${idempotencyKey}-leg-${i}`,
+        })),
+      });
+
+    it('should commit every leg of an atomic batch', async () => {
+      const result = await payroll(BatchMode.ATOMIC, 'batch-atomic', ['100.00', '200.00', '50.00']);
+
+      expect(result.status).toBe(BatchStatus.COMPLETED);
+      expect(result.legs.map((leg) => leg.status)).toEqual([
+        BatchLegStatus.SUCCESS,
+        BatchLegStatus.SUCCESS,
+        BatchLegStatus.SUCCESS,
+      ]);
+      expect(result.legs[2].fromBalance).toBe('650.0000');
+
+      const [w1, w2, w3] = await Promise.all(
+        [wallet1, wallet2, wallet3].map((w) => Wallet.findByPk(w.id))
+      );
+      expect(w1?.balance).toBe('650.0000');
+      expect(w1?.version).toBe(3);
+      expect(w2?.balance).toBe('650.0000');
+      expect(w3?.balance).toBe('200.0000');
+
+      const legLogs = await TransactionLog.findAll({ where: { batchId: result.batchId } });
+      expect(legLogs).toHaveLength(3);
+      expect(legLogs.every((log) => log.status === TransactionStatus.SUCCESS)).toBe(true);
+
+      const report = await ReconciliationService.run();
+      expect(report.driftCount).toBe(0);
+    });
+
+    it('should roll back an atomic batch when one leg fails', async () => {
+      const ledgerEntriesBefore = await LedgerEntry.count();
+      const result = await payroll(BatchMode.ATOMIC, 'batch-rollback', ['600.00', '600.00']);
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBe(BatchStatus.FAILED);
+      expect(result.legs[0].status).toBe(BatchLegStatus.SKIPPED);
+      expect(result.legs[1]).toMatchObject({
+        status: BatchLegStatus.FAILED,
+        error: { code: 'INSUFFICIENT_BALANCE' },
+      });
+
+      const w1 = await Wallet.findByPk(wallet1.id);
+      expect(w1?.balance).toBe('1000.0000');
+      expect(await TransactionLog.count()).toBe(0);
+      expect(await LedgerEntry.count()).toBe(ledgerEntriesBefore);
+    });
+
+    it('should report each leg of a best-effort batch', async () => {
+      const result = await payroll(BatchMode.BEST_EFFORT, 'batch-best', ['600.00', '600.00', '300.00']);
+
+      expect(result.status).toBe(BatchStatus.PARTIAL);
+      expect(result.legs.map((leg) => leg.status)).toEqual([
+        BatchLegStatus.SUCCESS,
+        BatchLegStatus.FAILED,
+        BatchLegStatus.SUCCESS,
+      ]);
+      expect(result.legs[1].error?.code).toBe('INSUFFICIENT_BALANCE');
+
+      const w1 = await Wallet.findByPk(wallet1.id);
+      expect(w1?.balance).toBe('100.0000');
+    });
+
+    it('should return the same per-leg results on replay', async () => {
+      const first = await payroll(BatchMode.BEST_EFFORT, 'batch-replay', ['600.00', '600.00']);
+
+      // Served from Redis, then from the batch row
+      const cached = await payroll(BatchMode.BEST_EFFORT, 'batch-replay', ['600.00', '600.00']);
+      await RedisService.flushAll();
+      const replayed = await payroll(BatchMode.BEST_EFFORT, 'batch-replay', ['600.00', '600.00']);
+
+      expect(cached.legs).toEqual(first.legs);
+      expect(replayed.legs).toEqual(first.legs);
+      expect(replayed.batchId).toBe(first.batchId);
+
+      const w1 = await Wallet.findByPk(wallet1.id);
+      expect(w1?.balance).toBe('400.0000');
+    });
+
+    it('should reject a replay with a different payload', async () => {
+      await payroll(BatchMode.ATOMIC, 'batch-reuse', ['10.00']);
+
+      await expect(payroll(BatchMode.ATOMIC, 'batch-reuse', ['20.00'])).rejects.toMatchObject({
+        code: 'IDEMPOTENCY_KEY_REUSED',
+      });
+    });
+
+    it('should fail an atomic batch whose leg key was already used', async () => {
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '10.00',
+        idempotencyKey: 'batch-used-leg-0',
+      });
+
+      const result = await payroll(BatchMode.ATOMIC, 'batch-used', ['10.00']);
+
+      expect(result.legs[0].error?.code).toBe('LEG_IDEMPOTENCY_KEY_USED');
+    });
+
+    it('should reject malformed legs before running any', async () => {
+      await expect(payroll(BatchMode.ATOMIC, 'batch-invalid', ['10.00', '-5'])).rejects.toMatchObject({
+        code: 'INVALID_AMOUNT',
+        details: { legIndex: 1 },
+      });
+      expect(await TransferBatch.count()).toBe(0);
+    });
+
+    it('should reject legs whose fields are not strings', async () => {
+      for (const toWalletId of [42, [wallet2.id]]) {
+        await expect(
+          BatchTransferService.executeBatch({
+            idempotencyKey: 'batch-types',
+            mode: BatchMode.ATOMIC,
+            fromWalletId: wallet1.id,
+            legs: [
+              {
+                toWalletId: toWalletId as unknown as string,
+                amount: '10.00',
+                idempotencyKey: 'batch-types-leg-0',
+              },
+            ],
+          })
+        ).rejects.toMatchObject({
+          statusCode: 400,
+          code: 'INVALID_REQUEST',
+          details: { legIndex: 0 },
+        });
+      }
+      expect(await TransferBatch.count()).toBe(0);
+    });
+  });
+
+  describe('Reversals', () => {
+    let original: string;
+
+    beforeEach(async () => {
+      const result = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '300.00',
+        idempotencyKey: 'reversal-original',
+      });
+      original = result.transactionId;
+    });
+
+    it('should refund partially, then the remainder', async () => {
+      const partial = await ReversalService.reverse({
+        transactionId: original,
+        amount: '100.00',
+        reason: 'Item returned',
+        idempotencyKey: 'reversal-partial',
+      });
+
+      expect(partial).toMatchObject({
+        success: true,
+        reversalOf: original,
+        amount: '100.0000',
+        totalReversed: '100.0000',
+        fromBalance: '700.0000',
+        toBalance: '800.0000',
+      });
+
+      // No amount = everything not yet reversed
+      const rest = await ReversalService.reverse({
+        transactionId: original,
+        idempotencyKey: 'reversal-rest',
+      });
+      expect(rest.amount).toBe('200.0000');
+      expect(rest.totalReversed).toBe('300.0000');
+
+      const originalLog = await TransactionLog.findByPk(original);
+      expect(originalLog?.reversedAmount).toBe('300.0000');
+      expect((originalLog?.metadata as any).reversals.map((r: any) => r.transactionId)).toEqual([
+        partial.transactionId,
+        rest.transactionId,
+      ]);
+
+      const reversalLog = await TransactionLog.findByPk(rest.transactionId);
+      expect(reversalLog?.type).toBe(TransactionType.REVERSAL);
+      expect(reversalLog?.reversalOfId).toBe(original);
+
+      const report = await ReconciliationService.run();
+      expect(report.driftCount).toBe(0);
+    });
+
+    it('should never reverse more than the original amount', async () => {
+      await ReversalService.reverse({
+        transactionId: original,
+        amount: '250.00',
+        idempotencyKey: 'reversal-cap-1',
+      });
+
+      await expect(
+        ReversalService.reverse({
+          transactionId: original,
+          amount: '60.00',
+          idempotencyKey: 'reversal-cap-2',
+        })
+      ).rejects.toMatchObject({
+        code: 'REVERSAL_EXCEEDS_ORIGINAL',
+        statusCode: 422,
+        details: { remaining: '50.0000' },
+      });
+
+      const failed = await TransactionLog.findOne({ where: { idempotencyKey: 'reversal-cap-2' } });
+      expect(failed?.status).toBe(TransactionStatus.FAILED);
+    });
+
+    it('should replay a reversal by its idempotency key', async () => {
+      const request = {
+        transactionId: original,
+        amount: '100.00',
+        idempotencyKey: 'reversal-replay',
+      };
+
+      const first = await ReversalService.reverse(request);
+      const second = await ReversalService.reverse(request);
+
+      expect(second.transactionId).toBe(first.transactionId);
+      const originalLog = await TransactionLog.findByPk(original);
+      expect(originalLog?.reversedAmount).toBe('100.0000');
+    });
+
+    it('should fail when the recipient cannot cover the refund', async () => {
+      // Recipient spends most of what it received
+      await TransferService.executeTransfer({
+        fromWalletId: wallet2.id,
+        toWalletId: wallet1.id,
+        amount: '750.00',
+        idempotencyKey: 'reversal-spend',
+      });
+
+      await expect(
+        ReversalService.reverse({ transactionId: original, idempotencyKey: 'reversal-short' })
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+      // Admin override lets the recipient go negative
+      const forced = await ReversalService.reverse({
+        transactionId: original,
+        idempotencyKey: 'reversal-forced',
+        allowNegativeBalance: true,
+        actor: 'ops:alice',
+      });
+      expect(forced.fromBalance).toBe('-250.0000');
+
+      // A negative wallet still accepts credits
+      const topUp = await WalletOperationService.deposit({
+        walletId: wallet2.id,
+        amount: '100.00',
+        externalReference: 'reversal-top-up',
+        idempotencyKey: 'reversal-top-up',
+      });
+      expect(topUp.balance).toBe('-150.0000');
+
+      const report = await ReconciliationService.run();
+      expect(report.driftCount).toBe(0);
+    });
+
+    it('should require an actor for the override', async () => {
+      await expect(
+        ReversalService.reverse({
+          transactionId: original,
+          idempotencyKey: 'reversal-no-actor',
+          allowNegativeBalance: true,
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    });
+
+    it('should only reverse transfers', async () => {
+      const deposit = await WalletOperationService.deposit({
+        walletId: wallet1.id,
+        amount: '10.00',
+        externalReference: 'reversal-deposit',
+        idempotencyKey: 'reversal-deposit',
+      });
+
+      await expect(
+        ReversalService.reverse({
+          transactionId: deposit.transactionId,
+          idempotencyKey: 'reversal-of-deposit',
+        })
+      ).rejects.toMatchObject({ code: 'TRANSACTION_NOT_REVERSIBLE' });
+    });
+  });
+
+  describe('Holds', () => {
+    const placeHold = (amount: string, idempotencyKey: string, ttlSeconds?: number) =>
+      HoldService.placeHold({
+        walletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount,
+        ttlSeconds,
+        idempotencyKey,
+      });
+
+    it('should reduce available but not ledger balance', async () => {
+      const { hold, created } = await placeHold('300.00', 'hold-place');
+
+      expect(created).toBe(true);
+      expect(hold.status).toBe(HoldStatus.ACTIVE);
+      await expect(TransferService.getWalletBalance(wallet1.id)).resolves.toEqual({
+        walletId: wallet1.id,
+        balance: '1000.0000',
+        available: '700.0000',
+        held: '300.0000',
+        currency: 'USD',
+      });
+
+      // Same key, same request: same hold, nothing reserved twice
+      const replay = await placeHold('300.00', 'hold-place');
+      expect(replay).toMatchObject({ created: false, hold: { id: hold.id } });
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.heldAmount).toBe('300.0000');
+    });
+
+    it('should keep transfers and withdrawals off held funds', async () => {
+      await placeHold('800.00', 'hold-block');
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '250.00',
+          idempotencyKey: 'hold-block-transfer',
+        })
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+      await expect(
+        WalletOperationService.withdraw({
+          walletId: wallet1.id,
+          amount: '250.00',
+          externalReference: 'hold-block-payout',
+          idempotencyKey: 'hold-block-withdraw',
+        })
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+      await expect(placeHold('250.00', 'hold-block-2')).rejects.toMatchObject({
+        code: 'INSUFFICIENT_BALANCE',
+      });
+    });
+
+    it('should capture part of a hold and release the rest', async () => {
+      const { hold } = await placeHold('300.00', 'hold-capture');
+
+      const capture = await HoldService.capture({
+        holdId: hold.id,
+        amount: '120.00',
+        idempotencyKey: 'hold-capture-1',
+      });
+
+      expect(capture).toMatchObject({
+        success: true,
+        holdId: hold.id,
+        capturedAmount: '120.0000',
+        releasedAmount: '180.0000',
+        fromBalance: '880.0000',
+        toBalance: '620.0000',
+      });
+
+      const balance = await TransferService.getWalletBalance(wallet1.id);
+      expect(balance).toMatchObject({ available: '880.0000', held: '0.0000' });
+
+      const captured = await HoldService.getHold(hold.id);
+      expect(captured).toMatchObject({
+        status: HoldStatus.CAPTURED,
+        capturedAmount: '120.0000',
+        captureTransactionId: capture.transactionId,
+      });
+
+      // Replay of the capture key; a second capture is refused
+      const replay = await HoldService.capture({
+        holdId: hold.id,
+        amount: '120.00',
+        idempotencyKey: 'hold-capture-1',
+      });
+      expect(replay.transactionId).toBe(capture.transactionId);
+
+      await expect(
+        HoldService.capture({ holdId: hold.id, idempotencyKey: 'hold-capture-2' })
+      ).rejects.toMatchObject({ code: 'HOLD_NOT_ACTIVE' });
+
+      const report = await ReconciliationService.run();
+      expect(report.driftCount).toBe(0);
+    });
+
+    it('should refuse to capture more than the hold', async () => {
+      const { hold } = await placeHold('100.00', 'hold-over');
+
+      await expect(
+        HoldService.capture({ holdId: hold.id, amount: '100.01', idempotencyKey: 'hold-over-1' })
+      ).rejects.toMatchObject({ code: 'CAPTURE_EXCEEDS_HOLD' });
+    });
+
+    it('should release funds on void', async () => {
+      const { hold } = await placeHold('300.00', 'hold-void');
+
+      const voided = await HoldService.voidHold(hold.id);
+      expect(voided.status).toBe(HoldStatus.VOIDED);
+
+      // Voiding again is a no-op
+      await expect(HoldService.voidHold(hold.id)).resolves.toMatchObject({
+        status: HoldStatus.VOIDED,
+      });
+
+      const balance = await TransferService.getWalletBalance(wallet1.id);
+      expect(balance).toMatchObject({ balance: '1000.0000', available: '1000.0000' });
+
+      await expect(
+        HoldService.capture({ holdId: hold.id, idempotencyKey: 'hold-void-capture' })
+      ).rejects.toMatchObject({ code: 'HOLD_NOT_ACTIVE' });
+    });
+
+    it('should expire holds past their expiry', async () => {
+      const { hold } = await placeHold('300.00', 'hold-expire', 60);
+
+      const early = await HoldService.expireHolds();
+      expect(early.expired).toBe(0);
+
+      const report = await HoldService.expireHolds(new Date(Date.now() + 61 * 1000));
+      expect(report.expired).toBe(1);
+
+      const expired = await HoldService.getHold(hold.id);
+      expect(expired.status).toBe(HoldStatus.EXPIRED);
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.heldAmount).toBe('0.0000');
+
+      await expect(
+        HoldService.capture({ holdId: hold.id, idempotencyKey: 'hold-expire-capture' })
+      ).rejects.toMatchObject({ code: 'HOLD_EXPIRED' });
+    });
+  });
+
+  describe('Scheduled Transfers', () => {
+    const schedule = (
+      amount: string,
+      idempotencyKey: string,
+      timing: { runAt?: string; cron?: string },
+      maxFailures?: number
+    ) =>
+      ScheduledTransferService.create({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount,
+        ...timing,
+        maxFailures,
+        idempotencyKey,
+      });
+
+    it('should run a one-off transfer once it is due', async () => {
+      const runAt = new Date(Date.now() + 60 * 1000);
+      const { schedule: created } = await schedule('100.00', 'sched-once', {
+        runAt: runAt.toISOString(),
+      });
+
+      expect(created).toMatchObject({ status: ScheduledTransferStatus.ACTIVE, cron: null });
+
+      const early = await ScheduledTransferService.runDue();
+      expect(early.scanned).toBe(0);
+
+      const report = await ScheduledTransferService.runDue(new Date(runAt.getTime() + 1000));
+      expect(report).toMatchObject({ scanned: 1, succeeded: 1 });
+
+      const ran = await ScheduledTransferService.get(created.id);
+      expect(ran).toMatchObject({ status: ScheduledTransferStatus.COMPLETED, nextRunAt: null });
+
+      // The transfer's key is derived from the schedule and its occurrence
+      const log = await TransactionLog.findByPk(ran.lastTransactionId as string);
+      expect(log?.idempotencyKey).toBe(`scheduled:${created.id}:${runAt.toISOString()}`);
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('900.0000');
+    });
+
+    it('should not pay an occurrence twice after a scheduler crash', async () => {
+      const { schedule: created } = await schedule('100.00', 'sched-crash', {
+        cron: '0 9 1 * *',
+      });
+
+      // A worker paid the occurrence, then died before recording it
+      const row = await ScheduledTransfer.findByPk(created.id);
+      const occurrence = new Date(created.nextRunAt as string);
+      const paid = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.00',
+        currency: 'USD',
+        idempotencyKey: ScheduledTransferService.occurrenceKey(row as ScheduledTransfer),
+      });
+
+      const report = await ScheduledTransferService.runDue(new Date(occurrence.getTime() + 1000));
+      expect(report).toMatchObject({ scanned: 1, succeeded: 1 });
+
+      const ran = await ScheduledTransferService.get(created.id);
+      expect(ran.lastTransactionId).toBe(paid.transactionId);
+      expect(new Date(ran.nextRunAt as string).getTime()).toBeGreaterThan(occurrence.getTime());
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('900.0000');
+    });
+
+    it('should back off on insufficient balance and pause after maxFailures', async () => {
+      const { schedule: created } = await schedule(
+        '5000.00',
+        'sched-broke',
+        { runAt: new Date().toISOString() },
+        2
+      );
+
+      const first = await ScheduledTransferService.runDue(new Date(Date.now() + 1000));
+      expect(first).toMatchObject({ scanned: 1, failed: 1 });
+
+      const failed = await ScheduledTransferService.get(created.id);
+      expect(failed).toMatchObject({
+        status: ScheduledTransferStatus.ACTIVE,
+        failureCount: 1,
+        lastErrorCode: 'INSUFFICIENT_BALANCE',
+      });
+
+      // Not due again until the backoff has passed
+      const retryAt = new Date(failed.retryAt as string);
+      const tooSoon = await ScheduledTransferService.runDue(new Date(retryAt.getTime() - 1000));
+      expect(tooSoon.scanned).toBe(0);
+
+      const second = await ScheduledTransferService.runDue(new Date(retryAt.getTime() + 1000));
+      expect(second).toMatchObject({ scanned: 1, paused: 1 });
+
+      const paused = await ScheduledTransferService.get(created.id);
+      expect(paused).toMatchObject({ status: ScheduledTransferStatus.PAUSED, failureCount: 2 });
+
+      // Resumed and funded: the retry pays under a fresh key
+      await wallet1.update({ balance: '6000.0000' });
+      const resumed = await ScheduledTransferService.update({
+        scheduleId: created.id,
+        status: ScheduledTransferStatus.ACTIVE,
+      });
+      expect(resumed.failureCount).toBe(0);
+
+      const third = await ScheduledTransferService.runDue(new Date(Date.now() + 1000));
+      expect(third).toMatchObject({ scanned: 1, succeeded: 1 });
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('1000.0000');
+    });
+
+    it('should reject invalid schedules', async () => {
+      await expect(
+        schedule('10.00', 'sched-both', { runAt: new Date().toISOString(), cron: '* * * * *' })
+      ).rejects.toMatchObject({ code: 'INVALID_SCHEDULE' });
+
+      await expect(schedule('10.00', 'sched-cron', { cron: '61 * * * *' })).rejects.toMatchObject({
+        code: 'INVALID_SCHEDULE',
+      });
+    });
+
+    it('should stop running once cancelled', async () => {
+      const { schedule: created } = await schedule('10.00', 'sched-cancel', {
+        runAt: new Date().toISOString(),
+      });
+
+      const cancelled = await ScheduledTransferService.cancel(created.id);
+      expect(cancelled).toMatchObject({ status: ScheduledTransferStatus.CANCELLED, nextRunAt: null });
+
+      const report = await ScheduledTransferService.runDue(new Date(Date.now() + 1000));
+      expect(report.scanned).toBe(0);
+
+      await expect(
+        ScheduledTransferService.update({ scheduleId: created.id, amount: '20.00' })
+      ).rejects.toMatchObject({ code: 'INVALID_STATUS_TRANSITION' });
+    });
+  });
+
+  describe('Transfer Events', () => {
+    let server: http.Server;
+    let url: string;
+    let responseStatus: number;
+    let received: { headers: http.IncomingHttpHeaders; body: string }[];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.writeHead(responseStatus).end();
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      responseStatus = 200;
+      received = [];
+    });
+
+    it('should write transfer outcomes to the outbox with the transfer', async () => {
+      const result = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.00',
+        idempotencyKey: 'event-success',
+      });
+
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '5000.00',
+          idempotencyKey: 'event-failure',
+        })
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+      const events = await OutboxEvent.findAll({ order: [['createdAt', 'ASC']] });
+      expect(events.map((event) => event.eventType)).toEqual([
+        TransferEventType.SUCCEEDED,
+        TransferEventType.FAILED,
+      ]);
+      expect(events[0].transactionId).toBe(result.transactionId);
+      expect(events[0].payload).toMatchObject({
+        amount: '100.0000',
+        currency: 'USD',
+        fromBalance: '900.0000',
+        toBalance: '600.0000',
+      });
+      expect(events[1].payload).toMatchObject({ amount: '5000.0000' });
+      expect((events[1].payload as any).errorMessage).toContain('Insufficient balance');
+
+      // Deposits are not transfers: no event
+      await WalletOperationService.deposit({
+        walletId: wallet1.id,
+        amount: '10.00',
+        externalReference: 'event-deposit',
+        idempotencyKey: 'event-deposit',
+      });
+      expect(await OutboxEvent.count()).toBe(2);
+    });
+
+    it('should deliver signed webhooks to subscribed endpoints', async () => {
+      const endpoint = await WebhookService.registerEndpoint({
+        url,
+        eventTypes: [TransferEventType.SUCCEEDED],
+      });
+
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '25.00',
+        idempotencyKey: 'event-webhook',
+      });
+
+      const report = await WebhookService.dispatch();
+      expect(report).toMatchObject({ fannedOut: 1, delivered: 1 });
+      expect(received).toHaveLength(1);
+
+      const [{ headers, body }] = received;
+      expect(headers['x-webhook-event']).toBe(TransferEventType.SUCCEEDED);
+      expect(
+        verifyWebhookSignature(
+          endpoint.secret as string,
+          Number(headers['x-webhook-timestamp']),
+          body,
+          headers['x-webhook-signature'] as string
+        )
+      ).toBe(true);
+      expect(JSON.parse(body)).toMatchObject({
+        id: headers['x-webhook-id'],
+        type: TransferEventType.SUCCEEDED,
+        data: { amount: '25.0000' },
+      });
+
+      // Already dispatched and delivered: nothing left to send
+      const again = await WebhookService.dispatch();
+      expect(again).toMatchObject({ fannedOut: 0, delivered: 0 });
+      expect(received).toHaveLength(1);
+    });
+
+    it('should retry with backoff, dead-letter and replay failed deliveries', async () => {
+      responseStatus = 500;
+      await WebhookService.registerEndpoint({ url });
+
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '25.00',
+        idempotencyKey: 'event-dead',
+      });
+
+      const first = await WebhookService.dispatch();
+      expect(first).toMatchObject({ fannedOut: 1, retried: 1 });
+
+      // Backoff: not due again straight away
+      const tooSoon = await WebhookService.dispatch();
+      expect(tooSoon.retried).toBe(0);
+
+      // Exhaust the attempts, one day apart so every backoff has passed
+      let now = Date.now();
+      let deadLettered = 0;
+      for (let attempt = 0; attempt < 10 && deadLettered === 0; attempt++) {
+        now += 24 * 60 * 60 * 1000;
+        deadLettered = (await WebhookService.dispatch(new Date(now))).deadLettered;
+      }
+      expect(deadLettered).toBe(1);
+
+      const [dead] = await WebhookService.listDeliveries();
+      expect(dead).toMatchObject({
+        status: WebhookDeliveryStatus.DEAD,
+        lastStatusCode: 500,
+        url,
+      });
+
+      responseStatus = 200;
+      const replayed = await WebhookService.replayDelivery(dead.id);
+      expect(replayed).toMatchObject({ status: WebhookDeliveryStatus.PENDING, attempts: 0 });
+
+      const report = await WebhookService.dispatch();
+      expect(report.delivered).toBe(1);
+      await expect(WebhookService.listDeliveries()).resolves.toHaveLength(0);
+    });
+  });
+
+  describe('Transaction History', () => {
+    const transfer = (from: Wallet, to: Wallet, amount: string, key: string) =>
+      TransferService.executeTransfer({
+        fromWalletId: from.id,
+        toWalletId: to.id,
+        amount,
+        idempotencyKey: key,
+      });
+
+    beforeEach(async () => {
+      await transfer(wallet1, wallet2, '10.00', 'history-1');
+      await transfer(wallet2, wallet1, '20.00', 'history-2');
+      await transfer(wallet1, wallet2, '30.00', 'history-3');
+      await expect(transfer(wallet1, wallet2, '5000.00', 'history-4')).rejects.toThrow();
+      await transfer(wallet2, wallet1, '40.00', 'history-5');
+    });
+
+    it('should page newest first through every transaction exactly once', async () => {
+      const keys: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+
+      do {
+        const page = await TransactionHistoryService.getHistory({
+          walletId: wallet1.id,
+          limit: 2,
+          cursor,
+        });
+        keys.push(...page.transactions.map((entry) => entry.idempotencyKey));
+        cursor = page.nextCursor ?? undefined;
+        pages++;
+      } while (cursor);
+
+      expect(pages).toBe(3);
+      expect(keys).toEqual(['history-5', 'history-4', 'history-3', 'history-2', 'history-1']);
+    });
+
+    it('should sign amounts and name the counterparty relative to the wallet', async () => {
+      const { transactions } = await TransactionHistoryService.getHistory({ walletId: wallet1.id });
+
+      expect(transactions[0]).toMatchObject({
+        idempotencyKey: 'history-5',
+        direction: TransactionDirection.RECEIVED,
+        signedAmount: '40.0000',
+        counterpartyWalletId: wallet2.id,
+      });
+      expect(transactions[2]).toMatchObject({
+        idempotencyKey: 'history-3',
+        direction: TransactionDirection.SENT,
+        signedAmount: '-30.0000',
+        counterpartyWalletId: wallet2.id,
+      });
+
+      const received = await TransactionHistoryService.getHistory({ walletId: wallet2.id });
+      expect(received.transactions[2]).toMatchObject({
+        idempotencyKey: 'history-3',
+        direction: TransactionDirection.RECEIVED,
+        signedAmount: '30.0000',
+        counterpartyWalletId: wallet1.id,
+      });
+    });
+
+    it('should filter by direction, status, amount and date range', async () => {
+      const keysFor = async (filters: Omit<TransactionHistoryQuery, 'walletId'>) => {
+        const page = await TransactionHistoryService.getHistory({ walletId: wallet1.id, ...filters });
+        return page.transactions.map((entry) => entry.idempotencyKey);
+      };
+
+      await expect(keysFor({ direction: TransactionDirection.SENT })).resolves.toEqual([
+        'history-4',
+        'history-3',
+        'history-1',
+      ]);
+      await expect(keysFor({ statuses: [TransactionStatus.FAILED] })).resolves.toEqual([
+        'history-4',
+      ]);
+      await expect(
+        keysFor({ direction: TransactionDirection.RECEIVED, statuses: [TransactionStatus.SUCCESS] })
+      ).resolves.toEqual(['history-5', 'history-2']);
+      await expect(keysFor({ minAmount: '20', maxAmount: '30' })).resolves.toEqual([
+        'history-3',
+        'history-2',
+      ]);
+      await expect(keysFor({ to: '2000-01-01T00:00:00Z' })).resolves.toEqual([]);
+      await expect(
+        keysFor({ from: new Date(Date.now() - 60000).toISOString() })
+      ).resolves.toHaveLength(5);
+    });
+
+    it('should reject malformed cursors and filters', async () => {
+      await expect(
+        TransactionHistoryService.getHistory({ walletId: wallet1.id, cursor: 'garbage' })
+      ).rejects.toMatchObject({ code: 'INVALID_CURSOR' });
+      await expect(
+        TransactionHistoryService.getHistory({ walletId: wallet1.id, limit: 0 })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+      await expect(
+        TransactionHistoryService.getHistory({
+          walletId: wallet1.id,
+          minAmount: '50',
+          maxAmount: '10',
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_AMOUNT' });
+    });
+
+    it('should accept repeated status filters and refuse other repeated keys', async () => {
+      await transfer(wallet1, wallet2, '10.00', 'history-query-1');
+      const credential = await AuthService.createCredential({
+        principalId: 'user1',
+        scopes: [AuthScope.WALLETS_READ],
+      });
+
+      const server = app.listen(0, '127.0.0.1');
+      await new Promise((resolve) => server.once('listening', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      const history = (query: string) =>
+        fetch(`${base}/api/wallet/${wallet1.id}/transactions?${query}`, {
+          headers: { 'X-Api-Key': credential.apiKey! },
+        });
+
+      try {
+        const repeated = await history('status=SUCCESS&status=FAILED');
+        expect(repeated.status).toBe(200);
+        expect(((await repeated.json()) as any).transactions).toHaveLength(1);
+
+        const refused = await history('limit=1&limit=2');
+        expect(refused.status).toBe(400);
+        expect(((await refused.json()) as any).error.code).toBe('INVALID_REQUEST');
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe('Point-in-Time Balance', () => {
+    const pause = () => new Promise((resolve) => setTimeout(resolve, 10));
+
+    it('should anchor on the latest SUCCESS transaction at or before asOf', async () => {
+      await pause();
+      const beforeAny = new Date();
+      await pause();
+
+      const first = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.00',
+        idempotencyKey: 'as-of-1',
+      });
+      await pause();
+      const afterFirst = new Date();
+      await pause();
+
+      const second = await TransferService.executeTransfer({
+        fromWalletId: wallet2.id,
+        toWalletId: wallet1.id,
+        amount: '40.00',
+        idempotencyKey: 'as-of-2',
+      });
+
+      await expect(
+        TransactionHistoryService.getBalanceAsOf(wallet1.id, beforeAny.toISOString())
+      ).resolves.toMatchObject({
+        balance: '1000.0000',
+        anchorTransactionId: null,
+        replayedTransactions: 0,
+      });
+
+      await expect(
+        TransactionHistoryService.getBalanceAsOf(wallet1.id, afterFirst.toISOString())
+      ).resolves.toMatchObject({
+        balance: '900.0000',
+        anchorTransactionId: first.transactionId,
+        replayedTransactions: 0,
+      });
+
+      await expect(
+        TransactionHistoryService.getBalanceAsOf(wallet1.id, new Date().toISOString())
+      ).resolves.toMatchObject({
+        walletId: wallet1.id,
+        currency: 'USD',
+        balance: '940.0000',
+        anchorTransactionId: second.transactionId,
+      });
+    });
+
+    it('should count each transaction once as of the moment it was applied', async () => {
+      const moves: Array<[Wallet, Wallet, string]> = [
+        [wallet1, wallet2, '100.00'],
+        [wallet2, wallet1, '40.00'],
+        [wallet1, wallet2, '15.50'],
+        [wallet2, wallet1, '7.25'],
+      ];
+      const expected = ['900.0000', '940.0000', '924.5000', '931.7500'];
+
+      const applied: Array<{ transactionId: string; appliedAt: Date }> = [];
+      for (const [index, [from, to, amount]] of moves.entries()) {
+        const { transactionId } = await TransferService.executeTransfer({
+          fromWalletId: from.id,
+          toWalletId: to.id,
+          amount,
+          idempotencyKey: `as-of-each-${index}`,
+        });
+        const log = await TransactionLog.findByPk(transactionId);
+        applied.push({ transactionId, appliedAt: log!.appliedAt! });
+      }
+
+      for (const [index, { transactionId, appliedAt }] of applied.entries()) {
+        await expect(
+          TransactionHistoryService.getBalanceAsOf(wallet1.id, appliedAt.toISOString())
+        ).resolves.toMatchObject({
+          balance: expected[index],
+          anchorTransactionId: transactionId,
+          replayedTransactions: 0,
+        });
+      }
+    });
+
+    it('should replay transactions without a recorded balance-after', async () => {
+      const first = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.00',
+        idempotencyKey: 'as-of-replay-1',
+      });
+      const second = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '25.00',
+        idempotencyKey: 'as-of-replay-2',
+      });
+
+      // As resolved by stale PENDING recovery: no balances in metadata
+      await TransactionLog.update(
+        { metadata: { completedAt: new Date().toISOString() } },
+        { where: { id: second.transactionId } }
+      );
+
+      const anchored = await TransactionHistoryService.getBalanceAsOf(
+        wallet1.id,
+        new Date().toISOString()
+      );
+      expect(anchored).toMatchObject({
+        balance: '875.0000',
+        anchorTransactionId: first.transactionId,
+        replayedTransactions: 1,
+      });
+
+      // No usable snapshot at all: replay from the opening balance
+      await TransactionLog.update(
+        { metadata: { completedAt: new Date().toISOString() } },
+        { where: { id: first.transactionId } }
+      );
+
+      const replayed = await TransactionHistoryService.getBalanceAsOf(
+        wallet1.id,
+        new Date().toISOString()
+      );
+      expect(replayed).toMatchObject({
+        balance: '875.0000',
+        anchorTransactionId: null,
+        replayedTransactions: 2,
+      });
+    });
+
+    it('should anchor on the transaction applied last, not created last', async () => {
+      const { walletId, transferId, closingBalance } = await applyOutOfCreationOrder();
+
+      await expect(
+        TransactionHistoryService.getBalanceAsOf(walletId, new Date().toISOString())
+      ).resolves.toMatchObject({
+        balance: closingBalance,
+        anchorTransactionId: transferId,
+        replayedTransactions: 0,
+      });
+    });
+
+    it('should report zero before the wallet existed and reject future instants', async () => {
+      await expect(
+        TransactionHistoryService.getBalanceAsOf(wallet1.id, '2020-01-01T00:00:00Z')
+      ).resolves.toMatchObject({ balance: '0.0000', anchorTransactionId: null });
+
+      await expect(
+        TransactionHistoryService.getBalanceAsOf(
+          wallet1.id,
+          new Date(Date.now() + 60000).toISOString()
+        )
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+
+      await expect(
+        TransactionHistoryService.getBalanceAsOf(wallet1.id, 'yesterday')
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    });
+  });
+
+  describe('Statements', () => {
+    const exportStatement = async (from: Date, to: Date, format: StatementFormat) => {
+      const { header } = await StatementService.open({
+        walletId: wallet1.id,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        format,
+      });
+
+      let content = '';
+      await StatementService.stream(header, format, async (chunk) => {
+        content += chunk;
+      });
+      return content;
+    };
+
+    it('should list the period with opening, running and closing balances', async () => {
+      const start = new Date(Date.now() - 1000);
+
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '100.00',
+        idempotencyKey: 'statement-1',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const middle = new Date();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await TransferService.executeTransfer({
+        fromWalletId: wallet2.id,
+        toWalletId: wallet1.id,
+        amount: '40.00',
+        idempotencyKey: 'statement-2',
+      });
+      await WalletOperationService.withdraw({
+        walletId: wallet1.id,
+        amount: '15.00',
+        externalReference: 'statement-payout',
+        idempotencyKey: 'statement-3',
+      });
+      const end = new Date(Date.now() + 1000);
+
+      const whole = JSON.parse(await exportStatement(start, end, StatementFormat.JSON));
+      expect(whole).toMatchObject({
+        walletId: wallet1.id,
+        openingBalance: '1000.0000',
+        closingBalance: '925.0000',
+        transactionCount: 3,
+        totalCredits: '40.0000',
+        totalDebits: '115.0000',
+      });
+      expect(whole.transactions.map((line: any) => [line.amount, line.balance])).toEqual([
+        ['-100.0000', '900.0000'],
+        ['40.0000', '940.0000'],
+        ['-15.0000', '925.0000'],
+      ]);
+      expect(whole.transactions[2]).toMatchObject({
+        type: 'WITHDRAWAL',
+        counterpartyWalletId: null,
+        externalReference: 'statement-payout',
+      });
+
+      // A later period opens at the balance after the last earlier transaction
+      const later = JSON.parse(await exportStatement(middle, end, StatementFormat.JSON));
+      expect(later).toMatchObject({
+        openingBalance: '900.0000',
+        closingBalance: '925.0000',
+        transactionCount: 2,
+      });
+
+      const csv = await exportStatement(start, end, StatementFormat.CSV);
+      expect(csv.trimEnd().split('\n')).toHaveLength(7);
+      expect(verifyStatementChecksum(csv)).toBe(true);
+    });
+
+    it('should list transactions in the order they were applied', async () => {
+      const start = new Date(Date.now() - 1000);
+      const { walletId, transferId, depositId, closingBalance } =
+        await applyOutOfCreationOrder();
+
+      const { header } = await StatementService.open({
+        walletId,
+        from: start.toISOString(),
+        to: new Date(Date.now() + 1000).toISOString(),
+      });
+      let content = '';
+      await StatementService.stream(header, StatementFormat.JSON, async (chunk) => {
+        content += chunk;
+      });
+
+      const statement = JSON.parse(content);
+      expect(statement.transactions.map((line: any) => line.transactionId)).toEqual([
+        depositId,
+        transferId,
+      ]);
+      expect(statement.transactions[1].balance).toBe(closingBalance);
+      expect(statement.closingBalance).toBe(closingBalance);
+    });
+
+    it('should list every transaction once across batches', async () => {
+      const start = new Date(Date.now() - 1000);
+      const transactionIds: string[] = [];
+
+      for (let i = 0; i < 5; i++) {
+        const { transactionId } = await TransferService.executeTransfer({
+          fromWalletId: i % 2 === 0 ? wallet1.id : wallet2.id,
+          toWalletId: i % 2 === 0 ? wallet2.id : wallet1.id,
+          amount: '10.00',
+          idempotencyKey: `statement-batch-${i}`,
+        });
+        transactionIds.push(transactionId);
+      }
+
+      // Two logs applied in the same millisecond straddle a batch boundary
+      const shared = await TransactionLog.findByPk(transactionIds[1]);
+      await TransactionLog.update(
+        { appliedAt: shared!.appliedAt },
+        { where: { id: transactionIds[2] } }
+      );
+
+      const { BATCH_SIZE } = StatementService as unknown as { BATCH_SIZE: number };
+      Object.assign(StatementService, { BATCH_SIZE: 2 });
+      let statement;
+      try {
+        statement = JSON.parse(
+          await exportStatement(start, new Date(Date.now() + 1000), StatementFormat.JSON)
+        );
+      } finally {
+        Object.assign(StatementService, { BATCH_SIZE });
+      }
+
+      expect(statement).toMatchObject({
+        openingBalance: '1000.0000',
+        closingBalance: '990.0000',
+        transactionCount: 5,
+        totalCredits: '20.0000',
+        totalDebits: '30.0000',
+      });
+      expect(
+        statement.transactions.map((line: any) => line.transactionId).sort()
+      ).toEqual([...transactionIds].sort());
+    });
+
+    it('should carry the opening balance through an empty period', async () => {
+      const text = await exportStatement(
+        new Date('2020-01-01T00:00:00Z'),
+        new Date('2020-02-01T00:00:00Z'),
+        StatementFormat.TXT
+      );
+
+      expect(text).toMatch(/Opening balance\s+0\.0000\n/);
+      expect(text).toContain('Transactions:  0');
+      expect(verifyStatementChecksum(text)).toBe(true);
+    });
+
+    it('should reject invalid periods and formats', async () => {
+      await expect(
+        StatementService.open({ walletId: wallet1.id, from: '2026-02-01', to: '2026-01-01' })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+      await expect(
+        StatementService.open({
+          walletId: wallet1.id,
+          from: '2026-01-01',
+          to: '2026-02-01',
+          format: 'pdf' as StatementFormat,
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+    });
+  });
+
+  describe('Authentication', () => {
+    const customerScopes = [AuthScope.WALLETS_READ, AuthScope.TRANSFERS_WRITE];
+
+    const signed = (keyId: string, secret: string, overrides: Record<string, any> = {}) => {
+      const body = Buffer.from(JSON.stringify({ fromWalletId: wallet1.id }));
+      const request = {
+        keyId,
+        timestamp: String(Math.floor(Date.now() / 1000)),
+        nonce: `nonce-${Math.random().toString(36).slice(2)}-0000`,
+        method: 'POST',
+        path: '/api/transfer',
+        body,
+        ...overrides,
+      };
+
+      return {
+        ...request,
+        signature: signRequest(secret, {
+          method: request.method,
+          path: request.path,
+          timestamp: Number(request.timestamp),
+          nonce: request.nonce,
+          body,
+        }),
+      };
+    };
+
+    it('should authenticate an API key stored only as a hash', async () => {
+      const credential = await AuthService.createCredential({
+        principalId: 'user1',
+        scopes: customerScopes,
+      });
+
+      expect(credential.apiKey).toMatch(/^wk_[0-9a-f]{64}$/);
+      const stored = await ApiCredential.findByPk(credential.id);
+      expect(stored!.keyHash).not.toBe(credential.apiKey);
+      expect((await AuthService.listCredentials('user1'))[0].apiKey).toBeUndefined();
+
+      await expect(AuthService.authenticateApiKey(credential.apiKey!)).resolves.toEqual({
+        id: 'user1',
+        credentialId: credential.id,
+        type: ApiCredentialType.API_KEY,
+        scopes: customerScopes,
+      });
+
+      await expect(AuthService.authenticateApiKey('wk_unknown')).rejects.toMatchObject({
+        statusCode: 401,
+        code: 'UNAUTHENTICATED',
+      });
+
+      await AuthService.revokeCredential(credential.id);
+      await expect(AuthService.authenticateApiKey(credential.apiKey!)).rejects.toMatchObject({
+        statusCode: 401,
+      });
+    });
+
+    it('should authenticate a signed request once per nonce', async () => {
+      const credential = await AuthService.createCredential({
+        principalId: 'user1',
+        type: ApiCredentialType.HMAC,
+        scopes: customerScopes,
+      });
+      const request = signed(credential.id, credential.secret!);
+
+      await expect(AuthService.authenticateSignature(request)).resolves.toMatchObject({
+        id: 'user1',
+        type: ApiCredentialType.HMAC,
+      });
+
+      // Replay of the exact same request
+      await expect(AuthService.authenticateSignature(request)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Nonce already used',
+      });
+    });
+
+    it('should reject stale, tampered and wrongly keyed signatures', async () => {
+      const credential = await AuthService.createCredential({
+        principalId: 'user1',
+        type: ApiCredentialType.HMAC,
+        scopes: customerScopes,
+      });
+
+      const stale = signed(credential.id, credential.secret!, {
+        timestamp: String(Math.floor(Date.now() / 1000) - 3600),
+      });
+      await expect(AuthService.authenticateSignature(stale)).rejects.toMatchObject({
+        statusCode: 401,
+      });
+
+      const tampered = {
+        ...signed(credential.id, credential.secret!),
+        body: Buffer.from(JSON.stringify({ fromWalletId: wallet2.id })),
+      };
+      await expect(AuthService.authenticateSignature(tampered)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Invalid request signature',
+      });
+
+      const wrongKey = signed(credential.id, 'hs_not-the-secret');
+      await expect(AuthService.authenticateSignature(wrongKey)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Invalid request signature',
+      });
+    });
+
+    it('should sign over the raw bytes of form bodies', async () => {
+      const credential = await AuthService.createCredential({
+        principalId: 'user1',
+        type: ApiCredentialType.HMAC,
+        scopes: customerScopes,
+      });
+
+      const server = app.listen(0, '127.0.0.1');
+      await new Promise((resolve) => server.once('listening', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      // Signed with an empty body, sent with a form body
+      const timestamp = Math.floor(Date.now() / 1000);
+      const nonce = `nonce-${Math.random().toString(36).slice(2)}-0000`;
+      const signature = signRequest(credential.secret!, {
+        method: 'POST',
+        path: '/api/transfer',
+        timestamp,
+        nonce,
+        body: Buffer.alloc(0),
+      });
+
+      try {
+        const response = await fetch(`${base}/api/transfer`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'X-Key-Id': credential.id,
+            'X-Timestamp': String(timestamp),
+            'X-Nonce': nonce,
+            'X-Signature': signature,
+          },
+          body: new URLSearchParams({
+            fromWalletId: wallet1.id,
+            toWalletId: wallet2.id,
+            amount: '10.00',
+            idempotencyKey: 'signed-form-body',
+          }).toString(),
+        });
+
+        expect(response.status).toBe(401);
+        expect(((await response.json()) as any).error.message).toBe('Invalid request signature');
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+
+    it('should keep customer and admin scopes apart', async () => {
+      await expect(
+        AuthService.createCredential({
+          principalId: 'user1',
+          scopes: [AuthScope.TRANSFERS_WRITE, AuthScope.ADMIN_WRITE],
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+
+      const admin = await AuthService.createCredential({
+        principalId: 'ops',
+        scopes: [AuthScope.ADMIN_READ],
+      });
+      const principal = await AuthService.authenticateApiKey(admin.apiKey!);
+
+      expect(() => AuthService.assertScopes(principal, [AuthScope.ADMIN_READ])).not.toThrow();
+      expect(() => AuthService.assertScopes(principal, [AuthScope.TRANSFERS_WRITE])).toThrow(
+        expect.objectContaining({ statusCode: 403, code: 'FORBIDDEN' })
+      );
+    });
+
+    it('should keep deposits and withdrawals to service credentials', async () => {
+      await expect(
+        AuthService.createCredential({
+          principalId: 'user1',
+          scopes: [AuthScope.TRANSFERS_WRITE, AuthScope.DEPOSITS_WRITE],
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+
+      const customer = await AuthService.createCredential({
+        principalId: 'user1',
+        scopes: customerScopes,
+      });
+      const service = await AuthService.createCredential({
+        principalId: 'payments',
+        scopes: [AuthScope.DEPOSITS_WRITE],
+      });
+
+      const server = app.listen(0, '127.0.0.1');
+      await new Promise((resolve) => server.once('listening', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const deposit = (apiKey: string, key: string) =>
+        fetch(`${base}/api/wallet/${wallet1.id}/deposit`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Api-Key': apiKey },
+          body: JSON.stringify({
+            amount: '50.00',
+            externalReference: `ch_${key}`,
+            idempotencyKey: key,
+          }),
+        });
+
+      try {
+        // A customer key on its own wallet would mint money
+        const refused = await deposit(customer.apiKey!, 'auth-deposit-1');
+        expect(refused.status).toBe(403);
+        expect(((await refused.json()) as any).error.code).toBe('FORBIDDEN');
+
+        const accepted = await deposit(service.apiKey!, 'auth-deposit-2');
+        expect(accepted.status).toBe(200);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+
+      const balance = await TransferService.getWalletBalance(wallet1.id);
+      expect(balance.balance).toBe('1050.0000');
+    });
+
+    it('should only let a principal act on its own wallets', async () => {
+      const credential = await AuthService.createCredential({
+        principalId: 'user1',
+        scopes: customerScopes,
+      });
+      const principal = await AuthService.authenticateApiKey(credential.apiKey!);
+
+      await expect(AuthService.assertOwnsWallets(principal, [wallet1.id])).resolves.toBeUndefined();
+
+      await expect(
+        AuthService.assertOwnsWallets(principal, [wallet1.id, wallet2.id])
+      ).rejects.toMatchObject({
+        statusCode: 403,
+        code: 'FORBIDDEN',
+        details: { walletIds: [wallet2.id] },
+      });
+
+      // Unknown and malformed IDs are left to the handler's 404/400
+      await expect(
+        AuthService.assertOwnsWallets(principal, ['99999999-9999-9999-9999-999999999999', 'bad'])
+      ).resolves.toBeUndefined();
+    });
+
+    it('should record the authenticated principal as the audit actor', async () => {
+      const admin = await AuthService.createCredential({
+        principalId: 'ops:alice',
+        scopes: [AuthScope.ADMIN_WRITE],
+      });
+
+      const server = app.listen(0, '127.0.0.1');
+      await new Promise((resolve) => server.once('listening', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      try {
+        const frozen = await fetch(`${base}/api/wallets/${wallet1.id}/freeze`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Api-Key': admin.apiKey! },
+          body: JSON.stringify({ reason: 'Fraud investigation #42', actor: 'ops:mallory' }),
+        });
+        expect(frozen.status).toBe(200);
+        expect(((await frozen.json()) as any).statusHistory).toEqual([
+          expect.objectContaining({ toStatus: 'FROZEN', actor: 'ops:alice' }),
+        ]);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    it('should refuse requests over the window budget', async () => {
+      const bucket = { key: 'ratelimit:test:principal:user1', limit: 2, windowMs: 60000 };
+
+      const first = await RedisService.consumeRateLimit([bucket]);
+      const second = await RedisService.consumeRateLimit([bucket]);
+      const third = await RedisService.consumeRateLimit([bucket]);
+
+      expect(first).toMatchObject({ allowed: true, buckets: [{ count: 1 }] });
+      expect(second).toMatchObject({ allowed: true, buckets: [{ count: 2 }] });
+      expect(third).toMatchObject({ allowed: false, buckets: [{ count: 2 }] });
+      expect(third!.buckets[0].resetMs).toBeGreaterThan(0);
+      expect(third!.buckets[0].resetMs).toBeLessThanOrEqual(60000);
+    });
+
+    it('should count a request in every bucket or in none', async () => {
+      const principal = { key: 'ratelimit:test:principal:user1', limit: 10, windowMs: 60000 };
+      const wallet = { key: 'ratelimit:test:wallet:w1', limit: 1, windowMs: 60000 };
+
+      await RedisService.consumeRateLimit([principal, wallet]);
+      const refused = await RedisService.consumeRateLimit([principal, wallet]);
+
+      expect(refused!.allowed).toBe(false);
+      // The principal bucket was not charged for the refused request
+      expect(refused!.buckets[0].count).toBe(1);
+    });
+
+    it('should free budget as requests leave the sliding window', async () => {
+      const bucket = { key: 'ratelimit:test:ip:127.0.0.1', limit: 1, windowMs: 100 };
+
+      await RedisService.consumeRateLimit([bucket]);
+      expect((await RedisService.consumeRateLimit([bucket]))!.allowed).toBe(false);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect((await RedisService.consumeRateLimit([bucket]))!.allowed).toBe(true);
+    });
+
+    it('should report the source wallet budget as the binding one', async () => {
+      // Default transfer budgets: 120 per principal, 60 per wallet, 300 per IP
+      const result = await RateLimitService.consume(RateLimitPolicy.TRANSFER, {
+        principalId: 'user1',
+        walletIds: [wallet1.id],
+        ip: '127.0.0.1',
+      });
+
+      expect(result).toMatchObject({
+        allowed: true,
+        dimension: RateLimitDimension.WALLET,
+        bucket: { limit: 60, count: 1 },
+      });
+    });
+
+    it('should not charge a wallet for requests refused by ownership checks', async () => {
+      const scopes = [AuthScope.WALLETS_READ, AuthScope.TRANSFERS_WRITE];
+      const owner = await AuthService.createCredential({ principalId: 'user1', scopes });
+      const stranger = await AuthService.createCredential({ principalId: 'user2', scopes });
+
+      const server = app.listen(0, '127.0.0.1');
+      await new Promise((resolve) => server.once('listening', resolve));
+      const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const transfer = (apiKey: string, key: string) =>
+        fetch(`${base}/api/transfer`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Api-Key': apiKey },
+          body: JSON.stringify({
+            fromWalletId: wallet1.id,
+            toWalletId: wallet2.id,
+            amount: '10.00',
+            idempotencyKey: key,
+          }),
+        });
+
+      try {
+        const refused = await transfer(stranger.apiKey!, 'ratelimit-stranger');
+        expect(refused.status).toBe(403);
+        expect(refused.headers.get('RateLimit-Remaining')).toBeNull();
+
+        // wallet1's budget (60) binds and holds only the owner's request
+        const accepted = await transfer(owner.apiKey!, 'ratelimit-owner');
+        expect(accepted.status).toBe(200);
+        expect(accepted.headers.get('RateLimit-Remaining')).toBe('59');
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe('Metrics', () => {
+    const scrape = async (): Promise<string> => {
+      let body = '';
+      const res: any = {
+        status: () => res,
+        type: () => res,
+        send: (text: string) => {
+          body = text;
+        },
+      };
+      await metricsHandler({} as any, res, jest.fn());
+      return body;
+    };
+
+    const sample = (text: string, series: string): number => {
+      const line = text.split('\n').find((l) => l.startsWith(`${series} `));
+      return line ? Number(line.slice(series.length + 1)) : 0;
+    };
+
+    it('should serve /metrics on the metrics listener only', async () => {
+      const [server, metricsServer] = [app, metricsApp].map((target) =>
+        target.listen(0, '127.0.0.1')
+      );
+      await Promise.all(
+        [server, metricsServer].map(
+          (listener) => new Promise((resolve) => listener.once('listening', resolve))
+        )
+      );
+      const urlOf = (listener: http.Server) =>
+        `http://127.0.0.1:${(listener.address() as AddressInfo).port}/metrics`;
+
+      try {
+        expect((await fetch(urlOf(server))).status).toBe(404);
+
+        const scraped = await fetch(urlOf(metricsServer));
+        expect(scraped.status).toBe(200);
+        expect(await scraped.text()).toContain('wallet_transfers_total');
+      } finally {
+        await Promise.all(
+          [server, metricsServer].map(
+            (listener) => new Promise((resolve) => listener.close(resolve))
+          )
+        );
+      }
+    });
+
+    it('should count transfer outcomes by code and cache lookups', async () => {
+      const before = await scrape();
+
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '10.00',
+        idempotencyKey: 'metrics-1',
+      });
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '10.00',
+        idempotencyKey: 'metrics-1',
+      });
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet2.id,
+          toWalletId: wallet1.id,
+          amount: '100000.00',
+          idempotencyKey: 'metrics-2',
+        })
+      ).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+      const after = await scrape();
+      const delta = (series: string) => sample(after, series) - sample(before, series);
+
+      expect(delta('wallet_transfers_total{outcome="success",code="OK"}')).toBe(2);
+      expect(delta('wallet_transfers_total{outcome="error",code="INSUFFICIENT_BALANCE"}')).toBe(1);
+      expect(delta('wallet_idempotency_cache_lookups_total{result="hit"}')).toBe(1);
+      expect(delta('wallet_lock_wait_seconds_count{result="acquired"}')).toBe(2);
+      const dbTransactions = 'wallet_db_transaction_duration_seconds_count{operation="transfer"';
+      expect(delta(`${dbTransactions},result="commit"}`)).toBe(1);
+      expect(delta(`${dbTransactions},result="rollback"}`)).toBe(1);
+      expect(after).toContain('# TYPE wallet_transfer_duration_seconds histogram');
+    });
+
+    it('should count a contended lock once, however many retries it takes', async () => {
+      const before = await scrape();
+      const held = await RedisService.acquireLock('metrics-contended');
+
+      const waiting = RedisService.acquireLockWithRetry('metrics-contended');
+      // Several retries (100ms apart) go by before the holder lets go
+      await new Promise((resolve) => setTimeout(resolve, 350));
+      await RedisService.releaseLock(held!);
+      const lock = await waiting;
+
+      expect(lock).not.toBeNull();
+      await RedisService.releaseLock(lock!);
+
+      const after = await scrape();
+      expect(
+        sample(after, 'wallet_lock_contention_total') -
+          sample(before, 'wallet_lock_contention_total')
+      ).toBe(1);
+    });
+
+    it('should sample PENDING logs and pool usage on scrape', async () => {
+      await TransactionLog.create({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '1.0000',
+        idempotencyKey: 'metrics-pending',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      const text = await scrape();
+
+      expect(sample(text, 'wallet_pending_transactions')).toBe(1);
+      expect(sample(text, 'wallet_pending_oldest_age_seconds')).toBeGreaterThan(0);
+      expect(text).toMatch(/wallet_db_pool_connections\{state="max"\} \d+/);
+      expect(MetricsService.contentType).toMatch(/^text\/plain; version=0\.0\.4/);
+    });
+  });
+
+  describe('Request Context', () => {
+    it('should record the request ID and log with the transfer context', async () => {
+      const contexts: LogContext[] = [];
+      const info = jest.spyOn(logger, 'info').mockImplementation((message) => {
+        if (message === 'Transfer completed') {
+          contexts.push(getLogContext());
+        }
+      });
+
+      try {
+        const result = await runWithLogContext({ requestId: 'req-context-1' }, () =>
+          TransferService.executeTransfer({
+            fromWalletId: wallet1.id,
+            toWalletId: wallet2.id,
+            amount: '10.00',
+            idempotencyKey: 'context-1',
+          })
+        );
+
+        const log = await TransactionLog.findByPk(result.transactionId);
+        expect(log!.metadata).toMatchObject({ requestId: 'req-context-1' });
+        expect(contexts).toEqual([
+          {
+            requestId: 'req-context-1',
+            idempotencyKey: 'context-1',
+            walletIds: [wallet1.id, wallet2.id],
+            transactionId: result.transactionId,
+          },
+        ]);
+      } finally {
+        info.mockRestore();
+      }
+    });
+  });
+
+  describe('Tracing', () => {
+    const exporter = new InMemorySpanExporter();
+
+    beforeEach(() => {
+      exporter.reset();
+      tracer.useExporter(exporter);
+    });
+
+    afterEach(() => {
+      tracer.useExporter(null);
+    });
+
+    it('should trace each transfer step, with Redis and SQL spans, in one trace', async () => {
+      const result = await tracer.startActiveSpan('request', {}, () =>
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '10.00',
+          idempotencyKey: 'trace-1',
+        })
+      );
+      // The cache write is not awaited by the transfer
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const spans = exporter.getFinishedSpans();
+      const names = spans.map((span) => span.name);
+      const transfer = spans.find((span) => span.name === 'transfer')!;
+
+      expect(new Set(spans.map((span) => span.context.traceId)).size).toBe(1);
+      expect(transfer.attributes).toMatchObject({
+        'transfer.idempotency_key': 'trace-1',
+        'transaction.id': result.transactionId,
+      });
+      for (const step of [
+        'idempotency.cache_check',
+        'idempotency.lock_acquire',
+        'idempotency.db_lookup',
+        'transfer.lock_rows',
+        'transfer.update_balances',
+        'idempotency.cache_write',
+      ]) {
+        expect(spans.find((span) => span.name === step)?.parentSpanId).toBe(
+          transfer.context.spanId
+        );
+      }
+      expect(names).toContain('redis get');
+      expect(names).toContain('SELECT wallets');
+      expect(spans.find((span) => span.name === 'UPDATE wallets')?.attributes).toMatchObject({
+        'db.system': 'postgresql',
+        'db.operation': 'UPDATE',
+      });
+    });
+
+    it('should not trace outside a trace or when disabled', async () => {
+      tracer.useExporter(null);
+      await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '10.00',
+        idempotencyKey: 'trace-2',
+      });
+
+      expect(exporter.getFinishedSpans()).toHaveLength(0);
+    });
+  });
+
+  describe('Precision Handling', () => {
+    it('should handle decimal amounts with precision', async () => {
+      const result = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '123.45',
+        idempotencyKey: 'precision-test',
+      });
+
+      expect(result.success).toBe(true);
+      
+      // Should maintain 4 decimal places
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      const wallet2After = await Wallet.findByPk(wallet2.id);
+      
+      expect(wallet1After?.balance).toBe('876.5500');
+      expect(wallet2After?.balance).toBe('623.4500');
+    });
+
+    it('should reject amounts finer than the currency minor unit', async () => {
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '123.4567',
+          idempotencyKey: 'sub-cent-test',
+        })
+      ).rejects.toMatchObject({ code: 'AMOUNT_PRECISION_EXCEEDED' });
+
+      const log = await TransactionLog.findOne({ where: { idempotencyKey: 'sub-cent-test' } });
+      expect(log).toBeNull();
+    });
+
+    it('should keep balances near 10^15 exact', async () => {
+      await wallet1.update({ balance: '999999999999999.9999' });
+      await wallet2.update({ balance: '0.0000' });
+
+      const result = await TransferService.executeTransfer({
+        fromWalletId: wallet1.id,
+        toWalletId: wallet2.id,
+        amount: '0.01',
+        idempotencyKey: 'large-balance-test',
+      });
+
+      expect(result.fromBalance).toBe('999999999999999.9899');
+      expect(result.toBalance).toBe('0.0100');
+
+      const wallet1After = await Wallet.findByPk(wallet1.id);
+      expect(wallet1After?.balance).toBe('999999999999999.9899');
+    });
+
+    it('should reject amounts with more than 4 decimal places', async () => {
+      await expect(
+        TransferService.executeTransfer({
+          fromWalletId: wallet1.id,
+          toWalletId: wallet2.id,
+          amount: '1.00001',
+          idempotencyKey: 'too-precise',
+        })
+      ).rejects.toMatchObject({ code: 'AMOUNT_PRECISION_EXCEEDED' });
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+import { signWebhook, verifyWebhookSignature } from '../src/utils/webhookSignature';
+
+describe('Webhook signatures', () => {
+  const secret = 'whsec_test';
+  const body = JSON.stringify({ id: 'evt-1', type: 'transfer.succeeded' });
+
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const expected = crypto.createHmac('sha256', secret).update(`1700000000.${body}`).digest('hex');
+
+    expect(signWebhook(secret, 1700000000, body)).toBe(`sha256=${expected}`);
+  });
+
+  it('should verify only the exact secret, timestamp and body', () => {
+    const signature = signWebhook(secret, 1700000000, body);
+
+    expect(verifyWebhookSignature(secret, 1700000000, body, signature)).toBe(true);
+    expect(verifyWebhookSignature('other', 1700000000, body, signature)).toBe(false);
+    expect(verifyWebhookSignature(secret, 1700000001, body, signature)).toBe(false);
+    expect(verifyWebhookSignature(secret, 1700000000, `${body} `, signature)).toBe(false);
+    expect(verifyWebhookSignature(secret, 1700000000, body, 'sha256=00')).toBe(false);
+  });
+});